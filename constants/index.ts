@@ -1,5 +1,79 @@
-export const uniswapRouterAddress = "0x3322f84A829Ed1D675DDa0df97f041A6463a921D";
-export const uniswapFactoryAddress = "0x679261029c4e9B704bB54F6f4AF5241080191377";
-export const chainlinkAggregatorMockAddress = "0x85b2216085e71A6ACa87682E93158cb63e365826"; // Building token mock feed ($100)
-export const usdcAddress = "0x80304c8473A203c175A58eB6C1Fd0A825C3c9a78";
-export const trexFactoryAddress = "0x0d80931916A00212bd948624d1C55D2684b7B5Bd";
+import { ethers } from "hardhat";
+import { Deployment, getAtPath, getDeploymentFilePath, readDeployment, writeDeployment } from "../scripts/deployment-state";
+
+/**
+ * Contracts the suite depends on without deploying them, registered under `external`
+ * in the deployment file of each network.
+ */
+export type ExternalContract = "uniswapRouter" | "uniswapFactory" | "usdc" | "trexFactory" | "chainlinkAggregatorMock";
+
+// addresses of the shared testnet contracts, used when the deployment file does not register its own
+const knownAddresses: Record<string, Partial<Record<ExternalContract, string>>> = {
+    "296": {
+        uniswapRouter: "0x3322f84A829Ed1D675DDa0df97f041A6463a921D",
+        uniswapFactory: "0x679261029c4e9B704bB54F6f4AF5241080191377",
+        // building token mock feed ($100)
+        chainlinkAggregatorMock: "0x85b2216085e71A6ACa87682E93158cb63e365826",
+        usdc: "0x80304c8473A203c175A58eB6C1Fd0A825C3c9a78",
+        trexFactory: "0x0d80931916A00212bd948624d1C55D2684b7B5Bd",
+    },
+};
+
+// how to provide a missing address
+const hints: Record<string, string> = {
+    "external.uniswapRouter": "deploy it with scripts/deploy-uniswap.ts",
+    "external.uniswapFactory": "deploy it with scripts/deploy-uniswap.ts",
+    "external.usdc": "deploy it with scripts/deploy-usdc.ts",
+    "external.chainlinkAggregatorMock": "deploy it with scripts/building-slice/deploy-mock-price-feeds.ts",
+    "external.trexFactory": "register the TREX factory with registerExternalAddresses",
+};
+
+export class MissingAddressError extends Error {}
+
+async function getChainId(): Promise<bigint> {
+    return (await ethers.provider.getNetwork()).chainId;
+}
+
+/**
+ * Addresses of the active network: the deployment file, with the known external contracts
+ * of the network under `external` unless the file registers its own.
+ */
+export async function getAddressBook(chainId?: bigint): Promise<Deployment> {
+    const id = chainId ?? (await getChainId());
+    const deployment = await readDeployment(id);
+    return {
+        ...deployment,
+        external: { ...knownAddresses[id.toString()], ...deployment.external },
+    };
+}
+
+/**
+ * Resolves an address by its path in the address book (eg. "factories.BuildingFactory" or
+ * "external.usdc") on the active network, throws a MissingAddressError when it is not recorded.
+ */
+export async function resolveAddress(key: string): Promise<string> {
+    const chainId = await getChainId();
+    const address = getAtPath(await getAddressBook(chainId), key);
+    if (typeof address !== "string" || !ethers.isAddress(address)) {
+        throw new MissingAddressError(
+            `No ${key} address for chain ${chainId} in ${getDeploymentFilePath(chainId)}, ` +
+                (hints[key] ?? "deploy it with yarn deploy"),
+        );
+    }
+    return address;
+}
+
+export async function resolveExternalAddress(name: ExternalContract): Promise<string> {
+    return resolveAddress(`external.${name}`);
+}
+
+/**
+ * Registers the external contracts deployed on the active network (eg. by deploy-uniswap.ts on a
+ * local node) in its deployment file, where they take precedence over the known addresses.
+ */
+export async function registerExternalAddresses(addresses: Partial<Record<ExternalContract, string>>): Promise<void> {
+    const chainId = await getChainId();
+    const deployment = await readDeployment(chainId);
+    await writeDeployment(chainId, { ...deployment, external: { ...deployment.external, ...addresses } });
+    console.log(` - Registered ${Object.keys(addresses).join(", ")} in ${getDeploymentFilePath(chainId)}`);
+}
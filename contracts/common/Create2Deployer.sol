@@ -0,0 +1,58 @@
+//SPDX-License-Identifier: MIT
+pragma solidity 0.8.24;
+
+import {Address} from "@openzeppelin/contracts/utils/Address.sol";
+import {Create2} from "@openzeppelin/contracts/utils/Create2.sol";
+
+/**
+ * @title Create2 Deployer
+ *
+ * Deploys contracts at addresses known ahead of the deployment. Salts are scoped to the caller, so
+ * an address predicted for one account cannot be taken by another, and the calls made right after
+ * the deployment hand over to the caller what the constructor gave to this contract (ownership, roles).
+ */
+contract Create2Deployer {
+    /**
+     * @notice Deployed event.
+     * @dev Emitted after a contract is deployed and its calls are made.
+     *
+     * @param caller The account that requested the deployment.
+     * @param salt The salt given by the caller.
+     * @param deployed The address of the deployed contract.
+     */
+    event Deployed(address indexed caller, bytes32 indexed salt, address indexed deployed);
+
+    /**
+     * @dev Deploys `initCode` at the address given by `computeAddress(msg.sender, salt, keccak256(initCode))`
+     * then calls the deployed contract with each of `calls`, reverting the deployment if one fails.
+     *
+     * @param salt The salt of the deployment.
+     * @param initCode The creation code of the contract followed by its encoded constructor arguments.
+     * @param calls The calldata of the calls made to the deployed contract.
+     * @return deployed The address of the deployed contract.
+     */
+    function deploy(bytes32 salt, bytes calldata initCode, bytes[] calldata calls) external returns (address deployed) {
+        deployed = Create2.deploy(0, _scopedSalt(msg.sender, salt), initCode);
+
+        for (uint256 i = 0; i < calls.length; i++) {
+            Address.functionCall(deployed, calls[i]);
+        }
+
+        emit Deployed(msg.sender, salt, deployed);
+    }
+
+    /**
+     * @dev Returns the address a contract is deployed at.
+     *
+     * @param caller The account requesting the deployment.
+     * @param salt The salt of the deployment.
+     * @param initCodeHash The keccak256 hash of the init code.
+     */
+    function computeAddress(address caller, bytes32 salt, bytes32 initCodeHash) external view returns (address) {
+        return Create2.computeAddress(_scopedSalt(caller, salt), initCodeHash);
+    }
+
+    function _scopedSalt(address caller, bytes32 salt) private pure returns (bytes32) {
+        return keccak256(abi.encode(caller, salt));
+    }
+}
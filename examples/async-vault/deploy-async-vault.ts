@@ -2,7 +2,7 @@ import { ethers } from 'hardhat';
 import { ZeroAddress } from 'ethers';
 import { v4 as uuidv4 } from 'uuid';
 import { LogDescription } from 'ethers';
-import Deployments from '../../data/deployments/chain-296.json';
+import { resolveAddress } from '../../constants';
 
 const salt = `0x${uuidv4().replace(/-/g, '')}`; // generate salt
 
@@ -23,7 +23,7 @@ const feeConfig = {
 export async function deployAsyncVault(): Promise<string> {
     const [owner] = await ethers.getSigners();
 
-    const rewardToken = await ethers.getContractAt("VaultToken", Deployments.asyncVault.RewardToken);
+    const rewardToken = await ethers.getContractAt("VaultToken", await resolveAddress('asyncVault.RewardToken'));
     await rewardToken.mint(owner.address, initialRewardToMint);
 
     const VaultToken = await ethers.getContractFactory("VaultToken");
@@ -42,7 +42,7 @@ export async function deployAsyncVault(): Promise<string> {
         unlockDuration: unlockDuration
     }
 
-    const vaultFactory = await ethers.getContractAt('AsyncVaultFactory', Deployments.asyncVault.AsyncVaultFactory);
+    const vaultFactory = await ethers.getContractAt('AsyncVaultFactory', await resolveAddress('asyncVault.AsyncVaultFactory'));
 
     const tx = await vaultFactory.deployVault(
         salt,
@@ -1,13 +1,13 @@
 import { ethers } from 'hardhat';
-import Deployments from '../../data/deployments/chain-296.json';
+import { resolveAddress } from '../../constants';
 
 const assetsAmount = ethers.parseUnits("10", 18);
 
 export async function deposit() {
     const [owner] = await ethers.getSigners();
 
-    const vault = await ethers.getContractAt('AsyncVault', Deployments.asyncVault.AsyncVault);
-    const stakingToken = await ethers.getContractAt('VaultToken', Deployments.asyncVault.StakingToken);
+    const vault = await ethers.getContractAt('AsyncVault', await resolveAddress('asyncVault.AsyncVault'));
+    const stakingToken = await ethers.getContractAt('VaultToken', await resolveAddress('asyncVault.StakingToken'));
 
     // Request deposit
     await stakingToken.approve(vault.target, assetsAmount);
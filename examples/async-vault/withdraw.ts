@@ -1,5 +1,5 @@
 import { ethers } from 'hardhat';
-import Deployments from '../../data/deployments/chain-296.json';
+import { resolveAddress } from '../../constants';
 
 function delay(ms: number): Promise<void> {
     return new Promise((resolve) => setTimeout(resolve, ms));
@@ -11,8 +11,8 @@ const rewardAmount = ethers.parseUnits("50000000", 18);
 async function withdraw() {
     const [owner] = await ethers.getSigners();
 
-    const vault = await ethers.getContractAt('AsyncVault', Deployments.asyncVault.AsyncVault);
-    const rewardToken = await ethers.getContractAt('VaultToken', Deployments.asyncVault.RewardToken);
+    const vault = await ethers.getContractAt('AsyncVault', await resolveAddress('asyncVault.AsyncVault'));
+    const rewardToken = await ethers.getContractAt('VaultToken', await resolveAddress('asyncVault.RewardToken'));
     const stakingToken = await ethers.getContractAt('VaultToken', await vault.asset());
 
     // Request deposit
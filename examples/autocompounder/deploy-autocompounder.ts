@@ -1,8 +1,7 @@
 import { ethers } from 'hardhat';
 import { v4 as uuidv4 } from 'uuid';
 import { LogDescription, ZeroAddress } from 'ethers';
-import Deployments from '../../data/deployments/chain-296.json';
-import { uniswapRouterAddress } from '../../constants';
+import { resolveAddress, resolveExternalAddress } from '../../constants';
 
 import { deployVault } from '../vault/deploy-vault';
 
@@ -11,11 +10,11 @@ export async function deployAutoCompounder(): Promise<string> {
 
     const salt = `0x${uuidv4().replace(/-/g, '')}`; // generate salt
 
-    const rewardToken = await ethers.getContractAt('VaultToken', Deployments.vault.RewardToken);
-    const autoCompounderFactory = await ethers.getContractAt('AutoCompounderFactory', Deployments.autoCompounder.AutoCompounderFactory);
+    const rewardToken = await ethers.getContractAt('VaultToken', await resolveAddress('vault.RewardToken'));
+    const autoCompounderFactory = await ethers.getContractAt('AutoCompounderFactory', await resolveAddress('autoCompounder.AutoCompounderFactory'));
 
     const autoCompounderDetails = {
-        uniswapV2Router: uniswapRouterAddress,
+        uniswapV2Router: await resolveExternalAddress('uniswapRouter'),
         vault: await deployVault(),
         usdc: rewardToken.target,
         aTokenName: "aToken",
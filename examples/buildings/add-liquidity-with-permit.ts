@@ -1,8 +1,7 @@
 import { ethers } from "hardhat";
 import { TypedDataDomain } from "ethers";
 import { splitSignature } from "@ethersproject/bytes";
-import Deployments from '../../data/deployments/chain-296.json';
-import { usdcAddress, uniswapRouterAddress } from "../../constants";
+import { resolveAddress, resolveExternalAddress } from "../../constants";
 
 // Function to sign a permit for an ERC20 token
 // This function is used to sign the permit for the UniswapV2Router02's addLiquidityWithPermit function
@@ -62,14 +61,15 @@ async function main() {
   const [signer] = await ethers.getSigners();
 
   // Get the UniswapV2Router02 contract instance
-  // using the uniswapRouterAddress from constants
-  // or from the deployment data
+  // using the uniswapRouter address from the address book of the network
   // this is an updated router with the addLiquidityWithPermit function
+  const uniswapRouterAddress = await resolveExternalAddress('uniswapRouter');
+  const usdcAddress = await resolveExternalAddress('usdc');
   const router = await ethers.getContractAt("UniswapV2Router02", uniswapRouterAddress);
   
   // Get the BuildingFactory contract instance
   // using the address from the deployment data
-  const buildingFactory = await ethers.getContractAt('BuildingFactory', Deployments.factories.BuildingFactory);
+  const buildingFactory = await ethers.getContractAt('BuildingFactory', await resolveAddress('factories.BuildingFactory'));
 
   // Get the building details
   // assuming the building address is known
@@ -1,10 +1,12 @@
 import { ethers } from 'hardhat';
-import Deployments from  '../../data/deployments/chain-296.json';
-import { uniswapFactoryAddress, uniswapRouterAddress, usdcAddress } from '../../constants';
+import { resolveAddress, resolveExternalAddress } from '../../constants';
 
 async function addLiquidity(buildingAddress: string) {
   const [owner] = await ethers.getSigners();
-  const buildingFactory = await ethers.getContractAt('BuildingFactory', Deployments.factories.BuildingFactory);
+  const buildingFactory = await ethers.getContractAt('BuildingFactory', await resolveAddress('factories.BuildingFactory'));
+  const usdcAddress = await resolveExternalAddress('usdc');
+  const uniswapRouterAddress = await resolveExternalAddress('uniswapRouter');
+  const uniswapFactoryAddress = await resolveExternalAddress('uniswapFactory');
 
   const buildingDetails = await buildingFactory.getBuildingDetails(buildingAddress);
 
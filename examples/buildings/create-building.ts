@@ -1,13 +1,12 @@
 import { ethers } from 'hardhat';
-import Deployments from '../../data/deployments/chain-296.json';
-import { usdcAddress } from '../../constants';
+import { resolveAddress, resolveExternalAddress } from '../../constants';
 
 async function createBuilding() {
   const [owner] = await ethers.getSigners();
   
   const buildingFactory = await ethers.getContractAt(
     "BuildingFactory",
-    Deployments.factories.BuildingFactory
+    await resolveAddress('factories.BuildingFactory')
   );
 
   const buildingDetails = {
@@ -22,7 +21,7 @@ async function createBuilding() {
     vaultShareTokenName: 'Vault Token Name',
     vaultShareTokenSymbol: 'VTS',
     vaultFeeReceiver: owner,
-    vaultFeeToken: usdcAddress,
+    vaultFeeToken: await resolveExternalAddress('usdc'),
     vaultFeePercentage: 2000,
     vaultCliff: 0n,
     vaultUnlockDuration: 0n,
@@ -1,26 +1,10 @@
 import { ethers } from 'hardhat';
-import Deployments from '../../../data/deployments/chain-296.json';
-import { LogDescription } from 'ethers';
-import { BuildingFactory } from '../../../typechain-types';
-import {uniswapFactoryAddress, uniswapRouterAddress, usdcAddress} from "../../../constants";
-
-async function getDeployedBuilding(buildingFactory: BuildingFactory, blockNumber: number): Promise<unknown[]> {
-  // Decode the event using queryFilter
-  const logs = await buildingFactory.queryFilter(buildingFactory.filters.NewBuilding, blockNumber, blockNumber);
-  // Decode the log using the contract's interface
-  const event = logs[0]; // Get the first log
-  const decodedEvent = buildingFactory.interface.parseLog(event) as LogDescription;
-
-  // Extract and verify the emitted address
-  return decodedEvent.args as unknown[];
-}
+import { resolveAddress, resolveExternalAddress } from '../../../constants';
+import { BuildingSuite } from '../../../sdk/src';
 
 async function createBuilding(): Promise<string> {
   const [owner] = await ethers.getSigners();
-  const buildingFactory = await ethers.getContractAt(
-    "BuildingFactory",
-    Deployments.factories.BuildingFactory
-  );
+  const suite = BuildingSuite.connect(await resolveAddress('factories.BuildingFactory'), owner);
 
   const buildingDetails = {
     tokenURI: 'ipfs://bafkreifuy6zkjpyqu5ygirxhejoryt6i4orzjynn6fawbzsuzofpdgqscq', 
@@ -34,7 +18,7 @@ async function createBuilding(): Promise<string> {
     vaultShareTokenName: 'Vault Token Name',
     vaultShareTokenSymbol: 'VTS',
     vaultFeeReceiver: owner,
-    vaultFeeToken: usdcAddress,
+    vaultFeeToken: await resolveExternalAddress('usdc'),
     vaultFeePercentage: 2000,
     vaultCliff: 0n,
     vaultUnlockDuration: 0n,
@@ -42,26 +26,26 @@ async function createBuilding(): Promise<string> {
     aTokenSymbol: "ACTS"
   }
   
-  const tx = await buildingFactory.newBuilding(buildingDetails, { gasLimit: 6_000_000});  
-  await tx.wait();
-
-  const [building, token, treasury, vault, governance] = await getDeployedBuilding(buildingFactory, tx.blockNumber as number);
+  // validates the details, creates the building from the NewBuilding event and configures it
+  const { details } = await suite.createBuilding(buildingDetails);
 
-  console.log("- tx sent with hash" + tx.hash);
-  console.log("- created new building: ", building);
-  console.log("- created new token: ", token);
-  console.log("- created new treasury: ", treasury);
-  console.log("- created new vault: ", vault);
-  console.log("- created new governance: ", governance);
+  console.log("- created new building: ", details.addr);
+  console.log("- created new token: ", details.erc3643Token);
+  console.log("- created new treasury: ", details.treasury);
+  console.log("- created new vault: ", details.vault);
+  console.log("- created new governance: ", details.governance);
 
-  await mintAndDelegateTokens(token as string);
+  await mintAndDelegateTokens(details.erc3643Token);
 
-  return building as string;
+  return details.addr;
 }
 
 async function addLiquidity(buildingAddress: string) {
   const [owner] = await ethers.getSigners();
-  const buildingFactory = await ethers.getContractAt('BuildingFactory', Deployments.factories.BuildingFactory);
+  const buildingFactory = await ethers.getContractAt('BuildingFactory', await resolveAddress('factories.BuildingFactory'));
+  const usdcAddress = await resolveExternalAddress('usdc');
+  const uniswapRouterAddress = await resolveExternalAddress('uniswapRouter');
+  const uniswapFactoryAddress = await resolveExternalAddress('uniswapFactory');
 
   const buildingDetails = await buildingFactory.getBuildingDetails(buildingAddress);
 
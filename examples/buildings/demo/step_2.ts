@@ -1,7 +1,6 @@
 import { ethers } from 'hardhat';
 import { LogDescription } from 'ethers';
 import { BuildingGovernance } from '../../../typechain-types';
-import * as deployments from "../../../data/deployments/chain-296.json";
 
 async function getProposalId(buildingFactory: BuildingGovernance, blockNumber: number) {
   // Decode the event using queryFilter
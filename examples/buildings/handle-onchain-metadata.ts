@@ -1,17 +1,17 @@
 import { ethers } from 'hardhat';
-import Deployments from  '../../data/deployments/chain-296.json';
+import { resolveAddress } from '../../constants';
 import * as ERC721MetadataABI from '../../data/abis/ERC721Metadata.json';
 
 async function handleOnchainMetadata() {
   const [owner] = await ethers.getSigners();
 
   //BuildingFactoru
-  const buildingFactory = await ethers.getContractAt("BuildingFactory", Deployments.factories.BuildingFactory);
+  const buildingFactory = await ethers.getContractAt("BuildingFactory", await resolveAddress('factories.BuildingFactory'));
   const buildingAddress = "0x0f8CEC1b612c3827084C65dE7Bd5A6F4B47BE93d";
   
   // NFT collection
   const ERC721MetadataIface = new ethers.Interface(ERC721MetadataABI.abi);
-  const ERC721MetadataAddress = Deployments.implementations.ERC721Metadata; 
+  const ERC721MetadataAddress = await resolveAddress('implementations.ERC721Metadata');
   const ERC721Metadata = await ethers.getContractAt("ERC721Metadata", ERC721MetadataAddress);
   const [_addr, NFT_ID] = await buildingFactory.getBuildingDetails(buildingAddress);
   
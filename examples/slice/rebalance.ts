@@ -1,7 +1,5 @@
 import { ethers } from 'hardhat';
-import Deployments from '../../data/deployments/chain-296.json';
-
-import { uniswapRouterAddress } from '../../constants';
+import { resolveAddress, resolveExternalAddress } from '../../constants';
 
 function delay(ms: number): Promise<void> {
     return new Promise((resolve) => setTimeout(resolve, ms));
@@ -13,9 +11,9 @@ const rewardAmount = ethers.parseUnits("50000000", 18);
 export async function rebalance() {
     const [owner] = await ethers.getSigners();
 
-    const rewardToken = await ethers.getContractAt('VaultToken', Deployments.vault.RewardToken);
-    const uniswapV2Router02 = await ethers.getContractAt("UniswapRouterMock", uniswapRouterAddress);
-    const slice = await ethers.getContractAt("Slice", Deployments.slice.Slice);
+    const rewardToken = await ethers.getContractAt('VaultToken', await resolveAddress('vault.RewardToken'));
+    const uniswapV2Router02 = await ethers.getContractAt("UniswapRouterMock", await resolveExternalAddress('uniswapRouter'));
+    const slice = await ethers.getContractAt("Slice", await resolveAddress('slice.Slice'));
 
     // Get all staking tokens
     const allocations = await slice.allocations();
@@ -1,8 +1,7 @@
 import { ethers } from 'hardhat';
 import { v4 as uuidv4 } from 'uuid';
 import { LogDescription } from 'ethers';
-import Deployments from '../../data/deployments/chain-296.json';
-import { uniswapRouterAddress, chainlinkAggregatorMockAddress } from '../../constants';
+import { resolveAddress, resolveExternalAddress } from '../../constants';
 
 import { deployAutoCompounder } from '../autocompounder/deploy-autocompounder';
 
@@ -19,11 +18,11 @@ export async function setupSlice() {
     const autoCompounder1 = await deployAutoCompounder();
     const autoCompounder2 = await deployAutoCompounder();
 
-    const rewardToken = await ethers.getContractAt('VaultToken', Deployments.vault.RewardToken);
-    const sliceFactory = await ethers.getContractAt('SliceFactory', Deployments.slice.SliceFactory);
+    const rewardToken = await ethers.getContractAt('VaultToken', await resolveAddress('vault.RewardToken'));
+    const sliceFactory = await ethers.getContractAt('SliceFactory', await resolveAddress('slice.SliceFactory'));
 
     const sliceDetails = {
-        uniswapRouter: uniswapRouterAddress,
+        uniswapRouter: await resolveExternalAddress('uniswapRouter'),
         usdc: rewardToken.target,
         name: "sToken",
         symbol: "sToken",
@@ -47,8 +46,9 @@ export async function setupSlice() {
 
     const slice = await ethers.getContractAt("Slice", newSliceAddress);
 
-    const allocationTx1 = await slice.addAllocation(autoCompounder1, chainlinkAggregatorMockAddress, allocationPercentage1);
-    const allocationTx2 = await slice.addAllocation(autoCompounder2, chainlinkAggregatorMockAddress, allocationPercentage2);
+    const priceFeed = await resolveExternalAddress('chainlinkAggregatorMock');
+    const allocationTx1 = await slice.addAllocation(autoCompounder1, priceFeed, allocationPercentage1);
+    const allocationTx2 = await slice.addAllocation(autoCompounder2, priceFeed, allocationPercentage2);
     console.log(`Allocations setup: ${allocationTx1.hash}\n${allocationTx2.hash}`);
 }
 
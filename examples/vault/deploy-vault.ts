@@ -2,7 +2,7 @@ import { ethers } from 'hardhat';
 import { ZeroAddress } from 'ethers';
 import { v4 as uuidv4 } from 'uuid';
 import { LogDescription } from 'ethers';
-import Deployments from '../../data/deployments/chain-296.json';
+import { resolveAddress } from '../../constants';
 
 const cliff = 30;
 const unlockDuration = 60;
@@ -23,7 +23,7 @@ export async function deployVault(): Promise<string> {
 
     const salt = `0x${uuidv4().replace(/-/g, '')}`; // generate salt
 
-    const rewardToken = await ethers.getContractAt("VaultToken", Deployments.vault.RewardToken);
+    const rewardToken = await ethers.getContractAt("VaultToken", await resolveAddress('vault.RewardToken'));
     await rewardToken.mint(owner.address, initialRewardToMint);
 
     const VaultToken = await ethers.getContractFactory("VaultToken");
@@ -42,7 +42,7 @@ export async function deployVault(): Promise<string> {
         unlockDuration: unlockDuration
     }
 
-    const vaultFactory = await ethers.getContractAt('VaultFactory', Deployments.vault.VaultFactory);
+    const vaultFactory = await ethers.getContractAt('VaultFactory', await resolveAddress('vault.VaultFactory'));
 
     const tx = await vaultFactory.deployVault(
         salt,
@@ -1,13 +1,13 @@
 import { ethers } from 'hardhat';
-import Deployments from '../../data/deployments/chain-296.json';
+import { resolveAddress } from '../../constants';
 
 const assetsAmount = ethers.parseUnits("10", 18);
 
 export async function deposit() {
     const [owner] = await ethers.getSigners();
 
-    // const vault = await ethers.getContractAt('BasicVault', Deployments.vault.Vault);
-    // const stakingToken = await ethers.getContractAt('VaultToken', Deployments.vault.StakingToken);
+    // const vault = await ethers.getContractAt('BasicVault', await resolveAddress('vault.Vault'));
+    // const stakingToken = await ethers.getContractAt('VaultToken', await resolveAddress('vault.StakingToken'));
 
     // await stakingToken.approve(vault.target, assetsAmount);
 
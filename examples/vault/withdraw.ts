@@ -1,5 +1,5 @@
 import { ethers } from 'hardhat';
-import Deployments from '../../data/deployments/chain-296.json';
+import { resolveAddress } from '../../constants';
 
 function delay(ms: number): Promise<void> {
     return new Promise((resolve) => setTimeout(resolve, ms));
@@ -11,8 +11,8 @@ const rewardAmount = ethers.parseUnits("50000000", 18);
 async function withdraw() {
     const [owner] = await ethers.getSigners();
 
-    const vault = await ethers.getContractAt('BasicVault', Deployments.vault.Vault);
-    const rewardToken = await ethers.getContractAt('VaultToken', Deployments.vault.RewardToken);
+    const vault = await ethers.getContractAt('BasicVault', await resolveAddress('vault.Vault'));
+    const rewardToken = await ethers.getContractAt('VaultToken', await resolveAddress('vault.RewardToken'));
     const stakingToken = await ethers.getContractAt("VaultToken", await vault.asset());
 
     // Deposit
@@ -43,6 +43,11 @@ const config: HardhatUserConfig = {
       url: RPC_URL,
       accounts: [PRIVATE_KEY],
     },
+    local: {
+      chainId: 298, // hedera local node chainId
+      url: process.env.LOCAL_RPC_URL || "http://127.0.0.1:7546",
+      accounts: [PRIVATE_KEY],
+    },
     hardhat: {
       blockGasLimit: 9999999999999,
       gas: 30000000,
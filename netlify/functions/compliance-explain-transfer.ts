@@ -0,0 +1,26 @@
+import { JsonRpcProvider } from "ethers";
+import { explainTransfer } from "../../sdk/src/compliance";
+import { defineHandler, route } from "./shared/handler";
+import { address, object, string } from "./shared/schema";
+
+export const handler = defineHandler({
+  name: "compliance-explain-transfer",
+  env: ["RPC_URL"],
+  routes: {
+    POST: route({
+      scope: "read",
+      body: object({
+        token: address(),
+        from: address(),
+        to: address(),
+        amount: string({ pattern: /^\d+$/, description: "an amount in the smallest unit of the token" }),
+      }),
+      async handle({ body: { token, from, to, amount } }) {
+        const provider = new JsonRpcProvider(process.env.RPC_URL);
+        const explanation = await explainTransfer(token, from, to, BigInt(amount), provider);
+
+        return { data: { ...explanation, amount } };
+      },
+    }),
+  },
+});
@@ -1,31 +1,19 @@
-import { Handler } from '@netlify/functions'
+import { defineHandler, route } from "./shared/handler";
 
-export const handler: Handler = async (event, context) => {
-  const headers = {
-    'Access-Control-Allow-Origin': '*',
-    'Access-Control-Allow-Headers': 'Content-Type',
-    'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE',
-  };
-
-  if (event.httpMethod === 'OPTIONS') {
-    return {
-      statusCode: 200,
-      headers,
-      body: '',
-    };
-  }
-
-  return {
-    statusCode: 200,
-    headers: {
-      ...headers,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      status: 'healthy',
-      timestamp: new Date().toISOString(),
-      environment: process.env.NODE_ENV || 'development',
-      function: 'health-check'
+export const handler = defineHandler({
+  name: "health",
+  routes: {
+    GET: route({
+      async handle() {
+        return {
+          data: {
+            status: "healthy",
+            timestamp: new Date().toISOString(),
+            environment: process.env.NODE_ENV || "development",
+            function: "health-check",
+          },
+        };
+      },
     }),
-  };
-}; 
+  },
+});
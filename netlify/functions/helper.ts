@@ -1,7 +1,10 @@
-import { AccountId, Client, ContractId, PrivateKey } from "@hashgraph/sdk";
+import { ContractId } from "@hashgraph/sdk";
 import { config } from "dotenv";
+import { createClientFromEnv } from "./shared/hedera-client";
 config();
 
+export type KeeperClient = ReturnType<typeof getClient>;
+
 export function getClient() {
   const accountId = process.env.ACCOUNT_ID;
   const privateKey = process.env.PRIVATE_KEY;
@@ -11,10 +14,9 @@ export function getClient() {
     throw new Error('Missing required environment variables');
   }
 
-  const operatorKey = PrivateKey.fromStringECDSA(privateKey);
-  const operatorId = AccountId.fromString(accountId);
+  // network, key type and custom nodes come from HEDERA_* variables, see shared/hedera-client.ts
+  const { client, operatorId, operatorKey } = createClientFromEnv(accountId, privateKey);
   const contractId = ContractId.fromEvmAddress(0, 0, contractAddress);
-  const client = Client.forTestnet().setOperator(operatorId, operatorKey);
 
   return {
     client,
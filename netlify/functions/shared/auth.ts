@@ -0,0 +1,318 @@
+import { connectLambda, getStore } from "@netlify/blobs";
+import { HandlerEvent } from "@netlify/functions";
+import { createHash, timingSafeEqual } from "crypto";
+import { getAddress, isAddress, verifyMessage } from "ethers";
+
+export type Scope = "read" | "register" | "remove" | "execute";
+
+export const SCOPES: Scope[] = ["read", "register", "remove", "execute"];
+
+export interface Principal {
+  // api key name or signer address
+  id: string;
+  method: "api-key" | "eip191" | "disabled";
+  scopes: Scope[];
+}
+
+export type AuthResult =
+  | { authorized: true; principal: Principal }
+  | { authorized: false; statusCode: 401 | 403; error: string; message: string };
+
+/**
+ * An authenticator identifies the caller of a request. It returns null when the request
+ * does not carry its credentials, and throws when the credentials are present but invalid.
+ */
+export interface Authenticator {
+  authenticate(event: HandlerEvent): Promise<Principal | null>;
+}
+
+// signed requests older than this are rejected, a signature is only remembered that long
+const SIGNATURE_MAX_AGE_MS = 5 * 60 * 1000;
+
+/**
+ * Remembers the signatures already accepted. `claim` returns false when the key was claimed
+ * before and has not expired yet.
+ */
+export interface SignatureReplayStore {
+  claim(key: string, expiresAt: number): Promise<boolean>;
+}
+
+/**
+ * Replay store of a single function instance, used locally and when Netlify Blobs is not available.
+ */
+export class MemorySignatureReplayStore implements SignatureReplayStore {
+  private claimed = new Map<string, number>();
+
+  async claim(key: string, expiresAt: number): Promise<boolean> {
+    const now = Date.now();
+    for (const [claimedKey, claimedUntil] of this.claimed) {
+      if (claimedUntil < now) {
+        this.claimed.delete(claimedKey);
+      }
+    }
+
+    if (this.claimed.has(key)) {
+      return false;
+    }
+    this.claimed.set(key, expiresAt);
+    return true;
+  }
+}
+
+/**
+ * Replay store shared by every function instance, the write only succeeds for a new key.
+ * Lambda compatible handlers must call `connectLambda(event)` before using it.
+ */
+export class BlobSignatureReplayStore implements SignatureReplayStore {
+  private store = getStore("upkeeper-signatures");
+
+  async claim(key: string, expiresAt: number): Promise<boolean> {
+    const { modified } = await this.store.set(key, String(expiresAt), { onlyIfNew: true });
+    return modified;
+  }
+}
+
+const memoryReplayStore = new MemorySignatureReplayStore();
+
+/**
+ * Uses Netlify Blobs when the event carries its context, which Netlify injects at runtime,
+ * and falls back to the memory of the instance otherwise.
+ */
+export function getSignatureReplayStore(event: HandlerEvent): SignatureReplayStore {
+  if (!("blobs" in event) || !event.blobs) {
+    return memoryReplayStore;
+  }
+
+  connectLambda(event as unknown as Parameters<typeof connectLambda>[0]);
+  return new BlobSignatureReplayStore();
+}
+
+function getHeader(event: HandlerEvent, name: string): string | undefined {
+  const entry = Object.entries(event.headers || {}).find(([key]) => key.toLowerCase() === name);
+  return entry?.[1];
+}
+
+function parseScopes(scopes: unknown, owner: string): Scope[] {
+  if (!Array.isArray(scopes) || scopes.some((scope) => !SCOPES.includes(scope))) {
+    throw new Error(`Invalid scopes for ${owner}, expected a subset of ${SCOPES.join(", ")}`);
+  }
+  return scopes;
+}
+
+function sha256(value: string) {
+  return createHash("sha256").update(value).digest("hex");
+}
+
+/**
+ * Authenticates `Authorization: Bearer <key>` or `X-Api-Key: <key>` against API_KEYS,
+ * a JSON array of { name, keyHash, scopes } where keyHash is the sha256 hex digest of the key.
+ */
+export class ApiKeyAuthenticator implements Authenticator {
+  private keys: { name: string; keyHash: Buffer; scopes: Scope[] }[];
+
+  constructor(config: string) {
+    const parsed = JSON.parse(config) as { name: string; keyHash: string; scopes: Scope[] }[];
+    if (!Array.isArray(parsed)) {
+      throw new Error("API_KEYS must be a JSON array");
+    }
+
+    this.keys = parsed.map(({ name, keyHash, scopes }) => {
+      if (!name || !/^[a-fA-F0-9]{64}$/.test(keyHash || "")) {
+        throw new Error(`Invalid API key entry ${name}, expected a name and a sha256 keyHash`);
+      }
+      return { name, keyHash: Buffer.from(keyHash, "hex"), scopes: parseScopes(scopes, name) };
+    });
+  }
+
+  async authenticate(event: HandlerEvent): Promise<Principal | null> {
+    const authorization = getHeader(event, "authorization");
+    const key = authorization?.startsWith("Bearer ") ? authorization.slice(7).trim() : getHeader(event, "x-api-key");
+    if (!key) {
+      return null;
+    }
+
+    const hash = Buffer.from(sha256(key), "hex");
+    const match = this.keys.find((entry) => timingSafeEqual(entry.keyHash, hash));
+    if (!match) {
+      throw new Error("Invalid API key");
+    }
+
+    return { id: match.name, method: "api-key", scopes: match.scopes };
+  }
+}
+
+/**
+ * Authenticates requests signed with EIP-191 (personal_sign) by an address of API_SIGNERS,
+ * a JSON object of address to scopes. The signed message is
+ * `${method}\n${path}\n${query}\n${X-Timestamp}\n${sha256(body)}` and is sent with the
+ * X-Signer, X-Signature and X-Timestamp (ms) headers. A signer can only use a timestamp once.
+ */
+export class Eip191Authenticator implements Authenticator {
+  private signers: Record<string, Scope[]> = {};
+
+  constructor(
+    config: string,
+    private readonly replayStore: SignatureReplayStore = memoryReplayStore,
+  ) {
+    const parsed = JSON.parse(config) as Record<string, Scope[]>;
+    for (const [address, scopes] of Object.entries(parsed)) {
+      if (!isAddress(address)) {
+        throw new Error(`Invalid signer address in API_SIGNERS: ${address}`);
+      }
+      this.signers[getAddress(address)] = parseScopes(scopes, address);
+    }
+  }
+
+  /**
+   * The query string sorted by key then value, so that clients and proxies reordering the
+   * parameters produce the same message.
+   */
+  static canonicalQuery(rawQuery: string | undefined) {
+    const params = [...new URLSearchParams(rawQuery || "")];
+    params.sort(([keyA, valueA], [keyB, valueB]) =>
+      keyA === keyB ? (valueA < valueB ? -1 : valueA > valueB ? 1 : 0) : keyA < keyB ? -1 : 1,
+    );
+    return new URLSearchParams(params).toString();
+  }
+
+  static message(event: HandlerEvent, timestamp: string) {
+    const query = Eip191Authenticator.canonicalQuery(event.rawQuery);
+    return `${event.httpMethod}\n${event.path}\n${query}\n${timestamp}\n${sha256(event.body || "")}`;
+  }
+
+  async authenticate(event: HandlerEvent): Promise<Principal | null> {
+    const signer = getHeader(event, "x-signer");
+    const signature = getHeader(event, "x-signature");
+    const timestamp = getHeader(event, "x-timestamp");
+    if (!signer || !signature || !timestamp) {
+      return null;
+    }
+
+    if (!isAddress(signer) || !this.signers[getAddress(signer)]) {
+      throw new Error("Unknown signer");
+    }
+
+    if (!(Math.abs(Date.now() - Number(timestamp)) <= SIGNATURE_MAX_AGE_MS)) {
+      throw new Error("Signature timestamp is missing or expired");
+    }
+
+    const recovered = verifyMessage(Eip191Authenticator.message(event, timestamp), signature);
+    if (getAddress(recovered) !== getAddress(signer)) {
+      throw new Error("Invalid signature");
+    }
+
+    const claimed = await this.replayStore.claim(
+      `${getAddress(signer)}:${timestamp}`,
+      Number(timestamp) + SIGNATURE_MAX_AGE_MS,
+    );
+    if (!claimed) {
+      throw new Error("Signature already used");
+    }
+
+    return { id: getAddress(signer), method: "eip191", scopes: this.signers[getAddress(signer)] };
+  }
+}
+
+/**
+ * Builds the authenticators configured in the environment. Setting AUTH_DISABLED=true
+ * skips authentication entirely and is only meant for local development.
+ */
+export function getAuthenticators(replayStore?: SignatureReplayStore): Authenticator[] {
+  const authenticators: Authenticator[] = [];
+
+  if (process.env.API_KEYS) {
+    authenticators.push(new ApiKeyAuthenticator(process.env.API_KEYS));
+  }
+
+  if (process.env.API_SIGNERS) {
+    authenticators.push(new Eip191Authenticator(process.env.API_SIGNERS, replayStore));
+  }
+
+  return authenticators;
+}
+
+/**
+ * Checks that the caller is allowed to perform an operation of the given scope.
+ */
+export async function authorize(
+  event: HandlerEvent,
+  scope: Scope,
+  authenticators: Authenticator[] = getAuthenticators(getSignatureReplayStore(event)),
+): Promise<AuthResult> {
+  if (!isOriginAllowed(event)) {
+    return { authorized: false, statusCode: 403, error: "Forbidden", message: "Origin not allowed" };
+  }
+
+  if (process.env.AUTH_DISABLED === "true") {
+    return { authorized: true, principal: { id: "anonymous", method: "disabled", scopes: SCOPES } };
+  }
+
+  for (const authenticator of authenticators) {
+    let principal: Principal | null;
+    try {
+      principal = await authenticator.authenticate(event);
+    } catch (error) {
+      return {
+        authorized: false,
+        statusCode: 401,
+        error: "Unauthorized",
+        message: error instanceof Error ? error.message : "Invalid credentials",
+      };
+    }
+
+    if (!principal) {
+      continue;
+    }
+
+    if (!principal.scopes.includes(scope)) {
+      return {
+        authorized: false,
+        statusCode: 403,
+        error: "Forbidden",
+        message: `${principal.id} is missing the ${scope} scope`,
+      };
+    }
+
+    return { authorized: true, principal };
+  }
+
+  return { authorized: false, statusCode: 401, error: "Unauthorized", message: "Missing credentials" };
+}
+
+/**
+ * Origins allowed to call the functions: ALLOWED_ORIGINS (comma separated) plus the
+ * site's own URLs provided by Netlify.
+ */
+export function getAllowedOrigins(): string[] {
+  return [
+    ...(process.env.ALLOWED_ORIGINS || "").split(","),
+    process.env.URL || "",
+    process.env.DEPLOY_PRIME_URL || "",
+  ]
+    .map((origin) => origin.trim().replace(/\/$/, ""))
+    .filter(Boolean);
+}
+
+// requests without Origin header do not come from a browser, CORS does not apply to them
+function isOriginAllowed(event: HandlerEvent) {
+  const origin = getHeader(event, "origin");
+  return !origin || getAllowedOrigins().includes(origin);
+}
+
+/**
+ * CORS headers echoing the request origin when it is allowed, instead of a wildcard.
+ */
+export function corsHeaders(event: HandlerEvent, methods = "GET, POST, OPTIONS"): Record<string, string> {
+  const origin = getHeader(event, "origin");
+  const headers: Record<string, string> = {
+    "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Api-Key, X-Signer, X-Signature, X-Timestamp",
+    "Access-Control-Allow-Methods": methods,
+    Vary: "Origin",
+  };
+
+  if (origin && getAllowedOrigins().includes(origin)) {
+    headers["Access-Control-Allow-Origin"] = origin;
+  }
+
+  return headers;
+}
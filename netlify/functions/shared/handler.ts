@@ -0,0 +1,175 @@
+import { Handler, HandlerEvent, HandlerResponse } from "@netlify/functions";
+import { authorize, corsHeaders, Principal, Scope } from "./auth";
+import { Schema, SchemaError } from "./schema";
+
+export type ErrorCode =
+  | "METHOD_NOT_ALLOWED"
+  | "UNAUTHORIZED"
+  | "FORBIDDEN"
+  | "INVALID_BODY"
+  | "INVALID_QUERY"
+  | "MISSING_ENVIRONMENT"
+  | "NOT_FOUND"
+  | "PARTIAL_FAILURE"
+  | "EXECUTION_FAILED"
+  | "INTERNAL_ERROR";
+
+/**
+ * Every function answers with the same envelope:
+ * `{ success: true, data }` or `{ success: false, error: { code, message, details? }, data? }`.
+ */
+export interface ApiResponseBody<T> {
+  success: boolean;
+  data?: T;
+  error?: { code: ErrorCode; message: string; details?: unknown };
+}
+
+export class ApiError extends Error {
+  constructor(
+    public readonly statusCode: number,
+    public readonly code: ErrorCode,
+    message: string,
+    public readonly details?: unknown,
+  ) {
+    super(message);
+  }
+}
+
+export interface RouteContext<B, Q> {
+  event: HandlerEvent;
+  body: B;
+  query: Q;
+  principal: Principal | null;
+}
+
+/**
+ * What a route returns. `error` lets a route report a failure while still returning data,
+ * eg. an execution run where only some tasks failed.
+ */
+export interface RouteResult<T> {
+  statusCode?: number;
+  data: T;
+  error?: { code: ErrorCode; message: string };
+}
+
+export interface Route<B, Q, T> {
+  // scope required from the caller, routes without scope are public
+  scope?: Scope;
+  body?: Schema<B>;
+  query?: Schema<Q>;
+  handle(context: RouteContext<B, Q>): Promise<RouteResult<T>>;
+}
+
+/**
+ * Declares a route, inferring the types of its body and query from their schemas.
+ */
+export function route<B = undefined, Q = undefined, T = unknown>(definition: Route<B, Q, T>): Route<B, Q, T> {
+  return definition;
+}
+
+type Method = "GET" | "POST" | "PUT" | "DELETE";
+
+export interface HandlerDefinition {
+  name: string;
+  // environment variables the routes cannot work without
+  env?: string[];
+  // declared with `route`, which types the body and query of each route from its schemas
+  routes: Partial<Record<Method, Route<unknown, unknown, unknown>>>;
+}
+
+// environment needed by every function operating the UpKeeper contract
+export const UPKEEPER_ENV = ["ACCOUNT_ID", "PRIVATE_KEY", "CONTRACT_ADDRESS"];
+
+/**
+ * Creates a Netlify handler answering preflight requests, routing by method, authorizing
+ * the caller, validating body and query, and turning every failure into the error envelope.
+ */
+export function defineHandler(definition: HandlerDefinition): Handler {
+  const methods = Object.keys(definition.routes) as Method[];
+
+  return async (event) => {
+    const headers = { ...corsHeaders(event, [...methods, "OPTIONS"].join(", ")), "Content-Type": "application/json" };
+
+    const respond = <T>(statusCode: number, body: ApiResponseBody<T>): HandlerResponse => ({
+      statusCode,
+      headers,
+      body: JSON.stringify(body),
+    });
+
+    if (event.httpMethod === "OPTIONS") {
+      return { statusCode: 200, headers, body: "" };
+    }
+
+    try {
+      const route = definition.routes[event.httpMethod as Method];
+      if (!route) {
+        throw new ApiError(405, "METHOD_NOT_ALLOWED", `Method ${event.httpMethod} not allowed, use ${methods.join(", ")}`);
+      }
+
+      let principal: Principal | null = null;
+      if (route.scope) {
+        const auth = await authorize(event, route.scope);
+        if (!auth.authorized) {
+          throw new ApiError(auth.statusCode, auth.statusCode === 401 ? "UNAUTHORIZED" : "FORBIDDEN", auth.message);
+        }
+        principal = auth.principal;
+      }
+
+      const missing = (definition.env ?? []).filter((name) => !process.env[name]);
+      if (missing.length > 0) {
+        throw new ApiError(500, "MISSING_ENVIRONMENT", `${missing.join(", ")} must be set`, { missing });
+      }
+
+      const body = route.body ? parseInput(route.body, parseJsonBody(event), "body", "INVALID_BODY") : undefined;
+      const query = route.query
+        ? parseInput(route.query, event.queryStringParameters ?? {}, "query", "INVALID_QUERY")
+        : undefined;
+
+      const result = await route.handle({ event, body, query, principal });
+      const statusCode = result.statusCode ?? 200;
+
+      if (result.error) {
+        return respond(statusCode, { success: false, data: result.data, error: result.error });
+      }
+
+      return respond(statusCode, { success: true, data: result.data });
+    } catch (error) {
+      if (error instanceof ApiError) {
+        return respond(error.statusCode, {
+          success: false,
+          error: { code: error.code, message: error.message, details: error.details },
+        });
+      }
+
+      console.error(`Error in ${definition.name}:`, error);
+      return respond(500, {
+        success: false,
+        error: { code: "INTERNAL_ERROR", message: error instanceof Error ? error.message : "Unknown error" },
+      });
+    }
+  };
+}
+
+function parseJsonBody(event: HandlerEvent): unknown {
+  if (!event.body) {
+    return {};
+  }
+
+  const raw = event.isBase64Encoded ? Buffer.from(event.body, "base64").toString("utf-8") : event.body;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new ApiError(400, "INVALID_BODY", "Body is not valid JSON");
+  }
+}
+
+function parseInput<T>(schema: Schema<T>, value: unknown, path: string, code: ErrorCode): T {
+  try {
+    return schema.parse(value, path);
+  } catch (error) {
+    if (error instanceof SchemaError) {
+      throw new ApiError(400, code, error.message, { path: error.path });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,156 @@
+import { AccountId, Client, PrivateKey } from "@hashgraph/sdk";
+
+export type HederaNetwork = "mainnet" | "testnet" | "previewnet" | "local";
+
+export const HEDERA_NETWORKS: HederaNetwork[] = ["mainnet", "testnet", "previewnet", "local"];
+
+export type KeyType = "ECDSA" | "ED25519";
+
+export interface ClientOptions {
+  network: HederaNetwork;
+  operatorId: string;
+  operatorKey: string;
+  // how to read raw hex keys, DER encoded keys carry their own type
+  keyType?: KeyType;
+  // consensus nodes as { "host:port": "0.0.3" }, replaces the network's default nodes
+  consensusNodes?: Record<string, string>;
+  // mirror nodes as "host:port", replaces the network's default mirror nodes
+  mirrorNodes?: string[];
+}
+
+// DER prefixes of PKCS#8 / SEC1 encoded private keys, raw keys are 32 bytes of hex
+const DER_PREFIXES = ["302e", "3030", "3074", "3077"];
+
+/**
+ * Parses an ED25519 or ECDSA (secp256k1) private key given DER encoded or as raw hex,
+ * with or without 0x prefix. Raw keys are ambiguous and are read as `keyType` (ECDSA by default).
+ */
+export function parsePrivateKey(key: string, keyType: KeyType = "ECDSA"): PrivateKey {
+  const hex = key.trim().replace(/^0x/, "");
+  if (!/^[a-fA-F0-9]+$/.test(hex)) {
+    throw new Error("Invalid private key, expected a DER or raw hex string");
+  }
+
+  if (hex.length > 64 && DER_PREFIXES.some((prefix) => hex.startsWith(prefix))) {
+    return PrivateKey.fromStringDer(hex);
+  }
+
+  if (hex.length !== 64) {
+    throw new Error(`Invalid private key length ${hex.length / 2} bytes, expected 32 bytes or a DER encoded key`);
+  }
+
+  return keyType === "ED25519" ? PrivateKey.fromStringED25519(hex) : PrivateKey.fromStringECDSA(hex);
+}
+
+/**
+ * Creates a client for the given network, with its operator and optional custom nodes.
+ */
+export function createClient(options: ClientOptions): { client: Client; operatorId: AccountId; operatorKey: PrivateKey } {
+  const operatorId = AccountId.fromString(options.operatorId);
+  const operatorKey = parsePrivateKey(options.operatorKey, options.keyType);
+
+  let client: Client;
+  if (options.consensusNodes) {
+    client = Client.forNetwork(options.consensusNodes);
+  } else if (options.network === "local") {
+    client = Client.forLocalNode();
+  } else {
+    client = Client.forName(options.network);
+  }
+
+  if (options.mirrorNodes && options.mirrorNodes.length > 0) {
+    client.setMirrorNetwork(options.mirrorNodes);
+  } else if (options.consensusNodes) {
+    // custom consensus nodes keep the mirror nodes of their network
+    client.setMirrorNetwork(options.network === "local" ? "local-node" : options.network);
+  }
+
+  client.setOperator(operatorId, operatorKey);
+
+  return { client, operatorId, operatorKey };
+}
+
+/**
+ * Reads the network options from the environment:
+ * - HEDERA_NETWORK: mainnet, testnet (default), previewnet or local
+ * - HEDERA_KEY_TYPE: ECDSA (default) or ED25519, used for raw hex keys
+ * - HEDERA_CONSENSUS_NODES: JSON object of "host:port" to node account id
+ * - HEDERA_MIRROR_NODES: comma separated list of "host:port"
+ */
+export function getNetworkOptionsFromEnv(): Omit<ClientOptions, "operatorId" | "operatorKey"> {
+  const network = (process.env.HEDERA_NETWORK || "testnet").toLowerCase().replace(/-node$/, "") as HederaNetwork;
+  if (!HEDERA_NETWORKS.includes(network)) {
+    throw new Error(`Invalid HEDERA_NETWORK ${process.env.HEDERA_NETWORK}, expected one of ${HEDERA_NETWORKS.join(", ")}`);
+  }
+
+  const keyType = (process.env.HEDERA_KEY_TYPE || "ECDSA").toUpperCase() as KeyType;
+  if (keyType !== "ECDSA" && keyType !== "ED25519") {
+    throw new Error(`Invalid HEDERA_KEY_TYPE ${process.env.HEDERA_KEY_TYPE}, expected ECDSA or ED25519`);
+  }
+
+  let consensusNodes: Record<string, string> | undefined;
+  if (process.env.HEDERA_CONSENSUS_NODES) {
+    try {
+      consensusNodes = JSON.parse(process.env.HEDERA_CONSENSUS_NODES);
+    } catch (error) {
+      throw new Error(`HEDERA_CONSENSUS_NODES is not valid JSON: ${error instanceof Error ? error.message : error}`);
+    }
+    if (typeof consensusNodes !== "object" || consensusNodes === null || Object.keys(consensusNodes).length === 0) {
+      throw new Error("HEDERA_CONSENSUS_NODES must be a non empty JSON object");
+    }
+    for (const [address, nodeId] of Object.entries(consensusNodes)) {
+      if (!/^[^:\s]+:\d+$/.test(address) || !/^\d+\.\d+\.\d+$/.test(String(nodeId))) {
+        throw new Error(`Invalid consensus node ${address} => ${nodeId}, expected "host:port": "0.0.3"`);
+      }
+    }
+  }
+
+  const mirrorNodes = (process.env.HEDERA_MIRROR_NODES || "")
+    .split(",")
+    .map((node) => node.trim())
+    .filter(Boolean);
+
+  return { network, keyType, consensusNodes, mirrorNodes };
+}
+
+/**
+ * Creates a client for the network configured in the environment, operated by the given account.
+ */
+export function createClientFromEnv(operatorId: string, operatorKey: string) {
+  return createClient({ ...getNetworkOptionsFromEnv(), operatorId, operatorKey });
+}
+
+const MIRROR_NODE_REST_URLS: Record<HederaNetwork, string> = {
+  mainnet: "https://mainnet-public.mirrornode.hedera.com",
+  testnet: "https://testnet.mirrornode.hedera.com",
+  previewnet: "https://previewnet.mirrornode.hedera.com",
+  local: "http://127.0.0.1:5551",
+};
+
+/**
+ * Base URL of the mirror node REST API, MIRROR_NODE_URL or the default of HEDERA_NETWORK.
+ */
+export function getMirrorNodeUrl(): string {
+  return (process.env.MIRROR_NODE_URL || MIRROR_NODE_REST_URLS[getNetworkOptionsFromEnv().network]).replace(/\/$/, "");
+}
+
+const CHAIN_IDS: Record<HederaNetwork, number> = {
+  mainnet: 295,
+  testnet: 296,
+  previewnet: 297,
+  local: 298,
+};
+
+/**
+ * EVM chain id of HEDERA_NETWORK, as used by the JSON-RPC relay and the deployment files.
+ */
+export function getChainId(): number {
+  return CHAIN_IDS[getNetworkOptionsFromEnv().network];
+}
+
+/**
+ * Hedera network of an EVM chain id, undefined for a chain that is not a Hedera network.
+ */
+export function getNetworkForChainId(chainId: number): HederaNetwork | undefined {
+  return HEDERA_NETWORKS.find((network) => CHAIN_IDS[network] === chainId);
+}
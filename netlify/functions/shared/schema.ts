@@ -0,0 +1,191 @@
+/**
+ * Minimal schema validation for request bodies and query parameters.
+ * Query parameters are strings, so numbers and booleans also accept their string form.
+ */
+export interface Schema<T> {
+  parse(value: unknown, path: string): T;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+export class SchemaError extends Error {
+  constructor(
+    public readonly path: string,
+    message: string,
+  ) {
+    super(`${path}: ${message}`);
+  }
+}
+
+export function string(options: { pattern?: RegExp; description?: string; minLength?: number } = {}): Schema<string> {
+  return {
+    parse(value, path) {
+      if (typeof value !== "string") {
+        throw new SchemaError(path, "expected a string");
+      }
+      if (options.minLength !== undefined && value.length < options.minLength) {
+        throw new SchemaError(path, `expected at least ${options.minLength} characters`);
+      }
+      if (options.pattern && !options.pattern.test(value)) {
+        throw new SchemaError(path, `expected ${options.description || `to match ${options.pattern}`}`);
+      }
+      return value;
+    },
+  };
+}
+
+export function number(options: { min?: number; max?: number; integer?: boolean } = {}): Schema<number> {
+  return {
+    parse(value, path) {
+      const parsed = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+      if (typeof parsed !== "number" || !Number.isFinite(parsed)) {
+        throw new SchemaError(path, "expected a number");
+      }
+      if (options.integer && !Number.isInteger(parsed)) {
+        throw new SchemaError(path, "expected an integer");
+      }
+      if (options.min !== undefined && parsed < options.min) {
+        throw new SchemaError(path, `expected a number >= ${options.min}`);
+      }
+      if (options.max !== undefined && parsed > options.max) {
+        throw new SchemaError(path, `expected a number <= ${options.max}`);
+      }
+      return parsed;
+    },
+  };
+}
+
+export function boolean(): Schema<boolean> {
+  return {
+    parse(value, path) {
+      if (value === true || value === "true") {
+        return true;
+      }
+      if (value === false || value === "false") {
+        return false;
+      }
+      throw new SchemaError(path, "expected a boolean");
+    },
+  };
+}
+
+export function oneOf<T extends string>(values: readonly T[]): Schema<T> {
+  return {
+    parse(value, path) {
+      if (!values.includes(value as T)) {
+        throw new SchemaError(path, `expected one of ${values.join(", ")}`);
+      }
+      return value as T;
+    },
+  };
+}
+
+export function array<T>(item: Schema<T>, options: { minLength?: number; maxLength?: number } = {}): Schema<T[]> {
+  return {
+    parse(value, path) {
+      if (!Array.isArray(value)) {
+        throw new SchemaError(path, "expected an array");
+      }
+      if (options.minLength !== undefined && value.length < options.minLength) {
+        throw new SchemaError(path, `expected at least ${options.minLength} item(s)`);
+      }
+      if (options.maxLength !== undefined && value.length > options.maxLength) {
+        throw new SchemaError(path, `expected at most ${options.maxLength} item(s)`);
+      }
+      return value.map((entry, index) => item.parse(entry, `${path}[${index}]`));
+    },
+  };
+}
+
+export function object<S extends Record<string, Schema<unknown>>>(shape: S): Schema<{ [K in keyof S]: Infer<S[K]> }> {
+  return {
+    parse(value, path) {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        throw new SchemaError(path, "expected an object");
+      }
+
+      const result: Record<string, unknown> = {};
+      for (const [key, schema] of Object.entries(shape)) {
+        result[key] = schema.parse((value as Record<string, unknown>)[key], `${path}.${key}`);
+      }
+      return result as { [K in keyof S]: Infer<S[K]> };
+    },
+  };
+}
+
+export function optional<T>(schema: Schema<T>): Schema<T | undefined>;
+export function optional<T>(schema: Schema<T>, defaultValue: T): Schema<T>;
+export function optional<T>(schema: Schema<T>, defaultValue?: T): Schema<T | undefined> {
+  return {
+    parse(value, path) {
+      if (value === undefined || value === null || value === "") {
+        return defaultValue;
+      }
+      return schema.parse(value, path);
+    },
+  };
+}
+
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return {
+    parse(value, path) {
+      return value === null ? null : schema.parse(value, path);
+    },
+  };
+}
+
+export const address = () => string({ pattern: /^0x[a-fA-F0-9]{40}$/, description: "an EVM address (0x + 40 hex)" });
+
+export const bytes32 = () => string({ pattern: /^(0x)?[a-fA-F0-9]{64}$/, description: "a 32 bytes hex string" });
+
+export const selector = () => string({ pattern: /^(0x)?[a-fA-F0-9]{8}$/, description: "a selector (0x + 8 hex)" });
+
+/**
+ * A point in time given as an ISO 8601 date or as seconds since epoch.
+ */
+export function date(): Schema<Date> {
+  return {
+    parse(value, path) {
+      const parsed =
+        typeof value === "number" || (typeof value === "string" && /^\d+$/.test(value))
+          ? new Date(Number(value) * 1000)
+          : typeof value === "string"
+            ? new Date(value)
+            : null;
+      if (!parsed || Number.isNaN(parsed.getTime())) {
+        throw new SchemaError(path, "expected an ISO 8601 date or seconds since epoch");
+      }
+      return parsed;
+    },
+  };
+}
+
+/**
+ * An object with arbitrary keys whose values all match `value`.
+ */
+export function record<T>(value: Schema<T>): Schema<Record<string, T>> {
+  return {
+    parse(input, path) {
+      if (typeof input !== "object" || input === null || Array.isArray(input)) {
+        throw new SchemaError(path, "expected an object");
+      }
+
+      const result: Record<string, T> = {};
+      for (const [key, entry] of Object.entries(input)) {
+        result[key] = value.parse(entry, `${path}.${key}`);
+      }
+      return result;
+    },
+  };
+}
+
+/**
+ * Accepts any value, eg. arbitrary JSON arguments.
+ */
+export function unknown(): Schema<unknown> {
+  return {
+    parse(value) {
+      return value;
+    },
+  };
+}
@@ -1,143 +1,41 @@
-import {
-  ContractExecuteTransaction,
-  ContractCallQuery,
-  ContractFunctionParameters,
-} from "@hashgraph/sdk";
-import { Handler } from '@netlify/functions'
-import { AbiCoder } from "ethers";
-import { getClient } from "./helper";
-
-// Netlify Function handler
-export const handler: Handler = async (event, context) => {
-  // Enable CORS
-  const headers = {
-    'Access-Control-Allow-Origin': '*',
-    'Access-Control-Allow-Headers': 'Content-Type',
-    'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE',
-  };
-
-  // Handle preflight requests
-  if (event.httpMethod === 'OPTIONS') {
-    return {
-      statusCode: 200,
-      headers,
-      body: '',
-    };
-  }
-
-  try {
-    // Validate environment variables
-    const accountId = process.env.ACCOUNT_ID;
-    const privateKey = process.env.PRIVATE_KEY;
-    const contractAddress = process.env.CONTRACT_ADDRESS;
-
-    if (!accountId || !privateKey || !contractAddress) {
-      return {
-        statusCode: 400,
-        headers: {
-          ...headers,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          error: 'Missing environment variables',
-          message: 'ACCOUNT_ID, PRIVATE_KEY, and CONTRACT_ADDRESS must be set',
-          missing: {
-            accountId: !accountId,
-            privateKey: !privateKey,
-            contractAddress: !contractAddress
-          }
-        }),
-      };
-    }
-
-    const result = await executeKeeperTransactions();
-
-    return {
-      statusCode: 200,
-      headers: {
-        ...headers,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ 
-        done: true,
-        transactions: result.transactions,
-        status: result.status
+import { defineHandler, route, UPKEEPER_ENV } from "./shared/handler";
+import { boolean, object, optional } from "./shared/schema";
+import { executeKeeperTransactions, getRetryPolicy } from "./upkeeper/executor";
+
+export const handler = defineHandler({
+  name: "upkeeper-execute-tasks",
+  env: UPKEEPER_ENV,
+  routes: {
+    POST: route({
+      scope: "execute",
+      query: object({
+        // a dry run only reads the task list and reports what would be executed, no transaction is submitted
+        dryRun: optional(boolean(), false),
       }),
-    };
-
-  } catch (error) {
-    console.error('Error in keeper function:', error);
-    return {
-      statusCode: 500,
-      headers: {
-        ...headers,
-        'Content-Type': 'application/json',
+      async handle({ query: { dryRun } }) {
+        const result = await executeKeeperTransactions(getRetryPolicy(), dryRun);
+        const data = { dryRun, ...result };
+
+        // 207 tells monitoring that the run happened but some tasks failed,
+        // 500 that nothing could be executed at all
+        if (result.status === "partial") {
+          return {
+            statusCode: 207,
+            data,
+            error: { code: "PARTIAL_FAILURE", message: `${result.summary.failed} of ${result.summary.total} tasks failed` },
+          };
+        }
+
+        if (result.status === "failed") {
+          return {
+            statusCode: 500,
+            data,
+            error: { code: "EXECUTION_FAILED", message: "Every task failed" },
+          };
+        }
+
+        return { data };
       },
-      body: JSON.stringify({
-        done: false,
-        error: 'Internal server error',
-        message: error instanceof Error ? error.message : 'Unknown error'
-      }),
-    };
-  }
-};
-
-async function executeKeeperTransactions() {
-  const { client, contractId, operatorKey } = getClient();
-
-  const taskIds = await getTaskList();
-
-  let successfulTransactions: string[] = [];
-  let failedTransactions: string[] = [];
-
-  try {    
-    for (const taskId of taskIds) {
-
-      const contractTx = new ContractExecuteTransaction()
-      .setContractId(contractId)
-      .setFunction("executeTask", 
-        new ContractFunctionParameters()
-        .addBytes32(Buffer.from(taskId.slice(2), 'hex'))
-        .addBytes(Buffer.from("", 'hex')))
-      .setGas(100_000)
-      .freezeWith(client);
-        
-      console.log('Executing transaction...');
-      const signedTx = await contractTx.sign(operatorKey);
-      const execution = await signedTx.execute(client);
-      const receipt = await execution.getReceipt(client);
-      
-      console.log("- transaction executed:", receipt.status.toString());
-      console.log("- transaction hash:", Buffer.from(execution.transactionHash).toString('hex'));
-
-      successfulTransactions.push(Buffer.from(execution.transactionHash).toString('hex'));
-    }
-  } catch (error) {
-    console.error('Error executing transaction:', error);
-    failedTransactions.push(error?.toString() || 'Unknown error');
-  }
-
-  return {
-    transactions: {
-      successful: successfulTransactions,
-      failed: failedTransactions
-    },
-    status: "success"
-  }
-}
-
-async function getTaskList(): Promise<string[]> {
-  const { client, contractId } = getClient();
-
-  const query = new ContractCallQuery()
-    .setContractId(contractId)
-    .setGas(300_000)
-    .setFunction("getTaskList");
-
-  const res = await query.execute(client);
-  const raw = res.asBytes();
-
-  const [taskIds] = AbiCoder.defaultAbiCoder().decode(["bytes32[]"], raw);
-  
-  return taskIds;
-}
+    }),
+  },
+});
@@ -0,0 +1,38 @@
+import { ApiError, defineHandler, route } from "./shared/handler";
+import { address, bytes32, date, number, object, oneOf, optional, string } from "./shared/schema";
+import { getLogSource, getTaskHistory, HistoryCursorError, TASK_EVENT_TYPES } from "./upkeeper/history";
+
+export const handler = defineHandler({
+  name: "upkeeper-get-task-history",
+  env: ["CONTRACT_ADDRESS"],
+  routes: {
+    GET: route({
+      scope: "read",
+      query: object({
+        taskId: optional(bytes32()),
+        target: optional(address()),
+        event: optional(oneOf(TASK_EVENT_TYPES)),
+        from: optional(date()),
+        to: optional(date()),
+        limit: optional(number({ integer: true, min: 1, max: 100 }), 20),
+        // `next` of the previous page
+        cursor: optional(string({ minLength: 1 })),
+      }),
+      async handle({ query: { limit, cursor, ...filter } }) {
+        if (filter.from && filter.to && filter.from > filter.to) {
+          throw new ApiError(400, "INVALID_QUERY", "query.from must be before query.to");
+        }
+
+        try {
+          const contractAddress = process.env.CONTRACT_ADDRESS as string;
+          return { data: await getTaskHistory(getLogSource(), contractAddress, filter, { limit, cursor }) };
+        } catch (error) {
+          if (error instanceof HistoryCursorError) {
+            throw new ApiError(400, "INVALID_QUERY", `query.cursor: ${error.message}`);
+          }
+          throw error;
+        }
+      },
+    }),
+  },
+});
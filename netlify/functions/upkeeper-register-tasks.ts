@@ -0,0 +1,10 @@
+import { defineHandler, UPKEEPER_ENV } from "./shared/handler";
+import { taskBatchChangeRoute } from "./upkeeper/task-routes";
+
+export const handler = defineHandler({
+  name: "upkeeper-register-tasks",
+  env: UPKEEPER_ENV,
+  routes: {
+    POST: taskBatchChangeRoute("registerTask", "register"),
+  },
+});
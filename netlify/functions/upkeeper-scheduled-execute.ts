@@ -0,0 +1,23 @@
+import { connectLambda } from "@netlify/blobs";
+import { schedule } from "@netlify/functions";
+import { BlobScheduleStateStore, runScheduledTasks } from "./upkeeper/schedule";
+
+// Ticks every 15 minutes, each task only runs once its own interval (KEEPER_TASK_SCHEDULE) elapsed
+export const handler = schedule("*/15 * * * *", async (event) => {
+  try {
+    // Netlify injects the blobs context into the event at runtime, it is not part of HandlerEvent
+    connectLambda(event as unknown as Parameters<typeof connectLambda>[0]);
+
+    const { executed, notDue } = await runScheduledTasks(new BlobScheduleStateStore());
+
+    console.log("Scheduled keeper run:", JSON.stringify({ summary: executed?.summary ?? null, notDue: notDue.length }));
+    if (executed && executed.status !== "success") {
+      console.error("Scheduled keeper run had failures:", JSON.stringify(executed.results));
+    }
+
+    return { statusCode: 200 };
+  } catch (error) {
+    console.error("Error in upkeeper-scheduled-execute:", error);
+    return { statusCode: 500 };
+  }
+});
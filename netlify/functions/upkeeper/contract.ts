@@ -0,0 +1,110 @@
+import { ContractCallQuery, ContractExecuteTransaction, ContractFunctionParameters } from "@hashgraph/sdk";
+import { AbiCoder, Interface } from "ethers";
+import { getClient, KeeperClient } from "../helper";
+
+export interface TaskInfo {
+  executions: string;
+  target: string;
+  selector: string;
+  exists: boolean;
+  executing: boolean;
+}
+
+export const upkeeperInterface = new Interface([
+  "function registerTask(address target, bytes4 selector)",
+  "function removeTask(address target, bytes4 selector)",
+]);
+
+export async function getTaskInfo(taskId: string, { client, contractId }: KeeperClient = getClient()): Promise<TaskInfo> {
+  const hex = taskId.startsWith("0x") ? taskId.slice(2) : taskId;
+  const query = new ContractCallQuery()
+    .setContractId(contractId)
+    .setGas(300_000)
+    .setFunction("getTaskInfo", new ContractFunctionParameters().addBytes32(Buffer.from(hex, "hex")));
+
+  const res = await query.execute(client);
+  const [task] = AbiCoder.defaultAbiCoder().decode(["(uint256,address,bytes4,bool,bool)"], res.asBytes());
+
+  return {
+    executions: task[0].toString(),
+    target: task[1],
+    selector: task[2],
+    exists: task[3],
+    executing: task[4],
+  };
+}
+
+export async function getTaskList({ client, contractId }: KeeperClient = getClient()): Promise<string[]> {
+  const query = new ContractCallQuery()
+    .setContractId(contractId)
+    .setGas(300_000)
+    .setFunction("getTaskList");
+
+  const res = await query.execute(client);
+  const raw = res.asBytes();
+
+  const [taskIds] = AbiCoder.defaultAbiCoder().decode(["bytes32[]"], raw);
+
+  return [...taskIds];
+}
+
+/**
+ * Signs and submits an UpKeeper call with the operator key and waits for its receipt.
+ */
+export async function submitUpkeeperTransaction(data: string, gas = 500_000) {
+  const { client, contractId, operatorKey } = getClient();
+
+  const tx = await new ContractExecuteTransaction()
+    .setContractId(contractId)
+    .setGas(gas)
+    .setFunctionParameters(Buffer.from(data.slice(2), "hex"))
+    .freezeWith(client)
+    .sign(operatorKey);
+
+  const response = await tx.execute(client);
+  const receipt = await response.getReceipt(client);
+
+  return {
+    status: receipt.status.toString(),
+    transactionHash: Buffer.from(response.transactionHash).toString("hex"),
+  };
+}
+
+export interface TaskChangeResult {
+  target: string;
+  selector: string;
+  signature: string | null;
+  status: string;
+  transactionHash: string | null;
+  error: string | null;
+}
+
+/**
+ * Registers or removes tasks one transaction at a time, a failing task does not stop the others.
+ */
+export async function submitTaskChanges(
+  action: "registerTask" | "removeTask",
+  tasks: { target: string; selector: string; signature: string | null }[],
+): Promise<TaskChangeResult[]> {
+  const results: TaskChangeResult[] = [];
+
+  for (const { target, selector, signature } of tasks) {
+    try {
+      const { status, transactionHash } = await submitUpkeeperTransaction(
+        upkeeperInterface.encodeFunctionData(action, [target, selector]),
+      );
+      results.push({ target, selector, signature, status, transactionHash, error: null });
+    } catch (error) {
+      results.push({
+        target,
+        selector,
+        signature,
+        status: "FAILED",
+        transactionHash: null,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,465 @@
+import {
+  ContractExecuteTransaction,
+  ContractFunctionParameters,
+  ReceiptStatusError,
+  Status,
+  TransactionResponse,
+} from "@hashgraph/sdk";
+import { Interface } from "ethers";
+import { getClient, KeeperClient } from "../helper";
+import { getTaskInfo, getTaskList, TaskInfo } from "./contract";
+import {
+  applyGasPolicy,
+  GasEstimationError,
+  GasEstimator,
+  GasPolicy,
+  getGasEstimator,
+  getGasPolicy,
+  getGasPriceTinybars,
+} from "./gas";
+import { ContractReader, encodeTaskPayload, getContractReader, getTaskPayloadDefinitions } from "./task-payloads";
+
+const upkeeperErrors = new Interface([
+  "error TaskNotFound()",
+  "error TaskExecutionFailed(bytes response)",
+  "error TaskExecutionReturnedFalse()",
+  "error TaskReentrancyDetected()",
+  "error AccessControlUnauthorizedAccount(address account, bytes32 neededRole)",
+]);
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  initialDelayMs: number;
+  backoffMultiplier: number;
+  maxDelayMs: number;
+}
+
+export interface TaskExecutionResult {
+  taskId: string;
+  target: string | null;
+  selector: string | null;
+  data: string;
+  status: string;
+  transactionHash: string | null;
+  estimatedGas: string | null;
+  // gas limit submitted with the transaction, the estimate raised by the gas multiplier
+  gasLimit: number | null;
+  gasUsed: string | null;
+  estimatedCostTinybars: string | null;
+  // fees charged for every attempt of the task
+  actualCostTinybars: string | null;
+  attempts: number;
+  skipReason: string | null;
+  error: string | null;
+}
+
+export interface TaskAttempt {
+  status: string;
+  transactionHash: string | null;
+  gasUsed: string | null;
+  // null when the transaction was submitted but its record could not be read
+  feeTinybars: bigint | null;
+  error: string | null;
+  retryable: boolean;
+}
+
+/**
+ * Where the executor reads the tasks, estimates and submits them: the UpKeeper through the Hedera
+ * SDK and the gas price of the mirror node, see getKeeperBackend.
+ */
+export interface KeeperBackend {
+  getTaskList(): Promise<string[]>;
+  getTaskInfo(taskId: string): Promise<TaskInfo>;
+  gasEstimator: GasEstimator;
+  getGasPriceTinybars(): Promise<bigint>;
+  executeTask(taskId: string, data: string, gasLimit: number): Promise<TaskAttempt>;
+  // reads the contracts the task payloads take their arguments from
+  readContract: ContractReader;
+  // releases the connections of the backend, it is not used afterwards
+  close(): void;
+}
+
+/**
+ * Backend of a run: every call goes through the same Hedera client, closed with the backend.
+ */
+export function getKeeperBackend(gasPolicy: GasPolicy): KeeperBackend {
+  const keeperClient = getClient();
+
+  let gasEstimator: GasEstimator;
+  try {
+    gasEstimator = getGasEstimator(gasPolicy, keeperClient);
+  } catch (error) {
+    keeperClient.client.close();
+    throw error;
+  }
+
+  return {
+    getTaskList: () => getTaskList(keeperClient),
+    getTaskInfo: (taskId) => getTaskInfo(taskId, keeperClient),
+    gasEstimator,
+    getGasPriceTinybars: () => getGasPriceTinybars(gasPolicy),
+    executeTask: (taskId, data, gasLimit) => executeTask(keeperClient, taskId, data, gasLimit),
+    readContract: getContractReader(keeperClient),
+    close: () => keeperClient.client.close(),
+  };
+}
+
+/**
+ * Runs `run` against the backend given by the caller, which stays open, or against a backend
+ * opened for this run only and closed once it ends.
+ */
+export async function withKeeperBackend<T>(
+  gasPolicy: GasPolicy,
+  backend: KeeperBackend | undefined,
+  run: (backend: KeeperBackend) => Promise<T>,
+): Promise<T> {
+  if (backend) {
+    return run(backend);
+  }
+
+  const runBackend = getKeeperBackend(gasPolicy);
+  try {
+    return await run(runBackend);
+  } finally {
+    runBackend.close();
+  }
+}
+
+/**
+ * Reads the retry policy from the environment:
+ * KEEPER_MAX_ATTEMPTS, KEEPER_RETRY_DELAY_MS, KEEPER_RETRY_BACKOFF and KEEPER_RETRY_MAX_DELAY_MS.
+ */
+export function getRetryPolicy(): RetryPolicy {
+  const readNumber = (name: string, fallback: number, min: number) => {
+    const value = Number(process.env[name]);
+    return Number.isFinite(value) && value >= min ? value : fallback;
+  };
+
+  return {
+    maxAttempts: Math.floor(readNumber("KEEPER_MAX_ATTEMPTS", 3, 1)),
+    initialDelayMs: readNumber("KEEPER_RETRY_DELAY_MS", 1_000, 0),
+    backoffMultiplier: readNumber("KEEPER_RETRY_BACKOFF", 2, 1),
+    maxDelayMs: readNumber("KEEPER_RETRY_MAX_DELAY_MS", 10_000, 0),
+  };
+}
+
+/**
+ * Executes the registered tasks one by one. When `filter` is given, only the task ids
+ * it accepts are considered.
+ *
+ * Each task is submitted with its estimated gas. Tasks whose estimated cost would take the run
+ * over its HBAR budget are deferred to the next run.
+ */
+export async function executeKeeperTransactions(
+  retryPolicy: RetryPolicy,
+  dryRun: boolean,
+  filter?: (taskId: string) => boolean,
+  gasPolicy: GasPolicy = getGasPolicy(),
+  backend?: KeeperBackend,
+) {
+  return withKeeperBackend(gasPolicy, backend, (runBackend) =>
+    runKeeperTransactions(retryPolicy, dryRun, filter, gasPolicy, runBackend),
+  );
+}
+
+async function runKeeperTransactions(
+  retryPolicy: RetryPolicy,
+  dryRun: boolean,
+  filter: ((taskId: string) => boolean) | undefined,
+  gasPolicy: GasPolicy,
+  backend: KeeperBackend,
+) {
+  const payloadDefinitions = getTaskPayloadDefinitions();
+  const taskIds = (await backend.getTaskList()).filter((taskId) => !filter || filter(taskId));
+
+  const gasPrice = await backend.getGasPriceTinybars();
+
+  const results: TaskExecutionResult[] = [];
+  // actual fees of the submitted tasks, estimated costs in a dry run
+  let spent = 0n;
+  let estimated = 0n;
+  const fitsBudget = (cost: bigint) => gasPolicy.budgetTinybars === null || spent + cost <= gasPolicy.budgetTinybars;
+
+  // every task gets its own attempt budget, a failing task never stops the following ones
+  for (const taskId of taskIds) {
+    const result = newTaskResult(taskId);
+    results.push(result);
+
+    let task: TaskInfo;
+    try {
+      task = await backend.getTaskInfo(taskId);
+    } catch (error) {
+      console.error(`Error reading task ${taskId}:`, error);
+      result.error = error instanceof Error ? error.message : 'Unknown error';
+      continue;
+    }
+
+    result.target = task.target;
+    result.selector = task.selector;
+
+    const skipReason = getSkipReason(task);
+    if (skipReason) {
+      console.log(`- skipping task ${taskId}: ${skipReason}`);
+      result.status = "SKIPPED";
+      result.skipReason = skipReason;
+      continue;
+    }
+
+    const payloadDefinition = payloadDefinitions[taskId.toLowerCase()];
+    if (payloadDefinition) {
+      try {
+        result.data = (await encodeTaskPayload(payloadDefinition, task.selector, backend.readContract)).data;
+      } catch (error) {
+        console.error(`Error encoding payload of task ${taskId}:`, error);
+        result.status = "INVALID_PAYLOAD";
+        result.error = error instanceof Error ? error.message : 'Unknown error';
+        continue;
+      }
+    }
+
+    let estimatedGas: bigint;
+    try {
+      estimatedGas = await backend.gasEstimator.estimate(taskId, result.data);
+    } catch (error) {
+      console.error(`Error estimating gas of task ${taskId}:`, error);
+      result.status = "ESTIMATION_FAILED";
+      result.error =
+        error instanceof GasEstimationError
+          ? decodeRevertReason(error.revertData) ?? error.message
+          : error instanceof Error ? error.message : 'Unknown error';
+      continue;
+    }
+
+    const gasLimit = applyGasPolicy(estimatedGas, gasPolicy);
+    const estimatedCost = BigInt(gasLimit) * gasPrice;
+    result.estimatedGas = estimatedGas.toString();
+    result.gasLimit = gasLimit;
+    result.estimatedCostTinybars = estimatedCost.toString();
+
+    if (!fitsBudget(estimatedCost)) {
+      console.log(`- deferring task ${taskId}: run budget exceeded`);
+      result.status = "DEFERRED";
+      result.skipReason = "run budget exceeded";
+      continue;
+    }
+
+    estimated += estimatedCost;
+
+    if (dryRun) {
+      result.status = "WOULD_EXECUTE";
+      spent += estimatedCost;
+      continue;
+    }
+
+    // a retry is only submitted while the run can still afford it
+    const fee = await executeTaskWithRetry(result, retryPolicy, gasLimit, backend, (paid) =>
+      fitsBudget(paid + estimatedCost),
+    );
+    spent += fee;
+  }
+
+  const skipped = results.filter((result) => result.skipReason !== null);
+  const deferred = results.filter((result) => result.status === "DEFERRED");
+  const failed = results.filter((result) => result.error !== null);
+  const succeeded = results.filter((result) => result.skipReason === null && result.error === null);
+
+  let status: "success" | "partial" | "failed" = "success";
+  if (failed.length > 0) {
+    status = succeeded.length > 0 ? "partial" : "failed";
+  }
+
+  return {
+    results,
+    summary: {
+      total: results.length,
+      succeeded: succeeded.length,
+      skipped: skipped.length,
+      deferred: deferred.length,
+      failed: failed.length,
+    },
+    cost: {
+      gasPriceTinybars: gasPrice.toString(),
+      budgetTinybars: gasPolicy.budgetTinybars?.toString() ?? null,
+      estimatedTinybars: estimated.toString(),
+      actualTinybars: dryRun ? null : spent.toString(),
+    },
+    status
+  }
+}
+
+function newTaskResult(taskId: string): TaskExecutionResult {
+  return {
+    taskId,
+    target: null,
+    selector: null,
+    data: "0x",
+    status: "NOT_EXECUTED",
+    transactionHash: null,
+    estimatedGas: null,
+    gasLimit: null,
+    gasUsed: null,
+    estimatedCostTinybars: null,
+    actualCostTinybars: null,
+    attempts: 0,
+    skipReason: null,
+    error: null,
+  };
+}
+
+/**
+ * Tasks removed after the list was read, or still flagged as executing by another
+ * keeper, would only revert on-chain.
+ */
+function getSkipReason(task: TaskInfo): string | null {
+  if (!task.exists) {
+    return "task was removed";
+  }
+
+  if (task.executing) {
+    return "task is already executing";
+  }
+
+  return null;
+}
+
+/**
+ * Returns the fees paid by the attempts, in tinybars.
+ */
+async function executeTaskWithRetry(
+  result: TaskExecutionResult,
+  retryPolicy: RetryPolicy,
+  gasLimit: number,
+  backend: KeeperBackend,
+  canRetry: (paid: bigint) => boolean,
+): Promise<bigint> {
+  const { taskId, data } = result;
+
+  let delay = retryPolicy.initialDelayMs;
+  let paid = 0n;
+
+  while (result.attempts < retryPolicy.maxAttempts) {
+    result.attempts++;
+
+    const attempt = await backend.executeTask(taskId, data, gasLimit);
+    result.status = attempt.status;
+    result.transactionHash = attempt.transactionHash;
+    result.gasUsed = attempt.gasUsed;
+    result.error = attempt.error;
+    paid += attempt.feeTinybars ?? 0n;
+    result.actualCostTinybars = paid.toString();
+
+    if (attempt.error === null || !attempt.retryable) {
+      break;
+    }
+
+    if (!canRetry(paid)) {
+      console.log(`- task ${taskId} failed (${attempt.error}), not retrying: run budget exceeded`);
+      break;
+    }
+
+    if (result.attempts < retryPolicy.maxAttempts) {
+      console.log(`- task ${taskId} failed (${attempt.error}), retrying in ${delay}ms`);
+      await sleep(delay);
+      delay = Math.min(delay * retryPolicy.backoffMultiplier, retryPolicy.maxDelayMs);
+    }
+  }
+
+  return paid;
+}
+
+async function executeTask(
+  { client, contractId, operatorKey }: KeeperClient,
+  taskId: string,
+  data: string,
+  gasLimit: number,
+): Promise<TaskAttempt> {
+  let execution: TransactionResponse | undefined;
+
+  try {
+    const contractTx = new ContractExecuteTransaction()
+      .setContractId(contractId)
+      .setFunction("executeTask",
+        new ContractFunctionParameters()
+        .addBytes32(Buffer.from(taskId.slice(2), 'hex'))
+        .addBytes(Buffer.from(data.slice(2), 'hex')))
+      .setGas(gasLimit)
+      .freezeWith(client);
+
+    console.log(`Executing task ${taskId}...`);
+    const signedTx = await contractTx.sign(operatorKey);
+    execution = await signedTx.execute(client);
+    const transactionHash = Buffer.from(execution.transactionHash).toString('hex');
+
+    // the record is fetched without validating the status so reverted tasks still report gas and reason
+    const record = await execution.getRecordQuery().setValidateReceiptStatus(false).execute(client);
+    const status = record.receipt.status;
+    const gasUsed = record.contractFunctionResult?.gasUsed.toString() ?? null;
+    const feeTinybars = BigInt(record.transactionFee.toTinybars().toString());
+
+    console.log("- transaction executed:", status.toString());
+    console.log("- transaction hash:", transactionHash);
+
+    if (status !== Status.Success) {
+      return {
+        status: status.toString(),
+        transactionHash,
+        gasUsed,
+        feeTinybars,
+        error: decodeRevertReason(record.contractFunctionResult?.errorMessage) ?? status.toString(),
+        // a revert is deterministic, resubmitting would only burn HBAR
+        retryable: status !== Status.ContractRevertExecuted,
+      };
+    }
+
+    return { status: status.toString(), transactionHash, gasUsed, feeTinybars, error: null, retryable: false };
+  } catch (error) {
+    console.error(`Error executing task ${taskId}:`, error);
+    return {
+      status: error instanceof ReceiptStatusError ? error.status.toString() : "ERROR",
+      transactionHash: execution ? Buffer.from(execution.transactionHash).toString('hex') : null,
+      gasUsed: null,
+      // the fee of a submitted transaction is unknown without its record
+      feeTinybars: null,
+      error: error?.toString() || 'Unknown error',
+      retryable: !(error instanceof ReceiptStatusError && error.status === Status.ContractRevertExecuted),
+    };
+  }
+}
+
+/**
+ * Turns the revert data reported by the consensus node into a readable reason,
+ * unwrapping the target's own revert from TaskExecutionFailed(bytes).
+ */
+export function decodeRevertReason(errorMessage?: string | null): string | null {
+  if (!errorMessage) {
+    return null;
+  }
+
+  if (!/^0x[0-9a-fA-F]*$/.test(errorMessage)) {
+    return errorMessage;
+  }
+
+  try {
+    const parsed = upkeeperErrors.parseError(errorMessage);
+    if (!parsed) {
+      return errorMessage;
+    }
+
+    if (parsed.name === "TaskExecutionFailed") {
+      const inner = decodeRevertReason(parsed.args[0]);
+      return inner && inner !== "0x" ? `TaskExecutionFailed: ${inner}` : "TaskExecutionFailed";
+    }
+
+    if (parsed.name === "Error") {
+      return parsed.args[0];
+    }
+
+    return parsed.signature;
+  } catch {
+    return errorMessage;
+  }
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
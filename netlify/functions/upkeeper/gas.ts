@@ -0,0 +1,174 @@
+import { ContractCallQuery, ContractFunctionParameters } from "@hashgraph/sdk";
+import { Interface, JsonRpcProvider } from "ethers";
+import { KeeperClient } from "../helper";
+import { getMirrorNodeUrl } from "../shared/hedera-client";
+
+const executeTaskInterface = new Interface(["function executeTask(bytes32 taskId, bytes data)"]);
+
+export interface GasPolicy {
+  // applied to the estimated gas to absorb state changes between estimation and execution
+  multiplier: number;
+  minGas: number;
+  maxGas: number;
+  // maximum spent by a run, null when the run is not capped
+  budgetTinybars: bigint | null;
+  // fixed gas price, null to read it from the mirror node
+  gasPriceTinybars: bigint | null;
+}
+
+/**
+ * Estimates the gas used by `executeTask(taskId, data)` when sent by the operator.
+ * Throws with the revert reason when the simulation reverts.
+ */
+export interface GasEstimator {
+  estimate(taskId: string, data: string): Promise<bigint>;
+}
+
+export class GasEstimationError extends Error {
+  constructor(
+    message: string,
+    // raw revert data when the simulation reverted
+    public readonly revertData: string | null = null,
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Reads the gas policy from the environment: KEEPER_GAS_MULTIPLIER (1.3), KEEPER_MIN_GAS (50 000),
+ * KEEPER_MAX_GAS (15 000 000), KEEPER_RUN_BUDGET_HBAR (not capped by default) and
+ * KEEPER_GAS_PRICE_TINYBARS (read from the mirror node by default).
+ */
+export function getGasPolicy(): GasPolicy {
+  const readNumber = (name: string, fallback: number, min: number) => {
+    const value = Number(process.env[name]);
+    return process.env[name] && Number.isFinite(value) && value >= min ? value : fallback;
+  };
+
+  const budget = process.env.KEEPER_RUN_BUDGET_HBAR;
+  if (budget !== undefined && budget !== "" && !(Number(budget) >= 0)) {
+    throw new Error(`Invalid KEEPER_RUN_BUDGET_HBAR ${budget}, expected an amount of HBAR`);
+  }
+
+  const gasPrice = process.env.KEEPER_GAS_PRICE_TINYBARS;
+  if (gasPrice !== undefined && gasPrice !== "" && !/^\d+$/.test(gasPrice.trim())) {
+    throw new Error(`Invalid KEEPER_GAS_PRICE_TINYBARS ${gasPrice}, expected a whole number of tinybars`);
+  }
+
+  return {
+    multiplier: readNumber("KEEPER_GAS_MULTIPLIER", 1.3, 1),
+    minGas: Math.floor(readNumber("KEEPER_MIN_GAS", 50_000, 21_000)),
+    maxGas: Math.floor(readNumber("KEEPER_MAX_GAS", 15_000_000, 21_000)),
+    budgetTinybars: budget ? BigInt(Math.round(Number(budget) * 1e8)) : null,
+    gasPriceTinybars: gasPrice ? BigInt(gasPrice.trim()) : null,
+  };
+}
+
+/**
+ * Gas limit to submit a task with: the estimate raised by the multiplier, within [minGas, maxGas].
+ */
+export function applyGasPolicy(estimatedGas: bigint, policy: GasPolicy): number {
+  const gas = Math.ceil(Number(estimatedGas) * policy.multiplier);
+  return Math.min(Math.max(gas, policy.minGas), policy.maxGas);
+}
+
+/**
+ * Simulates the execution with a ContractCallQuery sent by the operator account.
+ */
+export class ContractCallGasEstimator implements GasEstimator {
+  constructor(
+    private readonly maxGas: number,
+    private readonly keeperClient: KeeperClient,
+  ) {}
+
+  async estimate(taskId: string, data: string): Promise<bigint> {
+    const { client, contractId, operatorId } = this.keeperClient;
+
+    try {
+      const result = await new ContractCallQuery()
+        .setContractId(contractId)
+        .setSenderAccountId(operatorId)
+        .setGas(this.maxGas)
+        .setFunction(
+          "executeTask",
+          new ContractFunctionParameters()
+            .addBytes32(Buffer.from(taskId.slice(2), "hex"))
+            .addBytes(Buffer.from(data.slice(2), "hex")),
+        )
+        .execute(client);
+
+      return BigInt(result.gasUsed.toString());
+    } catch (error) {
+      const revertData = (error as { contractFunctionResult?: { errorMessage?: string } }).contractFunctionResult
+        ?.errorMessage;
+      throw new GasEstimationError(error instanceof Error ? error.message : String(error), revertData ?? null);
+    }
+  }
+}
+
+/**
+ * Estimates with `eth_estimateGas` on a JSON-RPC node, eg. the Hedera JSON-RPC relay or a local node.
+ */
+export class JsonRpcGasEstimator implements GasEstimator {
+  constructor(
+    private readonly provider: JsonRpcProvider,
+    private readonly from: string,
+    private readonly upkeeperAddress: string,
+  ) {}
+
+  async estimate(taskId: string, data: string): Promise<bigint> {
+    try {
+      return await this.provider.estimateGas({
+        from: this.from,
+        to: this.upkeeperAddress,
+        data: executeTaskInterface.encodeFunctionData("executeTask", [taskId, data]),
+      });
+    } catch (error) {
+      const revertData = (error as { data?: string }).data;
+      throw new GasEstimationError(error instanceof Error ? error.message : String(error), revertData ?? null);
+    }
+  }
+}
+
+/**
+ * Estimator configured in the environment: a ContractCallQuery by default, or `eth_estimateGas`
+ * on RPC_URL when KEEPER_GAS_ESTIMATOR=json-rpc.
+ */
+export function getGasEstimator(policy: GasPolicy, keeperClient: KeeperClient): GasEstimator {
+  if (process.env.KEEPER_GAS_ESTIMATOR === "json-rpc") {
+    if (!process.env.RPC_URL) {
+      throw new Error("RPC_URL must be set when KEEPER_GAS_ESTIMATOR=json-rpc");
+    }
+    const { operatorId } = keeperClient;
+    return new JsonRpcGasEstimator(
+      new JsonRpcProvider(process.env.RPC_URL),
+      `0x${operatorId.toSolidityAddress()}`,
+      process.env.CONTRACT_ADDRESS as string,
+    );
+  }
+
+  return new ContractCallGasEstimator(policy.maxGas, keeperClient);
+}
+
+/**
+ * Price of a unit of gas in tinybars, the fixed price of the policy or the ContractCall
+ * gas price published by the mirror node.
+ */
+export async function getGasPriceTinybars(policy: GasPolicy): Promise<bigint> {
+  if (policy.gasPriceTinybars !== null) {
+    return policy.gasPriceTinybars;
+  }
+
+  const response = await fetch(`${getMirrorNodeUrl()}/api/v1/network/fees`);
+  if (!response.ok) {
+    throw new Error(`Mirror node request failed with ${response.status}: ${await response.text()}`);
+  }
+
+  const { fees } = (await response.json()) as { fees: { gas: number; transaction_type: string }[] };
+  const contractCall = fees.find((fee) => fee.transaction_type === "ContractCall");
+  if (!contractCall) {
+    throw new Error("The mirror node did not return the ContractCall gas price");
+  }
+
+  return BigInt(contractCall.gas);
+}
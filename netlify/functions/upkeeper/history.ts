@@ -0,0 +1,504 @@
+import { Interface, JsonRpcProvider, Provider, solidityPackedKeccak256 } from "ethers";
+import { getMirrorNodeUrl } from "../shared/hedera-client";
+import { decodeRevertReason } from "./executor";
+
+/**
+ * A contract log, as returned by the mirror node or a JSON-RPC node.
+ */
+export interface LogEntry {
+  topics: string[];
+  data: string;
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+  // seconds since epoch
+  timestamp: number;
+}
+
+export interface LogQuery {
+  address: string;
+  from?: Date;
+  to?: Date;
+  // entries wanted, sources may return fewer or a little more
+  limit: number;
+  // `next` of the previous page
+  cursor?: string;
+}
+
+/**
+ * A page of a source, newest first. `next` is null on the last page.
+ */
+export interface Page<T> {
+  items: T[];
+  next: string | null;
+}
+
+/**
+ * Thrown when a cursor was not issued by `getTaskHistory` for this source.
+ */
+export class HistoryCursorError extends Error {}
+
+/**
+ * The outcome of a call to the contract, reverted ones included.
+ */
+export interface CallResult {
+  transactionHash: string;
+  blockNumber: number;
+  // seconds since epoch
+  timestamp: number;
+  from: string;
+  functionParameters: string;
+  // SUCCESS or the Hedera status of the failure, eg. CONTRACT_REVERT_EXECUTED
+  result: string;
+  errorMessage: string | null;
+  callResult: string | null;
+}
+
+/**
+ * Source of the logs emitted by a contract within an optional time range, paged newest first.
+ * Sources keeping the reverted calls, such as the mirror node, also provide the call results.
+ */
+export interface LogSource {
+  getLogs(query: LogQuery): Promise<Page<LogEntry>>;
+  getCallResults?(query: LogQuery): Promise<Page<CallResult>>;
+}
+
+// mirror node pages are capped to 100 entries
+const MIRROR_NODE_PAGE_SIZE = 100;
+
+/**
+ * Reads logs (`/api/v1/contracts/{address}/results/logs`) and call results
+ * (`/api/v1/contracts/{address}/results`) from the mirror node REST API, one page per call
+ * following its `links.next` pagination.
+ */
+export class MirrorNodeLogSource implements LogSource {
+  constructor(private readonly baseUrl: string = getMirrorNodeUrl()) {}
+
+  async getLogs(query: LogQuery): Promise<Page<LogEntry>> {
+    const page = await this.fetchPage<{
+      logs: {
+        topics: string[];
+        data: string | null;
+        block_number: number;
+        index: number;
+        transaction_hash: string;
+        timestamp: string;
+      }[];
+    }>(`/api/v1/contracts/${query.address}/results/logs`, query);
+
+    return {
+      items: page.logs.map((log) => ({
+        topics: log.topics,
+        data: log.data || "0x",
+        blockNumber: log.block_number,
+        logIndex: log.index,
+        transactionHash: log.transaction_hash,
+        timestamp: Number(log.timestamp),
+      })),
+      next: page.links.next,
+    };
+  }
+
+  async getCallResults(query: LogQuery): Promise<Page<CallResult>> {
+    const page = await this.fetchPage<{
+      results: {
+        hash: string;
+        block_number: number;
+        timestamp: string;
+        from: string;
+        function_parameters: string;
+        result: string;
+        error_message: string | null;
+        call_result: string | null;
+      }[];
+    }>(`/api/v1/contracts/${query.address}/results`, query);
+
+    return {
+      items: page.results.map((result) => ({
+        transactionHash: result.hash,
+        blockNumber: result.block_number,
+        timestamp: Number(result.timestamp),
+        from: result.from,
+        functionParameters: result.function_parameters,
+        result: result.result,
+        errorMessage: result.error_message,
+        callResult: result.call_result,
+      })),
+      next: page.links.next,
+    };
+  }
+
+  private async fetchPage<T>(path: string, { from, to, limit, cursor }: LogQuery) {
+    let url = cursor;
+    if (!url) {
+      const params = new URLSearchParams({ order: "desc", limit: String(Math.min(limit, MIRROR_NODE_PAGE_SIZE)) });
+      if (from) {
+        params.append("timestamp", `gte:${toMirrorTimestamp(from)}`);
+      }
+      if (to) {
+        params.append("timestamp", `lte:${toMirrorTimestamp(to)}`);
+      }
+      url = `${path}?${params}`;
+    } else if (!url.startsWith(`${path}?`)) {
+      // cursors come from the client, they may only continue the same listing
+      throw new HistoryCursorError(`Invalid cursor for ${path}`);
+    }
+
+    const response = await fetch(`${this.baseUrl}${url}`);
+    if (!response.ok) {
+      throw new Error(`Mirror node request failed with ${response.status}: ${await response.text()}`);
+    }
+
+    return (await response.json()) as T & { links: { next: string | null } };
+  }
+}
+
+// the Hedera JSON-RPC relay rejects eth_getLogs over more than 1000 blocks
+const JSON_RPC_BLOCK_RANGE = 1000;
+
+/**
+ * Reads logs with `eth_getLogs` from a JSON-RPC node (the Hedera JSON-RPC relay, a local node or
+ * Hardhat), one range of `blockRange` blocks per page from the latest block down to `fromBlock`,
+ * resolving each block's timestamp to apply the time range. The cursor is the next block to read.
+ */
+export class JsonRpcLogSource implements LogSource {
+  constructor(
+    private readonly provider: Provider,
+    private readonly fromBlock: number = 0,
+    private readonly blockRange: number = JSON_RPC_BLOCK_RANGE,
+  ) {}
+
+  async getLogs({ address, from, to, cursor }: LogQuery): Promise<Page<LogEntry>> {
+    if (cursor !== undefined && !/^\d+$/.test(cursor)) {
+      throw new HistoryCursorError(`Invalid cursor ${cursor}, expected a block number`);
+    }
+
+    const toBlock = cursor !== undefined ? Number(cursor) : await this.provider.getBlockNumber();
+    const fromBlock = Math.max(this.fromBlock, toBlock - this.blockRange + 1);
+    const logs = await this.provider.getLogs({ address, fromBlock, toBlock });
+
+    const timestamps = new Map<number, number>();
+    for (const blockNumber of new Set([fromBlock, ...logs.map((log) => log.blockNumber)])) {
+      const block = await this.provider.getBlock(blockNumber);
+      timestamps.set(blockNumber, block?.timestamp ?? 0);
+    }
+
+    // blocks before the range or before `from` hold nothing more of interest
+    const exhausted =
+      fromBlock <= this.fromBlock || (!!from && (timestamps.get(fromBlock) ?? 0) < from.getTime() / 1000);
+
+    return {
+      items: logs
+        .map((log) => ({
+          topics: [...log.topics],
+          data: log.data,
+          blockNumber: log.blockNumber,
+          logIndex: log.index,
+          transactionHash: log.transactionHash,
+          timestamp: timestamps.get(log.blockNumber) ?? 0,
+        }))
+        .filter(
+          (log) => (!from || log.timestamp >= from.getTime() / 1000) && (!to || log.timestamp <= to.getTime() / 1000),
+        )
+        .sort((a, b) => b.blockNumber - a.blockNumber || b.logIndex - a.logIndex),
+      next: exhausted ? null : String(fromBlock - 1),
+    };
+  }
+}
+
+export type TaskEventType = "executed" | "failed" | "registered" | "removed";
+
+export const TASK_EVENT_TYPES: TaskEventType[] = ["executed", "failed", "registered", "removed"];
+
+export interface TaskHistoryEntry {
+  event: TaskEventType;
+  taskId: string;
+  // a failed call only carries the task id, its target and selector are unknown
+  target: string | null;
+  selector: string | null;
+  // caller of an execution, the execution count is only known for successful ones
+  keeper: string | null;
+  executions: string | null;
+  // revert reason and data returned by the call, only known for failed executions
+  error: string | null;
+  returnData: string | null;
+  timestamp: string;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+export interface TaskHistoryFilter {
+  taskId?: string;
+  target?: string;
+  event?: TaskEventType;
+  from?: Date;
+  to?: Date;
+}
+
+export interface TaskHistoryPage {
+  entries: TaskHistoryEntry[];
+  // cursor of the following entries, null when the history is complete
+  next: string | null;
+}
+
+const upkeeperEvents = new Interface([
+  "event TaskExecuted(address indexed keeper, address indexed target, bytes4 selector, uint256 executions)",
+  "event TaskRegistered(address indexed target, bytes4 selector)",
+  "event TaskRemoved(address indexed target, bytes4 selector)",
+]);
+
+const upkeeperCalls = new Interface(["function executeTask(bytes32 taskId, bytes data)"]);
+
+const EVENT_TYPES: Record<string, TaskEventType> = {
+  TaskExecuted: "executed",
+  TaskRegistered: "registered",
+  TaskRemoved: "removed",
+};
+
+// pages read from the sources for one history page, the client follows `next` for the rest
+const MAX_SOURCE_PAGES = 10;
+
+/**
+ * Task id as computed by the UpKeeper: keccak256(abi.encodePacked(target, selector)).
+ */
+export function computeTaskId(target: string, selector: string): string {
+  return solidityPackedKeccak256(["address", "bytes4"], [target, selector]);
+}
+
+// position in a source: the cursor of its current page (null for the first) and the entries read from it
+interface StreamPosition {
+  page: string | null;
+  offset: number;
+}
+
+// positions of the sources, null once a source is exhausted or filtered out
+interface HistoryCursor {
+  logs: StreamPosition | null;
+  results: StreamPosition | null;
+}
+
+/**
+ * Entries of one source read page by page, newest first.
+ */
+class EntryStream {
+  private page: Page<TaskHistoryEntry> | null = null;
+
+  constructor(
+    private readonly load: (cursor?: string) => Promise<Page<TaskHistoryEntry>>,
+    public position: StreamPosition | null,
+  ) {}
+
+  // the newest entry not taken yet, null once exhausted and undefined when the page budget is spent
+  async peek(budget: { pages: number }): Promise<TaskHistoryEntry | null | undefined> {
+    while (this.position) {
+      if (!this.page) {
+        if (budget.pages === 0) {
+          return undefined;
+        }
+        budget.pages--;
+        this.page = await this.load(this.position.page ?? undefined);
+      }
+
+      if (this.position.offset < this.page.items.length) {
+        return this.page.items[this.position.offset];
+      }
+      this.position = this.page.next ? { page: this.page.next, offset: 0 } : null;
+      this.page = null;
+    }
+    return null;
+  }
+
+  take() {
+    if (this.position) {
+      this.position.offset++;
+    }
+  }
+
+  // moves past a fully read page without loading the next one
+  settle() {
+    if (this.position && this.page && this.position.offset >= this.page.items.length) {
+      this.position = this.page.next ? { page: this.page.next, offset: 0 } : null;
+      this.page = null;
+    }
+  }
+}
+
+/**
+ * Rebuilds the history of the UpKeeper tasks, newest first, from its events and, when the source
+ * keeps them, the failed `executeTask` calls with their revert reason and data. Failures of the
+ * `executeTasks` batches are not attributed to a task and left out.
+ *
+ * At most `limit` entries are returned, `next` continues the history where the page stopped.
+ */
+export async function getTaskHistory(
+  source: LogSource,
+  contractAddress: string,
+  filter: TaskHistoryFilter = {},
+  { limit = 20, cursor }: { limit?: number; cursor?: string } = {},
+): Promise<TaskHistoryPage> {
+  const query = { address: contractAddress, from: filter.from, to: filter.to, limit };
+  const start = decodeCursor(cursor);
+  const matches = (entry: TaskHistoryEntry) =>
+    (!filter.taskId || entry.taskId.toLowerCase() === normalizeHex(filter.taskId)) &&
+    (!filter.target || entry.target?.toLowerCase() === filter.target.toLowerCase()) &&
+    (!filter.event || entry.event === filter.event);
+
+  const logs = new EntryStream(
+    async (page) => {
+      const { items, next } = await source.getLogs({ ...query, cursor: page });
+      return {
+        items: items.map(toEntry).filter((entry): entry is TaskHistoryEntry => !!entry && matches(entry)),
+        next,
+      };
+    },
+    filter.event === "failed" ? null : start.logs,
+  );
+
+  const getCallResults = source.getCallResults?.bind(source);
+  const results = new EntryStream(
+    async (page) => {
+      const { items, next } = await getCallResults!({ ...query, cursor: page });
+      return {
+        items: items.map(toFailedEntry).filter((entry): entry is TaskHistoryEntry => !!entry && matches(entry)),
+        next,
+      };
+    },
+    getCallResults && (!filter.event || filter.event === "failed") ? start.results : null,
+  );
+
+  const budget = { pages: MAX_SOURCE_PAGES };
+  const entries: TaskHistoryEntry[] = [];
+  while (entries.length < limit) {
+    const log = await logs.peek(budget);
+    const result = log === undefined ? undefined : await results.peek(budget);
+    if (log === undefined || result === undefined || (!log && !result)) {
+      break;
+    }
+
+    // a log and a failure in the same second are ordered events first
+    if (log && (!result || log.timestamp >= result.timestamp)) {
+      entries.push(log);
+      logs.take();
+    } else if (result) {
+      entries.push(result);
+      results.take();
+    }
+  }
+
+  logs.settle();
+  results.settle();
+
+  return {
+    entries,
+    next: logs.position || results.position ? encodeCursor({ logs: logs.position, results: results.position }) : null,
+  };
+}
+
+function toEntry(log: LogEntry): TaskHistoryEntry | null {
+  const parsed = log.topics.length > 0 ? upkeeperEvents.parseLog({ topics: log.topics, data: log.data }) : null;
+  if (!parsed) {
+    // other events of the contract, eg. role changes
+    return null;
+  }
+
+  const event = EVENT_TYPES[parsed.name];
+  const { target, selector } = parsed.args;
+  const executed = event === "executed";
+
+  return {
+    event,
+    taskId: computeTaskId(target, selector),
+    target,
+    selector,
+    keeper: executed ? parsed.args.keeper : null,
+    executions: executed ? parsed.args.executions.toString() : null,
+    error: null,
+    returnData: null,
+    timestamp: new Date(log.timestamp * 1000).toISOString(),
+    blockNumber: log.blockNumber,
+    transactionHash: log.transactionHash,
+  };
+}
+
+function toFailedEntry(result: CallResult): TaskHistoryEntry | null {
+  if (result.result === "SUCCESS") {
+    return null;
+  }
+
+  let taskId: string;
+  try {
+    const call = upkeeperCalls.parseTransaction({ data: result.functionParameters });
+    if (!call) {
+      // other functions of the contract, eg. registrations or batches
+      return null;
+    }
+    taskId = call.args.taskId;
+  } catch {
+    return null;
+  }
+
+  return {
+    event: "failed",
+    taskId,
+    target: null,
+    selector: null,
+    keeper: result.from,
+    executions: null,
+    error: decodeRevertReason(result.errorMessage) ?? result.result,
+    returnData: result.callResult,
+    timestamp: new Date(result.timestamp * 1000).toISOString(),
+    blockNumber: result.blockNumber,
+    transactionHash: result.transactionHash,
+  };
+}
+
+function encodeCursor(cursor: HistoryCursor) {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeCursor(cursor?: string): HistoryCursor {
+  if (!cursor) {
+    return { logs: { page: null, offset: 0 }, results: { page: null, offset: 0 } };
+  }
+
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8")) as HistoryCursor;
+    for (const position of [decoded.logs, decoded.results]) {
+      if (
+        position !== null &&
+        (typeof position !== "object" ||
+          (position.page !== null && typeof position.page !== "string") ||
+          !Number.isInteger(position.offset) ||
+          position.offset < 0)
+      ) {
+        throw new Error();
+      }
+    }
+    return decoded;
+  } catch {
+    throw new HistoryCursorError("Invalid cursor");
+  }
+}
+
+function normalizeHex(value: string) {
+  return (value.startsWith("0x") ? value : `0x${value}`).toLowerCase();
+}
+
+function toMirrorTimestamp(date: Date) {
+  return (date.getTime() / 1000).toFixed(9);
+}
+
+/**
+ * Log source configured in the environment: the mirror node by default, or the JSON-RPC
+ * node at RPC_URL when KEEPER_LOG_SOURCE=json-rpc.
+ */
+export function getLogSource(): LogSource {
+  if (process.env.KEEPER_LOG_SOURCE === "json-rpc") {
+    if (!process.env.RPC_URL) {
+      throw new Error("RPC_URL must be set when KEEPER_LOG_SOURCE=json-rpc");
+    }
+    return new JsonRpcLogSource(new JsonRpcProvider(process.env.RPC_URL));
+  }
+
+  return new MirrorNodeLogSource();
+}
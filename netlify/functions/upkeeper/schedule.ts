@@ -0,0 +1,141 @@
+import { getStore } from "@netlify/blobs";
+import { readFile, writeFile } from "fs/promises";
+import { executeKeeperTransactions, getRetryPolicy, KeeperBackend, withKeeperBackend } from "./executor";
+import { getGasPolicy } from "./gas";
+
+/**
+ * Persists the timestamp (in ms) of the last successful run of each task.
+ */
+export interface ScheduleStateStore {
+  getLastRuns(): Promise<Record<string, number>>;
+  setLastRuns(lastRuns: Record<string, number>): Promise<void>;
+}
+
+const LAST_RUNS_KEY = "last-runs";
+
+/**
+ * State store backed by Netlify Blobs, used by the scheduled function.
+ * Lambda compatible handlers must call `connectLambda(event)` before using it.
+ */
+export class BlobScheduleStateStore implements ScheduleStateStore {
+  private store = getStore("upkeeper-schedule");
+
+  async getLastRuns(): Promise<Record<string, number>> {
+    return (await this.store.get(LAST_RUNS_KEY, { type: "json" })) ?? {};
+  }
+
+  async setLastRuns(lastRuns: Record<string, number>): Promise<void> {
+    await this.store.setJSON(LAST_RUNS_KEY, lastRuns);
+  }
+}
+
+/**
+ * State store backed by a JSON file, used by the local runner.
+ */
+export class FileScheduleStateStore implements ScheduleStateStore {
+  constructor(private readonly filePath: string) {}
+
+  async getLastRuns(): Promise<Record<string, number>> {
+    try {
+      return JSON.parse(await readFile(this.filePath, "utf-8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return {};
+      }
+      throw error;
+    }
+  }
+
+  async setLastRuns(lastRuns: Record<string, number>): Promise<void> {
+    await writeFile(this.filePath, JSON.stringify(lastRuns, null, 2), "utf-8");
+  }
+}
+
+/**
+ * Parses an interval such as "30m", "1h", "1d" or a plain number of seconds into milliseconds.
+ */
+export function parseInterval(value: string | number): number {
+  if (typeof value === "number" || /^\d+$/.test(value)) {
+    return Number(value) * 1_000;
+  }
+
+  const match = /^(\d+)\s*(s|m|h|d)$/.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid interval: ${value} (expected eg. 30m, 1h, 1d or seconds)`);
+  }
+
+  const units: Record<string, number> = { s: 1_000, m: 60_000, h: 3_600_000, d: 86_400_000 };
+  return Number(match[1]) * units[match[2]];
+}
+
+/**
+ * Reads the per-task intervals from KEEPER_TASK_SCHEDULE, a JSON object keyed by task id
+ * (eg. { "0x…": "1h" }). Tasks without an entry use KEEPER_DEFAULT_INTERVAL (1h by default).
+ */
+export function getTaskIntervals(): { defaultInterval: number; intervals: Record<string, number> } {
+  const defaultInterval = parseInterval(process.env.KEEPER_DEFAULT_INTERVAL || "1h");
+  const raw = process.env.KEEPER_TASK_SCHEDULE;
+  if (!raw) {
+    return { defaultInterval, intervals: {} };
+  }
+
+  let parsed: Record<string, string | number>;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`KEEPER_TASK_SCHEDULE is not valid JSON: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const intervals: Record<string, number> = {};
+  for (const [taskId, interval] of Object.entries(parsed)) {
+    if (!/^0x[a-fA-F0-9]{64}$/.test(taskId)) {
+      throw new Error(`Invalid task id in KEEPER_TASK_SCHEDULE: ${taskId}`);
+    }
+    intervals[taskId.toLowerCase()] = parseInterval(interval);
+  }
+
+  return { defaultInterval, intervals };
+}
+
+/**
+ * Executes the tasks whose interval elapsed since their last successful run and
+ * records the run time of the tasks that succeeded. Failed tasks stay due for the next tick.
+ */
+export async function runScheduledTasks(store: ScheduleStateStore, now = Date.now(), backend?: KeeperBackend) {
+  const { defaultInterval, intervals } = getTaskIntervals();
+  const gasPolicy = getGasPolicy();
+  const lastRuns = await store.getLastRuns();
+
+  const nextRunOf = (taskId: string) =>
+    (lastRuns[taskId.toLowerCase()] ?? 0) + (intervals[taskId.toLowerCase()] ?? defaultInterval);
+
+  return withKeeperBackend(gasPolicy, backend, async (runBackend) => {
+    const taskIds = await runBackend.getTaskList();
+    const dueTaskIds = taskIds.filter((taskId) => nextRunOf(taskId) <= now);
+    const notDue = taskIds
+      .filter((taskId) => !dueTaskIds.includes(taskId))
+      .map((taskId) => ({ taskId, nextRun: new Date(nextRunOf(taskId)).toISOString() }));
+
+    const result =
+      dueTaskIds.length > 0
+        ? await executeKeeperTransactions(
+            getRetryPolicy(),
+            false,
+            (taskId) => dueTaskIds.includes(taskId),
+            gasPolicy,
+            runBackend,
+          )
+        : null;
+
+    if (result) {
+      for (const taskResult of result.results) {
+        if (taskResult.skipReason === null && taskResult.error === null) {
+          lastRuns[taskResult.taskId.toLowerCase()] = now;
+        }
+      }
+      await store.setLastRuns(lastRuns);
+    }
+
+    return { executed: result, notDue };
+  });
+}
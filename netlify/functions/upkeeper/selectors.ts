@@ -0,0 +1,177 @@
+import { existsSync, readdirSync, readFileSync } from "fs";
+import { FunctionFragment, getAddress, Interface } from "ethers";
+import path from "path";
+import { getChainId } from "../shared/hedera-client";
+
+/**
+ * A task as given by a caller: the function is identified by its selector or by its
+ * signature (eg. "autoCompound()"), `contract` names the ABI of the target in data/abis.
+ */
+export interface TaskReference {
+  target: string;
+  selector?: string;
+  signature?: string;
+  contract?: string;
+}
+
+export interface ResolvedTask {
+  target: string;
+  selector: string;
+  signature: string | null;
+  // ABI the selector was checked against, null when the target type is unknown
+  contract: string | null;
+}
+
+export class TaskResolutionError extends Error {}
+
+// the data directory is bundled with the functions through `included_files` in netlify.toml
+const dataDir = () => process.env.KEEPER_DATA_DIR || path.join(process.cwd(), "data");
+
+let abis: Map<string, Interface> | null = null;
+
+/**
+ * ABIs of the contracts in data/abis keyed by contract name, loaded once.
+ */
+export function getKnownAbis(): Map<string, Interface> {
+  if (!abis) {
+    abis = new Map();
+    const dir = path.join(dataDir(), "abis");
+    for (const file of readdirSync(dir).filter((name) => name.endsWith(".json"))) {
+      const artifact = JSON.parse(readFileSync(path.join(dir, file), "utf-8"));
+      if (Array.isArray(artifact.abi) && artifact.abi.length > 0) {
+        abis.set(artifact.contractName || path.basename(file, ".json"), new Interface(artifact.abi));
+      }
+    }
+  }
+  return abis;
+}
+
+/**
+ * Contract names of known targets, from KEEPER_TARGET_CONTRACTS (a JSON object of address to
+ * contract name) and from the deployment file of the current network.
+ */
+export function getKnownTargets(): Record<string, string> {
+  const targets: Record<string, string> = {};
+
+  const deploymentFile = path.join(dataDir(), "deployments", `chain-${getChainId()}.json`);
+  if (existsSync(deploymentFile)) {
+    // the manifest, config, step and upgrade records hold deployers and implementations, not target names
+    const { manifest, config, steps, upgrades, ...groups } = JSON.parse(readFileSync(deploymentFile, "utf-8"));
+    collectAddresses(groups, targets);
+  }
+
+  if (process.env.KEEPER_TARGET_CONTRACTS) {
+    let configured: Record<string, string>;
+    try {
+      configured = JSON.parse(process.env.KEEPER_TARGET_CONTRACTS);
+    } catch (error) {
+      throw new Error(`KEEPER_TARGET_CONTRACTS is not valid JSON: ${error instanceof Error ? error.message : error}`);
+    }
+    for (const [address, contract] of Object.entries(configured)) {
+      targets[getAddress(address)] = contract;
+    }
+  }
+
+  return targets;
+}
+
+// deployment files group addresses by kind, eg. { factories: { BuildingFactory: "0x…" } }
+function collectAddresses(node: unknown, targets: Record<string, string>) {
+  if (typeof node !== "object" || node === null) {
+    return;
+  }
+  for (const [name, value] of Object.entries(node)) {
+    if (typeof value === "string" && /^0x[a-fA-F0-9]{40}$/.test(value)) {
+      targets[getAddress(value)] = name;
+    } else {
+      collectAddresses(value, targets);
+    }
+  }
+}
+
+/**
+ * Resolves the selector of a task and checks it against the ABI of the target's contract when
+ * its type is known. Signatures of unknown targets must exist in at least one known ABI.
+ * Only a `contract` given by the caller must name a known ABI.
+ */
+export function resolveTask(task: TaskReference, knownTargets = getKnownTargets()): ResolvedTask {
+  if (!!task.selector === !!task.signature) {
+    throw new TaskResolutionError("expected either a selector or a signature");
+  }
+
+  const target = getAddress(task.target);
+  const knownAbis = getKnownAbis();
+  if (task.contract && !knownAbis.has(task.contract)) {
+    throw new TaskResolutionError(`unknown contract ${task.contract}, expected the name of an ABI in data/abis`);
+  }
+
+  // deployment files also name contracts without an ABI here (eg. external.usdc), their type stays unknown
+  const inferred = knownTargets[target];
+  const contract = task.contract ?? (inferred && knownAbis.has(inferred) ? inferred : null);
+  const abi = contract ? knownAbis.get(contract) : undefined;
+
+  let fragment: FunctionFragment | null = null;
+  if (task.signature) {
+    let selector: string;
+    try {
+      selector = FunctionFragment.from(task.signature.replace(/^function\s+/, "")).selector;
+    } catch {
+      throw new TaskResolutionError(`invalid function signature ${task.signature}`);
+    }
+    fragment = findFunction(abi ? [abi] : [...knownAbis.values()], selector);
+    if (!fragment) {
+      throw new TaskResolutionError(`${task.signature} is not a function of ${contract ?? "any known contract"}`);
+    }
+  } else {
+    const selector = normalizeSelector(task.selector as string);
+    if (abi) {
+      fragment = findFunction([abi], selector);
+      if (!fragment) {
+        throw new TaskResolutionError(`${selector} is not a function of ${contract}`);
+      }
+    }
+    if (!fragment) {
+      return { target, selector, signature: null, contract: null };
+    }
+  }
+
+  return { target, selector: fragment.selector, signature: fragment.format("sighash"), contract: abi ? contract : null };
+}
+
+function findFunction(interfaces: Interface[], selector: string): FunctionFragment | null {
+  for (const iface of interfaces) {
+    const fragment = iface.fragments.find(
+      (entry): entry is FunctionFragment => entry.type === "function" && (entry as FunctionFragment).selector === selector,
+    );
+    if (fragment) {
+      return fragment;
+    }
+  }
+  return null;
+}
+
+function normalizeSelector(selector: string) {
+  return (selector.startsWith("0x") ? selector : `0x${selector}`).toLowerCase();
+}
+
+/**
+ * Resolves every task of a batch, collecting the errors instead of stopping at the first one.
+ */
+export function resolveTasks(tasks: TaskReference[]): { resolved: ResolvedTask[]; errors: { index: number; message: string }[] } {
+  const knownTargets = getKnownTargets();
+  const resolved: ResolvedTask[] = [];
+  const errors: { index: number; message: string }[] = [];
+
+  tasks.forEach((task, index) => {
+    try {
+      resolved.push(resolveTask(task, knownTargets));
+    } catch (error) {
+      if (!(error instanceof TaskResolutionError)) {
+        throw error;
+      }
+      errors.push({ index, message: error.message });
+    }
+  });
+
+  return { resolved, errors };
+}
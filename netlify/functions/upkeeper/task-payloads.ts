@@ -0,0 +1,179 @@
+import { ContractCallQuery, ContractId } from "@hashgraph/sdk";
+import { AbiCoder, FunctionFragment, Interface, isAddress } from "ethers";
+import { KeeperClient } from "../helper";
+
+/**
+ * Where the value of a single argument comes from:
+ * - static: a literal JSON value
+ * - call: the result of a view function on any contract (eg. the current slice address)
+ * - balance: the ERC20 balance of an account (eg. the building treasury USDC balance)
+ * - encode: ABI encodes nested arguments into bytes
+ */
+export type ArgumentSource =
+  | { type: "static"; value: unknown }
+  | { type: "call"; to: string | ArgumentSource; function: string; args?: ArgumentSource[]; output?: number }
+  | { type: "balance"; token: string | ArgumentSource; account: string | ArgumentSource }
+  | { type: "encode"; types: string[]; args: ArgumentSource[] };
+
+export interface TaskPayloadDefinition {
+  // ABI fragment of the target function, eg. "function performUpkeep(bytes performData)"
+  function: string;
+  args: ArgumentSource[];
+}
+
+export interface TaskPayload {
+  // calldata the target receives through the UpKeeper
+  calldata: string;
+  // value passed as `data` to UpKeeper.executeTask
+  data: string;
+}
+
+/**
+ * Calls a view function and returns its output at index `output`.
+ */
+export type ContractReader = (address: string, fn: string, args: unknown[], output: number) => Promise<unknown>;
+
+const erc20 = new Interface(["function balanceOf(address account) view returns (uint256)"]);
+
+/**
+ * Loads the payload definitions keyed by task id from the KEEPER_TASK_PAYLOADS
+ * environment variable (a JSON object). Tasks without a definition run with empty data.
+ */
+export function getTaskPayloadDefinitions(): Record<string, TaskPayloadDefinition> {
+  const raw = process.env.KEEPER_TASK_PAYLOADS;
+  if (!raw) {
+    return {};
+  }
+
+  let parsed: Record<string, TaskPayloadDefinition>;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`KEEPER_TASK_PAYLOADS is not valid JSON: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const definitions: Record<string, TaskPayloadDefinition> = {};
+  for (const [taskId, definition] of Object.entries(parsed)) {
+    if (!/^0x[a-fA-F0-9]{64}$/.test(taskId)) {
+      throw new Error(`Invalid task id in KEEPER_TASK_PAYLOADS: ${taskId}`);
+    }
+    validateDefinition(taskId, definition);
+    definitions[taskId.toLowerCase()] = definition;
+  }
+
+  return definitions;
+}
+
+/**
+ * The UpKeeper forwards `abi.encodeWithSelector(selector, data)` to the target, so a task
+ * can only receive arguments through a function taking a single `bytes` parameter.
+ */
+function validateDefinition(taskId: string, definition: TaskPayloadDefinition) {
+  let fragment: FunctionFragment;
+  try {
+    fragment = FunctionFragment.from(definition.function);
+  } catch (error) {
+    throw new Error(`Invalid function fragment for task ${taskId}: ${definition.function}`);
+  }
+
+  if (fragment.inputs.length !== 1 || fragment.inputs[0].type !== "bytes") {
+    throw new Error(
+      `Task ${taskId}: ${fragment.format()} must take a single bytes argument to be called through the UpKeeper`,
+    );
+  }
+
+  if (!Array.isArray(definition.args) || definition.args.length !== fragment.inputs.length) {
+    throw new Error(`Task ${taskId}: expected ${fragment.inputs.length} argument source(s)`);
+  }
+}
+
+/**
+ * Resolves the arguments of a task and encodes its calldata, checking that the
+ * encoded selector matches the selector the task was registered with.
+ */
+export async function encodeTaskPayload(
+  definition: TaskPayloadDefinition,
+  registeredSelector: string,
+  readContract: ContractReader,
+): Promise<TaskPayload> {
+  const fragment = FunctionFragment.from(definition.function);
+  const iface = new Interface([fragment]);
+
+  const args: unknown[] = [];
+  for (const source of definition.args) {
+    args.push(await resolveArgument(source, readContract));
+  }
+
+  const calldata = iface.encodeFunctionData(fragment, args);
+  const selector = calldata.slice(0, 10);
+  if (selector.toLowerCase() !== registeredSelector.toLowerCase()) {
+    throw new Error(
+      `Encoded selector ${selector} (${fragment.format()}) does not match registered selector ${registeredSelector}`,
+    );
+  }
+
+  const [data] = iface.decodeFunctionData(fragment, calldata);
+
+  return { calldata, data };
+}
+
+/**
+ * Resolves an argument source to the value passed to the ABI coder: a JSON value, a decoded
+ * function result, or ABI encoded bytes.
+ */
+export async function resolveArgument(source: ArgumentSource, readContract: ContractReader): Promise<unknown> {
+  const resolveAll = (sources: ArgumentSource[]) =>
+    Promise.all(sources.map((nested) => resolveArgument(nested, readContract)));
+
+  switch (source.type) {
+    case "static":
+      return source.value;
+    case "call":
+      return readContract(
+        await resolveAddress(source.to, readContract),
+        source.function,
+        await resolveAll(source.args ?? []),
+        source.output ?? 0,
+      );
+    case "balance":
+      return readContract(
+        await resolveAddress(source.token, readContract),
+        erc20.getFunction("balanceOf")!.format("full"),
+        [await resolveAddress(source.account, readContract)],
+        0,
+      );
+    case "encode":
+      return AbiCoder.defaultAbiCoder().encode(source.types, await resolveAll(source.args));
+    default:
+      throw new Error(`Unknown argument source: ${JSON.stringify(source)}`);
+  }
+}
+
+async function resolveAddress(value: string | ArgumentSource, readContract: ContractReader): Promise<string> {
+  const address = typeof value === "string" ? value : await resolveArgument(value, readContract);
+  if (typeof address !== "string" || !isAddress(address)) {
+    throw new Error(`Invalid address: ${address}`);
+  }
+
+  return address;
+}
+
+/**
+ * Reads the contracts with ContractCallQuery through the client of the run.
+ */
+export function getContractReader({ client }: KeeperClient): ContractReader {
+  return async (address, fn, args, output) => {
+    const iface = new Interface([fn.startsWith("function") ? fn : `function ${fn}`]);
+    const fragment = iface.fragments[0] as FunctionFragment;
+
+    const query = new ContractCallQuery()
+      .setContractId(ContractId.fromEvmAddress(0, 0, address))
+      .setGas(300_000)
+      .setFunctionParameters(Buffer.from(iface.encodeFunctionData(fragment, args).slice(2), "hex"));
+
+    const res = await query.execute(client);
+    const result = iface.decodeFunctionResult(fragment, res.asBytes());
+
+    return result[output];
+  };
+}
@@ -0,0 +1,75 @@
+import { Scope } from "../shared/auth";
+import { ApiError, Route } from "../shared/handler";
+import { address, array, object, optional, selector, string } from "../shared/schema";
+import { submitTaskChanges, submitUpkeeperTransaction, upkeeperInterface } from "./contract";
+import { resolveTasks, TaskReference } from "./selectors";
+
+// the largest batch accepted, each task is its own transaction
+const MAX_BATCH_SIZE = 50;
+
+const taskReference = () =>
+  object({
+    target: address(),
+    selector: optional(selector()),
+    signature: optional(string({ minLength: 3 })),
+    contract: optional(string({ minLength: 1 })),
+  });
+
+function resolveOrThrow(tasks: TaskReference[], path: string) {
+  const { resolved, errors } = resolveTasks(tasks);
+  if (errors.length > 0) {
+    const message = errors.map(({ index, message }) => `${path}[${index}]: ${message}`).join("; ");
+    throw new ApiError(400, "INVALID_BODY", message, { errors });
+  }
+  return resolved;
+}
+
+/**
+ * Route registering or removing a single task `{ target, selector | signature, contract? }`.
+ */
+export function taskChangeRoute(action: "registerTask" | "removeTask", scope: Scope): Route<TaskReference, unknown, unknown> {
+  return {
+    scope,
+    body: taskReference(),
+    async handle({ body }) {
+      const [task] = resolveOrThrow([body], "body");
+      const data = upkeeperInterface.encodeFunctionData(action, [task.target, task.selector]);
+
+      return { data: { ...task, ...(await submitUpkeeperTransaction(data)) } };
+    },
+  };
+}
+
+/**
+ * Route registering or removing a batch of tasks `{ tasks: [...] }`. The whole batch is
+ * rejected when a task does not resolve, then each task is submitted independently by `submit`.
+ */
+export function taskBatchChangeRoute(
+  action: "registerTask" | "removeTask",
+  scope: Scope,
+  submit: typeof submitTaskChanges = submitTaskChanges,
+): Route<{ tasks: TaskReference[] }, unknown, unknown> {
+  return {
+    scope,
+    body: object({ tasks: array(taskReference(), { minLength: 1, maxLength: MAX_BATCH_SIZE }) }),
+    async handle({ body }) {
+      const results = await submit(action, resolveOrThrow(body.tasks, "body.tasks"));
+
+      const failed = results.filter((result) => result.error !== null).length;
+      const summary = { total: results.length, succeeded: results.length - failed, failed };
+
+      if (failed === 0) {
+        return { data: { results, summary } };
+      }
+
+      return {
+        statusCode: failed === results.length ? 500 : 207,
+        data: { results, summary },
+        error: {
+          code: failed === results.length ? "EXECUTION_FAILED" : "PARTIAL_FAILURE",
+          message: `${failed} of ${results.length} tasks failed`,
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,412 @@
+import { ethers } from "hardhat";
+import { BaseContract, ContractTransactionResponse, Interface, LogDescription } from "ethers";
+import { getSteps, recordDeploymentConfig, withManifest } from "./deploy";
+import { readDeploymentConfig } from "./deployment-config";
+import { describeDeployment, hashCode } from "./deployment-manifest";
+import {
+    Deployment,
+    DeployStep,
+    getDeploymentFilePath,
+    requireAddress,
+    runSteps,
+    writeDeployment,
+} from "./deployment-state";
+
+// in-process Hardhat network and local node (yarn hardhat node, or the `local` network)
+const LOCAL_CHAIN_IDS = [31337n, 298n];
+
+const DEMO_BUILDINGS = [
+    { name: "Demo Tower", symbol: "DTWR" },
+    { name: "Demo Plaza", symbol: "DPLZ" },
+];
+
+const DEMO_CONFIG = {
+    tokenURI: "ipfs://bafkreidmn4ozne5okre4wpdjarywmiqgtayamg5r3ceq7sq5ez3m5sfpcq",
+    sliceMetadataUri: "ipfs://bafybeibnsoufr2renqzsh347nrx54wcubt5lgkeivez63xvivplfwhtpym/m",
+    // United States, ISO 3166-1 numeric
+    country: 840,
+    liquidityTokenAmount: ethers.parseEther("100"),
+    liquidityUsdcAmount: ethers.parseUnits("100", 6),
+    investorTokenAmount: ethers.parseEther("10"),
+    // signers after the deployer receiving an identity and tokens of every building
+    investorCount: 2,
+};
+
+async function deployUniswap(contracts: Deployment): Promise<Deployment> {
+    console.log(" - Deploying Uniswap ...");
+    const [owner] = await ethers.getSigners();
+
+    const weth = await ethers.deployContract("WETH9");
+    await weth.waitForDeployment();
+    const wethAddress = await weth.getAddress();
+    const uniswapFactory = await ethers.deployContract("UniswapV2Factory", [owner.address]);
+    await uniswapFactory.waitForDeployment();
+    const uniswapFactoryAddress = await uniswapFactory.getAddress();
+    const uniswapRouter = await ethers.deployContract("UniswapV2Router02", [uniswapFactoryAddress, wethAddress]);
+    await uniswapRouter.waitForDeployment();
+
+    return withManifest(
+        {
+            ...contracts,
+            external: {
+                ...contracts.external,
+                uniswapFactory: uniswapFactoryAddress,
+                uniswapRouter: await uniswapRouter.getAddress(),
+            },
+        },
+        {
+            "external.uniswapFactory": await describeDeployment(uniswapFactory, {
+                artifact: "UniswapV2Factory",
+                constructorArgs: [owner.address],
+            }),
+            "external.uniswapRouter": await describeDeployment(uniswapRouter, {
+                artifact: "UniswapV2Router02",
+                constructorArgs: [uniswapFactoryAddress, wethAddress],
+            }),
+        },
+    );
+}
+
+async function deployUsdc(contracts: Deployment): Promise<Deployment> {
+    console.log(" - Deploying USDC ...");
+    const usdc = await ethers.deployContract("USDC");
+    await usdc.waitForDeployment();
+
+    return withManifest(
+        { ...contracts, external: { ...contracts.external, usdc: await usdc.getAddress() } },
+        { "external.usdc": await describeDeployment(usdc, { artifact: "USDC" }) },
+    );
+}
+
+async function deployPriceFeeds(contracts: Deployment): Promise<Deployment> {
+    console.log(" - Deploying building token price feed ...");
+    // $1.00 with 18 decimals, as the building feed of deploy-mock-price-feeds.ts
+    const constructorArgs = [18, ethers.parseUnits("1", 18)] as const;
+    const priceFeed = await ethers.deployContract("MockV3Aggregator", [...constructorArgs]);
+    await priceFeed.waitForDeployment();
+
+    return withManifest(
+        { ...contracts, external: { ...contracts.external, chainlinkAggregatorMock: await priceFeed.getAddress() } },
+        {
+            "external.chainlinkAggregatorMock": await describeDeployment(priceFeed, {
+                artifact: "MockV3Aggregator",
+                constructorArgs: [...constructorArgs],
+            }),
+        },
+    );
+}
+
+async function deployTrexFactory(contracts: Deployment): Promise<Deployment> {
+    console.log(" - Deploying TREX factory ...");
+    const [owner] = await ethers.getSigners();
+
+    // the identity factory of the building tokens, separate from the one handed to the BuildingIdentityFactory
+    const identityImplementation = await ethers.deployContract("Identity", [owner.address, true], owner);
+    const identityImplementationAuthority = await ethers.deployContract(
+        "ImplementationAuthority",
+        [await identityImplementation.getAddress()],
+        owner,
+    );
+    const identityFactory = await ethers.deployContract(
+        "IdFactory",
+        [await identityImplementationAuthority.getAddress()],
+        owner,
+    );
+    const identityFactoryAddress = await identityFactory.getAddress();
+
+    const implementations: Record<string, BaseContract> = {};
+    for (const name of [
+        "ClaimTopicsRegistry",
+        "TrustedIssuersRegistry",
+        "IdentityRegistryStorage",
+        "IdentityRegistry",
+        "ModularCompliance",
+        "TokenVotes",
+    ]) {
+        implementations[name] = await (await ethers.deployContract(name, owner)).waitForDeployment();
+    }
+
+    const trexImplementationAuthority = await ethers.deployContract(
+        "TREXImplementationAuthority",
+        [true, ethers.ZeroAddress, ethers.ZeroAddress],
+        owner,
+    );
+    await trexImplementationAuthority.waitForDeployment();
+    const trexImplementationAuthorityAddress = await trexImplementationAuthority.getAddress();
+    await (
+        await trexImplementationAuthority.addAndUseTREXVersion(
+            { major: 4, minor: 0, patch: 0 },
+            {
+                tokenImplementation: await implementations.TokenVotes.getAddress(),
+                ctrImplementation: await implementations.ClaimTopicsRegistry.getAddress(),
+                irImplementation: await implementations.IdentityRegistry.getAddress(),
+                irsImplementation: await implementations.IdentityRegistryStorage.getAddress(),
+                tirImplementation: await implementations.TrustedIssuersRegistry.getAddress(),
+                mcImplementation: await implementations.ModularCompliance.getAddress(),
+            },
+        )
+    ).wait();
+
+    const trexDeployments = await (await ethers.deployContract("TREXDeployments")).waitForDeployment();
+    const libraries = { TREXDeployments: await trexDeployments.getAddress() };
+    const TREXFactory = await ethers.getContractFactory("TREXFactoryAts", { libraries });
+    const trexFactory = await TREXFactory.deploy(trexImplementationAuthorityAddress, identityFactoryAddress);
+    await trexFactory.waitForDeployment();
+    const trexFactoryAddress = await trexFactory.getAddress();
+
+    await (await identityFactory.addTokenFactory(trexFactoryAddress)).wait();
+
+    return withManifest(
+        { ...contracts, external: { ...contracts.external, trexFactory: trexFactoryAddress } },
+        {
+            "external.trexFactory": await describeDeployment(trexFactory, {
+                artifact: "TREXFactoryAts",
+                constructorArgs: [trexImplementationAuthorityAddress, identityFactoryAddress],
+                libraries,
+            }),
+        },
+    );
+}
+
+// the contracts deploy.ts takes from the address book, deployed first on a local network
+const dependencySteps: DeployStep[] = [
+    { name: "uniswap", outputs: ["external.uniswapFactory", "external.uniswapRouter"], run: deployUniswap },
+    { name: "usdc", outputs: ["external.usdc"], run: deployUsdc },
+    { name: "price-feeds", outputs: ["external.chainlinkAggregatorMock"], run: deployPriceFeeds },
+    { name: "trex-factory", outputs: ["external.trexFactory"], run: deployTrexFactory },
+];
+
+// suite steps reading the external addresses, redeployed along with them
+const externalDependencies: Record<string, string[]> = {
+    "autocompounder-factory": ["uniswap", "usdc"],
+    "building-factory": ["uniswap", "usdc", "trex-factory"],
+};
+
+async function waitFor(transaction: Promise<ContractTransactionResponse>) {
+    const receipt = await (await transaction).wait();
+    if (!receipt) {
+        throw new Error("Missing transaction receipt");
+    }
+    return receipt;
+}
+
+// decodes the first event of a receipt emitted by the given contract
+function findEvent(
+    contract: { interface: Interface },
+    logs: readonly { topics: readonly string[]; data: string }[],
+    name: string,
+) {
+    for (const log of logs) {
+        const parsed = contract.interface.parseLog({
+            topics: [...log.topics],
+            data: log.data,
+        }) as LogDescription | null;
+        if (parsed?.name === name) {
+            return parsed;
+        }
+    }
+    throw new Error(`Missing ${name} event`);
+}
+
+async function createDemoBuilding(contracts: Deployment, name: string, symbol: string) {
+    const [owner] = await ethers.getSigners();
+    const buildingFactory = await ethers.getContractAt(
+        "BuildingFactory",
+        requireAddress(contracts, "factories.BuildingFactory"),
+    );
+
+    const receipt = await waitFor(
+        buildingFactory.newBuilding(
+            {
+                tokenURI: DEMO_CONFIG.tokenURI,
+                tokenName: name,
+                tokenSymbol: symbol,
+                tokenDecimals: 18n,
+                tokenMintAmount: ethers.parseEther("1000"),
+                treasuryNPercent: 2000n,
+                treasuryReserveAmount: ethers.parseUnits("1000", 6),
+                governanceName: name + "Governance",
+                vaultShareTokenName: name + "Vault Token",
+                vaultShareTokenSymbol: "v" + symbol,
+                vaultFeeReceiver: owner.address,
+                vaultFeeToken: requireAddress(contracts, "external.usdc"),
+                vaultFeePercentage: 2000,
+                vaultCliff: 0n,
+                vaultUnlockDuration: 0n,
+                aTokenName: name + "AutoCompounder Token",
+                aTokenSymbol: "a" + symbol,
+            },
+            { gasLimit: 15_000_000 },
+        ),
+    );
+    const buildingAddress: string = findEvent(buildingFactory, receipt.logs, "NewBuilding").args[0];
+
+    // registers the identities of the owner, the pair and the vaults and mints the tokens to the owner
+    await waitFor(buildingFactory.configNewBuilding(buildingAddress, { gasLimit: 15_000_000 }));
+
+    const details = await buildingFactory.getBuildingDetails(buildingAddress);
+    console.log(` - Created ${name} at ${buildingAddress}`);
+
+    return details;
+}
+
+async function addDemoLiquidity(contracts: Deployment, tokenAddress: string) {
+    const [owner] = await ethers.getSigners();
+    const routerAddress = requireAddress(contracts, "external.uniswapRouter");
+    const usdcAddress = requireAddress(contracts, "external.usdc");
+    const router = await ethers.getContractAt("UniswapV2Router02", routerAddress);
+    const usdc = await ethers.getContractAt("USDC", usdcAddress);
+    const token = await ethers.getContractAt("TokenVotes", tokenAddress);
+
+    await waitFor(usdc.mint(owner.address, DEMO_CONFIG.liquidityUsdcAmount));
+    await waitFor(token.approve(routerAddress, DEMO_CONFIG.liquidityTokenAmount));
+    await waitFor(usdc.approve(routerAddress, DEMO_CONFIG.liquidityUsdcAmount));
+    await waitFor(
+        router.addLiquidity(
+            tokenAddress,
+            usdcAddress,
+            DEMO_CONFIG.liquidityTokenAmount,
+            DEMO_CONFIG.liquidityUsdcAmount,
+            DEMO_CONFIG.liquidityTokenAmount,
+            DEMO_CONFIG.liquidityUsdcAmount,
+            owner.address,
+            Math.floor(Date.now() / 1000) + 3600,
+            { gasLimit: 3_000_000 },
+        ),
+    );
+}
+
+// deploys the identity of a wallet once and registers it in the identity registry of the building
+async function registerDemoIdentity(contracts: Deployment, buildingAddress: string, wallet: string) {
+    const buildingFactory = await ethers.getContractAt(
+        "BuildingFactory",
+        requireAddress(contracts, "factories.BuildingFactory"),
+    );
+    if ((await buildingFactory.getIdentity(wallet)) === ethers.ZeroAddress) {
+        await waitFor(buildingFactory.deployIdentityForWallet(wallet));
+    }
+    await waitFor(buildingFactory.registerIdentity(buildingAddress, wallet, DEMO_CONFIG.country));
+}
+
+async function createDemoSlice(contracts: Deployment, autoCompounders: string[]) {
+    const sliceFactory = await ethers.getContractAt(
+        "SliceFactory",
+        requireAddress(contracts, "factories.SliceFactory"),
+    );
+
+    const receipt = await waitFor(
+        sliceFactory.deploySlice(`bootstrap-local-${Date.now()}`, {
+            uniswapRouter: requireAddress(contracts, "external.uniswapRouter"),
+            usdc: requireAddress(contracts, "external.usdc"),
+            name: "Demo Slice",
+            symbol: "DSLICE",
+            metadataUri: DEMO_CONFIG.sliceMetadataUri,
+        }),
+    );
+    const sliceAddress: string = findEvent(sliceFactory, receipt.logs, "SliceDeployed").args[0];
+
+    // equal allocations of the auto compounders, in basis points
+    const slice = await ethers.getContractAt("SliceV2", sliceAddress);
+    for (const autoCompounder of autoCompounders) {
+        await waitFor(
+            slice.addAllocation(
+                autoCompounder,
+                requireAddress(contracts, "external.chainlinkAggregatorMock"),
+                10_000 / autoCompounders.length,
+            ),
+        );
+    }
+    console.log(` - Created Demo Slice at ${sliceAddress}`);
+
+    return sliceAddress;
+}
+
+/**
+ * Creates the demo buildings with their liquidity pool, identities for the investor signers and a slice
+ * over the buildings, recorded under `demo` with the contract names of their ABIs.
+ */
+async function seedDemoData(contracts: Deployment): Promise<Deployment> {
+    const signers = await ethers.getSigners();
+    const investors = signers.slice(1, 1 + DEMO_CONFIG.investorCount).map((signer) => signer.address);
+
+    const buildings = [];
+    for (const { name, symbol } of DEMO_BUILDINGS) {
+        const details = await createDemoBuilding(contracts, name, symbol);
+        await addDemoLiquidity(contracts, details.erc3643Token);
+
+        const token = await ethers.getContractAt("TokenVotes", details.erc3643Token);
+        for (const investor of investors) {
+            await registerDemoIdentity(contracts, details.addr, investor);
+            await waitFor(token.transfer(investor, DEMO_CONFIG.investorTokenAmount));
+        }
+
+        buildings.push({
+            Building: details.addr,
+            TokenVotes: details.erc3643Token,
+            Treasury: details.treasury,
+            BuildingGovernance: details.governance,
+            RewardsVault4626: details.vault,
+            RewardsVaultAutoCompounder: details.autoCompounder,
+        });
+    }
+
+    const sliceAddress = await createDemoSlice(
+        contracts,
+        buildings.map((building) => building.RewardsVaultAutoCompounder),
+    );
+    // the slice holds the building tokens it rebalances into
+    for (const building of buildings) {
+        await registerDemoIdentity(contracts, building.Building, sliceAddress);
+    }
+
+    return { ...contracts, demo: { buildings, SliceV2: sliceAddress, investors } };
+}
+
+// demo data is seeded once per suite: the slice, created last, exists and the factory knows the buildings
+async function isDemoSeeded(contracts: Deployment): Promise<boolean> {
+    if (!contracts.demo?.SliceV2 || !(await hashCode(contracts.demo.SliceV2))) {
+        return false;
+    }
+    const buildingFactory = await ethers.getContractAt(
+        "BuildingFactory",
+        requireAddress(contracts, "factories.BuildingFactory"),
+    );
+    const building = contracts.demo.buildings[0].Building;
+    return (await buildingFactory.getBuildingDetails(building)).addr === building;
+}
+
+// Description: 🔍 - Deploy the dependencies, the suite and demo data on a local network
+async function main() {
+    const { chainId } = await ethers.provider.getNetwork();
+    if (!LOCAL_CHAIN_IDS.includes(chainId)) {
+        throw new Error(
+            `bootstrap-local deploys mocks and demo data, run it on hardhat or local, not on chain ${chainId}`,
+        );
+    }
+
+    const config = await readDeploymentConfig(chainId);
+    await recordDeploymentConfig(chainId, config);
+
+    const steps: DeployStep[] = [
+        ...dependencySteps,
+        ...getSteps(config).map((step) => ({
+            ...step,
+            dependsOn: [...(step.dependsOn ?? []), ...(externalDependencies[step.name] ?? [])],
+        })),
+    ];
+    const contracts = await runSteps(steps);
+
+    if (await isDemoSeeded(contracts)) {
+        console.log(" - Skipping demo data, already seeded");
+    } else {
+        console.log(" - Seeding demo data ...");
+        await writeDeployment(chainId, await seedDemoData(contracts));
+    }
+
+    console.log(` - Local stack ready, addresses in ${getDeploymentFilePath(chainId)}`);
+}
+
+main().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+});
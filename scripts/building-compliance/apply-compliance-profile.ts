@@ -0,0 +1,63 @@
+import { ethers } from "hardhat";
+import { planComplianceProfile, readComplianceProfile } from "./compliance-profile";
+
+interface ApplyOptions {
+    // YAML or JSON compliance profile of the building token
+    profile: string;
+    // print the plan without sending it
+    plan: boolean;
+}
+
+/**
+ * Reads `--profile` and `--plan` from the command line, or COMPLIANCE_PROFILE and
+ * COMPLIANCE_PLAN=true since `hardhat run` does not forward script arguments.
+ */
+function parseApplyOptions(argv = process.argv): ApplyOptions {
+    const index = argv.indexOf("--profile");
+    const profile = (index >= 0 ? argv[index + 1] : undefined) || process.env.COMPLIANCE_PROFILE;
+    if (!profile) {
+        throw new Error("Missing the --profile file of the compliance to apply");
+    }
+
+    return { profile, plan: argv.includes("--plan") || process.env.COMPLIANCE_PLAN === "true" };
+}
+
+// Description: 🔍 - Bring the compliance modules of a building token to a YAML or JSON profile
+async function main() {
+    const options = parseApplyOptions();
+    const [signer] = await ethers.getSigners();
+
+    const profile = await readComplianceProfile(options.profile);
+    const plan = await planComplianceProfile(profile, signer);
+
+    console.log(` - Compliance ${plan.compliance} of the token ${plan.token}`);
+    if (plan.actions.length > 0) {
+        console.table(
+            plan.actions.map(({ action, module, address, description }) => ({ action, module, address, description })),
+        );
+    }
+    for (const note of plan.notes) {
+        console.log(` - Note: ${note}`);
+    }
+    if (plan.actions.length === 0) {
+        console.log(" - The compliance matches the profile, nothing to apply");
+        return;
+    }
+    if (options.plan) {
+        console.log(` - Plan only, ${plan.actions.length} action(s) not sent`);
+        return;
+    }
+
+    for (const [index, { action, module, description, execute }] of plan.actions.entries()) {
+        const hashes = await execute();
+        console.log(
+            ` - ${index + 1}/${plan.actions.length} ${action} ${module}: ${description} (${hashes.join(", ")})`,
+        );
+    }
+    console.log(" - The compliance matches the profile");
+}
+
+main().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+});
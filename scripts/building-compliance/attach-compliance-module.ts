@@ -0,0 +1,228 @@
+import { ethers } from "hardhat";
+import { ContractTransactionResponse, Signer } from "ethers";
+import { resolveAddress } from "../../constants";
+
+interface PresetBalance {
+    // ONCHAINID of the investor
+    identity: string;
+    balance: bigint;
+}
+
+interface PresetSettings {
+    // balances held per identity before the module is bound, required when the token already has a supply
+    presetBalances?: PresetBalance[];
+}
+
+/**
+ * Initial configuration of each compliance module deployed under `compliance`, applied through the
+ * ModularCompliance of the building token right after the module is bound.
+ */
+export type ComplianceModuleSettings =
+    | { module: "ConditionalTransferModule"; approvedTransfers?: { from: string; to: string; amount: bigint }[] }
+    | { module: "CountryAllowModule"; allowedCountries: number[] }
+    | { module: "CountryRestrictModule"; restrictedCountries: number[] }
+    | { module: "ExchangeMonthlyLimitsModule"; limits: { exchangeId: string; monthlyLimit: bigint }[] }
+    | ({ module: "MaxBalanceModule"; maxBalance: bigint } & PresetSettings)
+    | ({
+          module: "MaxOwnershipByCountryModule";
+          limits: { country: number; maxLocal: number; maxNonlocal: number }[];
+      } & PresetSettings)
+    | ({ module: "MaxOwnershipModule"; maxPercentage: number } & PresetSettings)
+    | ({ module: "MaxTenPercentOwnershipModule" } & PresetSettings)
+    | { module: "OnlyUsaModule" }
+    | { module: "RequiresNFTModule"; nft: string }
+    | { module: "SupplyLimitModule"; supplyLimit: bigint }
+    | {
+          module: "TimeExchangeLimitsModule";
+          limits: { exchangeId: string; limitTime: number; limitValue: bigint }[];
+      }
+    | { module: "TimeTransfersLimitsModule"; limits: { limitTime: number; limitValue: bigint }[] }
+    // the collector must be a verified wallet of the token
+    | { module: "TransferFeesModule"; rate: number; collector: string }
+    | { module: "TransferLimitOneHundredModule" }
+    | { module: "TransferRestrictModule"; allowedUsers: string[] };
+
+// modules tracking balances per identity, they only bind to a token with a supply once preset
+const balanceTrackingModules = [
+    "MaxBalanceModule",
+    "MaxOwnershipByCountryModule",
+    "MaxOwnershipModule",
+    "MaxTenPercentOwnershipModule",
+] as const;
+
+export type BalanceTrackingSettings = Extract<
+    ComplianceModuleSettings,
+    { module: (typeof balanceTrackingModules)[number] }
+>;
+
+export function tracksBalances(settings: ComplianceModuleSettings): settings is BalanceTrackingSettings {
+    return (balanceTrackingModules as readonly string[]).includes(settings.module);
+}
+
+// module function calls made through ModularCompliance.callModuleFunction
+export function getInteractions(settings: ComplianceModuleSettings): [string, unknown[]][] {
+    switch (settings.module) {
+        case "ConditionalTransferModule": {
+            const transfers = settings.approvedTransfers ?? [];
+            return transfers.length === 0
+                ? []
+                : [
+                      [
+                          "batchApproveTransfers",
+                          [
+                              transfers.map((transfer) => transfer.from),
+                              transfers.map((transfer) => transfer.to),
+                              transfers.map((transfer) => transfer.amount),
+                          ],
+                      ],
+                  ];
+        }
+        case "CountryAllowModule":
+            return [["batchAllowCountries", [settings.allowedCountries]]];
+        case "CountryRestrictModule":
+            return [["batchRestrictCountries", [settings.restrictedCountries]]];
+        case "ExchangeMonthlyLimitsModule":
+            return settings.limits.map((limit) => ["setExchangeMonthlyLimit", [limit.exchangeId, limit.monthlyLimit]]);
+        case "MaxBalanceModule":
+            return [["setMaxBalance", [settings.maxBalance]]];
+        case "MaxOwnershipByCountryModule":
+            return settings.limits.map((limit) => [
+                "setMaxPercentage",
+                [limit.country, limit.maxLocal, limit.maxNonlocal],
+            ]);
+        case "MaxOwnershipModule":
+            return [["setMaxPercentage", [settings.maxPercentage]]];
+        case "RequiresNFTModule":
+            return [["requireNFT", [settings.nft]]];
+        case "SupplyLimitModule":
+            return [["setSupplyLimit", [settings.supplyLimit]]];
+        case "TimeExchangeLimitsModule":
+            return settings.limits.map((limit) => [
+                "setExchangeLimit",
+                [limit.exchangeId, { limitTime: limit.limitTime, limitValue: limit.limitValue }],
+            ]);
+        case "TimeTransfersLimitsModule":
+            return settings.limits.map((limit) => ["setTimeTransferLimit", [limit]]);
+        case "TransferFeesModule":
+            return [["setFee", [settings.rate, settings.collector]]];
+        case "TransferRestrictModule":
+            return [["batchAllowUsers", [settings.allowedUsers]]];
+        case "MaxTenPercentOwnershipModule":
+        case "OnlyUsaModule":
+        case "TransferLimitOneHundredModule":
+            return [];
+    }
+}
+
+/**
+ * Binds a compliance module to the ModularCompliance of a building token, presetting the balances of
+ * the token holders first when the module tracks them, and making the TransferFeesModule an agent of
+ * the token, which it needs to collect the fees. The signer must own the compliance, and the token
+ * for the TransferFeesModule.
+ *
+ * @returns the hashes of the transactions sent, none when the module is already bound
+ */
+export async function bindComplianceModule(
+    tokenAddress: string,
+    settings: ComplianceModuleSettings,
+    moduleAddress: string,
+    signer: Signer,
+): Promise<string[]> {
+    const token = await ethers.getContractAt("TokenVotes", tokenAddress, signer);
+    const complianceAddress = await token.compliance();
+    const compliance = await ethers.getContractAt("ModularCompliance", complianceAddress, signer);
+    const complianceModule = await ethers.getContractAt(settings.module, moduleAddress, signer);
+
+    const hashes: string[] = [];
+    const send = async (transaction: Promise<ContractTransactionResponse>) => {
+        const sent = await transaction;
+        await sent.wait();
+        hashes.push(sent.hash);
+    };
+
+    if (await compliance.isModuleBound(moduleAddress)) {
+        return hashes;
+    }
+
+    if (!(await complianceModule.isPlugAndPlay()) && !(await complianceModule.canComplianceBind(complianceAddress))) {
+        if (settings.module === "TransferFeesModule") {
+            const [owner, signerAddress] = await Promise.all([token.owner(), signer.getAddress()]);
+            if (owner.toLowerCase() !== signerAddress.toLowerCase()) {
+                throw new Error(
+                    `TransferFeesModule ${moduleAddress} must be an agent of the token ${tokenAddress} before it is bound, ` +
+                        `ask its owner ${owner} to add it`,
+                );
+            }
+            await send(token.addAgent(moduleAddress));
+        } else if (!tracksBalances(settings)) {
+            throw new Error(`${settings.module} ${moduleAddress} refuses to be bound to ${complianceAddress}`);
+        } else if (!settings.presetBalances) {
+            throw new Error(
+                `${settings.module} cannot be bound to ${complianceAddress} until the balances of the token holders are preset`,
+            );
+        } else {
+            // balances held before the module is bound, which it tracks from then on
+            if (settings.presetBalances.length > 0) {
+                await send(
+                    complianceModule.batchPreSetModuleState(
+                        complianceAddress,
+                        settings.presetBalances.map((preset) => preset.identity),
+                        settings.presetBalances.map((preset) => preset.balance),
+                    ),
+                );
+            }
+            await send(complianceModule.presetCompleted(complianceAddress));
+        }
+    }
+
+    await send(compliance.addModule(moduleAddress));
+    return hashes;
+}
+
+/**
+ * Binds a compliance module to the ModularCompliance of a building token and applies its initial
+ * configuration. The signer must own the compliance (the building owner), and the module for the
+ * exchange limits modules, which tag the exchange ids. A module already bound is only configured.
+ *
+ * @param tokenAddress ERC3643 token of the building
+ * @param settings module and its initial configuration
+ * @param moduleAddress module instance, defaults to the one recorded under `compliance` in the deployment file
+ * @returns the hashes of the transactions sent
+ */
+export async function attachComplianceModule(
+    tokenAddress: string,
+    settings: ComplianceModuleSettings,
+    moduleAddress?: string,
+    signer?: Signer,
+): Promise<string[]> {
+    const account = signer ?? (await ethers.getSigners())[0];
+    const address = moduleAddress ?? (await resolveAddress(`compliance.${settings.module}`));
+    const token = await ethers.getContractAt("TokenVotes", tokenAddress, account);
+    const compliance = await ethers.getContractAt("ModularCompliance", await token.compliance(), account);
+    const complianceModule = await ethers.getContractAt(settings.module, address, account);
+
+    const hashes: string[] = [];
+    const send = async (transaction: Promise<ContractTransactionResponse>) => {
+        const sent = await transaction;
+        await sent.wait();
+        hashes.push(sent.hash);
+    };
+
+    if (settings.module === "ExchangeMonthlyLimitsModule" || settings.module === "TimeExchangeLimitsModule") {
+        for (const { exchangeId } of settings.limits) {
+            if (!(await complianceModule.isExchangeID(exchangeId))) {
+                await send(complianceModule.addExchangeID(exchangeId));
+            }
+        }
+    }
+
+    hashes.push(...(await bindComplianceModule(tokenAddress, settings, address, account)));
+
+    for (const [functionName, args] of getInteractions(settings)) {
+        await send(
+            compliance.callModuleFunction(complianceModule.interface.encodeFunctionData(functionName, args), address),
+        );
+    }
+
+    return hashes;
+}
@@ -0,0 +1,680 @@
+import { ethers } from "hardhat";
+import { Contract, EventLog, Signer } from "ethers";
+import { existsSync } from "fs";
+import { readFile } from "fs/promises";
+import path from "path";
+import YAML from "yaml";
+import { resolveAddress } from "../../constants";
+import {
+    address,
+    array,
+    number,
+    object,
+    optional,
+    record,
+    Schema,
+    SchemaError,
+    unknown,
+} from "../../netlify/functions/shared/schema";
+import { toCountryCode } from "../../sdk/src";
+import { readDeployment } from "../deployment-state";
+import { bindComplianceModule, ComplianceModuleSettings, tracksBalances } from "./attach-compliance-module";
+
+type ModuleName = ComplianceModuleSettings["module"];
+
+export interface ComplianceProfileModule {
+    settings: ComplianceModuleSettings;
+    // module instance, defaults to the one recorded under `compliance` in the deployment file
+    address?: string;
+}
+
+export interface ComplianceProfile {
+    token: string;
+    // every module bound to the compliance of the token, the modules left out are removed
+    modules: ComplianceProfileModule[];
+    // first block searched for the events of the modules, defaults to the deployment block of each
+    // module recorded in the deployment file
+    fromBlock?: number;
+}
+
+export interface ComplianceAction {
+    module: string;
+    address: string;
+    action: "add" | "remove" | "configure";
+    description: string;
+    // sends the transactions of the action and returns their hashes
+    execute: () => Promise<string[]>;
+}
+
+export interface CompliancePlan {
+    token: string;
+    compliance: string;
+    actions: ComplianceAction[];
+    // state the plan could not read or the modules cannot undo
+    notes: string[];
+}
+
+interface ModuleCall {
+    description: string;
+    functionName: string;
+    args: unknown[];
+}
+
+interface ModuleChanges {
+    // exchange ids the exchange limits modules must tag before their limits are set
+    exchangeIds: string[];
+    calls: ModuleCall[];
+    notes: string[];
+}
+
+const profileSchema = object({
+    // building token, or a building of the factory whose token is configured
+    token: optional(address()),
+    building: optional(address()),
+    fromBlock: optional(number({ integer: true, min: 0 })),
+    // settings by module contract name, plus the `address` of the module instance
+    modules: optional(record(unknown()), {}),
+});
+
+// an amount in token units, eg. "1000.5"
+function tokenAmount(decimals: number): Schema<bigint> {
+    return {
+        parse(value, path) {
+            const text = typeof value === "number" ? value.toString() : value;
+            if (typeof text !== "string" || !/^\d+(\.\d+)?$/.test(text)) {
+                throw new SchemaError(path, "expected an amount in token units, eg. 1000.5");
+            }
+            try {
+                return ethers.parseUnits(text, decimals);
+            } catch {
+                throw new SchemaError(path, `expected an amount with at most ${decimals} decimals`);
+            }
+        },
+    };
+}
+
+// an ISO 3166-1 numeric, alpha-2 or alpha-3 code
+function country(): Schema<number> {
+    return {
+        parse(value, path) {
+            if (typeof value !== "string" && typeof value !== "number") {
+                throw new SchemaError(path, "expected an ISO 3166-1 country code");
+            }
+            try {
+                return toCountryCode(value);
+            } catch (error) {
+                throw new SchemaError(path, (error as Error).message);
+            }
+        },
+    };
+}
+
+// the settings of each module, as in ComplianceModuleSettings
+function moduleShapes(decimals: number): Record<ModuleName, Record<string, Schema<unknown>>> {
+    const amount = tokenAmount(decimals);
+    const basisPoints = number({ integer: true, min: 0, max: 10000 });
+    const presetBalances = optional(array(object({ identity: address(), balance: amount })));
+
+    return {
+        ConditionalTransferModule: {
+            approvedTransfers: optional(array(object({ from: address(), to: address(), amount })), []),
+        },
+        CountryAllowModule: { allowedCountries: array(country()) },
+        // the module restricts at most 194 countries per call
+        CountryRestrictModule: { restrictedCountries: array(country(), { maxLength: 194 }) },
+        ExchangeMonthlyLimitsModule: { limits: array(object({ exchangeId: address(), monthlyLimit: amount })) },
+        MaxBalanceModule: { maxBalance: amount, presetBalances },
+        // the module keeps a single local country
+        MaxOwnershipByCountryModule: {
+            limits: array(object({ country: country(), maxLocal: basisPoints, maxNonlocal: basisPoints }), {
+                minLength: 1,
+                maxLength: 1,
+            }),
+            presetBalances,
+        },
+        MaxOwnershipModule: { maxPercentage: basisPoints, presetBalances },
+        MaxTenPercentOwnershipModule: { presetBalances },
+        OnlyUsaModule: {},
+        RequiresNFTModule: { nft: address() },
+        SupplyLimitModule: { supplyLimit: amount },
+        TimeExchangeLimitsModule: {
+            limits: array(
+                object({ exchangeId: address(), limitTime: number({ integer: true, min: 1 }), limitValue: amount }),
+            ),
+        },
+        // the module holds at most 4 limits
+        TimeTransfersLimitsModule: {
+            limits: array(object({ limitTime: number({ integer: true, min: 1 }), limitValue: amount }), {
+                maxLength: 4,
+            }),
+        },
+        TransferFeesModule: { rate: basisPoints, collector: address() },
+        TransferLimitOneHundredModule: {},
+        TransferRestrictModule: { allowedUsers: array(address()) },
+    };
+}
+
+function parseProfileModule(name: string, value: unknown, decimals: number): ComplianceProfileModule {
+    const modulePath = `profile.modules.${name}`;
+    const shapes = moduleShapes(decimals);
+    if (!(name in shapes)) {
+        throw new SchemaError(
+            modulePath,
+            `unknown compliance module, expected one of ${Object.keys(shapes).join(", ")}`,
+        );
+    }
+    // a module without settings may be left empty
+    const entry = value ?? {};
+    if (typeof entry !== "object" || Array.isArray(entry)) {
+        throw new SchemaError(modulePath, "expected an object");
+    }
+
+    const { address: moduleAddress, ...settings } = entry as Record<string, unknown>;
+    const shape = shapes[name as ModuleName];
+    const unexpected = Object.keys(settings).find((key) => !(key in shape));
+    if (unexpected) {
+        throw new SchemaError(`${modulePath}.${unexpected}`, `unknown setting of ${name}`);
+    }
+
+    return {
+        settings: { module: name, ...object(shape).parse(settings, modulePath) } as ComplianceModuleSettings,
+        address: optional(address()).parse(moduleAddress, `${modulePath}.address`),
+    };
+}
+
+/**
+ * Reads the compliance profile of a building token, YAML for a .yaml or .yml file and JSON
+ * otherwise. The amounts are given in token units and parsed with the decimals of the token, the
+ * countries as ISO 3166-1 codes.
+ */
+export async function readComplianceProfile(filePath: string): Promise<ComplianceProfile> {
+    if (!existsSync(filePath)) {
+        throw new Error(`No compliance profile at ${filePath}`);
+    }
+    const text = await readFile(filePath, "utf-8");
+    const isYaml = [".yaml", ".yml"].includes(path.extname(filePath).toLowerCase());
+
+    try {
+        // the failsafe schema keeps every scalar a string, 0x addresses are not read as hex numbers
+        const document = isYaml ? YAML.parse(text, { schema: "failsafe" }) : JSON.parse(text);
+        const profile = profileSchema.parse(document, "profile");
+        if (!profile.token === !profile.building) {
+            throw new SchemaError("profile", "expected either a token or a building");
+        }
+
+        const token = profile.token ?? (await getBuildingToken(profile.building as string));
+        const decimals = Number(await (await ethers.getContractAt("TokenVotes", token)).decimals());
+        const modules = Object.entries(profile.modules).map(([name, value]) =>
+            parseProfileModule(name, value, decimals),
+        );
+
+        return { token, modules, fromBlock: profile.fromBlock };
+    } catch (error) {
+        throw new Error(`Invalid compliance profile ${filePath}: ${error instanceof Error ? error.message : error}`);
+    }
+}
+
+async function getBuildingToken(building: string): Promise<string> {
+    const buildingFactory = await ethers.getContractAt(
+        "BuildingFactory",
+        await resolveAddress("factories.BuildingFactory"),
+    );
+    return (await buildingFactory.getBuildingDetails(building)).erc3643Token;
+}
+
+// the Hedera JSON-RPC relay rejects eth_getLogs over more than 1000 blocks
+const LOG_BLOCK_RANGE = 1000;
+// the events of a module deployed longer ago are reported unreadable rather than searched
+const MAX_LOG_QUERIES = 1000;
+
+// blocks searched for the events of a module, from its deployment to the latest block
+interface BlockRange {
+    fromBlock: number;
+    toBlock: number;
+}
+
+const byEmission = (a: EventLog, b: EventLog) => a.blockNumber - b.blockNumber || a.index - b.index;
+
+// logs of a module event in emission order, one query per LOG_BLOCK_RANGE blocks, null when they cannot be read
+async function queryLogs(
+    module: Contract,
+    eventName: string,
+    args: unknown[],
+    range: BlockRange | null,
+): Promise<EventLog[] | null> {
+    if (!range || (range.toBlock - range.fromBlock) / LOG_BLOCK_RANGE >= MAX_LOG_QUERIES) {
+        return null;
+    }
+    const filter = module.filters[eventName](...args);
+    try {
+        const logs: EventLog[] = [];
+        for (let fromBlock = range.fromBlock; fromBlock <= range.toBlock; fromBlock += LOG_BLOCK_RANGE) {
+            const toBlock = Math.min(fromBlock + LOG_BLOCK_RANGE - 1, range.toBlock);
+            for (const log of await module.queryFilter(filter, fromBlock, toBlock)) {
+                if ("args" in log) {
+                    logs.push(log);
+                }
+            }
+        }
+        return logs.sort(byEmission);
+    } catch {
+        return null;
+    }
+}
+
+// logs of a module event emitted for the compliance, its first argument, filtered by the node when indexed
+async function queryEvents(
+    module: Contract,
+    eventName: string,
+    compliance: string,
+    range: BlockRange | null,
+): Promise<EventLog[] | null> {
+    const indexed = module.interface.getEvent(eventName)?.inputs[0].indexed;
+    const logs = await queryLogs(module, eventName, indexed ? [compliance] : [], range);
+    return logs && logs.filter((log) => log.args[0] === compliance);
+}
+
+// members of a list the module only exposes through the events adding and removing them
+async function replayList(
+    module: Contract,
+    compliance: string,
+    range: BlockRange | null,
+    addedEvent: string,
+    removedEvent: string,
+): Promise<string[] | null> {
+    const added = await queryEvents(module, addedEvent, compliance, range);
+    const removed = await queryEvents(module, removedEvent, compliance, range);
+    if (!added || !removed) {
+        return null;
+    }
+
+    const members = new Set<string>();
+    for (const log of [...added, ...removed].sort(byEmission)) {
+        if (log.eventName === addedEvent) {
+            members.add(String(log.args[1]));
+        } else {
+            members.delete(String(log.args[1]));
+        }
+    }
+    return [...members];
+}
+
+/**
+ * Compares the settings of a module with the state it holds for the compliance, bound or not since
+ * a module keeps the state of a compliance it is unbound from. A value the module does not expose
+ * is read from its events searched over `range`, and set again when they cannot be read.
+ */
+async function diffModule(
+    settings: ComplianceModuleSettings,
+    module: Contract,
+    compliance: string,
+    token: string,
+    range: BlockRange | null,
+    format: (value: bigint) => string,
+): Promise<ModuleChanges> {
+    const changes: ModuleChanges = { exchangeIds: [], calls: [], notes: [] };
+    const call = (description: string, functionName: string, ...args: unknown[]) =>
+        changes.calls.push({ description, functionName, args });
+    const note = (text: string) => changes.notes.push(`${settings.module}: ${text}`);
+    const unreadable = range
+        ? "the node serves no logs of the module"
+        : "its deployment block is unknown, set fromBlock in the profile";
+
+    switch (settings.module) {
+        case "ConditionalTransferModule": {
+            // an approval is consumed by the transfer, a transfer approved before was made or unapproved
+            const key = (from: unknown, to: unknown, amount: unknown) =>
+                `${String(from).toLowerCase()}/${String(to).toLowerCase()}/${amount}`;
+            const approved = settings.approvedTransfers?.length
+                ? await queryLogs(module, "TransferApproved", [], range)
+                : [];
+            const approvedBefore = new Set(
+                (approved ?? [])
+                    .filter(({ args }) => String(args[3]).toLowerCase() === token.toLowerCase())
+                    .map(({ args }) => key(args[0], args[1], args[2])),
+            );
+
+            const transfers = [];
+            for (const transfer of settings.approvedTransfers ?? []) {
+                const hash = await module.calculateTransferHash(transfer.from, transfer.to, transfer.amount, token);
+                if (await module.isTransferApproved(compliance, hash)) {
+                    continue;
+                }
+                const described = `the transfer of ${format(transfer.amount)} from ${transfer.from} to ${transfer.to}`;
+                if (!approved) {
+                    note(`${described} is not approved again in case it was made, ${unreadable}`);
+                } else if (approvedBefore.has(key(transfer.from, transfer.to, transfer.amount))) {
+                    note(`${described} was approved before, it is not approved again once made or unapproved`);
+                } else {
+                    transfers.push(transfer);
+                }
+            }
+            if (transfers.length > 0) {
+                call(
+                    `approve ${transfers.length} transfer(s)`,
+                    "batchApproveTransfers",
+                    transfers.map((transfer) => transfer.from),
+                    transfers.map((transfer) => transfer.to),
+                    transfers.map((transfer) => transfer.amount),
+                );
+            }
+            break;
+        }
+        case "CountryAllowModule": {
+            const allowed = ((await module.getAllowedCountries(compliance)) as bigint[]).map(Number);
+            const allow = settings.allowedCountries.filter((code) => !allowed.includes(code));
+            const disallow = allowed.filter((code) => !settings.allowedCountries.includes(code));
+            if (allow.length > 0) {
+                call(`allow countries ${allow.join(", ")}`, "batchAllowCountries", allow);
+            }
+            if (disallow.length > 0) {
+                call(`disallow countries ${disallow.join(", ")}`, "batchDisallowCountries", disallow);
+            }
+            break;
+        }
+        case "CountryRestrictModule": {
+            // restricting a restricted country reverts, each country is checked
+            const restrict = [];
+            for (const code of settings.restrictedCountries) {
+                if (!(await module.isCountryRestricted(compliance, code))) {
+                    restrict.push(code);
+                }
+            }
+            if (restrict.length > 0) {
+                call(`restrict countries ${restrict.join(", ")}`, "batchRestrictCountries", restrict);
+            }
+
+            const restricted = await replayList(
+                module,
+                compliance,
+                range,
+                "AddedRestrictedCountry",
+                "RemovedRestrictedCountry",
+            );
+            if (restricted === null) {
+                note(`the countries restricted outside the profile are not known, ${unreadable}`);
+                break;
+            }
+            const unrestrict = [];
+            for (const code of restricted.map(Number)) {
+                if (
+                    !settings.restrictedCountries.includes(code) &&
+                    (await module.isCountryRestricted(compliance, code))
+                ) {
+                    unrestrict.push(code);
+                }
+            }
+            for (let start = 0; start < unrestrict.length; start += 194) {
+                const batch = unrestrict.slice(start, start + 194);
+                call(`unrestrict countries ${batch.join(", ")}`, "batchUnrestrictCountries", batch);
+            }
+            break;
+        }
+        case "ExchangeMonthlyLimitsModule":
+            for (const { exchangeId, monthlyLimit } of settings.limits) {
+                if (!(await module.isExchangeID(exchangeId))) {
+                    changes.exchangeIds.push(exchangeId);
+                }
+                if ((await module.getExchangeMonthlyLimit(compliance, exchangeId)) !== monthlyLimit) {
+                    call(
+                        `set the monthly limit of exchange ${exchangeId} to ${format(monthlyLimit)}`,
+                        "setExchangeMonthlyLimit",
+                        exchangeId,
+                        monthlyLimit,
+                    );
+                }
+            }
+            break;
+        case "MaxBalanceModule": {
+            const logs = await queryEvents(module, "MaxBalanceSet", compliance, range);
+            const current: bigint | undefined = logs?.[logs.length - 1]?.args[1];
+            if (current !== settings.maxBalance) {
+                call(
+                    `set the maximum balance to ${format(settings.maxBalance)}${logs ? "" : `, ${unreadable}`}`,
+                    "setMaxBalance",
+                    settings.maxBalance,
+                );
+            }
+            break;
+        }
+        case "MaxOwnershipByCountryModule": {
+            const [limit] = settings.limits;
+            const logs = await queryEvents(module, "MaxPercentageSet", compliance, range);
+            const current = logs?.[logs.length - 1]?.args;
+            if (current && Number(current[1]) === limit.maxLocal && Number(current[2]) === limit.maxNonlocal) {
+                note("the local country is not readable on chain, only the percentages are compared");
+            } else {
+                call(
+                    `set the maximum ownership to ${limit.maxLocal} basis points for residents of ${limit.country} ` +
+                        `and ${limit.maxNonlocal} for the others${logs ? "" : `, ${unreadable}`}`,
+                    "setMaxPercentage",
+                    limit.country,
+                    limit.maxLocal,
+                    limit.maxNonlocal,
+                );
+            }
+            break;
+        }
+        case "MaxOwnershipModule": {
+            const logs = await queryEvents(module, "MaxPercentageSet", compliance, range);
+            const current = logs?.[logs.length - 1]?.args[1];
+            if (current === undefined || Number(current) !== settings.maxPercentage) {
+                call(
+                    `set the maximum ownership to ${settings.maxPercentage} basis points${
+                        logs ? "" : `, ${unreadable}`
+                    }`,
+                    "setMaxPercentage",
+                    settings.maxPercentage,
+                );
+            }
+            break;
+        }
+        case "RequiresNFTModule": {
+            const required = await queryEvents(module, "NFTRequired", compliance, range);
+            // NFTUnrequired carries no NFT, the last event of both tells the required one
+            const unrequired = await queryEvents(module, "NFTUnrequired", compliance, range);
+            const logs = required && unrequired ? [...required, ...unrequired].sort(byEmission) : null;
+            const last = logs?.[logs.length - 1];
+            const nft = last?.eventName === "NFTRequired" ? String(last.args[1]) : null;
+            if (nft?.toLowerCase() !== settings.nft.toLowerCase()) {
+                call(`require the NFT ${settings.nft}${logs ? "" : `, ${unreadable}`}`, "requireNFT", settings.nft);
+            }
+            break;
+        }
+        case "SupplyLimitModule":
+            if ((await module.getSupplyLimit(compliance)) !== settings.supplyLimit) {
+                call(`set the supply limit to ${format(settings.supplyLimit)}`, "setSupplyLimit", settings.supplyLimit);
+            }
+            break;
+        case "TimeExchangeLimitsModule":
+            for (const { exchangeId, limitTime, limitValue } of settings.limits) {
+                if (!(await module.isExchangeID(exchangeId))) {
+                    changes.exchangeIds.push(exchangeId);
+                }
+                const limits = (await module.getExchangeLimits(compliance, exchangeId)) as {
+                    limitTime: bigint;
+                    limitValue: bigint;
+                }[];
+                const current = limits.find((limit) => Number(limit.limitTime) === limitTime);
+                if (current?.limitValue !== limitValue) {
+                    call(
+                        `limit exchange ${exchangeId} to ${format(limitValue)} per ${limitTime} seconds`,
+                        "setExchangeLimit",
+                        exchangeId,
+                        { limitTime, limitValue },
+                    );
+                }
+            }
+            break;
+        case "TimeTransfersLimitsModule": {
+            const limits = (await module.getTimeTransferLimits(compliance)) as {
+                limitTime: bigint;
+                limitValue: bigint;
+            }[];
+            for (const { limitTime, limitValue } of settings.limits) {
+                const current = limits.find((limit) => Number(limit.limitTime) === limitTime);
+                if (current?.limitValue !== limitValue) {
+                    call(`limit transfers to ${format(limitValue)} per ${limitTime} seconds`, "setTimeTransferLimit", {
+                        limitTime,
+                        limitValue,
+                    });
+                }
+            }
+            const kept = limits.filter(
+                (limit) => !settings.limits.some(({ limitTime }) => limitTime === Number(limit.limitTime)),
+            );
+            if (kept.length + settings.limits.length > 4) {
+                throw new Error(
+                    `TimeTransfersLimitsModule holds at most 4 limits and cannot remove its limits of ${kept
+                        .map((limit) => `${limit.limitTime}`)
+                        .join(", ")} seconds`,
+                );
+            }
+            for (const limit of kept) {
+                note(
+                    `the limit of ${format(limit.limitValue)} per ${
+                        limit.limitTime
+                    } seconds is kept, the module cannot remove a limit`,
+                );
+            }
+            break;
+        }
+        case "TransferFeesModule": {
+            const fee = (await module.getFee(compliance)) as { rate: bigint; collector: string };
+            if (
+                Number(fee.rate) !== settings.rate ||
+                fee.collector.toLowerCase() !== settings.collector.toLowerCase()
+            ) {
+                call(
+                    `set the fee to ${settings.rate} basis points collected by ${settings.collector}`,
+                    "setFee",
+                    settings.rate,
+                    settings.collector,
+                );
+            }
+            break;
+        }
+        case "TransferRestrictModule": {
+            const allow = [];
+            for (const user of settings.allowedUsers) {
+                if (!(await module.isUserAllowed(compliance, user))) {
+                    allow.push(user);
+                }
+            }
+            if (allow.length > 0) {
+                call(`allow users ${allow.join(", ")}`, "batchAllowUsers", allow);
+            }
+
+            const allowed = await replayList(module, compliance, range, "UserAllowed", "UserDisallowed");
+            if (allowed === null) {
+                note(`the users allowed outside the profile are not known, ${unreadable}`);
+                break;
+            }
+            const profileUsers = settings.allowedUsers.map((user) => user.toLowerCase());
+            const disallow = [];
+            for (const user of allowed) {
+                if (!profileUsers.includes(user.toLowerCase()) && (await module.isUserAllowed(compliance, user))) {
+                    disallow.push(user);
+                }
+            }
+            if (disallow.length > 0) {
+                call(`disallow users ${disallow.join(", ")}`, "batchDisallowUsers", disallow);
+            }
+            break;
+        }
+        case "MaxTenPercentOwnershipModule":
+        case "OnlyUsaModule":
+        case "TransferLimitOneHundredModule":
+            break;
+    }
+
+    return changes;
+}
+
+/**
+ * Plans the transactions bringing the compliance of a building token to its profile: the modules
+ * of the profile that are not bound are added, the settings differing from the state of a module
+ * are configured through ModularCompliance.callModuleFunction, and the bound modules the profile
+ * leaves out are removed. Nothing is sent until the actions are executed, in order.
+ *
+ * The signer must own the compliance (the building owner), and the exchange limits modules when
+ * they must tag exchange ids. A module tracking balances that cannot be bound without its
+ * `presetBalances` fails the plan, before any action is sent.
+ */
+export async function planComplianceProfile(profile: ComplianceProfile, signer: Signer): Promise<CompliancePlan> {
+    const token = await ethers.getContractAt("TokenVotes", profile.token, signer);
+    const complianceAddress = await token.compliance();
+    const compliance = await ethers.getContractAt("ModularCompliance", complianceAddress, signer);
+    const decimals = Number(await token.decimals());
+    const format = (value: bigint) => ethers.formatUnits(value, decimals);
+    const bound = ((await compliance.getModules()) as string[]).map((module) => ethers.getAddress(module));
+    const toBlock = await ethers.provider.getBlockNumber();
+    const { manifest } = await readDeployment((await ethers.provider.getNetwork()).chainId);
+    const deploymentBlock = (moduleAddress: string) =>
+        Object.values(manifest ?? {}).find((entry) => ethers.getAddress(entry.address) === moduleAddress)?.blockNumber;
+
+    const plan: CompliancePlan = { token: profile.token, compliance: complianceAddress, actions: [], notes: [] };
+    const send = async (transaction: Promise<{ hash: string; wait: () => Promise<unknown> }>) => {
+        const sent = await transaction;
+        await sent.wait();
+        return [sent.hash];
+    };
+
+    const profileAddresses: string[] = [];
+    for (const { settings, address } of profile.modules) {
+        const moduleAddress = ethers.getAddress(address ?? (await resolveAddress(`compliance.${settings.module}`)));
+        profileAddresses.push(moduleAddress);
+        const module = await ethers.getContractAt(settings.module, moduleAddress, signer);
+        const fromBlock = profile.fromBlock ?? deploymentBlock(moduleAddress);
+        const range = fromBlock === undefined ? null : { fromBlock, toBlock };
+        const changes = await diffModule(settings, module, complianceAddress, profile.token, range, format);
+        plan.notes.push(...changes.notes);
+
+        const action = (type: ComplianceAction["action"], description: string, execute: () => Promise<string[]>) =>
+            plan.actions.push({ module: settings.module, address: moduleAddress, action: type, description, execute });
+
+        for (const exchangeId of changes.exchangeIds) {
+            action("configure", `tag ${exchangeId} as exchange id`, () => send(module.addExchangeID(exchangeId)));
+        }
+        if (!bound.includes(moduleAddress)) {
+            if (
+                tracksBalances(settings) &&
+                !settings.presetBalances &&
+                !(await module.isPlugAndPlay()) &&
+                !(await module.canComplianceBind(complianceAddress))
+            ) {
+                throw new Error(
+                    `${settings.module} cannot be bound to ${complianceAddress} until the balances of the token ` +
+                        "holders are preset, add its presetBalances to the profile",
+                );
+            }
+            action("add", "bind the module to the compliance", () =>
+                bindComplianceModule(profile.token, settings, moduleAddress, signer),
+            );
+        }
+        for (const { description, functionName, args } of changes.calls) {
+            action("configure", description, () =>
+                send(
+                    compliance.callModuleFunction(
+                        module.interface.encodeFunctionData(functionName, args),
+                        moduleAddress,
+                    ),
+                ),
+            );
+        }
+    }
+
+    // removed last, the token is never left with fewer rules than the profile while it is applied
+    for (const moduleAddress of bound.filter((module) => !profileAddresses.includes(module))) {
+        const name: string = await (await ethers.getContractAt("IModule", moduleAddress)).name();
+        plan.actions.push({
+            module: name,
+            address: moduleAddress,
+            action: "remove",
+            description: "unbind the module, it is not in the profile",
+            execute: () => send(compliance.removeModule(moduleAddress)),
+        });
+    }
+
+    return plan;
+}
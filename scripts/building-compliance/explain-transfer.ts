@@ -0,0 +1,75 @@
+import { ethers } from "hardhat";
+import { resolveAddress } from "../../constants";
+import { explainTransfer } from "../../sdk/src";
+
+interface ExplainOptions {
+    // building token, or the token of a building of the factory
+    token?: string;
+    building?: string;
+    // the signer when missing
+    from?: string;
+    to: string;
+    // in token units, eg. 1.5
+    amount: string;
+}
+
+/**
+ * Reads `--token` or `--building`, `--from`, `--to` and `--amount` from the command line, or
+ * EXPLAIN_TOKEN, EXPLAIN_BUILDING, EXPLAIN_FROM, EXPLAIN_TO and EXPLAIN_AMOUNT since `hardhat run`
+ * does not forward script arguments.
+ */
+function parseExplainOptions(argv = process.argv): ExplainOptions {
+    const argument = (name: string) => {
+        const index = argv.indexOf(`--${name}`);
+        return index >= 0 ? argv[index + 1] : undefined;
+    };
+
+    const token = argument("token") || process.env.EXPLAIN_TOKEN || undefined;
+    const building = argument("building") || process.env.EXPLAIN_BUILDING || undefined;
+    const to = argument("to") || process.env.EXPLAIN_TO;
+    const amount = argument("amount") || process.env.EXPLAIN_AMOUNT;
+    if (!token === !building) {
+        throw new Error("Explain a transfer of either a --token or the token of a --building");
+    }
+    if (!to || !amount) {
+        throw new Error("Missing the --to wallet or the --amount of the transfer");
+    }
+
+    return { token, building, from: argument("from") || process.env.EXPLAIN_FROM || undefined, to, amount };
+}
+
+async function getBuildingToken(building: string): Promise<string> {
+    const buildingFactory = await ethers.getContractAt(
+        "BuildingFactory",
+        await resolveAddress("factories.BuildingFactory"),
+    );
+    return (await buildingFactory.getBuildingDetails(building)).erc3643Token;
+}
+
+// Description: 🔍 - Explain which compliance rule blocks a building token transfer
+async function main() {
+    const options = parseExplainOptions();
+    const [signer] = await ethers.getSigners();
+
+    const tokenAddress: string = options.token ?? (await getBuildingToken(options.building as string));
+    const token = await ethers.getContractAt("TokenVotes", tokenAddress);
+    const amount = ethers.parseUnits(options.amount, await token.decimals());
+    const from = options.from ?? signer.address;
+
+    const explanation = await explainTransfer(tokenAddress, from, options.to, amount, ethers.provider);
+
+    console.log(` - Transfer of ${options.amount} tokens of ${tokenAddress} from ${from} to ${options.to}`);
+    console.table(
+        explanation.rules.map(({ rule, module, passed, reason }) => ({ rule, module: module ?? "", passed, reason })),
+    );
+    console.log(
+        explanation.blockedBy
+            ? ` - Blocked by ${explanation.blockedBy.rule}: ${explanation.blockedBy.reason}`
+            : " - The transfer is allowed",
+    );
+}
+
+main().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+});
@@ -0,0 +1,114 @@
+import { ethers } from "hardhat";
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { resolveAddress } from "../../constants";
+import { BuildingSuite, Investor, onboardInvestors } from "../../sdk/src";
+import { promptBuilding } from "../building/prompt-building";
+
+interface OnboardOptions {
+    building?: string;
+    investors: Investor[];
+    // file the JSON report is written to
+    report?: string;
+}
+
+/**
+ * Reads the investors of a CSV file with a `wallet,country` header, the country being an ISO 3166-1
+ * numeric, alpha-2 or alpha-3 code. Blank lines and lines starting with # are skipped.
+ */
+function readInvestorsCsv(path: string): Investor[] {
+    if (!existsSync(path)) {
+        throw new Error(`No investors file at ${path}`);
+    }
+
+    const rows = readFileSync(path, "utf8")
+        .split(/\r?\n/)
+        .map((line, index) => ({
+            line: index + 1,
+            cells: line.split(",").map((cell) => cell.trim().replace(/^"|"$/g, "")),
+        }))
+        .filter(({ cells }) => cells.join("") !== "" && !cells[0].startsWith("#"));
+
+    const [header, ...investors] = rows;
+    const columns = header?.cells.map((cell) => cell.toLowerCase()) ?? [];
+    const walletColumn = columns.indexOf("wallet");
+    const countryColumn = columns.indexOf("country");
+    if (walletColumn < 0 || countryColumn < 0) {
+        throw new Error(`${path} must start with a wallet,country header`);
+    }
+
+    return investors.map(({ line, cells }) => {
+        const wallet = cells[walletColumn];
+        const country = cells[countryColumn];
+        if (!ethers.isAddress(wallet) || !country) {
+            throw new Error(`${path}:${line} must have a wallet address and a country code`);
+        }
+        return { wallet: ethers.getAddress(wallet), country };
+    });
+}
+
+/**
+ * Reads `--building`, `--wallet` with `--country`, or `--csv`, and `--report` from the command
+ * line, or ONBOARD_BUILDING, ONBOARD_WALLET, ONBOARD_COUNTRY, ONBOARD_CSV and ONBOARD_REPORT since
+ * `hardhat run` does not forward script arguments.
+ */
+function parseOnboardOptions(argv = process.argv): OnboardOptions {
+    const argument = (name: string) => {
+        const index = argv.indexOf(`--${name}`);
+        return index >= 0 ? argv[index + 1] : undefined;
+    };
+
+    const csv = argument("csv") || process.env.ONBOARD_CSV;
+    const wallet = argument("wallet") || process.env.ONBOARD_WALLET;
+    const country = argument("country") || process.env.ONBOARD_COUNTRY;
+    if (csv && wallet) {
+        throw new Error("Onboard either a --wallet or the wallets of a --csv file, not both");
+    }
+    if (!csv && !(wallet && country)) {
+        throw new Error("Missing the --csv file of the investors, or a --wallet and its --country");
+    }
+
+    return {
+        building: argument("building") || process.env.ONBOARD_BUILDING || undefined,
+        investors: csv ? readInvestorsCsv(csv) : [{ wallet: wallet as string, country: country as string }],
+        report: argument("report") || process.env.ONBOARD_REPORT || undefined,
+    };
+}
+
+// Description: 🔍 - Onboard investors of a building: identity, registration and compliance check
+async function main() {
+    const options = parseOnboardOptions();
+    const [signer] = await ethers.getSigners();
+    const suite = BuildingSuite.connect(await resolveAddress("factories.BuildingFactory"), signer);
+    const building = options.building ?? (await promptBuilding()).addr;
+
+    console.log(` - Onboarding ${options.investors.length} investor(s) of ${building}`);
+    const reports = await onboardInvestors(suite, building, options.investors);
+
+    console.table(
+        reports.map(({ wallet, country, identity, identityStep, registrationStep, complianceStep, error }) => ({
+            wallet,
+            country,
+            identity,
+            identity_step: identityStep,
+            registration_step: registrationStep,
+            compliance_step: complianceStep,
+            error: error ?? "",
+        })),
+    );
+
+    if (options.report) {
+        writeFileSync(options.report, JSON.stringify(reports, null, 4));
+        console.log(` - Report written to ${options.report}`);
+    }
+
+    const failed = reports.filter((report) => report.error !== null);
+    if (failed.length > 0) {
+        console.log(` - ${failed.length} of ${reports.length} investor(s) not fully onboarded, run again once fixed`);
+        process.exitCode = 1;
+    }
+}
+
+main().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+});
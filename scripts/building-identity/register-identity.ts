@@ -1,17 +1,23 @@
 import { ethers } from "hardhat";
-import Deployments from "../../data/deployments/chain-296.json";
+import { resolveAddress } from "../../constants";
+import { toCountryCode } from "../../sdk/src";
 import { promptAddress } from "../building/prompt-address";
+import { promptString } from "../building/prompt-string";
 
 // Description: 🔍 - Register identity
 async function registerIdentity() {
     const [deployer] = await ethers.getSigners();
 
-    const WALLET_ADDRESS = promptAddress("wallet address");
-    const IDENTITY_ADDRESS = promptAddress("identity address");
-    const BUILDING_ADDRESS = promptAddress("building address");
-    const COUNTRY = 840; // ISO United States country code (see: https://www.iso.org/obp/ui/#search)
+    const WALLET_ADDRESS = await promptAddress("wallet address");
+    const IDENTITY_ADDRESS = await promptAddress("identity address");
+    const BUILDING_ADDRESS = await promptAddress("building address");
+    // ISO 3166-1 numeric, alpha-2 or alpha-3 country code (see: https://www.iso.org/obp/ui/#search)
+    const COUNTRY = toCountryCode(await promptString("country code", "US"));
 
-    const buildingFactory = await ethers.getContractAt("BuildingFactory", Deployments.factories.BuildingFactory);
+    const buildingFactory = await ethers.getContractAt(
+        "BuildingFactory",
+        await resolveAddress("factories.BuildingFactory"),
+    );
     const buildingDetails = await buildingFactory.getBuildingDetails(BUILDING_ADDRESS);
     const token = await ethers.getContractAt("TokenVotes", buildingDetails.erc3643Token);
     const identityRegistryAddress = await token.identityRegistry();
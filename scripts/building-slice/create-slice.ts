@@ -1,8 +1,7 @@
 import { ethers } from "hardhat";
 import { v4 as uuidv4 } from "uuid";
 import { LogDescription } from "ethers";
-import Deployments from "../../data/deployments/chain-296.json";
-import { uniswapRouterAddress, chainlinkAggregatorMockAddress, usdcAddress } from "../../constants";
+import { resolveAddress, resolveExternalAddress } from "../../constants";
 import { promptBuilding } from "../building/prompt-building";
 
 /**
@@ -81,11 +80,12 @@ async function deploySlice(building1Details: any, building2Details: any): Promis
 
     console.log(`\n--- Deploying Slice ---`);
 
-    const sliceFactory = await ethers.getContractAt("SliceFactory", Deployments.factories.SliceFactory);
+    const sliceFactory = await ethers.getContractAt("SliceFactory", await resolveAddress("factories.SliceFactory"));
+    const chainlinkAggregatorMockAddress = await resolveExternalAddress("chainlinkAggregatorMock");
 
     const sliceDetails = {
-        uniswapRouter: uniswapRouterAddress,
-        usdc: usdcAddress,
+        uniswapRouter: await resolveExternalAddress("uniswapRouter"),
+        usdc: await resolveExternalAddress("usdc"),
         name: SLICE_CONFIG.name,
         symbol: SLICE_CONFIG.symbol,
         metadataUri: SLICE_CONFIG.metadataUri,
@@ -173,7 +173,7 @@ async function registerSliceWithERC3643(sliceAddress: string, building1Details:
             // Use BuildingFactory to deploy identity for slice
             const buildingFactory = await ethers.getContractAt(
                 "BuildingFactory",
-                Deployments.factories.BuildingFactory,
+                await resolveAddress("factories.BuildingFactory"),
             );
 
             console.log(`  Step 1: Deploying identity for slice using BuildingFactory...`);
@@ -1,4 +1,5 @@
 import { ethers } from "hardhat";
+import { registerExternalAddresses } from "../../constants";
 
 /**
  * Script to deploy MockV3Aggregator price feeds with reasonable values
@@ -162,8 +163,8 @@ function showIntegrationInstructions(deployedFeeds: { [key: string]: string }) {
     console.log("   await slice.addAllocation(aToken, mockPriceFeed, percentage);");
     console.log("   ```");
 
-    console.log("\n3. **Create a price feed registry:**");
-    console.log("   Store these addresses in your deployment file or constants");
+    console.log("\n3. **Address book:**");
+    console.log("   The building feed is registered as external.chainlinkAggregatorMock in the deployment file");
 }
 
 async function main() {
@@ -175,6 +176,9 @@ async function main() {
         // Deploy all mock price feeds
         const deployedFeeds = await deployAllMockPriceFeeds();
 
+        // the building feed is the one used by create-slice.ts
+        await registerExternalAddresses({ chainlinkAggregatorMock: deployedFeeds.building });
+
         // Show usage instructions
         showUsageInstructions(deployedFeeds);
 
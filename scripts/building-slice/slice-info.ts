@@ -1,6 +1,6 @@
 import { ethers } from "hardhat";
 import { promptAddress } from "../building/prompt-address";
-import Deployments from "../../data/deployments/chain-296.json";
+import { resolveAddress } from "../../constants";
 import { ZeroAddress } from "ethers";
 
 /**
@@ -387,7 +387,7 @@ async function getBuildingInfo(sliceAddress: string) {
     console.log("======================");
 
     try {
-        const buildingFactory = await ethers.getContractAt("BuildingFactory", Deployments.factories.BuildingFactory);
+        const buildingFactory = await ethers.getContractAt("BuildingFactory", await resolveAddress("factories.BuildingFactory"));
         const buildingList = await buildingFactory.getBuildingList();
 
         const slice = await ethers.getContractAt("Slice", sliceAddress);
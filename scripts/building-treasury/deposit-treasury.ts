@@ -1,5 +1,5 @@
 import { ethers } from "hardhat";
-import { usdcAddress } from "../../constants";
+import { resolveExternalAddress } from "../../constants";
 import { promptBuilding } from "../building/prompt-building";
 
 // Description: 🏛️ - Deposit into Treasury
@@ -17,7 +17,7 @@ async function main() {
 
     // Configuration - Update these addresses
     const TREASURY_ADDRESS = treasuryAddress; // Update with your treasury address
-    const USDC_ADDRESS = usdcAddress; // Update with USDC address
+    const USDC_ADDRESS = await resolveExternalAddress("usdc");
 
     // Deposit amount (adjust as needed)
     const DEPOSIT_AMOUNT = ethers.parseUnits("1000", 6); // 1000 USDC (6 decimals)
@@ -2,7 +2,7 @@ import { ethers } from "hardhat";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
 import { TypedDataDomain } from "ethers";
 import { promptBuilding } from "./prompt-building";
-import { uniswapRouterAddress, usdcAddress } from "../../constants";
+import { resolveExternalAddress } from "../../constants";
 
 const UniswapV2Router02ABI = [
     {
@@ -162,6 +162,8 @@ async function main() {
     const buildingTokenAddress = buildingDetails.erc3643Token;
 
     const tokenAddress = buildingTokenAddress; // ATS deployed ERC3643 Token
+    const uniswapRouterAddress = await resolveExternalAddress("uniswapRouter");
+    const usdcAddress = await resolveExternalAddress("usdc");
     const spender = uniswapRouterAddress; // spender is the address that will receive the tokens, in this case the uniswap router
 
     const uniswapRouter = await ethers.getContractAt(UniswapV2Router02ABI, uniswapRouterAddress);
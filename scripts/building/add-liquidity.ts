@@ -1,6 +1,6 @@
 import { ethers } from "hardhat";
 import { UniswapV2Router02, UniswapV2Factory } from "../../typechain-types";
-import { uniswapRouterAddress, uniswapFactoryAddress, usdcAddress } from "../../constants";
+import { resolveExternalAddress } from "../../constants";
 import { promptBuilding } from "./prompt-building";
 
 // Description: 💧 - Add liquidity to the uniswap pool
@@ -13,10 +13,10 @@ async function main() {
 
     const buildingTokenAddress = buildingDetails.erc3643Token;
 
-    // Configuration - Update these addresses for your deployment
-    const UNISWAP_ROUTER_ADDRESS = uniswapRouterAddress; // Update with actual router address
-    const UNISWAP_FACTORY_ADDRESS = uniswapFactoryAddress; // Update with actual factory address
-    const USDC_ADDRESS = usdcAddress; // Update with actual USDC address
+    // Configuration - resolved from the address book of the network
+    const UNISWAP_ROUTER_ADDRESS = await resolveExternalAddress("uniswapRouter");
+    const UNISWAP_FACTORY_ADDRESS = await resolveExternalAddress("uniswapFactory");
+    const USDC_ADDRESS = await resolveExternalAddress("usdc");
     const BUILDING_TOKEN_ADDRESS = buildingTokenAddress; // Update with building token address
 
     // Liquidity amounts (adjust as needed)
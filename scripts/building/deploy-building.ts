@@ -1,13 +1,13 @@
 import { ethers } from "hardhat";
-import Deployments from "../../data/deployments/chain-296.json";
-import { usdcAddress } from "../../constants";
+import { resolveAddress, resolveExternalAddress } from "../../constants";
+import { BuildingSuite } from "../../sdk/src";
 import { promptString } from "./prompt-string";
 
-// Description: 🏢 - Deploy a new building
+// Description: 🏢 - Deploy and configure a new building
 async function createBuilding(): Promise<string> {
     const [owner] = await ethers.getSigners();
 
-    const buildingFactory = await ethers.getContractAt("BuildingFactory", Deployments.factories.BuildingFactory);
+    const suite = BuildingSuite.connect(await resolveAddress("factories.BuildingFactory"), owner);
 
     const buildingName = await promptString("building name");
     const buildingSymbol = await promptString("building symbol");
@@ -28,7 +28,7 @@ async function createBuilding(): Promise<string> {
         vaultShareTokenName: buildingName + "Vault Token",
         vaultShareTokenSymbol: "v" + buildingSymbol,
         vaultFeeReceiver: owner,
-        vaultFeeToken: usdcAddress,
+        vaultFeeToken: await resolveExternalAddress("usdc"),
         vaultFeePercentage: 2000,
         vaultCliff: 0n,
         vaultUnlockDuration: 0n,
@@ -36,33 +36,16 @@ async function createBuilding(): Promise<string> {
         aTokenSymbol: "a" + buildingSymbol,
     };
 
-    const tx = await buildingFactory.newBuilding(buildingDetails, {
-        gasLimit: 15_000_000,
-    });
-    await tx.wait();
+    // validates the details, then creates and configures the building
+    const { details } = await suite.createBuilding(buildingDetails);
 
-    const buildingList = await buildingFactory.getBuildingList();
+    console.log("New building info:", details);
+    console.log("New building address:", details.addr);
 
-    const newlyCreated = buildingList[buildingList.length - 1];
-
-    console.log("New building info:", newlyCreated);
-    console.log("New building address:", newlyCreated.addr);
-
-    return newlyCreated.addr;
-}
-
-async function configNewBuilding(buildingAddress: string) {
-    const buildingFactory = await ethers.getContractAt("BuildingFactory", Deployments.factories.BuildingFactory);
-
-    const tx = await buildingFactory.configNewBuilding(buildingAddress, { gasLimit: 15_000_000 });
-    await tx.wait();
-
-    console.log(`new building ${buildingAddress} configured at ${tx.hash}`);
+    return details.addr;
 }
 
-createBuilding()
-    .then(configNewBuilding)
-    .catch((err) => {
-        console.error(err);
-        process.exitCode = 1;
-    });
+createBuilding().catch((err) => {
+    console.error(err);
+    process.exitCode = 1;
+});
@@ -1,19 +1,16 @@
 import { ethers } from "hardhat";
-import fs from "fs";
-import path from "path";
+import { getAddressBook } from "../../constants";
 
 // Description: 📍 - Get contract addresses
 async function main() {
     console.log("📍 Get Contract Addresses");
     console.log("=========================");
 
-    // Load deployment data
-    const deploymentPath = path.join(__dirname, "../../data/deployments/chain-296.json");
+    // Load the address book of the network
     let deploymentData;
 
     try {
-        const deploymentFile = fs.readFileSync(deploymentPath, "utf8");
-        deploymentData = JSON.parse(deploymentFile);
+        deploymentData = await getAddressBook();
         console.log("✅ Loaded deployment data");
     } catch (error) {
         console.log("❌ Could not load deployment data:", error.message);
@@ -24,22 +21,27 @@ async function main() {
     console.log("==============================");
 
     console.log("\n🏭 Factories:");
-    Object.entries(deploymentData.factories).forEach(([name, address]) => {
+    Object.entries(deploymentData.factories ?? {}).forEach(([name, address]) => {
         console.log(`  ${name}: ${address}`);
     });
 
     console.log("\n🔧 Implementations:");
-    Object.entries(deploymentData.implementations).forEach(([name, address]) => {
+    Object.entries(deploymentData.implementations ?? {}).forEach(([name, address]) => {
         console.log(`  ${name}: ${address}`);
     });
 
     console.log("\n📚 Libraries:");
-    Object.entries(deploymentData.libraries).forEach(([name, address]) => {
+    Object.entries(deploymentData.libraries ?? {}).forEach(([name, address]) => {
+        console.log(`  ${name}: ${address}`);
+    });
+
+    console.log("\n🔗 External Contracts:");
+    Object.entries(deploymentData.external ?? {}).forEach(([name, address]) => {
         console.log(`  ${name}: ${address}`);
     });
 
     console.log("\n🔒 Compliance Modules:");
-    Object.entries(deploymentData.compliance).forEach(([name, address]) => {
+    Object.entries(deploymentData.compliance ?? {}).forEach(([name, address]) => {
         console.log(`  ${name}: ${address}`);
     });
 
@@ -48,7 +50,7 @@ async function main() {
     console.log("\n👤 Current Signer:", signer.address);
 
     // Check if we have a building factory
-    if (deploymentData.factories.BuildingFactory) {
+    if (deploymentData.factories?.BuildingFactory) {
         console.log("\n🏢 Building Factory Information");
         console.log("==============================");
 
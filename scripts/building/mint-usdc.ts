@@ -1,6 +1,6 @@
 import { ethers } from "hardhat";
 import { USDC } from "../../typechain-types";
-import { usdcAddress } from "../../constants";
+import { resolveExternalAddress } from "../../constants";
 
 // Description: 🪙 - Mint USDC
 async function main() {
@@ -11,8 +11,8 @@ async function main() {
     const [signer] = await ethers.getSigners();
     console.log("Using signer:", signer.address);
 
-    // USDC contract address from constants
-    const USDC_CONTRACT_ADDRESS = usdcAddress;
+    // USDC contract address from the address book
+    const USDC_CONTRACT_ADDRESS = await resolveExternalAddress("usdc");
     console.log("USDC Contract Address:", USDC_CONTRACT_ADDRESS);
 
     // Amount to mint (adjust as needed)
@@ -1,5 +1,5 @@
 import { ethers } from "hardhat";
-import Deployments from "../../data/deployments/chain-296.json";
+import { resolveAddress } from "../../constants";
 import * as readline from "readline";
 import { BuildingFactoryStorage } from "../../typechain-types/contracts/buildings/BuildingFactory.sol/BuildingFactory";
 
@@ -9,7 +9,7 @@ export async function promptBuilding(): Promise<BuildingFactoryStorage.BuildingD
         output: process.stdout,
     });
 
-    const buildingFactory = await ethers.getContractAt("BuildingFactory", Deployments.factories.BuildingFactory);
+    const buildingFactory = await ethers.getContractAt("BuildingFactory", await resolveAddress("factories.BuildingFactory"));
     // Get first building address as default
     let defaultBuildingAddress = undefined;
 
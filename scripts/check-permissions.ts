@@ -0,0 +1,172 @@
+import { ethers } from "hardhat";
+import { Deployment, getAtPath, getDeploymentFilePath, readDeployment } from "./deployment-state";
+
+type Status = "pass" | "fail";
+
+// a role, ownership or agent wiring made by deploy.ts, with the path of both addresses in the deployment file
+interface Expectation {
+    check: string;
+    contract: string;
+    contractAddress?: string;
+    account: string;
+    accountAddress?: string;
+    // null when the account holds the permission, what was found on chain otherwise
+    read(contractAddress: string, accountAddress: string): Promise<string | null>;
+}
+
+interface Result {
+    check: string;
+    contract: string;
+    account: string;
+    status: Status;
+    detail: string;
+}
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+function ownedBy(artifact: string) {
+    return async (contractAddress: string, accountAddress: string) => {
+        const owner: string = await (await ethers.getContractAt(artifact, contractAddress)).owner();
+        return sameAddress(owner, accountAddress) ? null : `owned by ${owner}`;
+    };
+}
+
+function hasRole(artifact: string, role: string) {
+    return async (contractAddress: string, accountAddress: string) => {
+        const contract = await ethers.getContractAt(artifact, contractAddress);
+        return (await contract.hasRole(await contract[role](), accountAddress)) ? null : `${role} not granted`;
+    };
+}
+
+async function isRegistryAgent(contractAddress: string, accountAddress: string) {
+    const buildingFactory = await ethers.getContractAt("BuildingFactory", contractAddress);
+    const agents: string[] = await buildingFactory.getRegistryAgents();
+    return agents.some((agent) => sameAddress(agent, accountAddress)) ? null : "not a registry agent";
+}
+
+/**
+ * Permissions deploy.ts wires between the suite contracts. Admin permissions are expected to be held
+ * by the account that deployed the contract, as recorded in the manifest, or by the signer otherwise.
+ */
+function getExpectations(deployment: Deployment, signer: string): Expectation[] {
+    const at = (key: string) => {
+        const address = getAtPath(deployment, key);
+        return typeof address === "string" ? address : undefined;
+    };
+    const deployerOf = (key: string) => deployment.manifest?.[key]?.deployer ?? signer;
+    const expectation = (
+        check: string,
+        contract: string,
+        account: string,
+        read: Expectation["read"],
+        accountAddress = at(account),
+    ): Expectation => ({ check, contract, contractAddress: at(contract), account, accountAddress, read });
+
+    const expectations = [
+        expectation(
+            "registry agent",
+            "factories.BuildingFactory",
+            "factories.RewardsVault4626Factory",
+            isRegistryAgent,
+        ),
+        expectation(
+            "registry agent",
+            "factories.BuildingFactory",
+            "factories.RewardsVaultAutoCompounderFactory",
+            isRegistryAgent,
+        ),
+        expectation("owner", "implementations.ERC721Metadata", "factories.BuildingFactory", ownedBy("ERC721Metadata")),
+        expectation(
+            "TRUSTED_REGISTRY_ROLE",
+            "implementations.UpKeeper",
+            "factories.BuildingFactory",
+            hasRole("UpKeeper", "TRUSTED_REGISTRY_ROLE"),
+        ),
+        expectation(
+            "IDENTITY_DEPLOYER_ROLE",
+            "factories.BuildingIdentityFactory",
+            "factories.BuildingFactory",
+            hasRole("BuildingIdentityFactory", "IDENTITY_DEPLOYER_ROLE"),
+        ),
+        expectation(
+            "owner",
+            "factories.BuildingFactory",
+            "deployer",
+            ownedBy("BuildingFactory"),
+            deployerOf("factories.BuildingFactory"),
+        ),
+        ...["Building", "BuildingFactory", "Treasury", "BuildingGovernance"].map((beacon) =>
+            expectation(
+                "owner",
+                `beacons.${beacon}`,
+                "deployer",
+                ownedBy("UpgradeableBeacon"),
+                deployerOf(`beacons.${beacon}`),
+            ),
+        ),
+    ];
+
+    // the IdFactory behind the BuildingIdentityFactory is only known from its constructor arguments
+    const identityFactory = deployment.manifest?.["factories.BuildingIdentityFactory"]?.constructorArgs[0];
+    if (typeof identityFactory === "string") {
+        expectations.push({
+            ...expectation("owner", "IdFactory", "factories.BuildingIdentityFactory", ownedBy("IdFactory")),
+            contractAddress: identityFactory,
+        });
+    } else {
+        console.log(" - IdFactory is not in the manifest, its ownership is not checked");
+    }
+
+    return expectations;
+}
+
+async function checkExpectation(expectation: Expectation): Promise<Result> {
+    const { check, contract, contractAddress, account, accountAddress } = expectation;
+    const result = (status: Status, detail: string) => ({ check, contract, account, status, detail });
+
+    for (const [key, address] of [
+        [contract, contractAddress],
+        [account, accountAddress],
+    ]) {
+        if (!address) {
+            return result("fail", `${key} is missing from the deployment file`);
+        }
+    }
+    if ((await ethers.provider.getCode(contractAddress!)) === "0x") {
+        return result("fail", `no code at ${contractAddress}`);
+    }
+
+    try {
+        const found = await expectation.read(contractAddress!, accountAddress!);
+        return found ? result("fail", found) : result("pass", accountAddress!);
+    } catch (error) {
+        return result("fail", `cannot be read: ${error instanceof Error ? error.message : error}`);
+    }
+}
+
+// Description: 🔍 - Check the role grants and owners wired by the deployment
+async function main() {
+    const [signer] = await ethers.getSigners();
+    const { chainId } = await ethers.provider.getNetwork();
+    console.log(` - Checking permissions of ${getDeploymentFilePath(chainId)}`);
+
+    const deployment = await readDeployment(chainId);
+    const results: Result[] = [];
+    for (const expectation of getExpectations(deployment, signer.address)) {
+        results.push(await checkExpectation(expectation));
+    }
+
+    console.table(results);
+
+    const failed = results.filter((result) => result.status === "fail").length;
+    console.log(` - ${results.length - failed} passed, ${failed} failed`);
+
+    if (failed > 0) {
+        process.exitCode = 1;
+    }
+}
+
+main().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+});
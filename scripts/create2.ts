@@ -0,0 +1,77 @@
+import { ethers } from "hardhat";
+import { TransactionResponse } from "ethers";
+
+export interface Create2Options {
+    // Create2Deployer the deployment goes through
+    deployer: string;
+    // bytes32 salt, or any other string hashed into one
+    salt: string;
+    // calls made to the contract in the deployment transaction, eg. handing its ownership back to the signer
+    calls?: { function: string; args: unknown[] }[];
+}
+
+export function toSalt(salt: string): string {
+    return /^0x[a-fA-F0-9]{64}$/.test(salt) ? salt : ethers.id(salt);
+}
+
+/**
+ * Creation code of a contract followed by its constructor arguments, with its libraries linked.
+ */
+export async function getInitCode(
+    artifact: string,
+    constructorArgs: unknown[] = [],
+    libraries?: Record<string, string>,
+): Promise<string> {
+    const factory = await ethers.getContractFactory(artifact, { libraries });
+    const { data } = await factory.getDeployTransaction(...constructorArgs);
+    return data;
+}
+
+/**
+ * Address of a contract deployed by `caller` through the Create2Deployer, which scopes the salts to
+ * their caller.
+ */
+export function predictCreate2Address(deployer: string, caller: string, salt: string, initCode: string): string {
+    const scopedSalt = ethers.keccak256(
+        ethers.AbiCoder.defaultAbiCoder().encode(["address", "bytes32"], [caller, toSalt(salt)]),
+    );
+    return ethers.getCreate2Address(deployer, scopedSalt, ethers.keccak256(initCode));
+}
+
+/**
+ * Deploys a contract through the Create2Deployer, or finds the transaction that already deployed it
+ * when its address has code, since the same salt and init code can only be deployed once.
+ *
+ * @returns the address of the contract and the transaction that deployed it
+ */
+export async function deployWithCreate2(
+    artifact: string,
+    create2: Create2Options,
+    details: { constructorArgs?: unknown[]; libraries?: Record<string, string>; gasLimit?: number },
+): Promise<{ address: string; transaction: TransactionResponse }> {
+    const [signer] = await ethers.getSigners();
+    const initCode = await getInitCode(artifact, details.constructorArgs, details.libraries);
+    const address = predictCreate2Address(create2.deployer, signer.address, create2.salt, initCode);
+    const create2Deployer = await ethers.getContractAt("Create2Deployer", create2.deployer, signer);
+
+    if ((await ethers.provider.getCode(address)) !== "0x") {
+        const [log] = await create2Deployer.queryFilter(create2Deployer.filters.Deployed(undefined, undefined, address));
+        if (!log) {
+            throw new Error(`${artifact} at ${address} was not deployed by the Create2Deployer ${create2.deployer}`);
+        }
+        console.log(`   - ${artifact} is already deployed at ${address}`);
+        return { address, transaction: await log.getTransaction() };
+    }
+
+    const { interface: contractInterface } = await ethers.getContractFactory(artifact, {
+        libraries: details.libraries,
+    });
+    const calls = (create2.calls ?? []).map((call) => contractInterface.encodeFunctionData(call.function, call.args));
+    const transaction: TransactionResponse = await create2Deployer.deploy(
+        toSalt(create2.salt),
+        initCode,
+        calls,
+        details.gasLimit ? { gasLimit: details.gasLimit } : {},
+    );
+    return { address, transaction };
+}
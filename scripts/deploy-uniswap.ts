@@ -1,4 +1,5 @@
 import { ethers } from "hardhat";
+import { registerExternalAddresses } from "../constants";
 
 // Description: 🔍 - Deploy Uniswap
 async function deploy() {
@@ -15,6 +16,8 @@ async function deploy() {
     const uniswapRouterAddress = await uniswapRouter.getAddress();
 
     console.log({ uniswapFactoryAddress, uniswapRouterAddress });
+
+    await registerExternalAddresses({ uniswapFactory: uniswapFactoryAddress, uniswapRouter: uniswapRouterAddress });
 }
 
 deploy().catch(console.error);
@@ -1,4 +1,5 @@
 import { ethers } from "hardhat";
+import { registerExternalAddresses } from "../constants";
 
 // Description: 🔍 - Deploy USDC
 async function deploy() {
@@ -7,6 +8,8 @@ async function deploy() {
     const usdcAddress = await usdc.getAddress();
 
     console.log({ usdcAddress });
+
+    await registerExternalAddresses({ usdc: usdcAddress });
 }
 
 deploy().catch(console.error);
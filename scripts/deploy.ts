@@ -1,162 +1,338 @@
 import { ethers, upgrades } from "hardhat";
-import { writeFile } from "fs/promises";
-import TestnetDeployments from "../data/deployments/chain-296.json";
+import { BaseContract, ContractFactory } from "ethers";
 
-import { usdcAddress, uniswapRouterAddress, trexFactoryAddress } from "../constants";
+import { resolveExternalAddress } from "../constants";
 import { BuildingFactoryInitStruct } from "../typechain-types/contracts/buildings/BuildingFactory.sol/BuildingFactory";
+import { Create2Options } from "./create2";
+import { createDeployer, Deployer } from "./deployment-backend";
+import {
+    DeploymentConfig,
+    DeterministicContract,
+    getDeploymentConfigPath,
+    readDeploymentConfig,
+} from "./deployment-config";
+import { describeDeployment, ManifestEntry } from "./deployment-manifest";
+import { DeployStep, parseStepOptions, readDeployment, runSteps, writeDeployment } from "./deployment-state";
+
+// adds the manifest entries of the contracts deployed by a step, keyed by the path of their address
+export function withManifest(
+    contracts: Record<string, any>,
+    entries: Record<string, ManifestEntry>,
+): Record<string, any> {
+    return { ...contracts, manifest: { ...contracts.manifest, ...entries } };
+}
 
-// Initial function for logs and configs
-async function init(): Promise<Record<string, any>> {
-    console.log(" - Deploying contracts...");
-    return {
-        ...TestnetDeployments,
-    };
+// Create2Deployer the deterministic contracts go through, pinned in the config or deployed by the create2-deployer step
+export function getCreate2DeployerAddress(
+    contracts: Record<string, any>,
+    config: DeploymentConfig,
+): string | undefined {
+    return config.create2.deployer ?? contracts.factories?.Create2Deployer;
 }
 
-async function deployComplianceModules(contracts: Record<string, any>): Promise<Record<string, any>> {
-    const [deployer] = await ethers.getSigners();
+// CREATE2 options of a contract given a salt in the config, a regular deployment otherwise
+function getCreate2Options(
+    contracts: Record<string, any>,
+    config: DeploymentConfig,
+    key: DeterministicContract,
+    calls?: Create2Options["calls"],
+): Create2Options | undefined {
+    const salt = config.create2.salts[key];
+    if (!salt) {
+        return undefined;
+    }
+    const deployer = getCreate2DeployerAddress(contracts, config);
+    if (!deployer) {
+        throw new Error(`${key} has a CREATE2 salt but no Create2Deployer is deployed`);
+    }
+    return { deployer, salt, calls };
+}
 
-    // Deploy compliance Modules
-    const requiresNFTModule = await ethers.deployContract("RequiresNFTModule", deployer);
-    const countryAllowModule = await ethers.deployContract("CountryAllowModule", deployer);
-    const maxOwnershipByCountryModule = await ethers.deployContract("MaxOwnershipByCountryModule", deployer);
-    const maxTenPercentOwnershipModule = await ethers.deployContract("MaxTenPercentOwnershipModule", deployer);
-    const onlyUsaModule = await ethers.deployContract("OnlyUsaModule", deployer);
-    const transferLimitOneHundredModule = await ethers.deployContract("TransferLimitOneHundredModule", deployer);
-
-    return {
-        ...contracts,
-        compliance: {
-            RequiresNFTModule: await requiresNFTModule.getAddress(),
-            CountryAllowModule: await countryAllowModule.getAddress(),
-            MaxOwnershipByCountryModule: await maxOwnershipByCountryModule.getAddress(),
-            MaxTenPercentOwnershipModule: await maxTenPercentOwnershipModule.getAddress(),
-            OnlyUsaModule: await onlyUsaModule.getAddress(),
-            TransferLimitOneHundredModule: await transferLimitOneHundredModule.getAddress(),
+// the Create2Deployer is the msg.sender of the constructors, these calls hand what it was given to the signer
+const transferOwnershipTo = (owner: string): Create2Options["calls"] => [
+    { function: "transferOwnership", args: [owner] },
+];
+
+const transferRolesTo = (owner: string, create2Deployer: string, roles: string[]): Create2Options["calls"] => [
+    ...roles.map((role) => ({ function: "grantRole", args: [role, owner] })),
+    // the admin role, first, is renounced last
+    ...[...roles].reverse().map((role) => ({ function: "renounceRole", args: [role, create2Deployer] })),
+];
+
+// constructor arguments of the RewardsVaultAutoCompounderFactory, also needed to predict its CREATE2 address
+export async function getAutoCompounderFactoryArgs(config: DeploymentConfig): Promise<unknown[]> {
+    return [
+        config.external.uniswapRouter ?? (await resolveExternalAddress("uniswapRouter")),
+        config.external.usdc ?? (await resolveExternalAddress("usdc")),
+        ethers.parseUnits(config.autoCompounder.minimumClaimThreshold, 6), // minimum claim threshold in USDC
+        config.autoCompounder.maxSlippage, // max slippage in basis points
+    ];
+}
+
+async function deployCreate2Deployer(contracts: Record<string, any>, deploy: Deployer): Promise<Record<string, any>> {
+    console.log(" - Deploying Create2Deployer...");
+    const create2Deployer = await deploy("Create2Deployer");
+
+    return withManifest(
+        {
+            ...contracts,
+            factories: {
+                ...contracts.factories,
+                Create2Deployer: create2Deployer.address,
+            },
         },
-    };
+        {
+            "factories.Create2Deployer": create2Deployer.entry,
+        },
+    );
+}
+
+async function deployComplianceModules(
+    contracts: Record<string, any>,
+    deploy: Deployer,
+    moduleNames: string[],
+): Promise<Record<string, any>> {
+    // Deploy compliance Modules
+    const compliance: Record<string, string> = {};
+    const manifest: Record<string, ManifestEntry> = {};
+    for (const name of moduleNames) {
+        const module = await deploy(name);
+        compliance[name] = module.address;
+        manifest[`compliance.${name}`] = module.entry;
+    }
+
+    return withManifest({ ...contracts, compliance }, manifest);
 }
 
-async function deployBuildingIdentityFactory(contracts: Record<string, any>): Promise<Record<string, any>> {
+async function deployBuildingIdentityFactory(
+    contracts: Record<string, any>,
+    deploy: Deployer,
+): Promise<Record<string, any>> {
     console.log(" - Deploying Building Identity Factory...");
     const [owner] = await ethers.getSigners();
-    const identityImplementation = await ethers.deployContract("Identity", [owner.address, true], owner);
-    const identityImplementationAuthority = await ethers.deployContract(
-        "ImplementationAuthority",
-        [await identityImplementation.getAddress()],
-        owner,
-    );
-    const identityFactory = await ethers.deployContract(
-        "IdFactory",
-        [await identityImplementationAuthority.getAddress()],
-        owner,
-    );
+    const identityImplementation = await deploy("Identity", { constructorArgs: [owner.address, true] });
+    const identityImplementationAuthority = await deploy("ImplementationAuthority", {
+        constructorArgs: [identityImplementation.address],
+    });
+    const identityFactory = await deploy("IdFactory", {
+        constructorArgs: [identityImplementationAuthority.address],
+    });
 
-    const buildingIdentityFactory = await ethers.deployContract(
-        "BuildingIdentityFactory",
-        [await identityFactory.getAddress()],
-        owner,
-    );
-    const buildingIdentityFactoryAddress = await buildingIdentityFactory.getAddress();
+    const buildingIdentityFactory = await deploy("BuildingIdentityFactory", {
+        constructorArgs: [identityFactory.address],
+    });
+    const buildingIdentityFactoryAddress = buildingIdentityFactory.address;
 
-    await identityFactory.transferOwnership(buildingIdentityFactoryAddress);
+    await (await identityFactory.contract.transferOwnership(buildingIdentityFactoryAddress)).wait();
 
-    return {
-        ...contracts,
-        factories: {
-            ...contracts.factories,
-            BuildingIdentityFactory: buildingIdentityFactoryAddress,
+    return withManifest(
+        {
+            ...contracts,
+            factories: {
+                ...contracts.factories,
+                BuildingIdentityFactory: buildingIdentityFactoryAddress,
+            },
         },
-    };
+        {
+            "factories.BuildingIdentityFactory": buildingIdentityFactory.entry,
+        },
+    );
 }
 
-async function deployVaultFactory(contracts: Record<string, any>): Promise<Record<string, any>> {
+async function deployVaultFactory(
+    contracts: Record<string, any>,
+    deploy: Deployer,
+    config: DeploymentConfig,
+): Promise<Record<string, any>> {
     console.log(" - Deploying RewardsVault4626Factory...");
-    const [deployer] = await ethers.getSigners();
-
-    const RewardsVault4626Factory = await ethers.getContractFactory("RewardsVault4626Factory");
-    const vaultFactory = await RewardsVault4626Factory.deploy();
-    await vaultFactory.waitForDeployment();
-    const vaultFactoryAddress = await vaultFactory.getAddress();
-
-    return {
-        ...contracts,
-        factories: {
-            ...contracts.factories,
-            RewardsVault4626Factory: vaultFactory.target,
+    const [owner] = await ethers.getSigners();
+    const vaultFactory = await deploy("RewardsVault4626Factory", {
+        create2: getCreate2Options(
+            contracts,
+            config,
+            "factories.RewardsVault4626Factory",
+            transferOwnershipTo(owner.address),
+        ),
+    });
+    const vaultFactoryAddress = vaultFactory.address;
+
+    return withManifest(
+        {
+            ...contracts,
+            factories: {
+                ...contracts.factories,
+                RewardsVault4626Factory: vaultFactoryAddress,
+            },
         },
-    };
+        {
+            "factories.RewardsVault4626Factory": vaultFactory.entry,
+        },
+    );
 }
 
-async function deploySliceFactory(contracts: Record<string, any>): Promise<Record<string, any>> {
+async function deploySliceFactory(
+    contracts: Record<string, any>,
+    deploy: Deployer,
+    config: DeploymentConfig,
+): Promise<Record<string, any>> {
     console.log(" - Deploying Slice Factory...");
+    const [owner] = await ethers.getSigners();
+    const sliceFactory = await deploy("SliceFactory", {
+        create2: getCreate2Options(contracts, config, "factories.SliceFactory", transferOwnershipTo(owner.address)),
+    });
 
-    const SliceFactory = await ethers.getContractFactory("SliceFactory");
-    const sliceFactory = await SliceFactory.deploy();
-    await sliceFactory.waitForDeployment();
-
-    return {
-        ...contracts,
-        factories: {
-            ...contracts.factories,
-            SliceFactory: sliceFactory.target,
+    return withManifest(
+        {
+            ...contracts,
+            factories: {
+                ...contracts.factories,
+                SliceFactory: sliceFactory.address,
+            },
         },
-    };
+        {
+            "factories.SliceFactory": sliceFactory.entry,
+        },
+    );
 }
 
-async function deployAutoCompounderFactory(contracts: Record<string, any>): Promise<Record<string, any>> {
+async function deployAutoCompounderFactory(
+    contracts: Record<string, any>,
+    deploy: Deployer,
+    config: DeploymentConfig,
+): Promise<Record<string, any>> {
     console.log(" - Deploying RewardsVaultAutoCompounderFactory...");
-
-    const RewardsVaultAutoCompounderFactory = await ethers.getContractFactory("RewardsVaultAutoCompounderFactory");
-    const autoCompounderFactory = await RewardsVaultAutoCompounderFactory.deploy(
-        uniswapRouterAddress,
-        usdcAddress,
-        ethers.parseUnits("10", 6), // 10 USDC minimum claim threshold
-        500, // 5% max slippage in basis points
-    );
-    await autoCompounderFactory.waitForDeployment();
-    const autoCompounderFactoryAddress = await autoCompounderFactory.getAddress();
-
-    return {
-        ...contracts,
-        factories: {
-            ...contracts.factories,
-            RewardsVaultAutoCompounderFactory: autoCompounderFactory.target,
+    const [owner] = await ethers.getSigners();
+    const autoCompounderFactory = await deploy("RewardsVaultAutoCompounderFactory", {
+        constructorArgs: await getAutoCompounderFactoryArgs(config),
+        create2: getCreate2Options(
+            contracts,
+            config,
+            "factories.RewardsVaultAutoCompounderFactory",
+            transferOwnershipTo(owner.address),
+        ),
+    });
+    const autoCompounderFactoryAddress = autoCompounderFactory.address;
+
+    return withManifest(
+        {
+            ...contracts,
+            factories: {
+                ...contracts.factories,
+                RewardsVaultAutoCompounderFactory: autoCompounderFactoryAddress,
+            },
         },
-    };
+        {
+            "factories.RewardsVaultAutoCompounderFactory": autoCompounderFactory.entry,
+        },
+    );
 }
 
-async function deployERC721Metadata(contracts: Record<string, any>): Promise<Record<string, any>> {
+async function deployERC721Metadata(
+    contracts: Record<string, any>,
+    deploy: Deployer,
+    config: DeploymentConfig["nftCollection"],
+): Promise<Record<string, any>> {
     console.log(" - Deploying ERC721Metadata ...");
-    const nftCollectionFactory = await ethers.getContractFactory("ERC721Metadata");
-    const ERC721Metadata = await nftCollectionFactory.deploy("Buildings R Us", "BRUS");
-    await ERC721Metadata.waitForDeployment();
-    const ERC721MetadataAddress = await ERC721Metadata.getAddress();
-
-    return {
-        ...contracts,
-        implementations: {
-            ...contracts.implementations,
-            ERC721Metadata: ERC721MetadataAddress,
+    const ERC721Metadata = await deploy("ERC721Metadata", { constructorArgs: [config.name, config.symbol] });
+    const ERC721MetadataAddress = ERC721Metadata.address;
+
+    return withManifest(
+        {
+            ...contracts,
+            implementations: {
+                ...contracts.implementations,
+                ERC721Metadata: ERC721MetadataAddress,
+            },
         },
-    };
+        {
+            "implementations.ERC721Metadata": ERC721Metadata.entry,
+        },
+    );
 }
 
-async function deployUpkeeper(contracts: Record<string, any>): Promise<Record<string, any>> {
+async function deployUpkeeper(
+    contracts: Record<string, any>,
+    deploy: Deployer,
+    config: DeploymentConfig,
+): Promise<Record<string, any>> {
     console.log(" - Deploying UpKeeper ...");
     const [owner] = await ethers.getSigners();
-    const upkeeper = await ethers.deployContract("UpKeeper", owner);
+    const roles = [ethers.ZeroHash, ethers.id("TRUSTED_REGISTRY_ROLE"), ethers.id("KEEPER_ROLE")];
+    const upkeeper = await deploy("UpKeeper", {
+        create2: getCreate2Options(
+            contracts,
+            config,
+            "implementations.UpKeeper",
+            transferRolesTo(owner.address, getCreate2DeployerAddress(contracts, config) ?? ethers.ZeroAddress, roles),
+        ),
+    });
 
-    return {
-        ...contracts,
-        implementations: {
-            ...contracts.implementations,
-            UpKeeper: await upkeeper.getAddress(),
+    return withManifest(
+        {
+            ...contracts,
+            implementations: {
+                ...contracts.implementations,
+                UpKeeper: upkeeper.address,
+            },
         },
-    };
+        {
+            "implementations.UpKeeper": upkeeper.entry,
+        },
+    );
+}
+
+// beacons deployed by the upgrades plugin are OpenZeppelin UpgradeableBeacon(implementation, owner)
+async function describePluginBeacon(beacon: BaseContract, implementationArtifact: string): Promise<ManifestEntry> {
+    const [deployer] = await ethers.getSigners();
+    const implementation = await upgrades.beacon.getImplementationAddress(await beacon.getAddress());
+    return describeDeployment(beacon, {
+        artifact: "UpgradeableBeacon",
+        constructorArgs: [implementation, deployer.address],
+        beacon: { implementation, implementationArtifact },
+    });
+}
+
+/**
+ * Deploys the BuildingFactory beacon with the upgrades plugin or, given a salt, through CREATE2: a
+ * BuildingBeacon pointing to a BuildingFactory implementation deployed with the same salt, registered
+ * with the plugin afterwards so `yarn upgrade` handles both alike.
+ */
+async function deployBuildingFactoryBeacon(
+    contracts: Record<string, any>,
+    deploy: Deployer,
+    config: DeploymentConfig,
+    buildingFactoryFactory: ContractFactory,
+): Promise<{ address: string; entry: ManifestEntry }> {
+    const [owner] = await ethers.getSigners();
+    const create2 = getCreate2Options(contracts, config, "beacons.BuildingFactory", transferOwnershipTo(owner.address));
+
+    if (!create2) {
+        const beacon = await upgrades.deployBeacon(buildingFactoryFactory, {
+            unsafeAllow: ["external-library-linking"],
+        });
+        await beacon.waitForDeployment();
+        return { address: await beacon.getAddress(), entry: await describePluginBeacon(beacon, "BuildingFactory") };
+    }
+
+    const implementation = await deploy("BuildingFactory", {
+        libraries: contracts.libraries,
+        create2: { deployer: create2.deployer, salt: create2.salt },
+    });
+    const beacon = await deploy("BuildingBeacon", {
+        constructorArgs: [implementation.address],
+        beacon: { implementation: implementation.address, implementationArtifact: "BuildingFactory" },
+        create2,
+    });
+    await upgrades.forceImport(beacon.address, buildingFactoryFactory, { kind: "beacon" });
+    return { address: beacon.address, entry: beacon.entry };
 }
 
-async function deployBuildingFactory(contracts: Record<string, any>): Promise<Record<string, any>> {
+// the Building beacon and the factory proxy are deployed by the upgrades plugin, through ethers
+async function deployBuildingFactory(
+    contracts: Record<string, any>,
+    deploy: Deployer,
+    config: DeploymentConfig,
+): Promise<Record<string, any>> {
     console.log(" - Deploying BuildingFactory ...");
     const buildingFact = await ethers.getContractFactory("Building");
     const buildingBeacon = await upgrades.deployBeacon(buildingFact);
@@ -172,41 +348,45 @@ async function deployBuildingFactory(contracts: Record<string, any>): Promise<Re
     const buildingFactoryFactory = await ethers.getContractFactory("BuildingFactory", {
         libraries: contracts.libraries,
     });
-    const buildingFactoryBeacon = await upgrades.deployBeacon(buildingFactoryFactory, {
-        unsafeAllow: ["external-library-linking"],
-    });
-    await buildingFactoryBeacon.waitForDeployment();
-    const buildingFactoryBeaconAddress = await buildingFactoryBeacon.getAddress();
+    const buildingFactoryBeacon = await deployBuildingFactoryBeacon(contracts, deploy, config, buildingFactoryFactory);
+    const buildingFactoryBeaconAddress = buildingFactoryBeacon.address;
 
+    const uniswapRouterAddress = await resolveExternalAddress("uniswapRouter");
     const uniswapRouter = await ethers.getContractAt("UniswapV2Router02", uniswapRouterAddress);
     const uniswapFactoryAddress = await uniswapRouter.factory();
 
     // Beacon Upgradable Pattern for Treasury
-    const treasuryImplementation = await ethers.deployContract("Treasury", { gasLimit: 15000000 });
-    await treasuryImplementation.waitForDeployment();
-    const treasuryImplementationAddress = await treasuryImplementation.getAddress();
-    const treasuryBeaconFactory = await ethers.getContractFactory("TreasuryBeacon");
-    const treasuryBeacon = await treasuryBeaconFactory.deploy(treasuryImplementationAddress, { gasLimit: 15000000 });
-    await treasuryBeacon.waitForDeployment();
-    const treasuryBeaconAddress = await treasuryBeacon.getAddress();
-
-    // Beacon Upgradable Pattern for Treasury
-    const governanceImplementation = await ethers.deployContract("BuildingGovernance");
-    await governanceImplementation.waitForDeployment();
-    const governanceImplementationAddress = await governanceImplementation.getAddress();
-    const governanceBeaconFactory = await ethers.getContractFactory("BuildingGovernanceBeacon");
-    const governanceBeacon = await governanceBeaconFactory.deploy(governanceImplementationAddress, {
+    const treasuryImplementation = await deploy("Treasury", { gasLimit: 15000000 });
+    const treasuryImplementationAddress = treasuryImplementation.address;
+    const treasuryBeacon = await deploy("TreasuryBeacon", {
+        constructorArgs: [treasuryImplementationAddress],
+        beacon: { implementation: treasuryImplementationAddress, implementationArtifact: "Treasury" },
+        gasLimit: 15000000,
+    });
+    const treasuryBeaconAddress = treasuryBeacon.address;
+
+    // Beacon Upgradable Pattern for Governance
+    const governanceImplementation = await deploy("BuildingGovernance");
+    const governanceImplementationAddress = governanceImplementation.address;
+    const governanceBeacon = await deploy("BuildingGovernanceBeacon", {
+        constructorArgs: [governanceImplementationAddress],
+        beacon: { implementation: governanceImplementationAddress, implementationArtifact: "BuildingGovernance" },
         gasLimit: 15000000,
     });
-    await governanceBeacon.waitForDeployment();
-    const governanceBeaconAddress = await governanceBeacon.getAddress();
+    const governanceBeaconAddress = governanceBeacon.address;
+
+    // register the implementations with the upgrades plugin, which keeps their storage layout for `yarn upgrade`
+    await upgrades.forceImport(treasuryBeaconAddress, await ethers.getContractFactory("Treasury"), { kind: "beacon" });
+    await upgrades.forceImport(governanceBeaconAddress, await ethers.getContractFactory("BuildingGovernance"), {
+        kind: "beacon",
+    });
 
     const buildingFactoryInit: BuildingFactoryInitStruct = {
         nft: contracts.implementations.ERC721Metadata,
         uniswapRouter: uniswapRouterAddress,
         uniswapFactory: uniswapFactoryAddress,
-        trexFactory: trexFactoryAddress,
-        usdc: usdcAddress,
+        trexFactory: await resolveExternalAddress("trexFactory"),
+        usdc: await resolveExternalAddress("usdc"),
         buildingBeacon: buildingBeaconAddress,
         treasuryBeacon: treasuryBeaconAddress,
         governanceBeacon: governanceBeaconAddress,
@@ -230,8 +410,18 @@ async function deployBuildingFactory(contracts: Record<string, any>): Promise<Re
         contracts.factories.RewardsVaultAutoCompounderFactory,
     ]);
 
+    // a collection kept from an earlier run already belongs to the previous factory
+    const [owner] = await ethers.getSigners();
     const nftCollection = await ethers.getContractAt("ERC721Metadata", contracts.implementations.ERC721Metadata);
-    await nftCollection.transferOwnership(buildingFactoryAddress);
+    const nftOwner = await nftCollection.owner();
+    if (nftOwner === owner.address) {
+        await (await nftCollection.transferOwnership(buildingFactoryAddress)).wait();
+    } else {
+        console.warn(
+            ` - ERC721Metadata is owned by ${nftOwner}, not by the deployer: the new BuildingFactory cannot mint,` +
+                " deploy it a collection with --from erc721-metadata",
+        );
+    }
 
     // grant TRUSTED_REGISTRY_ROLE to building factory
     const upkeeper = await ethers.getContractAt("UpKeeper", contracts.implementations.UpKeeper);
@@ -242,86 +432,119 @@ async function deployBuildingFactory(contracts: Record<string, any>): Promise<Re
         buildingFactoryAddress,
     );
 
-    return {
-        ...contracts,
-        factories: {
-            ...contracts.factories,
-            BuildingFactory: buildingFactoryAddress,
+    return withManifest(
+        {
+            ...contracts,
+            factories: {
+                ...contracts.factories,
+                BuildingFactory: buildingFactoryAddress,
+            },
+            implementations: {
+                ...contracts.implementations,
+                Treasury: treasuryImplementationAddress,
+                BuildingGovernance: governanceImplementationAddress,
+            },
+            beacons: {
+                ...contracts.beacons,
+                Building: buildingBeaconAddress,
+                BuildingFactory: buildingFactoryBeaconAddress,
+                Treasury: treasuryBeaconAddress,
+                BuildingGovernance: governanceBeaconAddress,
+            },
         },
-    };
+        {
+            "factories.BuildingFactory": await describeDeployment(buildingFactory, {
+                artifact: "BuildingFactory",
+                initializer: { function: "initialize", args: [buildingFactoryInit] },
+                libraries: contracts.libraries,
+                proxy: { beacon: buildingFactoryBeaconAddress },
+            }),
+            "implementations.Treasury": treasuryImplementation.entry,
+            "implementations.BuildingGovernance": governanceImplementation.entry,
+            "beacons.Building": await describePluginBeacon(buildingBeacon, "Building"),
+            "beacons.BuildingFactory": buildingFactoryBeacon.entry,
+            "beacons.Treasury": treasuryBeacon.entry,
+            "beacons.BuildingGovernance": governanceBeacon.entry,
+        },
+    );
 }
 
-async function deployAudit(contracts: Record<string, any>): Promise<Record<string, any>> {
+async function deployAudit(
+    contracts: Record<string, any>,
+    deploy: Deployer,
+    config: DeploymentConfig,
+): Promise<Record<string, any>> {
     console.log(" - Deploying Audit ...");
     const [owner] = await ethers.getSigners();
-    const AuditRegistry = await ethers.getContractFactory("AuditRegistry");
-    const auditRegistry = await AuditRegistry.deploy(owner.address);
-    await auditRegistry.waitForDeployment();
-    const auditRegistryAddress = await auditRegistry.getAddress();
-
-    return {
-        ...contracts,
-        implementations: {
-            ...contracts.implementations,
-            AuditRegistry: auditRegistryAddress,
+    const auditRegistry = await deploy("AuditRegistry", {
+        constructorArgs: [owner.address],
+        create2: getCreate2Options(contracts, config, "implementations.AuditRegistry"),
+    });
+    const auditRegistryAddress = auditRegistry.address;
+
+    return withManifest(
+        {
+            ...contracts,
+            implementations: {
+                ...contracts.implementations,
+                AuditRegistry: auditRegistryAddress,
+            },
         },
-    };
+        {
+            "implementations.AuditRegistry": auditRegistry.entry,
+        },
+    );
 }
 
-async function deployExchange(contracts: Record<string, any>): Promise<Record<string, any>> {
+async function deployExchange(contracts: Record<string, any>, deploy: Deployer): Promise<Record<string, any>> {
     console.log(" - Deploying Exchange ...");
-    const oneSidedExchangeImplementation = await ethers.deployContract("OneSidedExchange");
-    const exchangeAddress = await oneSidedExchangeImplementation.getAddress();
-
-    return {
-        ...contracts,
-        implementations: {
-            ...contracts.implementations,
-            OneSidedExchange: exchangeAddress,
+    const oneSidedExchangeImplementation = await deploy("OneSidedExchange");
+    const exchangeAddress = oneSidedExchangeImplementation.address;
+
+    return withManifest(
+        {
+            ...contracts,
+            implementations: {
+                ...contracts.implementations,
+                OneSidedExchange: exchangeAddress,
+            },
         },
-    };
+        {
+            "implementations.OneSidedExchange": oneSidedExchangeImplementation.entry,
+        },
+    );
 }
 
-async function deployLibraries(contracts: Record<string, any>): Promise<Record<string, any>> {
+async function deployLibraries(
+    contracts: Record<string, any>,
+    deploy: Deployer,
+    config: DeploymentConfig,
+): Promise<Record<string, any>> {
     console.log(" - Deploying Libraries ...");
-    const libraries = {
-        BuildingTokenLib: await (
-            await (await ethers.deployContract("BuildingTokenLib")).waitForDeployment()
-        ).getAddress(),
-        BuildingGovernanceLib: await (
-            await (await ethers.deployContract("BuildingGovernanceLib")).waitForDeployment()
-        ).getAddress(),
-        BuildingTreasuryLib: await (
-            await (await ethers.deployContract("BuildingTreasuryLib")).waitForDeployment()
-        ).getAddress(),
-        BuildingVaultLib: await (
-            await (await ethers.deployContract("BuildingVaultLib")).waitForDeployment()
-        ).getAddress(),
-        BuildingAutoCompounderLib: await (
-            await (await ethers.deployContract("BuildingAutoCompounderLib")).waitForDeployment()
-        ).getAddress(),
-    };
-
-    return {
-        ...contracts,
-        libraries,
-    };
+    const names = [
+        "BuildingTokenLib",
+        "BuildingGovernanceLib",
+        "BuildingTreasuryLib",
+        "BuildingVaultLib",
+        "BuildingAutoCompounderLib",
+    ];
+
+    const libraries: Record<string, string> = {};
+    const manifest: Record<string, ManifestEntry> = {};
+    for (const name of names) {
+        const library = await deploy(name, {
+            create2: getCreate2Options(contracts, config, `libraries.${name}` as DeterministicContract),
+        });
+        libraries[name] = library.address;
+        manifest[`libraries.${name}`] = library.entry;
+    }
+
+    return withManifest({ ...contracts, libraries }, manifest);
 }
 
 async function logContracts(contracts: Record<string, any>): Promise<Record<string, any>> {
-    console.log(contracts);
-    return contracts;
-}
-
-// creates a deployment file into data/deployments (eg: data/deployments/mainnet.json)
-async function exportDeploymentVersion(contracts: Record<string, any>): Promise<Record<string, any>> {
-    console.log(" - Export Deployment contract addresses...");
-    const network = await ethers.provider.getNetwork();
-    const filePath = `./data/deployments/chain-${network.chainId.toString()}.json`;
-    const jsonData = JSON.stringify(contracts, null, 2);
-    await writeFile(filePath, jsonData, "utf-8");
-    console.log(` - Deployment addresses written to ${filePath}`);
-
+    const { steps, manifest, upgrades, config, ...addresses } = contracts;
+    console.log(addresses);
     return contracts;
 }
 
@@ -330,24 +553,162 @@ async function finish(): Promise<void> {
     process.exit();
 }
 
+/**
+ * Records the deployment config of the network in its deployment file, with the external contracts
+ * it pins merged into the `external` address book group read by the steps.
+ */
+export async function recordDeploymentConfig(chainId: bigint, config: DeploymentConfig): Promise<void> {
+    const deployment = await readDeployment(chainId);
+    await writeDeployment(chainId, {
+        ...deployment,
+        config,
+        external: { ...deployment.external, ...config.external },
+    });
+    console.log(` - Deployment config ${getDeploymentConfigPath(chainId)}`);
+}
+
+// each step is written to data/deployments/chain-<id>.json as soon as it finishes (eg: data/deployments/chain-296.json)
+// add subsequent deployment steps at the end of this list
+// the backend of each contract comes from the config, switching backends does not redeploy a step
+export const getSteps = (config: DeploymentConfig, deploy: Deployer = createDeployer(config)): DeployStep[] => {
+    const { salts } = config.create2;
+    // a Create2Deployer is only deployed when a contract has a salt and the config pins none
+    const withCreate2Deployer = Object.keys(salts).length > 0 && !config.create2.deployer;
+
+    // salts are parameters of the steps deploying through CREATE2, changing one redeploys the step
+    const withSalts = (keys: DeterministicContract[], parameters?: object) => {
+        const stepSalts = Object.fromEntries(keys.filter((key) => salts[key]).map((key) => [key, salts[key]]));
+        return Object.keys(stepSalts).length === 0 ? parameters : { ...parameters, salts: stepSalts };
+    };
+    const afterCreate2Deployer = (keys: DeterministicContract[]) =>
+        withCreate2Deployer && keys.some((key) => salts[key]) ? ["create2-deployer"] : [];
+
+    const libraries: DeterministicContract[] = [
+        "libraries.BuildingTokenLib",
+        "libraries.BuildingGovernanceLib",
+        "libraries.BuildingTreasuryLib",
+        "libraries.BuildingVaultLib",
+        "libraries.BuildingAutoCompounderLib",
+    ];
+
+    const create2Steps: DeployStep[] = withCreate2Deployer
+        ? [
+              {
+                  name: "create2-deployer",
+                  outputs: ["factories.Create2Deployer"],
+                  run: (contracts) => deployCreate2Deployer(contracts, deploy),
+              },
+          ]
+        : [];
+
+    return [
+        ...create2Steps,
+        {
+            name: "identity-factory",
+            outputs: ["factories.BuildingIdentityFactory"],
+            run: (contracts) => deployBuildingIdentityFactory(contracts, deploy),
+        },
+        {
+            name: "compliance-modules",
+            outputs: config.complianceModules.map((name) => `compliance.${name}`),
+            parameters: config.complianceModules,
+            run: (contracts) => deployComplianceModules(contracts, deploy, config.complianceModules),
+        },
+        {
+            name: "vault-factory",
+            dependsOn: afterCreate2Deployer(["factories.RewardsVault4626Factory"]),
+            outputs: ["factories.RewardsVault4626Factory"],
+            parameters: withSalts(["factories.RewardsVault4626Factory"]),
+            run: (contracts) => deployVaultFactory(contracts, deploy, config),
+        },
+        {
+            name: "slice-factory",
+            dependsOn: afterCreate2Deployer(["factories.SliceFactory"]),
+            outputs: ["factories.SliceFactory"],
+            parameters: withSalts(["factories.SliceFactory"]),
+            run: (contracts) => deploySliceFactory(contracts, deploy, config),
+        },
+        {
+            name: "autocompounder-factory",
+            dependsOn: afterCreate2Deployer(["factories.RewardsVaultAutoCompounderFactory"]),
+            outputs: ["factories.RewardsVaultAutoCompounderFactory"],
+            parameters: withSalts(["factories.RewardsVaultAutoCompounderFactory"], config.autoCompounder),
+            run: (contracts) => deployAutoCompounderFactory(contracts, deploy, config),
+        },
+        {
+            name: "erc721-metadata",
+            outputs: ["implementations.ERC721Metadata"],
+            parameters: config.nftCollection,
+            run: (contracts) => deployERC721Metadata(contracts, deploy, config.nftCollection),
+        },
+        {
+            name: "upkeeper",
+            dependsOn: afterCreate2Deployer(["implementations.UpKeeper"]),
+            outputs: ["implementations.UpKeeper"],
+            parameters: withSalts(["implementations.UpKeeper"]),
+            run: (contracts) => deployUpkeeper(contracts, deploy, config),
+        },
+        {
+            name: "libraries",
+            dependsOn: afterCreate2Deployer(libraries),
+            outputs: libraries,
+            parameters: withSalts(libraries),
+            run: (contracts) => deployLibraries(contracts, deploy, config),
+        },
+        {
+            name: "building-factory",
+            // the factory is initialized with, and granted roles on, the outputs of these steps
+            dependsOn: [
+                ...afterCreate2Deployer(["beacons.BuildingFactory"]),
+                "identity-factory",
+                "vault-factory",
+                "autocompounder-factory",
+                "erc721-metadata",
+                "upkeeper",
+                "libraries",
+            ],
+            outputs: [
+                "factories.BuildingFactory",
+                "beacons.Building",
+                "beacons.BuildingFactory",
+                "beacons.Treasury",
+                "beacons.BuildingGovernance",
+            ],
+            parameters: withSalts(["beacons.BuildingFactory"]),
+            run: (contracts) => deployBuildingFactory(contracts, deploy, config),
+        },
+        {
+            name: "audit",
+            dependsOn: afterCreate2Deployer(["implementations.AuditRegistry"]),
+            outputs: ["implementations.AuditRegistry"],
+            parameters: withSalts(["implementations.AuditRegistry"]),
+            run: (contracts) => deployAudit(contracts, deploy, config),
+        },
+        {
+            name: "exchange",
+            outputs: ["implementations.OneSidedExchange"],
+            run: (contracts) => deployExchange(contracts, deploy),
+        },
+    ];
+};
+
 // Description: 🔍 - Deploy Factory contracts and REIT Suite contracts
-init()
-    // add subsequent deployment script after this comment
-    .then(deployBuildingIdentityFactory)
-    .then(deployComplianceModules)
-    .then(deployVaultFactory)
-    .then(deploySliceFactory)
-    .then(deployAutoCompounderFactory)
-    .then(deployERC721Metadata)
-    .then(deployUpkeeper)
-    .then(deployLibraries)
-    .then(deployBuildingFactory)
-    .then(deployAudit)
-    .then(deployExchange)
-    .then(exportDeploymentVersion)
-    .then(logContracts)
-    .then(finish)
-    .catch((error) => {
+async function main() {
+    console.log(" - Deploying contracts...");
+    const { chainId } = await ethers.provider.getNetwork();
+    const config = await readDeploymentConfig(chainId);
+    await recordDeploymentConfig(chainId, config);
+
+    const steps = getSteps(config);
+    const contracts = await runSteps(steps, parseStepOptions(steps));
+    await logContracts(contracts);
+    await finish();
+}
+
+// the steps are also run by bootstrap-local.ts
+if (require.main === module) {
+    main().catch((error) => {
         console.error(error);
         process.exitCode = 1;
     });
+}
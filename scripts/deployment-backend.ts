@@ -0,0 +1,182 @@
+import { ethers } from "hardhat";
+import { Contract, TransactionReceipt } from "ethers";
+import { AccountInfoQuery, Client, ContractCreateFlow } from "@hashgraph/sdk";
+import {
+    createClient,
+    getNetworkForChainId,
+    getNetworkOptionsFromEnv,
+} from "../netlify/functions/shared/hedera-client";
+import { Create2Options, deployWithCreate2, toSalt } from "./create2";
+import type { DEPLOY_BACKENDS, DeploymentConfig } from "./deployment-config";
+import {
+    DeploymentDetails,
+    describeDeployment,
+    describeDeploymentReceipt,
+    describeDeploymentTransaction,
+    ManifestEntry,
+} from "./deployment-manifest";
+
+export type DeployBackendName = (typeof DEPLOY_BACKENDS)[number];
+
+export interface DeployOptions extends Omit<DeploymentDetails, "artifact"> {
+    // large contracts need more gas than the relay estimates, the SDK has no estimate at all
+    gasLimit?: number;
+    // deploys the contract at a predictable address through the Create2Deployer
+    create2?: Create2Options;
+}
+
+export interface DeployedContract {
+    contract: Contract;
+    address: string;
+    // identical whichever backend deployed the contract
+    entry: ManifestEntry;
+}
+
+export type Deployer = (artifact: string, options?: DeployOptions) => Promise<DeployedContract>;
+
+// gas of the SDK deployments without a gasLimit, the maximum of a Hedera transaction
+const SDK_DEFAULT_GAS = 15_000_000;
+
+// the relay serves SDK transactions once the mirror node has imported them
+const RECEIPT_POLL_ATTEMPTS = 30;
+const RECEIPT_POLL_INTERVAL_MS = 2000;
+
+async function deployWithEthers(artifact: string, options: DeployOptions): Promise<DeployedContract> {
+    const { gasLimit, ...details } = options;
+    const [deployer] = await ethers.getSigners();
+    const factory = await ethers.getContractFactory(artifact, { libraries: details.libraries, signer: deployer });
+    const deployed = await factory.deploy(...(details.constructorArgs ?? []), gasLimit ? { gasLimit } : {});
+    await deployed.waitForDeployment();
+
+    const address = await deployed.getAddress();
+    return {
+        contract: await ethers.getContractAt(artifact, address, deployer),
+        address,
+        entry: await describeDeployment(deployed, { artifact, ...details }),
+    };
+}
+
+async function waitForRelayReceipt(hash: string, artifact: string): Promise<TransactionReceipt> {
+    for (let attempt = 0; attempt < RECEIPT_POLL_ATTEMPTS; attempt++) {
+        const receipt = await ethers.provider.getTransactionReceipt(hash);
+        if (receipt) {
+            return receipt;
+        }
+        await new Promise((resolve) => setTimeout(resolve, RECEIPT_POLL_INTERVAL_MS));
+    }
+    throw new Error(`The relay has no receipt of the ${artifact} deployment ${hash}`);
+}
+
+/**
+ * Creates an SDK client on the network of the hardhat provider, operated by the account of the hardhat
+ * signer. HEDERA_NETWORK may only restate that network, the node options still come from HEDERA_*.
+ */
+async function getSdkClient(): Promise<Client> {
+    const { chainId } = await ethers.provider.getNetwork();
+    const network = getNetworkForChainId(Number(chainId));
+    if (!network) {
+        throw new Error(`Chain ${chainId} is not a Hedera network, the sdk backend cannot deploy to it`);
+    }
+    const options = getNetworkOptionsFromEnv();
+    if (process.env.HEDERA_NETWORK && options.network !== network) {
+        throw new Error(
+            `HEDERA_NETWORK is ${options.network} but the hardhat network is ${network} (chain ${chainId})`,
+        );
+    }
+
+    const { client, operatorId } = createClient({
+        ...options,
+        network,
+        operatorId: process.env.OPERATOR_ID || "",
+        operatorKey: process.env.OPERATOR_KEY || "",
+    });
+    try {
+        const [deployer] = await ethers.getSigners();
+        const { contractAccountId } = await new AccountInfoQuery().setAccountId(operatorId).execute(client);
+        const operatorAddress = ethers.getAddress(`0x${contractAccountId ?? operatorId.toSolidityAddress()}`);
+        if (operatorAddress !== deployer.address) {
+            throw new Error(
+                `The operator ${operatorId} (${operatorAddress}) is not the hardhat signer ${deployer.address}, ` +
+                    "set OPERATOR_ID and OPERATOR_KEY to its account",
+            );
+        }
+    } catch (error) {
+        client.close();
+        throw error;
+    }
+    return client;
+}
+
+/**
+ * Creates the contract through the Hedera SDK: the bytecode is uploaded to the file service and the
+ * contract created from the file, which avoids the relay's transaction size limit. The operator
+ * (OPERATOR_ID, OPERATOR_KEY) is checked to be the account of the hardhat signer so both backends
+ * record the same deployer.
+ */
+async function deployWithSdk(artifact: string, options: DeployOptions): Promise<DeployedContract> {
+    const { gasLimit, ...details } = options;
+    const factory = await ethers.getContractFactory(artifact, { libraries: details.libraries });
+
+    const client = await getSdkClient();
+    try {
+        const flow = new ContractCreateFlow()
+            .setGas(gasLimit ?? SDK_DEFAULT_GAS)
+            .setBytecode(factory.bytecode.replace(/^0x/, ""))
+            .setConstructorParameters(ethers.getBytes(factory.interface.encodeDeploy(details.constructorArgs ?? [])));
+        const response = await flow.execute(client);
+        const { contractId } = await response.getReceipt(client);
+        if (!contractId) {
+            throw new Error(`The ${artifact} deployment ${response.transactionId} created no contract`);
+        }
+
+        const address = ethers.getAddress(`0x${contractId.toSolidityAddress()}`);
+        // the relay exposes a Hedera transaction under the first 32 bytes of its hash
+        const receipt = await waitForRelayReceipt(ethers.hexlify(response.transactionHash.subarray(0, 32)), artifact);
+
+        const [deployer] = await ethers.getSigners();
+        return {
+            contract: await ethers.getContractAt(artifact, address, deployer),
+            address,
+            entry: await describeDeploymentReceipt(address, receipt, { artifact, ...details }),
+        };
+    } finally {
+        client.close();
+    }
+}
+
+// a CREATE2 deployment is a call to the Create2Deployer, sent through the relay whichever the backend
+async function deployDeterministic(
+    artifact: string,
+    { gasLimit, create2, ...details }: DeployOptions & { create2: Create2Options },
+): Promise<DeployedContract> {
+    const { address, transaction } = await deployWithCreate2(artifact, create2, { ...details, gasLimit });
+    const entry = await describeDeploymentTransaction(address, transaction, { artifact, ...details });
+
+    const [deployer] = await ethers.getSigners();
+    return {
+        contract: await ethers.getContractAt(artifact, address, deployer),
+        address,
+        entry: { ...entry, create2: { deployer: create2.deployer, salt: toSalt(create2.salt) } },
+    };
+}
+
+const BACKENDS: Record<DeployBackendName, (artifact: string, options: DeployOptions) => Promise<DeployedContract>> = {
+    ethers: deployWithEthers,
+    sdk: deployWithSdk,
+};
+
+/**
+ * Deploys each contract with the backend the deployment config selects for it, `deployBackend` unless
+ * the contract is listed in `contractBackends`, or through CREATE2 when given a salt.
+ */
+export function createDeployer(config: Pick<DeploymentConfig, "deployBackend" | "contractBackends">): Deployer {
+    return (artifact, options = {}) => {
+        if (options.create2) {
+            console.log(`   - ${artifact} (create2)`);
+            return deployDeterministic(artifact, { ...options, create2: options.create2 });
+        }
+        const backend = config.contractBackends[artifact] ?? config.deployBackend;
+        console.log(`   - ${artifact} (${backend})`);
+        return BACKENDS[backend](artifact, options);
+    };
+}
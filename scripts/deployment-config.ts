@@ -0,0 +1,165 @@
+import { artifacts } from "hardhat";
+import { existsSync } from "fs";
+import { readFile } from "fs/promises";
+import path from "path";
+import type { ExternalContract } from "../constants";
+import {
+    address,
+    array,
+    Infer,
+    number,
+    object,
+    oneOf,
+    optional,
+    record,
+    string,
+} from "../netlify/functions/shared/schema";
+
+// every module of contracts/erc3643/compliance/modular/modules
+const DEFAULT_COMPLIANCE_MODULES = [
+    "ConditionalTransferModule",
+    "CountryAllowModule",
+    "CountryRestrictModule",
+    "ExchangeMonthlyLimitsModule",
+    "MaxBalanceModule",
+    "MaxOwnershipByCountryModule",
+    "MaxOwnershipModule",
+    "MaxTenPercentOwnershipModule",
+    "OnlyUsaModule",
+    "RequiresNFTModule",
+    "SupplyLimitModule",
+    "TimeExchangeLimitsModule",
+    "TimeTransfersLimitsModule",
+    "TransferFeesModule",
+    "TransferLimitOneHundredModule",
+    "TransferRestrictModule",
+];
+
+// contracts the config can deploy at a predictable address, by the path of their address
+export const DETERMINISTIC_CONTRACTS = [
+    "libraries.BuildingTokenLib",
+    "libraries.BuildingGovernanceLib",
+    "libraries.BuildingTreasuryLib",
+    "libraries.BuildingVaultLib",
+    "libraries.BuildingAutoCompounderLib",
+    "factories.SliceFactory",
+    "factories.RewardsVault4626Factory",
+    "factories.RewardsVaultAutoCompounderFactory",
+    "implementations.UpKeeper",
+    "implementations.AuditRegistry",
+    // with the BuildingFactory implementation it points to, whose address depends on the libraries
+    "beacons.BuildingFactory",
+] as const;
+
+export type DeterministicContract = (typeof DETERMINISTIC_CONTRACTS)[number];
+
+// "ethers" sends deployments through the JSON-RPC relay, "sdk" through the Hedera SDK (ContractCreateFlow)
+export const DEPLOY_BACKENDS = ["ethers", "sdk"] as const;
+
+export const deploymentConfigSchema = object({
+    // defaults of the auto compounders deployed by the RewardsVaultAutoCompounderFactory
+    autoCompounder: optional(
+        object({
+            // USDC amount claimed before compounding, eg. "10"
+            minimumClaimThreshold: string({ pattern: /^\d+(\.\d{1,6})?$/, description: "a USDC amount (6 decimals)" }),
+            // basis points, the factory rejects more than 50%
+            maxSlippage: number({ integer: true, min: 0, max: 5000 }),
+        }),
+        { minimumClaimThreshold: "10", maxSlippage: 500 },
+    ),
+    // ERC721Metadata collection of the building NFTs
+    nftCollection: optional(object({ name: string({ minLength: 1 }), symbol: string({ minLength: 1 }) }), {
+        name: "Buildings R Us",
+        symbol: "BRUS",
+    }),
+    // compliance module contracts deployed under `compliance`
+    complianceModules: optional(
+        array(string({ pattern: /^[A-Za-z0-9_]+Module$/, description: "a compliance module contract name" })),
+        DEFAULT_COMPLIANCE_MODULES,
+    ),
+    // external contracts of the network, merged into the `external` address book group before deploying
+    external: optional(record(address()), {}),
+    // backend deploying the contracts, unless overridden for a contract in contractBackends
+    deployBackend: optional(oneOf(DEPLOY_BACKENDS), "ethers"),
+    // backend per contract name, eg. { "Treasury": "sdk" }
+    contractBackends: optional(record(oneOf(DEPLOY_BACKENDS)), {}),
+    // CREATE2 deployments, a contract is deployed at a predictable address when it has a salt
+    create2: optional(
+        object({
+            // Create2Deployer of the network, deployed by the create2-deployer step when left out
+            deployer: optional(address()),
+            // salt per contract, eg. { "factories.SliceFactory": "v1" }, strings other than bytes32 are hashed
+            salts: optional(record(string({ minLength: 1 })), {}),
+        }),
+        { deployer: undefined, salts: {} },
+    ),
+});
+
+const EXTERNAL_CONTRACTS: readonly ExternalContract[] = [
+    "uniswapRouter",
+    "uniswapFactory",
+    "usdc",
+    "trexFactory",
+    "chainlinkAggregatorMock",
+];
+
+export type DeploymentConfig = Infer<typeof deploymentConfigSchema>;
+
+// data/config/chain-<id>.json unless DEPLOY_CONFIG points to another file
+export function getDeploymentConfigPath(chainId: bigint | number): string {
+    return process.env.DEPLOY_CONFIG || path.join(process.cwd(), "data", "config", `chain-${chainId.toString()}.json`);
+}
+
+/**
+ * Reads and validates the deployment parameters of a network. Missing parameters, or a missing
+ * file, take the values the suite was always deployed with.
+ */
+export async function readDeploymentConfig(chainId: bigint | number): Promise<DeploymentConfig> {
+    const filePath = getDeploymentConfigPath(chainId);
+    const config = existsSync(filePath) ? JSON.parse(await readFile(filePath, "utf-8")) : {};
+
+    let parsed: DeploymentConfig;
+    try {
+        parsed = deploymentConfigSchema.parse(config, "config");
+    } catch (error) {
+        throw new Error(`Invalid deployment config ${filePath}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const modules = parsed.complianceModules;
+    const duplicate = modules.find((name, index) => modules.indexOf(name) !== index);
+    if (duplicate) {
+        throw new Error(`Invalid deployment config ${filePath}: ${duplicate} is listed twice in complianceModules`);
+    }
+    for (const name of modules) {
+        if (!(await artifacts.artifactExists(name))) {
+            throw new Error(`Invalid deployment config ${filePath}: no ${name} contract is compiled`);
+        }
+    }
+    for (const name of Object.keys(parsed.external)) {
+        if (!EXTERNAL_CONTRACTS.includes(name as ExternalContract)) {
+            throw new Error(
+                `Invalid deployment config ${filePath}: unknown external contract ${name}, ` +
+                    `expected one of ${EXTERNAL_CONTRACTS.join(", ")}`,
+            );
+        }
+    }
+
+    for (const name of Object.keys(parsed.contractBackends)) {
+        if (!(await artifacts.artifactExists(name))) {
+            throw new Error(
+                `Invalid deployment config ${filePath}: contractBackends lists ${name}, no such contract is compiled`,
+            );
+        }
+    }
+
+    for (const key of Object.keys(parsed.create2.salts)) {
+        if (!DETERMINISTIC_CONTRACTS.includes(key as DeterministicContract)) {
+            throw new Error(
+                `Invalid deployment config ${filePath}: ${key} cannot be deployed through CREATE2, ` +
+                    `expected one of ${DETERMINISTIC_CONTRACTS.join(", ")}`,
+            );
+        }
+    }
+
+    return parsed;
+}
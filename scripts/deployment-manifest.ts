@@ -0,0 +1,176 @@
+import { artifacts, ethers } from "hardhat";
+import { BaseContract, TransactionReceipt, TransactionResponse } from "ethers";
+import {
+    address,
+    array,
+    bytes32,
+    nullable,
+    number,
+    object,
+    optional,
+    record,
+    string,
+    unknown,
+    Infer,
+} from "../netlify/functions/shared/schema";
+import { deploymentConfigSchema } from "./deployment-config";
+
+const hash = () => bytes32();
+
+const manifestEntrySchema = object({
+    address: address(),
+    artifact: string({ minLength: 1 }),
+    deployer: address(),
+    transactionHash: hash(),
+    blockNumber: number({ integer: true, min: 0 }),
+    constructorArgs: array(unknown()),
+    initializer: nullable(object({ function: string({ minLength: 1 }), args: array(unknown()) })),
+    // keccak256 of the artifact deployed bytecode at deployment time, null when the artifact is not compiled locally
+    bytecodeHash: nullable(hash()),
+    // keccak256 of the code found at `address` right after the deployment
+    codeHash: hash(),
+    libraries: record(address()),
+    // beacon proxies point to their beacon
+    proxy: nullable(object({ beacon: address() })),
+    // beacons point to their implementation
+    beacon: nullable(object({ implementation: address(), implementationArtifact: string({ minLength: 1 }) })),
+    // contracts deployed through the Create2Deployer, with the salt before it is scoped to the deployer
+    create2: optional(object({ deployer: address(), salt: hash() })),
+    deployedAt: string({ minLength: 1 }),
+});
+
+const upgradeRecordSchema = object({
+    previousImplementation: address(),
+    previousArtifact: string({ minLength: 1 }),
+    implementation: address(),
+    artifact: string({ minLength: 1 }),
+    bytecodeHash: nullable(hash()),
+    upgrader: address(),
+    transactionHash: hash(),
+    blockNumber: number({ integer: true, min: 0 }),
+    upgradedAt: string({ minLength: 1 }),
+});
+
+const deploymentSchema = object({
+    manifest: optional(record(manifestEntrySchema)),
+    // parameters of the latest deployment run
+    config: optional(deploymentConfigSchema),
+    // beacon upgrades keyed by the manifest key of the beacon, oldest first
+    upgrades: optional(record(array(upgradeRecordSchema))),
+    steps: optional(
+        record(
+            object({
+                completedAt: string({ minLength: 1 }),
+                contracts: array(string({ minLength: 1 })),
+                parameters: optional(unknown()),
+            }),
+        ),
+    ),
+});
+
+export type ManifestEntry = Infer<typeof manifestEntrySchema>;
+
+export type UpgradeRecord = Infer<typeof upgradeRecordSchema>;
+
+export interface DeploymentDetails {
+    artifact: string;
+    constructorArgs?: unknown[];
+    initializer?: { function: string; args: unknown[] };
+    libraries?: Record<string, string>;
+    proxy?: { beacon: string };
+    beacon?: { implementation: string; implementationArtifact: string };
+}
+
+/**
+ * Checks the manifest, step and upgrade records of a deployment file. Address groups
+ * (`factories`, `implementations`, …) are left free for the scripts reading them.
+ */
+export function validateDeployment(deployment: unknown, source: string): void {
+    try {
+        deploymentSchema.parse(deployment, "deployment");
+    } catch (error) {
+        throw new Error(`Invalid deployment file ${source}: ${error instanceof Error ? error.message : error}`);
+    }
+}
+
+/**
+ * keccak256 of the deployed bytecode of an artifact, null when it is not compiled locally
+ * (eg. the proxies deployed by the upgrades plugin).
+ */
+export async function hashArtifact(artifact: string): Promise<string | null> {
+    if (!(await artifacts.artifactExists(artifact))) {
+        return null;
+    }
+    const { deployedBytecode } = await artifacts.readArtifact(artifact);
+    return ethers.keccak256(deployedBytecode);
+}
+
+export async function hashCode(contractAddress: string): Promise<string | null> {
+    const code = await ethers.provider.getCode(contractAddress);
+    return code === "0x" ? null : ethers.keccak256(code);
+}
+
+// bigints and structs returned by ethers are not JSON serializable as is
+function toJson(value: unknown): unknown {
+    return JSON.parse(JSON.stringify(value, (_, entry) => (typeof entry === "bigint" ? entry.toString() : entry)));
+}
+
+/**
+ * Builds the manifest entry of a contract deployed in this run, from its deployment transaction.
+ */
+export async function describeDeployment(contract: BaseContract, details: DeploymentDetails): Promise<ManifestEntry> {
+    const contractAddress = await contract.getAddress();
+    const transaction = contract.deploymentTransaction();
+    if (!transaction) {
+        throw new Error(`${details.artifact} at ${contractAddress} was not deployed in this run`);
+    }
+    return describeDeploymentTransaction(contractAddress, transaction, details);
+}
+
+/**
+ * Builds the manifest entry of a contract from the transaction that deployed it, eg. an
+ * implementation deployed by the upgrades plugin.
+ */
+export async function describeDeploymentTransaction(
+    contractAddress: string,
+    transaction: TransactionResponse,
+    details: DeploymentDetails,
+): Promise<ManifestEntry> {
+    const receipt = await transaction.wait();
+    if (!receipt) {
+        throw new Error(`Missing receipt of the ${details.artifact} deployment ${transaction.hash}`);
+    }
+    return describeDeploymentReceipt(contractAddress, receipt, details);
+}
+
+/**
+ * Builds the manifest entry of a contract from the receipt of the transaction that deployed it, eg. a
+ * contract created through the Hedera SDK, whose receipt is read back from the JSON-RPC relay.
+ */
+export async function describeDeploymentReceipt(
+    contractAddress: string,
+    receipt: TransactionReceipt,
+    details: DeploymentDetails,
+): Promise<ManifestEntry> {
+    const codeHash = await hashCode(contractAddress);
+    if (!codeHash) {
+        throw new Error(`${details.artifact} has no code at ${contractAddress}`);
+    }
+
+    return {
+        address: contractAddress,
+        artifact: details.artifact,
+        deployer: receipt.from,
+        transactionHash: receipt.hash,
+        blockNumber: receipt.blockNumber,
+        constructorArgs: toJson(details.constructorArgs ?? []) as unknown[],
+        initializer: details.initializer ? (toJson(details.initializer) as ManifestEntry["initializer"]) : null,
+        bytecodeHash: await hashArtifact(details.artifact),
+        codeHash,
+        libraries: details.libraries ?? {},
+        proxy: details.proxy ?? null,
+        beacon: details.beacon ?? null,
+        create2: undefined,
+        deployedAt: new Date().toISOString(),
+    };
+}
@@ -0,0 +1,243 @@
+import { ethers } from "hardhat";
+import { existsSync } from "fs";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import { DeploymentConfig } from "./deployment-config";
+import { hashArtifact, hashCode, ManifestEntry, UpgradeRecord, validateDeployment } from "./deployment-manifest";
+
+// Addresses of one kind of contracts, eg. the factories: { BuildingFactory: "0x…" }
+export type AddressGroup = Record<string, string>;
+
+export const ADDRESS_GROUPS = [
+    "factories",
+    "implementations",
+    "beacons",
+    "compliance",
+    "libraries",
+    "external",
+] as const;
+
+export type AddressGroupName = (typeof ADDRESS_GROUPS)[number];
+
+// Demo data of a local suite, seeded by bootstrap-local.ts with the contract names of their ABIs
+export interface DemoDeployment {
+    buildings: AddressGroup[];
+    SliceV2: string;
+    investors: string[];
+}
+
+// The address groups, the manifest of every deployed contract keyed by the path of its address
+// (eg. "factories.BuildingFactory"), the deployment parameters, the step records and the history
+// of the beacon upgrades
+export interface Deployment extends Partial<Record<AddressGroupName, AddressGroup>> {
+    demo?: DemoDeployment;
+    manifest?: Record<string, ManifestEntry>;
+    config?: DeploymentConfig;
+    steps?: Record<string, StepRecord>;
+    upgrades?: Record<string, UpgradeRecord[]>;
+}
+
+export interface StepRecord {
+    completedAt: string;
+    // manifest keys of the contracts deployed by the step, including helpers such as beacons
+    contracts: string[];
+    parameters?: unknown;
+}
+
+export interface DeployStep {
+    name: string;
+    // steps whose outputs this step consumes, it is redeployed whenever one of them is
+    dependsOn?: string[];
+    // manifest keys the step must produce, checked to decide whether it can be skipped
+    outputs: string[];
+    // deployment config values the step deploys with, it is redeployed whenever they change
+    parameters?: unknown;
+    run(contracts: Deployment): Promise<Deployment>;
+}
+
+export interface StepOptions {
+    // force this step and every following one
+    from?: string;
+    // run this step alone
+    only?: string;
+}
+
+export function getDeploymentFilePath(chainId: bigint | number): string {
+    return path.join(process.cwd(), "data", "deployments", `chain-${chainId.toString()}.json`);
+}
+
+export async function readDeployment(chainId: bigint | number): Promise<Deployment> {
+    const filePath = getDeploymentFilePath(chainId);
+    if (!existsSync(filePath)) {
+        return {};
+    }
+    const deployment = JSON.parse(await readFile(filePath, "utf-8"));
+    validateDeployment(deployment, filePath);
+    return deployment;
+}
+
+export async function writeDeployment(chainId: bigint | number, deployment: Deployment): Promise<void> {
+    const filePath = getDeploymentFilePath(chainId);
+    validateDeployment(deployment, filePath);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, JSON.stringify(deployment, null, 4), "utf-8");
+}
+
+export function getAtPath(deployment: Deployment, key: string): unknown {
+    return key
+        .split(".")
+        .reduce<unknown>(
+            (node, part) =>
+                typeof node === "object" && node !== null ? (node as Record<string, unknown>)[part] : undefined,
+            deployment,
+        );
+}
+
+/**
+ * Address recorded at `key` (eg. "factories.BuildingFactory"), throws when no step recorded it.
+ */
+export function requireAddress(deployment: Deployment, key: string): string {
+    const address = getAtPath(deployment, key);
+    if (typeof address !== "string") {
+        throw new Error(`${key} is not in the deployment, run the step deploying it first`);
+    }
+    return address;
+}
+
+/**
+ * Copy of the deployment with `address` recorded at `key` of an address group (eg. "implementations.Treasury").
+ */
+export function withAddress(deployment: Deployment, key: string, address: string): Deployment {
+    const [group, name] = key.split(".");
+    const addressGroup = ADDRESS_GROUPS.find((candidate) => candidate === group);
+    if (!addressGroup || !name) {
+        throw new Error(`${key} is not in an address group, expected one of ${ADDRESS_GROUPS.join(", ")}`);
+    }
+    return { ...deployment, [addressGroup]: { ...deployment[addressGroup], [name]: address } };
+}
+
+/**
+ * Reads `--from <step>` / `--only <step>` from the command line, or DEPLOY_FROM / DEPLOY_ONLY
+ * since `hardhat run` does not forward script arguments.
+ */
+export function parseStepOptions(steps: DeployStep[], argv = process.argv): StepOptions {
+    const argument = (name: string) => {
+        const index = argv.indexOf(`--${name}`);
+        return index >= 0 ? argv[index + 1] : undefined;
+    };
+
+    const options: StepOptions = {
+        from: argument("from") || process.env.DEPLOY_FROM || undefined,
+        only: argument("only") || process.env.DEPLOY_ONLY || undefined,
+    };
+
+    if (options.from && options.only) {
+        throw new Error("--from and --only cannot be used together");
+    }
+
+    const names = steps.map((step) => step.name);
+    for (const name of [options.from, options.only]) {
+        if (name && !names.includes(name)) {
+            throw new Error(`Unknown step ${name}, expected one of ${names.join(", ")}`);
+        }
+    }
+
+    return options;
+}
+
+/**
+ * A step is up to date when it ran with the current parameters and after its dependencies, and
+ * every contract it recorded still has the same code on chain and was built from the current artifact.
+ */
+async function isStepUpToDate(step: DeployStep, contracts: Deployment): Promise<string | null> {
+    const record = contracts.steps?.[step.name];
+    if (!record) {
+        return "never completed";
+    }
+    // steps recorded before their parameters were configurable ran with the defaults
+    if (record.parameters !== undefined && JSON.stringify(record.parameters) !== JSON.stringify(step.parameters)) {
+        return "parameters changed";
+    }
+    // also catches a dependency redeployed alone in an earlier run (eg. with --only)
+    const redeployed = step.dependsOn?.find((name) => {
+        const dependency = contracts.steps?.[name];
+        return dependency !== undefined && dependency.completedAt > record.completedAt;
+    });
+    if (redeployed) {
+        return `${redeployed} was redeployed since`;
+    }
+
+    for (const key of step.outputs) {
+        const entry = contracts.manifest?.[key];
+        if (!entry) {
+            return `${key} was not recorded`;
+        }
+        if ((await hashCode(entry.address)) !== entry.codeHash) {
+            return `${key} code changed or is missing at ${entry.address}`;
+        }
+        if ((await hashArtifact(entry.artifact)) !== entry.bytecodeHash) {
+            return `${entry.artifact} artifact changed`;
+        }
+    }
+
+    return null;
+}
+
+// every output must be in the manifest and match the address groups read by the other scripts
+function recordStep(step: DeployStep, contracts: Deployment, written: string[]): StepRecord {
+    for (const key of step.outputs) {
+        const entry = contracts.manifest?.[key];
+        if (!entry) {
+            throw new Error(`Step ${step.name} did not record ${key} in the manifest`);
+        }
+        if (getAtPath(contracts, key) !== entry.address) {
+            throw new Error(
+                `Step ${step.name} recorded ${entry.address} for ${key} but set ${getAtPath(contracts, key)}`,
+            );
+        }
+    }
+
+    return { completedAt: new Date().toISOString(), contracts: written, parameters: step.parameters };
+}
+
+/**
+ * Runs the deployment steps in order, writing the deployment file after each of them so a failed
+ * run can be resumed. Steps already deployed with matching code are skipped.
+ */
+export async function runSteps(steps: DeployStep[], options: StepOptions = {}): Promise<Deployment> {
+    const { chainId } = await ethers.provider.getNetwork();
+    let contracts = await readDeployment(chainId);
+    const fromIndex = options.from ? steps.findIndex((step) => step.name === options.from) : -1;
+
+    console.log(` - Deployment file ${getDeploymentFilePath(chainId)}`);
+
+    for (const [index, step] of steps.entries()) {
+        if (options.only && step.name !== options.only) {
+            continue;
+        }
+
+        let reason: string | null;
+        if (options.only || (fromIndex >= 0 && index >= fromIndex)) {
+            reason = "forced";
+        } else {
+            reason = await isStepUpToDate(step, contracts);
+        }
+
+        if (!reason) {
+            console.log(` - Skipping ${step.name}, already deployed`);
+            continue;
+        }
+
+        console.log(` - Running ${step.name} (${reason})`);
+        const previous = contracts.manifest ?? {};
+        contracts = await step.run(contracts);
+        const written = Object.keys(contracts.manifest ?? {}).filter(
+            (key) => contracts.manifest?.[key] !== previous[key],
+        );
+        contracts.steps = { ...contracts.steps, [step.name]: recordStep(step, contracts, written) };
+
+        await writeDeployment(chainId, contracts);
+    }
+
+    return contracts;
+}
@@ -0,0 +1,122 @@
+import { ethers } from "hardhat";
+import { getInitCode, predictCreate2Address } from "./create2";
+import { getAutoCompounderFactoryArgs, getCreate2DeployerAddress } from "./deploy";
+import {
+    DeploymentConfig,
+    DETERMINISTIC_CONTRACTS,
+    DeterministicContract,
+    readDeploymentConfig,
+} from "./deployment-config";
+import { Deployment, getAtPath, readDeployment } from "./deployment-state";
+
+interface Prediction {
+    contract: string;
+    salt: string;
+    address: string;
+    status: "deployed" | "not deployed";
+}
+
+/**
+ * Predicts the CREATE2 address of every contract given a salt in the deployment config, with the
+ * constructor arguments and libraries deploy.ts builds it with.
+ */
+async function predictAddresses(
+    config: DeploymentConfig,
+    deployment: Deployment,
+    create2Deployer: string,
+    caller: string,
+): Promise<Record<string, string>> {
+    const predicted: Record<string, string> = {};
+    const predict = async (artifact: string, salt: string, constructorArgs: unknown[] = [], libraries = {}) =>
+        predictCreate2Address(create2Deployer, caller, salt, await getInitCode(artifact, constructorArgs, libraries));
+
+    // a contract is built with the addresses of others, known when deterministic or already deployed
+    const addressOf = (key: string): string => {
+        const address = predicted[key] ?? getAtPath(deployment, key);
+        if (typeof address !== "string") {
+            throw new Error(
+                `${key} has no salt and is not deployed, the addresses depending on it cannot be predicted`,
+            );
+        }
+        return address;
+    };
+
+    for (const key of DETERMINISTIC_CONTRACTS) {
+        const salt = config.create2.salts[key];
+        if (!salt) {
+            continue;
+        }
+        const name = key.split(".")[1];
+
+        switch (key as DeterministicContract) {
+            case "factories.RewardsVaultAutoCompounderFactory":
+                predicted[key] = await predict(name, salt, await getAutoCompounderFactoryArgs(config));
+                break;
+            case "implementations.AuditRegistry":
+                predicted[key] = await predict(name, salt, [caller]);
+                break;
+            case "beacons.BuildingFactory": {
+                const libraries = Object.fromEntries(
+                    DETERMINISTIC_CONTRACTS.filter((library) => library.startsWith("libraries.")).map((library) => [
+                        library.split(".")[1],
+                        addressOf(library),
+                    ]),
+                );
+                // the implementation shares the salt of its beacon
+                predicted["implementations.BuildingFactory"] = await predict("BuildingFactory", salt, [], libraries);
+                predicted[key] = await predict("BuildingBeacon", salt, [predicted["implementations.BuildingFactory"]]);
+                break;
+            }
+            default:
+                predicted[key] = await predict(name, salt);
+        }
+    }
+
+    return predicted;
+}
+
+// Description: 🔍 - Predict the addresses of the contracts deployed through CREATE2
+async function main() {
+    const [signer] = await ethers.getSigners();
+    const { chainId } = await ethers.provider.getNetwork();
+    const config = await readDeploymentConfig(chainId);
+    const deployment = await readDeployment(chainId);
+
+    if (Object.keys(config.create2.salts).length === 0) {
+        console.log(" - No contract has a CREATE2 salt in the deployment config");
+        return;
+    }
+
+    let create2Deployer = getCreate2DeployerAddress(deployment, config);
+    if (!create2Deployer) {
+        // the create2-deployer step is the first transaction of the next deployment
+        const nonce = await ethers.provider.getTransactionCount(signer.address);
+        create2Deployer = ethers.getCreateAddress({ from: signer.address, nonce });
+        console.log(
+            ` - No Create2Deployer yet, assuming ${signer.address} deploys it at ${create2Deployer} with its next transaction`,
+        );
+    }
+
+    const predicted = await predictAddresses(config, deployment, create2Deployer, signer.address);
+
+    const predictions: Prediction[] = [];
+    const addresses: Record<string, Record<string, string>> = { factories: { Create2Deployer: create2Deployer } };
+    for (const [key, address] of Object.entries(predicted)) {
+        const [group, name] = key.split(".");
+        addresses[group] = { ...addresses[group], [name]: address };
+        predictions.push({
+            contract: key,
+            salt: config.create2.salts[key] ?? config.create2.salts["beacons.BuildingFactory"],
+            address,
+            status: (await ethers.provider.getCode(address)) === "0x" ? "not deployed" : "deployed",
+        });
+    }
+
+    console.table(predictions);
+    console.log(JSON.stringify(addresses, null, 4));
+}
+
+main().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+});
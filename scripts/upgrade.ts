@@ -0,0 +1,299 @@
+import { artifacts, ethers, run, upgrades } from "hardhat";
+import {
+    getContractVersion,
+    getStorageLayout,
+    getStorageLayoutForAddress,
+    Manifest,
+    solcInputOutputDecoder,
+    StorageItem,
+    StorageLayout,
+    validate,
+    ValidationRunData,
+} from "@openzeppelin/upgrades-core";
+import { describeDeploymentTransaction, hashArtifact, UpgradeRecord } from "./deployment-manifest";
+import { Deployment, getDeploymentFilePath, readDeployment, withAddress, writeDeployment } from "./deployment-state";
+
+interface UpgradeTarget {
+    // implementation contract behind the beacon, recorded under beacons.<name>
+    artifact: string;
+    // address group tracking the implementation, when the deployment file has one
+    implementationKey?: string;
+    // the BuildingFactory implementation links the building libraries
+    linksLibraries?: boolean;
+}
+
+const targets: Record<string, UpgradeTarget> = {
+    Building: { artifact: "Building" },
+    BuildingFactory: { artifact: "BuildingFactory", linksLibraries: true },
+    Treasury: { artifact: "Treasury", implementationKey: "implementations.Treasury" },
+    BuildingGovernance: { artifact: "BuildingGovernance", implementationKey: "implementations.BuildingGovernance" },
+};
+
+interface UpgradeOptions {
+    beacon: string;
+    // contract of the new implementation, defaults to the artifact of the beacon (eg. Treasury)
+    artifact: string;
+    // contract compiled from the source of the current implementation, used when the upgrades
+    // plugin does not know its storage layout (beacons deployed before it was recorded)
+    reference?: string;
+    dryRun: boolean;
+}
+
+/**
+ * Reads `--beacon`, `--artifact`, `--reference` and `--dry-run` from the command line, or
+ * UPGRADE_BEACON, UPGRADE_ARTIFACT, UPGRADE_REFERENCE and UPGRADE_DRY_RUN=true since
+ * `hardhat run` does not forward script arguments.
+ */
+function parseUpgradeOptions(argv = process.argv): UpgradeOptions {
+    const argument = (name: string) => {
+        const index = argv.indexOf(`--${name}`);
+        return index >= 0 ? argv[index + 1] : undefined;
+    };
+
+    const beacon = argument("beacon") || process.env.UPGRADE_BEACON;
+    if (!beacon || !targets[beacon]) {
+        throw new Error(`Unknown beacon ${beacon}, expected one of ${Object.keys(targets).join(", ")}`);
+    }
+
+    return {
+        beacon,
+        artifact: argument("artifact") || process.env.UPGRADE_ARTIFACT || targets[beacon].artifact,
+        reference: argument("reference") || process.env.UPGRADE_REFERENCE || undefined,
+        dryRun: argv.includes("--dry-run") || process.env.UPGRADE_DRY_RUN === "true",
+    };
+}
+
+interface StorageRow {
+    // `storage` for the contract storage, the namespace id (eg. erc7201:hashgraph.buildings.Treasury) otherwise
+    location: string;
+    label: string;
+    type: string;
+    slot: string;
+    offset: number;
+}
+
+function storageRows(layout: StorageLayout): StorageRow[] {
+    const toRow = (location: string) => (item: StorageItem) => ({
+        location,
+        label: item.label,
+        type: layout.types[item.type]?.label ?? item.type,
+        slot: item.slot ?? "",
+        offset: item.offset ?? 0,
+    });
+
+    return [
+        ...layout.storage.map(toRow("storage")),
+        ...Object.entries(layout.namespaces ?? {}).flatMap(([namespace, items]) => items.map(toRow(namespace))),
+    ];
+}
+
+/**
+ * Storage variables of both layouts matched by location and label, as printed by the dry run.
+ */
+function diffStorage(previous: StorageLayout, updated: StorageLayout) {
+    const key = (row: StorageRow) => `${row.location}/${row.label}`;
+    const previousRows = new Map(storageRows(previous).map((row) => [key(row), row]));
+    const updatedRows = new Map(storageRows(updated).map((row) => [key(row), row]));
+
+    const diff = [...previousRows.values()].map((row) => {
+        const next = updatedRows.get(key(row));
+        // layouts read from the build info have no slots inside namespaces, those rows only compare types
+        const placed = next && next.slot !== "" && row.slot !== "";
+        const moved = placed && (next.slot !== row.slot || next.offset !== row.offset);
+        return {
+            change: !next ? "removed" : next.type === row.type && !moved ? "unchanged" : "changed",
+            location: row.location,
+            label: row.label,
+            type: next && next.type !== row.type ? `${row.type} -> ${next.type}` : row.type,
+            slot: moved && next.slot !== row.slot ? `${row.slot} -> ${next.slot}` : row.slot,
+            offset: moved && next.offset !== row.offset ? `${row.offset} -> ${next.offset}` : `${row.offset}`,
+        };
+    });
+
+    for (const [rowKey, row] of updatedRows) {
+        if (!previousRows.has(rowKey)) {
+            diff.push({ change: "added", ...row, offset: `${row.offset}` });
+        }
+    }
+
+    return diff;
+}
+
+interface ContractLayout {
+    validations: ValidationRunData;
+    layout: StorageLayout;
+}
+
+// validations and storage layout of a compiled contract, read from the build info of its compilation
+async function getContractLayout(name: string): Promise<ContractLayout> {
+    const { sourceName, contractName } = await artifacts.readArtifact(name);
+    const fullyQualifiedName = `${sourceName}:${contractName}`;
+    const buildInfo = await artifacts.getBuildInfo(fullyQualifiedName);
+    if (!buildInfo) {
+        throw new Error(`Missing the build info of ${fullyQualifiedName}, run yarn hardhat compile`);
+    }
+
+    const { input, output, solcVersion } = buildInfo;
+    const validations = validate(output, solcInputOutputDecoder(input, output), solcVersion, input);
+    return {
+        validations,
+        layout: getStorageLayout(validations, getContractVersion(validations, fullyQualifiedName)),
+    };
+}
+
+// storage layout of the implementation the beacon currently points to
+async function getCurrentLayout(
+    implementation: string,
+    validations: ValidationRunData,
+    reference: string | undefined,
+): Promise<StorageLayout> {
+    const manifest = await Manifest.forNetwork(ethers.provider);
+    try {
+        return await getStorageLayoutForAddress(manifest, validations, implementation);
+    } catch {
+        if (!reference) {
+            throw new Error(
+                `The storage layout of the implementation ${implementation} is unknown, ` +
+                    "set UPGRADE_REFERENCE to a contract compiled from its source",
+            );
+        }
+        return (await getContractLayout(reference)).layout;
+    }
+}
+
+// Description: 🔍 - Upgrade the Building, BuildingFactory, Treasury or BuildingGovernance beacon
+async function main() {
+    const options = parseUpgradeOptions();
+    const target = targets[options.beacon];
+    const beaconKey = `beacons.${options.beacon}`;
+
+    await run("compile");
+
+    const { chainId } = await ethers.provider.getNetwork();
+    const deployment: Deployment = await readDeployment(chainId);
+    const beaconEntry = deployment.manifest?.[beaconKey];
+    if (!beaconEntry?.beacon) {
+        throw new Error(`${beaconKey} is not recorded in ${getDeploymentFilePath(chainId)}, deploy it first`);
+    }
+
+    const beaconAddress = beaconEntry.address;
+    const implementation = await upgrades.beacon.getImplementationAddress(beaconAddress);
+    if (implementation.toLowerCase() !== beaconEntry.beacon.implementation.toLowerCase()) {
+        throw new Error(
+            `${beaconKey} points to ${implementation} but ${beaconEntry.beacon.implementation} was recorded, ` +
+                "run yarn verify-deployment",
+        );
+    }
+
+    const upgradeOptions = {
+        kind: "beacon" as const,
+        unsafeAllow: target.linksLibraries ? ["external-library-linking" as const] : [],
+    };
+    const libraries = target.linksLibraries ? { libraries: deployment.libraries } : {};
+    const factory = await ethers.getContractFactory(options.artifact, libraries);
+    const reference = options.reference ? await ethers.getContractFactory(options.reference, libraries) : null;
+
+    const updated = await getContractLayout(options.artifact);
+    const current = await getCurrentLayout(implementation, updated.validations, options.reference);
+
+    console.log(` - ${options.beacon} beacon ${beaconAddress}`);
+    console.log(` - ${beaconEntry.beacon.implementationArtifact} ${implementation} -> ${options.artifact}`);
+    console.table(diffStorage(current, updated.layout));
+
+    // throws with the unsafe patterns and the storage incompatibilities of the new implementation
+    try {
+        if (reference) {
+            await upgrades.validateUpgrade(reference, factory, upgradeOptions);
+        } else {
+            await upgrades.validateUpgrade(beaconAddress, factory, upgradeOptions);
+        }
+    } catch (error) {
+        console.error(error instanceof Error ? error.message : error);
+        throw new Error(`${options.artifact} cannot safely upgrade the current implementation`);
+    }
+    console.log(" - Storage layout is compatible");
+
+    if (options.dryRun) {
+        console.log(" - Dry run, nothing was deployed");
+        return;
+    }
+
+    // lets the plugin validate the upgrade against the reference layout
+    if (reference) {
+        await upgrades.forceImport(beaconAddress, reference, upgradeOptions);
+    }
+
+    const [signer] = await ethers.getSigners();
+    const beacon = await ethers.getContractAt("UpgradeableBeacon", beaconAddress);
+    const owner = await beacon.owner();
+    if (owner.toLowerCase() !== signer.address.toLowerCase()) {
+        throw new Error(`${signer.address} cannot upgrade ${beaconKey}, owned by ${owner}`);
+    }
+
+    const prepared = await upgrades.prepareUpgrade(beaconAddress, factory, { ...upgradeOptions, getTxResponse: true });
+    if (typeof prepared === "string") {
+        throw new Error(
+            `The upgrades plugin did not return the deployment transaction of ${options.artifact} ${prepared}`,
+        );
+    }
+    const implementationAddress = (await prepared.wait())?.contractAddress;
+    if (!implementationAddress) {
+        throw new Error(`Missing receipt of the ${options.artifact} deployment ${prepared.hash}`);
+    }
+    const implementationEntry = await describeDeploymentTransaction(implementationAddress, prepared, {
+        artifact: options.artifact,
+        libraries: target.linksLibraries ? deployment.libraries : undefined,
+    });
+    console.log(` - Deployed ${options.artifact} at ${implementationEntry.address}`);
+
+    const transaction = await beacon.upgradeTo(implementationEntry.address);
+    const receipt = await transaction.wait();
+    if (!receipt) {
+        throw new Error(`Missing receipt of the ${beaconKey} upgrade ${transaction.hash}`);
+    }
+    console.log(` - Upgraded ${beaconKey} in ${transaction.hash}`);
+
+    const record: UpgradeRecord = {
+        previousImplementation: implementation,
+        previousArtifact: beaconEntry.beacon.implementationArtifact,
+        implementation: implementationEntry.address,
+        artifact: options.artifact,
+        bytecodeHash: await hashArtifact(options.artifact),
+        upgrader: signer.address,
+        transactionHash: transaction.hash,
+        blockNumber: receipt.blockNumber,
+        upgradedAt: new Date().toISOString(),
+    };
+
+    const manifest = { ...deployment.manifest };
+    manifest[beaconKey] = {
+        ...beaconEntry,
+        beacon: { implementation: implementationEntry.address, implementationArtifact: options.artifact },
+    };
+    // proxies of the beacon now run the new artifact (eg. factories.BuildingFactory)
+    for (const [key, entry] of Object.entries(manifest)) {
+        if (entry.proxy?.beacon.toLowerCase() === beaconAddress.toLowerCase()) {
+            manifest[key] = { ...entry, artifact: options.artifact, bytecodeHash: record.bytecodeHash };
+        }
+    }
+    if (target.implementationKey) {
+        manifest[target.implementationKey] = implementationEntry;
+    }
+
+    let updatedDeployment: Deployment = {
+        ...deployment,
+        manifest,
+        upgrades: { ...deployment.upgrades, [beaconKey]: [...(deployment.upgrades?.[beaconKey] ?? []), record] },
+    };
+    if (target.implementationKey) {
+        updatedDeployment = withAddress(updatedDeployment, target.implementationKey, implementationEntry.address);
+    }
+
+    await writeDeployment(chainId, updatedDeployment);
+    console.log(` - Recorded the upgrade in ${getDeploymentFilePath(chainId)}`);
+}
+
+main().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+});
@@ -0,0 +1,53 @@
+import path from "path";
+import { FileScheduleStateStore, parseInterval, runScheduledTasks } from "../../netlify/functions/upkeeper/schedule";
+
+// Description: ⏰ - Run scheduled UpKeeper tasks outside Netlify
+//
+// Usage: yarn keeper [--once]
+// Uses the same environment as the Netlify functions (ACCOUNT_ID, PRIVATE_KEY, CONTRACT_ADDRESS,
+// KEEPER_TASK_SCHEDULE, ...). KEEPER_TICK sets how often due tasks are checked (15m by default)
+// and KEEPER_STATE_FILE where last runs are stored.
+const STATE_FILE = process.env.KEEPER_STATE_FILE || path.join(process.cwd(), ".upkeeper-state.json");
+
+async function tick(store: FileScheduleStateStore) {
+    const { executed, notDue } = await runScheduledTasks(store);
+
+    if (executed) {
+        console.log(` - ${new Date().toISOString()} executed:`, executed.summary, executed.cost);
+        for (const result of executed.results.filter((result) => result.error !== null)) {
+            console.error(`   ✗ ${result.taskId}: ${result.error}`);
+        }
+    } else {
+        console.log(` - ${new Date().toISOString()} no task due`);
+    }
+
+    for (const { taskId, nextRun } of notDue) {
+        console.log(`   ${taskId} next run at ${nextRun}`);
+    }
+}
+
+async function main() {
+    const store = new FileScheduleStateStore(STATE_FILE);
+
+    if (process.argv.includes("--once")) {
+        await tick(store);
+        return;
+    }
+
+    const tickMs = parseInterval(process.env.KEEPER_TICK || "15m");
+    console.log(` - Keeper runner started, checking due tasks every ${tickMs / 1000}s`);
+
+    while (true) {
+        try {
+            await tick(store);
+        } catch (error) {
+            console.error(" - Keeper tick failed:", error);
+        }
+        await new Promise((resolve) => setTimeout(resolve, tickMs));
+    }
+}
+
+main().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+});
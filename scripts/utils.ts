@@ -1,18 +1,14 @@
 import {
-    Client, AccountId, PrivateKey, TokenCreateTransaction, ContractCreateFlow,
+    Client, TokenCreateTransaction, ContractCreateFlow,
     TokenType, TokenSupplyType, TransferTransaction, AccountBalanceQuery,
     AccountCreateTransaction, ContractFunctionParameters, ContractExecuteTransaction,
     TokenMintTransaction
 } from "@hashgraph/sdk";
+import { createClientFromEnv } from "../netlify/functions/shared/hedera-client";
 
+// network, key type and custom nodes come from HEDERA_* variables, see netlify/functions/shared/hedera-client.ts
 export function getClient() {
-    // const client = Client.forName(process.env.HEDERA_NETWORK);
-    const client = Client.forTestnet();
-    client.setOperator(
-        AccountId.fromString(process.env.OPERATOR_ID || ''),
-        PrivateKey.fromStringECDSA(process.env.OPERATOR_KEY || '')
-    );
-    return client;
+    return createClientFromEnv(process.env.OPERATOR_ID || '', process.env.OPERATOR_KEY || '').client;
 }
 
 export async function deployContract(
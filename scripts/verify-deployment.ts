@@ -0,0 +1,129 @@
+import { ethers, upgrades } from "hardhat";
+import { hashArtifact, hashCode } from "./deployment-manifest";
+import { Deployment, getAtPath, getDeploymentFilePath, readDeployment } from "./deployment-state";
+
+type Severity = "ok" | "warning" | "drift";
+
+interface Finding {
+    key: string;
+    address: string;
+    severity: Severity;
+    message: string;
+}
+
+// groups of the deployment file holding addresses, as read by the other scripts
+function collectAddresses(deployment: Deployment): Record<string, string> {
+    const addresses: Record<string, string> = {};
+    for (const [group, entries] of Object.entries(deployment)) {
+        if (
+            ["manifest", "config", "steps", "upgrades"].includes(group) ||
+            typeof entries !== "object" ||
+            entries === null
+        ) {
+            continue;
+        }
+        for (const [name, value] of Object.entries(entries)) {
+            if (typeof value === "string" && ethers.isAddress(value)) {
+                addresses[`${group}.${name}`] = value;
+            }
+        }
+    }
+    return addresses;
+}
+
+async function verifyEntry(key: string, deployment: Deployment): Promise<Finding[]> {
+    const entry = deployment.manifest![key];
+    const findings: Finding[] = [];
+    const report = (severity: Severity, message: string) =>
+        findings.push({ key, address: entry.address, severity, message });
+
+    const grouped = getAtPath(deployment, key);
+    if (
+        grouped !== undefined &&
+        (typeof grouped !== "string" || grouped.toLowerCase() !== entry.address.toLowerCase())
+    ) {
+        report("drift", `address group points to ${grouped}`);
+    }
+
+    const codeHash = await hashCode(entry.address);
+    if (!codeHash) {
+        report("drift", "no code at address");
+    } else if (codeHash !== entry.codeHash) {
+        report("drift", "code differs from the deployed code");
+    }
+
+    const bytecodeHash = await hashArtifact(entry.artifact);
+    if (bytecodeHash !== entry.bytecodeHash) {
+        report("drift", `local ${entry.artifact} artifact differs from the deployed one`);
+    }
+
+    for (const [library, libraryAddress] of Object.entries(entry.libraries)) {
+        if (!(await hashCode(libraryAddress))) {
+            report("drift", `linked library ${library} has no code at ${libraryAddress}`);
+        }
+    }
+
+    if (entry.beacon) {
+        const implementation = await upgrades.beacon.getImplementationAddress(entry.address);
+        if (implementation.toLowerCase() !== entry.beacon.implementation.toLowerCase()) {
+            report("drift", `beacon points to ${implementation}, ${entry.beacon.implementation} was recorded`);
+        }
+    }
+
+    if (entry.proxy) {
+        const beacon = await upgrades.erc1967.getBeaconAddress(entry.address);
+        if (beacon.toLowerCase() !== entry.proxy.beacon.toLowerCase()) {
+            report("drift", `proxy points to beacon ${beacon}, ${entry.proxy.beacon} was recorded`);
+        }
+    }
+
+    if (findings.length === 0) {
+        report("ok", entry.artifact);
+    }
+
+    return findings;
+}
+
+// Description: 🔍 - Verify the recorded deployment against the chain and the local artifacts
+async function main() {
+    const { chainId } = await ethers.provider.getNetwork();
+    console.log(` - Verifying ${getDeploymentFilePath(chainId)}`);
+
+    // validates the manifest schema
+    const deployment = await readDeployment(chainId);
+    const manifest = deployment.manifest ?? {};
+
+    const findings: Finding[] = [];
+    for (const key of Object.keys(manifest)) {
+        findings.push(...(await verifyEntry(key, deployment)));
+    }
+
+    // addresses deployed before the manifest existed can only be checked for code
+    for (const [key, address] of Object.entries(collectAddresses(deployment))) {
+        if (manifest[key]) {
+            continue;
+        }
+        const hasCode = !!(await hashCode(address));
+        findings.push({
+            key,
+            address,
+            severity: hasCode ? "warning" : "drift",
+            message: hasCode ? "not in the manifest, only its code presence is checked" : "no code at address",
+        });
+    }
+
+    console.table(findings);
+
+    const count = (severity: Severity) => findings.filter((finding) => finding.severity === severity).length;
+    const drift = count("drift");
+    console.log(` - ${count("ok")} ok, ${count("warning")} warning(s), ${drift} drift(s)`);
+
+    if (drift > 0) {
+        process.exitCode = 1;
+    }
+}
+
+main().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+});
@@ -0,0 +1,148 @@
+import { ContractRunner, Overrides, Signer } from "ethers";
+import {
+    AuditRegistry,
+    AuditRegistry__factory,
+    Building,
+    Building__factory,
+    BuildingGovernance,
+    BuildingGovernance__factory,
+    RewardsVault4626,
+    RewardsVault4626__factory,
+    RewardsVaultAutoCompounder,
+    RewardsVaultAutoCompounder__factory,
+    TokenVotes,
+    TokenVotes__factory,
+    Treasury,
+    Treasury__factory,
+} from "./typechain";
+import { BuildingFactoryStorage } from "./typechain/BuildingFactory";
+import { findEvent, requireSigner } from "./events";
+
+export type BuildingDetails = BuildingFactoryStorage.BuildingDetailsStructOutput;
+
+// proposals of the building governance, the payment ones go to the multisig below its threshold
+export type Proposal =
+    | { type: "text"; description: string }
+    | { type: "payment"; amount: bigint; to: string; description: string }
+    | { type: "changeReserve"; amount: bigint; description: string }
+    | { type: "addAuditor"; auditor: string; description: string }
+    | { type: "removeAuditor"; auditor: string; description: string };
+
+// ProposalLevel.GovernorVote, the only level createTextProposal implements
+const GOVERNOR_VOTE = 0;
+
+/**
+ * Typed handles on a building and the contracts deployed with it by the BuildingFactory, connected
+ * to the same signer or provider.
+ */
+export class BuildingClient {
+    readonly address: string;
+    readonly building: Building;
+    readonly token: TokenVotes;
+    readonly treasury: Treasury;
+    readonly governance: BuildingGovernance;
+    readonly vault: RewardsVault4626;
+    readonly autoCompounder: RewardsVaultAutoCompounder;
+    readonly auditRegistry: AuditRegistry;
+
+    constructor(readonly details: BuildingDetails, private readonly runner: ContractRunner) {
+        this.address = details.addr;
+        this.building = Building__factory.connect(details.addr, runner);
+        this.token = TokenVotes__factory.connect(details.erc3643Token, runner);
+        this.treasury = Treasury__factory.connect(details.treasury, runner);
+        this.governance = BuildingGovernance__factory.connect(details.governance, runner);
+        this.vault = RewardsVault4626__factory.connect(details.vault, runner);
+        this.autoCompounder = RewardsVaultAutoCompounder__factory.connect(details.autoCompounder, runner);
+        this.auditRegistry = AuditRegistry__factory.connect(details.auditRegistry, runner);
+    }
+
+    private async signer(): Promise<Signer> {
+        return requireSigner(this.runner);
+    }
+
+    /**
+     * Deposits building tokens in the rewards vault, or in the auto compounder, approving them first
+     * when the allowance is short. The receiver must have a registered identity.
+     *
+     * @returns the hash of the deposit transaction
+     */
+    async deposit(
+        assets: bigint,
+        options: { receiver?: string; autoCompound?: boolean; overrides?: Overrides } = {},
+    ): Promise<string> {
+        const signer = await this.signer();
+        const account = await signer.getAddress();
+        const receiver = options.receiver ?? account;
+        const spender = options.autoCompound ? this.autoCompounder : this.vault;
+        const spenderAddress = await spender.getAddress();
+
+        if ((await this.token.allowance(account, spenderAddress)) < assets) {
+            await (await this.token.approve(spenderAddress, assets)).wait();
+        }
+
+        const transaction = await spender.deposit(assets, receiver, options.overrides ?? {});
+        await transaction.wait();
+        return transaction.hash;
+    }
+
+    /**
+     * Claims the vault rewards of the signer, or reinvests its auto compounder rewards.
+     *
+     * @returns the hash of the claim transaction
+     */
+    async claim(options: { autoCompound?: boolean; overrides?: Overrides } = {}): Promise<string> {
+        await this.signer();
+        const transaction = options.autoCompound
+            ? await this.autoCompounder.claimUserRewards(options.overrides ?? {})
+            : await this.vault.claimAllRewards(options.overrides ?? {});
+        await transaction.wait();
+        return transaction.hash;
+    }
+
+    /**
+     * Creates a governance proposal, the signer must hold delegated votes.
+     *
+     * @returns the id of the proposal
+     */
+    async propose(proposal: Proposal, overrides: Overrides = {}): Promise<bigint> {
+        await this.signer();
+        let transaction;
+        switch (proposal.type) {
+            case "text":
+                transaction = await this.governance.createTextProposal(GOVERNOR_VOTE, proposal.description, overrides);
+                break;
+            case "payment":
+                transaction = await this.governance.createPaymentProposal(
+                    proposal.amount,
+                    proposal.to,
+                    proposal.description,
+                    overrides,
+                );
+                break;
+            case "changeReserve":
+                transaction = await this.governance.createChangeReserveProposal(
+                    proposal.amount,
+                    proposal.description,
+                    overrides,
+                );
+                break;
+            case "addAuditor":
+                transaction = await this.governance.createAddAuditorProposal(
+                    proposal.auditor,
+                    proposal.description,
+                    overrides,
+                );
+                break;
+            case "removeAuditor":
+                transaction = await this.governance.createRemoveAuditorProposal(
+                    proposal.auditor,
+                    proposal.description,
+                    overrides,
+                );
+                break;
+        }
+
+        const event = await findEvent(this.governance, await transaction.wait(), "ProposalDefined");
+        return event.args.id;
+    }
+}
@@ -0,0 +1,134 @@
+import { ContractRunner, Overrides, Signer, ZeroAddress } from "ethers";
+import { BuildingFactory, BuildingFactory__factory } from "./typechain";
+import { BuildingFactoryStorage } from "./typechain/BuildingFactory";
+import { BuildingClient, BuildingDetails } from "./building-client";
+import { BuildingSuiteError, findEvent, requireSigner } from "./events";
+import { onboardInvestor } from "./onboarding";
+import { assertValidNewBuildingDetails } from "./validation";
+
+export type NewBuildingDetails = BuildingFactoryStorage.NewBuildingDetailsStruct;
+
+// the relay estimates the building deployment and configuration short, they deploy several contracts
+const BUILDING_GAS_LIMIT = 15_000_000;
+
+/**
+ * Client of a BuildingFactory deployment, connected to a signer to send transactions or to a
+ * provider to read. Depends on ethers only, not on the Hardhat runtime.
+ *
+ * @example
+ * const suite = BuildingSuite.connect(factoryAddress, signer);
+ * const building = await suite.createBuilding(details);
+ * await building.deposit(ethers.parseEther("10"));
+ */
+export class BuildingSuite {
+    readonly factory: BuildingFactory;
+
+    constructor(factoryAddress: string, readonly runner: ContractRunner) {
+        this.factory = BuildingFactory__factory.connect(factoryAddress, runner);
+    }
+
+    static connect(factoryAddress: string, runner: ContractRunner): BuildingSuite {
+        return new BuildingSuite(factoryAddress, runner);
+    }
+
+    private async signer(): Promise<Signer> {
+        return requireSigner(this.runner);
+    }
+
+    async getBuildings(): Promise<BuildingClient[]> {
+        const buildings = await this.factory.getBuildingList();
+        return buildings.map((details) => new BuildingClient(details, this.runner));
+    }
+
+    async getBuilding(buildingAddress: string): Promise<BuildingClient> {
+        const details: BuildingDetails = await this.factory.getBuildingDetails(buildingAddress);
+        if (details.addr === ZeroAddress) {
+            throw new BuildingSuiteError(`${buildingAddress} is not a building of the factory`);
+        }
+        return new BuildingClient(details, this.runner);
+    }
+
+    /**
+     * Deploys a building and its token, treasury, vault, governance and auto compounder, owned by
+     * the signer, then configures it. The details are validated before anything is sent.
+     *
+     * @returns the client of the building, its details read once configured
+     * @throws BuildingValidationError listing the invalid details
+     */
+    async createBuilding(details: NewBuildingDetails, overrides: Overrides = {}): Promise<BuildingClient> {
+        assertValidNewBuildingDetails(details);
+        await this.signer();
+
+        const transaction = await this.factory.newBuilding(details, { gasLimit: BUILDING_GAS_LIMIT, ...overrides });
+        const event = await findEvent(this.factory, await transaction.wait(), "NewBuilding");
+        const buildingAddress: string = event.args.buildingAddress;
+
+        // the event and the factory storage must describe the same contracts
+        const created = await this.getBuilding(buildingAddress);
+        const mismatches = (
+            ["erc3643Token", "treasury", "vault", "governance", "autoCompounder", "initialOwner"] as const
+        ).filter((key) => created.details[key] !== event.args[key]);
+        if (mismatches.length > 0) {
+            throw new BuildingSuiteError(
+                `NewBuilding of ${buildingAddress} does not match the factory storage: ${mismatches.join(", ")}`,
+            );
+        }
+
+        try {
+            await this.configure(buildingAddress, overrides);
+        } catch (error) {
+            throw new BuildingSuiteError(
+                `Building ${buildingAddress} was created but its configuration failed, retry with configure(): ${
+                    (error as Error).message
+                }`,
+            );
+        }
+
+        const building = await this.getBuilding(buildingAddress);
+        if (!building.details.isConfigured) {
+            throw new BuildingSuiteError(`${buildingAddress} is not configured after BuildingConfigured`);
+        }
+        return building;
+    }
+
+    /**
+     * Registers the identities of the building owner and contracts, mints the initial supply to the
+     * owner and grants the roles between the building contracts. Only the owner can configure, once.
+     * createBuilding configures the buildings it creates.
+     *
+     * @returns the hash of the configuration transaction
+     */
+    async configure(buildingAddress: string, overrides: Overrides = {}): Promise<string> {
+        await this.signer();
+        const transaction = await this.factory.configNewBuilding(buildingAddress, {
+            gasLimit: BUILDING_GAS_LIMIT,
+            ...overrides,
+        });
+        await findEvent(this.factory, await transaction.wait(), "BuildingConfigured");
+        return transaction.hash;
+    }
+
+    /**
+     * Registers a wallet in the identity registry of a building, deploying its ONCHAINID first when
+     * it has none. Wallets already registered with the same country are left as they are.
+     * onboardInvestors onboards several wallets and reports their steps, compliance included,
+     * instead of throwing.
+     *
+     * @param country ISO 3166-1 numeric, alpha-2 or alpha-3 code, eg. 840, "US" or "USA"
+     * @returns the ONCHAINID of the wallet
+     */
+    async registerInvestor(
+        buildingAddress: string,
+        wallet: string,
+        country: string | number,
+        overrides: Overrides = {},
+    ): Promise<string> {
+        await this.signer();
+        const report = await onboardInvestor(this, buildingAddress, { wallet, country }, { overrides });
+        // the compliance check is reported only, the wallet is registered
+        if (report.identityStep === "failed" || report.registrationStep === "failed" || report.identity === null) {
+            throw new BuildingSuiteError(`Cannot register ${wallet} in ${buildingAddress}: ${report.error}`);
+        }
+        return report.identity;
+    }
+}
@@ -0,0 +1,228 @@
+import { Contract, ContractRunner, formatUnits, ZeroAddress } from "ethers";
+
+// the explainer only reads, the getters of a module are called once its name is known
+const TOKEN_ABI = [
+    "function identityRegistry() view returns (address)",
+    "function compliance() view returns (address)",
+    "function paused() view returns (bool)",
+    "function isFrozen(address wallet) view returns (bool)",
+    "function getFrozenTokens(address wallet) view returns (uint256)",
+    "function balanceOf(address wallet) view returns (uint256)",
+    "function decimals() view returns (uint8)",
+    "function transfer(address to, uint256 amount) returns (bool)",
+];
+
+const IDENTITY_REGISTRY_ABI = [
+    "function contains(address wallet) view returns (bool)",
+    "function isVerified(address wallet) view returns (bool)",
+    "function investorCountry(address wallet) view returns (uint16)",
+];
+
+const COMPLIANCE_ABI = ["function getModules() view returns (address[])"];
+
+const MODULE_ABI = [
+    "function name() pure returns (string)",
+    "function moduleCheck(address from, address to, uint256 value, address compliance) view returns (bool)",
+    "function getAllowedCountries(address compliance) view returns (uint16[])",
+    "function getSupplyLimit(address compliance) view returns (uint256)",
+    "function getTimeTransferLimits(address compliance) view returns (tuple(uint32 limitTime, uint256 limitValue)[])",
+];
+
+// modules whose moduleCheck always passes, they enforce their limit when the transfer is recorded
+const ENFORCED_ON_TRANSFER = [
+    "MaxOwnershipModule",
+    "MaxOwnershipByCountryModule",
+    "MaxTenPercentOwnershipModule",
+    "TransferLimitOneHundredModule",
+];
+
+export interface TransferRule {
+    // token-paused, sender-frozen, receiver-frozen, sender-balance, sender-identity, receiver-identity,
+    // the name of a compliance module, or transfer-simulation
+    rule: string;
+    // address of the compliance module
+    module?: string;
+    passed: boolean;
+    reason: string;
+}
+
+export interface TransferExplanation {
+    token: string;
+    from: string;
+    to: string;
+    amount: bigint;
+    allowed: boolean;
+    // first rule blocking the transfer, in the order the token checks them
+    blockedBy: TransferRule | null;
+    rules: TransferRule[];
+}
+
+/**
+ * Explains whether an ERC3643 building token transfer goes through, evaluating separately the checks
+ * of the token, the identity registry verification of both parties and the moduleCheck of every
+ * module bound to the ModularCompliance of the token. The transfer is then simulated from the
+ * sender, which catches the modules enforcing their limit only when a transfer is recorded.
+ *
+ * A transfer from the zero address is explained as a mint, only the receiver is checked.
+ */
+export async function explainTransfer(
+    tokenAddress: string,
+    from: string,
+    to: string,
+    amount: bigint,
+    runner: ContractRunner,
+): Promise<TransferExplanation> {
+    const token = new Contract(tokenAddress, TOKEN_ABI, runner);
+    const identityRegistry = new Contract(await token.identityRegistry(), IDENTITY_REGISTRY_ABI, runner);
+    const complianceAddress: string = await token.compliance();
+    const compliance = new Contract(complianceAddress, COMPLIANCE_ABI, runner);
+    const decimals = Number(await token.decimals());
+    const format = (value: bigint) => formatUnits(value, decimals);
+    const isMint = from === ZeroAddress;
+
+    const rules: TransferRule[] = [];
+    const check = (rule: string, passed: boolean, reason: string, module?: string) =>
+        rules.push({ rule, ...(module ? { module } : {}), passed, reason });
+
+    const country = async (wallet: string): Promise<number | null> =>
+        (await identityRegistry.contains(wallet)) ? Number(await identityRegistry.investorCountry(wallet)) : null;
+
+    // the token only requires a verified receiver, an unverified sender is reported without blocking
+    const checkIdentity = async (rule: string, party: string, wallet: string, required: boolean) => {
+        const note = required ? "" : ", the token only requires a verified receiver";
+        if (!(await identityRegistry.contains(wallet))) {
+            check(rule, !required, `the ${party} ${wallet} is not registered in the identity registry${note}`);
+        } else if (!(await identityRegistry.isVerified(wallet))) {
+            check(rule, !required, `the ONCHAINID of the ${party} lacks a claim the identity registry requires${note}`);
+        } else {
+            check(rule, true, `the ${party} is verified`);
+        }
+    };
+
+    const checkFrozen = async (rule: string, party: string, wallet: string) => {
+        const frozen: boolean = await token.isFrozen(wallet);
+        check(rule, !frozen, `the ${party} ${wallet} is ${frozen ? "" : "not "}frozen`);
+    };
+
+    if (!isMint) {
+        const paused: boolean = await token.paused();
+        check("token-paused", !paused, `the token is ${paused ? "" : "not "}paused`);
+        await checkFrozen("sender-frozen", "sender", from);
+    }
+    await checkFrozen("receiver-frozen", "receiver", to);
+    if (!isMint) {
+        const balance: bigint = await token.balanceOf(from);
+        const frozenTokens: bigint = await token.getFrozenTokens(from);
+        const available = balance - frozenTokens;
+        check(
+            "sender-balance",
+            amount <= available,
+            `the sender can transfer ${format(available)} tokens, its balance less its frozen tokens`,
+        );
+        await checkIdentity("sender-identity", "sender", from, false);
+    }
+    await checkIdentity("receiver-identity", "receiver", to, true);
+
+    for (const moduleAddress of (await compliance.getModules()) as string[]) {
+        const module = new Contract(moduleAddress, MODULE_ABI, runner);
+        const name: string = await module.name();
+        if (await module.moduleCheck(from, to, amount, complianceAddress)) {
+            check(
+                name,
+                true,
+                ENFORCED_ON_TRANSFER.includes(name)
+                    ? "moduleCheck passes, the module enforces its limit when the transfer is recorded (see transfer-simulation)"
+                    : "moduleCheck passes",
+                moduleAddress,
+            );
+        } else {
+            check(
+                name,
+                false,
+                await explainModule(name, module, complianceAddress, from, to, amount, format, country),
+                moduleAddress,
+            );
+        }
+    }
+
+    // minting needs an agent of the token, a simulation from the zero address says nothing
+    if (!isMint && rules.every((rule) => rule.passed)) {
+        try {
+            await token.transfer.staticCall(to, amount, { from });
+            check("transfer-simulation", true, "the transfer succeeds when simulated from the sender");
+        } catch (error) {
+            const { reason, shortMessage, message } = error as {
+                reason?: string;
+                shortMessage?: string;
+                message: string;
+            };
+            check(
+                "transfer-simulation",
+                false,
+                `the transfer reverts when simulated from the sender: ${reason ?? shortMessage ?? message}`,
+            );
+        }
+    }
+
+    const blockedBy = rules.find((rule) => !rule.passed) ?? null;
+    return { token: tokenAddress, from, to, amount, allowed: blockedBy === null, blockedBy, rules };
+}
+
+// why the moduleCheck of a module fails, from the state the module exposes
+async function explainModule(
+    name: string,
+    module: Contract,
+    compliance: string,
+    from: string,
+    to: string,
+    amount: bigint,
+    format: (value: bigint) => string,
+    country: (wallet: string) => Promise<number | null>,
+): Promise<string> {
+    switch (name) {
+        case "CountryAllowModule": {
+            const allowed = ((await module.getAllowedCountries(compliance)) as bigint[]).map(Number);
+            return `the receiver country ${await country(to)} is not allowed, the allowed countries are ${
+                allowed.join(", ") || "none"
+            }`;
+        }
+        case "CountryRestrictModule":
+            return `the receiver country ${await country(to)} is restricted`;
+        case "OnlyUsaModule":
+            return `the receiver country ${await country(to)} is not the United States (840)`;
+        case "SupplyLimitModule":
+            return `minting ${format(amount)} tokens exceeds the supply limit of ${format(
+                await module.getSupplyLimit(compliance),
+            )}`;
+        case "MaxBalanceModule":
+            return `the ONCHAINID of the receiver would hold more than the maximum balance with ${format(
+                amount,
+            )} more tokens`;
+        case "TimeTransfersLimitsModule": {
+            const limits = (await module.getTimeTransferLimits(compliance)) as {
+                limitTime: bigint;
+                limitValue: bigint;
+            }[];
+            const described = limits.map((limit) => `${format(limit.limitValue)} per ${limit.limitTime} seconds`);
+            return `the sender exceeds a transfer limit with ${format(
+                amount,
+            )} more tokens, the limits are ${described.join(", ")}`;
+        }
+        case "ConditionalTransferModule":
+            return `the transfer of ${format(amount)} tokens from ${from} to ${to} is not approved`;
+        case "ExchangeMonthlyLimitsModule":
+            return `the receiver is an exchange and the sender exceeds its monthly limit with ${format(
+                amount,
+            )} more tokens`;
+        case "TimeExchangeLimitsModule":
+            return `the receiver is an exchange and the sender exceeds one of its time limits with ${format(
+                amount,
+            )} more tokens`;
+        case "RequiresNFTModule":
+            return "the receiver does not hold the NFT the module requires";
+        case "TransferRestrictModule":
+            return "neither the sender nor the receiver is an allowed user";
+        default:
+            return `moduleCheck of ${name} fails`;
+    }
+}
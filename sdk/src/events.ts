@@ -0,0 +1,36 @@
+import { BaseContract, ContractRunner, LogDescription, Signer, TransactionReceipt } from "ethers";
+
+export class BuildingSuiteError extends Error {}
+
+/**
+ * The runner as a signer, a provider only reads.
+ */
+export function requireSigner(runner: ContractRunner): Signer {
+    const signer = runner as Signer;
+    if (typeof signer.sendTransaction !== "function" || typeof signer.getAddress !== "function") {
+        throw new BuildingSuiteError("A signer is required to send transactions, the runner is a provider");
+    }
+    return signer;
+}
+
+/**
+ * First event `name` a contract emitted in a transaction, the logs of other contracts are skipped.
+ */
+export async function findEvent(
+    contract: BaseContract,
+    receipt: TransactionReceipt | null,
+    name: string,
+): Promise<LogDescription> {
+    const address = await contract.getAddress();
+    for (const log of receipt?.logs ?? []) {
+        // another contract may emit an event with the same signature in the transaction
+        if (log.address.toLowerCase() !== address.toLowerCase()) {
+            continue;
+        }
+        const parsed = contract.interface.parseLog({ topics: [...log.topics], data: log.data });
+        if (parsed?.name === name) {
+            return parsed;
+        }
+    }
+    throw new BuildingSuiteError(`No ${name} event in transaction ${receipt?.hash ?? "(no receipt)"}`);
+}
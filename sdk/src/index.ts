@@ -0,0 +1,11 @@
+export { BuildingSuite } from "./building-suite";
+export type { NewBuildingDetails } from "./building-suite";
+export { BuildingClient } from "./building-client";
+export type { BuildingDetails, Proposal } from "./building-client";
+export { BuildingSuiteError } from "./events";
+export { BuildingValidationError, validateNewBuildingDetails } from "./validation";
+export { onboardInvestor, onboardInvestors } from "./onboarding";
+export type { Investor, OnboardingOptions, OnboardingReport, OnboardingStep } from "./onboarding";
+export { toCountryCode } from "./countries";
+export { explainTransfer } from "./compliance";
+export type { TransferExplanation, TransferRule } from "./compliance";
@@ -0,0 +1,137 @@
+import { Overrides, ZeroAddress } from "ethers";
+import { IdentityRegistry__factory, ModularCompliance__factory } from "./typechain";
+import type { BuildingSuite } from "./building-suite";
+import { toCountryCode } from "./countries";
+import { BuildingSuiteError, requireSigner } from "./events";
+
+export interface Investor {
+    wallet: string;
+    // ISO 3166-1 numeric, alpha-2 or alpha-3 code
+    country: string | number;
+}
+
+export type OnboardingStep = "done" | "skipped" | "failed" | "not run";
+
+export interface OnboardingReport {
+    wallet: string;
+    country: number | null;
+    identity: string | null;
+    // deployment of the ONCHAINID, skipped when the wallet has one
+    identityStep: OnboardingStep;
+    // registration in the identity registry of the building token, skipped when registered
+    registrationStep: OnboardingStep;
+    // the wallet is verified and the compliance of the token lets it receive tokens
+    complianceStep: OnboardingStep;
+    transactions: string[];
+    error: string | null;
+}
+
+export interface OnboardingOptions {
+    // amount the compliance is asked about, in token units
+    amount?: bigint;
+    overrides?: Overrides;
+}
+
+/**
+ * Onboards a wallet as investor of a building: deploys its ONCHAINID, registers it in the identity
+ * registry of the building token with its country, then checks the wallet is verified and the
+ * compliance modules of the token let it receive tokens. The steps already done are skipped, so
+ * onboarding a wallet again only checks it.
+ *
+ * The failures are reported, not thrown, the building being unusable throws.
+ */
+export async function onboardInvestor(
+    suite: BuildingSuite,
+    buildingAddress: string,
+    investor: Investor,
+    options: OnboardingOptions = {},
+): Promise<OnboardingReport> {
+    const report: OnboardingReport = {
+        wallet: investor.wallet,
+        country: null,
+        identity: null,
+        identityStep: "not run",
+        registrationStep: "not run",
+        complianceStep: "not run",
+        transactions: [],
+        error: null,
+    };
+
+    requireSigner(suite.runner);
+    const building = await suite.getBuilding(buildingAddress);
+    if (!building.details.isConfigured) {
+        throw new BuildingSuiteError(`${buildingAddress} is not configured, investors cannot hold its token yet`);
+    }
+    const identityRegistry = IdentityRegistry__factory.connect(await building.token.identityRegistry(), suite.runner);
+    const compliance = ModularCompliance__factory.connect(await building.token.compliance(), suite.runner);
+    const overrides = options.overrides ?? {};
+
+    let step: "identityStep" | "registrationStep" | "complianceStep" = "identityStep";
+    try {
+        report.country = toCountryCode(investor.country);
+
+        report.identity = await suite.factory.getIdentity(investor.wallet);
+        if (report.identity === ZeroAddress) {
+            const transaction = await suite.factory.deployIdentityForWallet(investor.wallet, overrides);
+            await transaction.wait();
+            report.transactions.push(transaction.hash);
+            report.identity = await suite.factory.getIdentity(investor.wallet);
+            report.identityStep = "done";
+        } else {
+            report.identityStep = "skipped";
+        }
+
+        step = "registrationStep";
+        if (await identityRegistry.contains(investor.wallet)) {
+            // a wallet keeps the country it was first registered with, only an agent of the registry changes it
+            const registeredCountry = Number(await identityRegistry.investorCountry(investor.wallet));
+            if (registeredCountry !== report.country) {
+                throw new BuildingSuiteError(
+                    `already registered with country ${registeredCountry}, an agent of the identity registry must update it`,
+                );
+            }
+            report.registrationStep = "skipped";
+        } else {
+            const transaction = await suite.factory.registerIdentity(
+                buildingAddress,
+                investor.wallet,
+                report.country,
+                overrides,
+            );
+            await transaction.wait();
+            report.transactions.push(transaction.hash);
+            report.registrationStep = "done";
+        }
+
+        step = "complianceStep";
+        if (!(await identityRegistry.isVerified(investor.wallet))) {
+            throw new BuildingSuiteError("the identity lacks the claims the identity registry requires");
+        }
+        // checked as a mint, the modules restricting the receiver apply
+        if (!(await compliance.canTransfer(ZeroAddress, investor.wallet, options.amount ?? 1n))) {
+            throw new BuildingSuiteError("a compliance module of the token rejects the wallet as receiver");
+        }
+        report.complianceStep = "done";
+    } catch (error) {
+        report[step] = "failed";
+        report.error = (error as Error).message;
+    }
+
+    return report;
+}
+
+/**
+ * Onboards wallets one after the other, a failure is reported and the next wallet is onboarded.
+ */
+export async function onboardInvestors(
+    suite: BuildingSuite,
+    buildingAddress: string,
+    investors: Investor[],
+    options: OnboardingOptions = {},
+): Promise<OnboardingReport[]> {
+    const reports: OnboardingReport[] = [];
+    for (const investor of investors) {
+        reports.push(await onboardInvestor(suite, buildingAddress, investor, options));
+    }
+    return reports;
+}
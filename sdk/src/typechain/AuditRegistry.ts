@@ -0,0 +1,830 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "./common";
+
+export declare namespace AuditRegistry {
+  export type AuditRecordStruct = {
+    building: AddressLike;
+    auditor: AddressLike;
+    timestamp: BigNumberish;
+    revoked: boolean;
+    ipfsHash: string;
+  };
+
+  export type AuditRecordStructOutput = [
+    building: string,
+    auditor: string,
+    timestamp: bigint,
+    revoked: boolean,
+    ipfsHash: string
+  ] & {
+    building: string;
+    auditor: string;
+    timestamp: bigint;
+    revoked: boolean;
+    ipfsHash: string;
+  };
+}
+
+export interface AuditRegistryInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "AUDITOR_ROLE"
+      | "DEFAULT_ADMIN_ROLE"
+      | "GOVERNANCE_ROLE"
+      | "addAuditRecord"
+      | "addAuditor"
+      | "auditRecordCounter"
+      | "auditRecords"
+      | "buildingAuditRecords"
+      | "getAuditRecordDetails"
+      | "getAuditRecordsByBuilding"
+      | "getAuditors"
+      | "getRoleAdmin"
+      | "grantGovernanceRole"
+      | "grantRole"
+      | "hasRole"
+      | "removeAuditor"
+      | "renounceRole"
+      | "revokeAuditRecord"
+      | "revokeRole"
+      | "supportsInterface"
+      | "updateAuditRecord"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "AuditRecordAdded"
+      | "AuditRecordRevoked"
+      | "AuditRecordUpdated"
+      | "AuditorAdded"
+      | "AuditorRemoved"
+      | "GovernanceGranted"
+      | "RoleAdminChanged"
+      | "RoleGranted"
+      | "RoleRevoked"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "AUDITOR_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "DEFAULT_ADMIN_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "GOVERNANCE_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addAuditRecord",
+    values: [AddressLike, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addAuditor",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "auditRecordCounter",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "auditRecords",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "buildingAuditRecords",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAuditRecordDetails",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAuditRecordsByBuilding",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAuditors",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRoleAdmin",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "grantGovernanceRole",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "grantRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "removeAuditor",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "renounceRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revokeAuditRecord",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revokeRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "supportsInterface",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updateAuditRecord",
+    values: [BigNumberish, string]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "AUDITOR_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "DEFAULT_ADMIN_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "GOVERNANCE_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "addAuditRecord",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "addAuditor", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "auditRecordCounter",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "auditRecords",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "buildingAuditRecords",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAuditRecordDetails",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAuditRecordsByBuilding",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAuditors",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getRoleAdmin",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "grantGovernanceRole",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "grantRole", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "hasRole", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "removeAuditor",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "renounceRole",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "revokeAuditRecord",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "revokeRole", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "supportsInterface",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "updateAuditRecord",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace AuditRecordAddedEvent {
+  export type InputTuple = [
+    recordId: BigNumberish,
+    building: AddressLike,
+    auditor: AddressLike,
+    ipfsHash: string,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    recordId: bigint,
+    building: string,
+    auditor: string,
+    ipfsHash: string,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    recordId: bigint;
+    building: string;
+    auditor: string;
+    ipfsHash: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AuditRecordRevokedEvent {
+  export type InputTuple = [recordId: BigNumberish, timestamp: BigNumberish];
+  export type OutputTuple = [recordId: bigint, timestamp: bigint];
+  export interface OutputObject {
+    recordId: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AuditRecordUpdatedEvent {
+  export type InputTuple = [
+    recordId: BigNumberish,
+    newIpfsHash: string,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    recordId: bigint,
+    newIpfsHash: string,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    recordId: bigint;
+    newIpfsHash: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AuditorAddedEvent {
+  export type InputTuple = [auditor: AddressLike];
+  export type OutputTuple = [auditor: string];
+  export interface OutputObject {
+    auditor: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AuditorRemovedEvent {
+  export type InputTuple = [auditor: AddressLike];
+  export type OutputTuple = [auditor: string];
+  export interface OutputObject {
+    auditor: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace GovernanceGrantedEvent {
+  export type InputTuple = [governance: AddressLike];
+  export type OutputTuple = [governance: string];
+  export interface OutputObject {
+    governance: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoleAdminChangedEvent {
+  export type InputTuple = [
+    role: BytesLike,
+    previousAdminRole: BytesLike,
+    newAdminRole: BytesLike
+  ];
+  export type OutputTuple = [
+    role: string,
+    previousAdminRole: string,
+    newAdminRole: string
+  ];
+  export interface OutputObject {
+    role: string;
+    previousAdminRole: string;
+    newAdminRole: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoleGrantedEvent {
+  export type InputTuple = [
+    role: BytesLike,
+    account: AddressLike,
+    sender: AddressLike
+  ];
+  export type OutputTuple = [role: string, account: string, sender: string];
+  export interface OutputObject {
+    role: string;
+    account: string;
+    sender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoleRevokedEvent {
+  export type InputTuple = [
+    role: BytesLike,
+    account: AddressLike,
+    sender: AddressLike
+  ];
+  export type OutputTuple = [role: string, account: string, sender: string];
+  export interface OutputObject {
+    role: string;
+    account: string;
+    sender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface AuditRegistry extends BaseContract {
+  connect(runner?: ContractRunner | null): AuditRegistry;
+  waitForDeployment(): Promise<this>;
+
+  interface: AuditRegistryInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  AUDITOR_ROLE: TypedContractMethod<[], [string], "view">;
+
+  DEFAULT_ADMIN_ROLE: TypedContractMethod<[], [string], "view">;
+
+  GOVERNANCE_ROLE: TypedContractMethod<[], [string], "view">;
+
+  addAuditRecord: TypedContractMethod<
+    [_building: AddressLike, _ipfsHash: string],
+    [void],
+    "nonpayable"
+  >;
+
+  addAuditor: TypedContractMethod<[account: AddressLike], [void], "nonpayable">;
+
+  auditRecordCounter: TypedContractMethod<[], [bigint], "view">;
+
+  auditRecords: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, string, bigint, boolean, string] & {
+        building: string;
+        auditor: string;
+        timestamp: bigint;
+        revoked: boolean;
+        ipfsHash: string;
+      }
+    ],
+    "view"
+  >;
+
+  buildingAuditRecords: TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  getAuditRecordDetails: TypedContractMethod<
+    [_recordId: BigNumberish],
+    [AuditRegistry.AuditRecordStructOutput],
+    "view"
+  >;
+
+  getAuditRecordsByBuilding: TypedContractMethod<
+    [_building: AddressLike],
+    [bigint[]],
+    "view"
+  >;
+
+  getAuditors: TypedContractMethod<[], [string[]], "view">;
+
+  getRoleAdmin: TypedContractMethod<[role: BytesLike], [string], "view">;
+
+  grantGovernanceRole: TypedContractMethod<
+    [governance: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  grantRole: TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  hasRole: TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  removeAuditor: TypedContractMethod<
+    [account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  renounceRole: TypedContractMethod<
+    [role: BytesLike, callerConfirmation: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  revokeAuditRecord: TypedContractMethod<
+    [_recordId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  revokeRole: TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  supportsInterface: TypedContractMethod<
+    [interfaceId: BytesLike],
+    [boolean],
+    "view"
+  >;
+
+  updateAuditRecord: TypedContractMethod<
+    [_recordId: BigNumberish, _newIpfsHash: string],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "AUDITOR_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "DEFAULT_ADMIN_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "GOVERNANCE_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "addAuditRecord"
+  ): TypedContractMethod<
+    [_building: AddressLike, _ipfsHash: string],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "addAuditor"
+  ): TypedContractMethod<[account: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "auditRecordCounter"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "auditRecords"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, string, bigint, boolean, string] & {
+        building: string;
+        auditor: string;
+        timestamp: bigint;
+        revoked: boolean;
+        ipfsHash: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "buildingAuditRecords"
+  ): TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getAuditRecordDetails"
+  ): TypedContractMethod<
+    [_recordId: BigNumberish],
+    [AuditRegistry.AuditRecordStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getAuditRecordsByBuilding"
+  ): TypedContractMethod<[_building: AddressLike], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "getAuditors"
+  ): TypedContractMethod<[], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getRoleAdmin"
+  ): TypedContractMethod<[role: BytesLike], [string], "view">;
+  getFunction(
+    nameOrSignature: "grantGovernanceRole"
+  ): TypedContractMethod<[governance: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "grantRole"
+  ): TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "hasRole"
+  ): TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "removeAuditor"
+  ): TypedContractMethod<[account: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "renounceRole"
+  ): TypedContractMethod<
+    [role: BytesLike, callerConfirmation: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "revokeAuditRecord"
+  ): TypedContractMethod<[_recordId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "revokeRole"
+  ): TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "supportsInterface"
+  ): TypedContractMethod<[interfaceId: BytesLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "updateAuditRecord"
+  ): TypedContractMethod<
+    [_recordId: BigNumberish, _newIpfsHash: string],
+    [void],
+    "nonpayable"
+  >;
+
+  getEvent(
+    key: "AuditRecordAdded"
+  ): TypedContractEvent<
+    AuditRecordAddedEvent.InputTuple,
+    AuditRecordAddedEvent.OutputTuple,
+    AuditRecordAddedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AuditRecordRevoked"
+  ): TypedContractEvent<
+    AuditRecordRevokedEvent.InputTuple,
+    AuditRecordRevokedEvent.OutputTuple,
+    AuditRecordRevokedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AuditRecordUpdated"
+  ): TypedContractEvent<
+    AuditRecordUpdatedEvent.InputTuple,
+    AuditRecordUpdatedEvent.OutputTuple,
+    AuditRecordUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AuditorAdded"
+  ): TypedContractEvent<
+    AuditorAddedEvent.InputTuple,
+    AuditorAddedEvent.OutputTuple,
+    AuditorAddedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AuditorRemoved"
+  ): TypedContractEvent<
+    AuditorRemovedEvent.InputTuple,
+    AuditorRemovedEvent.OutputTuple,
+    AuditorRemovedEvent.OutputObject
+  >;
+  getEvent(
+    key: "GovernanceGranted"
+  ): TypedContractEvent<
+    GovernanceGrantedEvent.InputTuple,
+    GovernanceGrantedEvent.OutputTuple,
+    GovernanceGrantedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoleAdminChanged"
+  ): TypedContractEvent<
+    RoleAdminChangedEvent.InputTuple,
+    RoleAdminChangedEvent.OutputTuple,
+    RoleAdminChangedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoleGranted"
+  ): TypedContractEvent<
+    RoleGrantedEvent.InputTuple,
+    RoleGrantedEvent.OutputTuple,
+    RoleGrantedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoleRevoked"
+  ): TypedContractEvent<
+    RoleRevokedEvent.InputTuple,
+    RoleRevokedEvent.OutputTuple,
+    RoleRevokedEvent.OutputObject
+  >;
+
+  filters: {
+    "AuditRecordAdded(uint256,address,address,string,uint256)": TypedContractEvent<
+      AuditRecordAddedEvent.InputTuple,
+      AuditRecordAddedEvent.OutputTuple,
+      AuditRecordAddedEvent.OutputObject
+    >;
+    AuditRecordAdded: TypedContractEvent<
+      AuditRecordAddedEvent.InputTuple,
+      AuditRecordAddedEvent.OutputTuple,
+      AuditRecordAddedEvent.OutputObject
+    >;
+
+    "AuditRecordRevoked(uint256,uint256)": TypedContractEvent<
+      AuditRecordRevokedEvent.InputTuple,
+      AuditRecordRevokedEvent.OutputTuple,
+      AuditRecordRevokedEvent.OutputObject
+    >;
+    AuditRecordRevoked: TypedContractEvent<
+      AuditRecordRevokedEvent.InputTuple,
+      AuditRecordRevokedEvent.OutputTuple,
+      AuditRecordRevokedEvent.OutputObject
+    >;
+
+    "AuditRecordUpdated(uint256,string,uint256)": TypedContractEvent<
+      AuditRecordUpdatedEvent.InputTuple,
+      AuditRecordUpdatedEvent.OutputTuple,
+      AuditRecordUpdatedEvent.OutputObject
+    >;
+    AuditRecordUpdated: TypedContractEvent<
+      AuditRecordUpdatedEvent.InputTuple,
+      AuditRecordUpdatedEvent.OutputTuple,
+      AuditRecordUpdatedEvent.OutputObject
+    >;
+
+    "AuditorAdded(address)": TypedContractEvent<
+      AuditorAddedEvent.InputTuple,
+      AuditorAddedEvent.OutputTuple,
+      AuditorAddedEvent.OutputObject
+    >;
+    AuditorAdded: TypedContractEvent<
+      AuditorAddedEvent.InputTuple,
+      AuditorAddedEvent.OutputTuple,
+      AuditorAddedEvent.OutputObject
+    >;
+
+    "AuditorRemoved(address)": TypedContractEvent<
+      AuditorRemovedEvent.InputTuple,
+      AuditorRemovedEvent.OutputTuple,
+      AuditorRemovedEvent.OutputObject
+    >;
+    AuditorRemoved: TypedContractEvent<
+      AuditorRemovedEvent.InputTuple,
+      AuditorRemovedEvent.OutputTuple,
+      AuditorRemovedEvent.OutputObject
+    >;
+
+    "GovernanceGranted(address)": TypedContractEvent<
+      GovernanceGrantedEvent.InputTuple,
+      GovernanceGrantedEvent.OutputTuple,
+      GovernanceGrantedEvent.OutputObject
+    >;
+    GovernanceGranted: TypedContractEvent<
+      GovernanceGrantedEvent.InputTuple,
+      GovernanceGrantedEvent.OutputTuple,
+      GovernanceGrantedEvent.OutputObject
+    >;
+
+    "RoleAdminChanged(bytes32,bytes32,bytes32)": TypedContractEvent<
+      RoleAdminChangedEvent.InputTuple,
+      RoleAdminChangedEvent.OutputTuple,
+      RoleAdminChangedEvent.OutputObject
+    >;
+    RoleAdminChanged: TypedContractEvent<
+      RoleAdminChangedEvent.InputTuple,
+      RoleAdminChangedEvent.OutputTuple,
+      RoleAdminChangedEvent.OutputObject
+    >;
+
+    "RoleGranted(bytes32,address,address)": TypedContractEvent<
+      RoleGrantedEvent.InputTuple,
+      RoleGrantedEvent.OutputTuple,
+      RoleGrantedEvent.OutputObject
+    >;
+    RoleGranted: TypedContractEvent<
+      RoleGrantedEvent.InputTuple,
+      RoleGrantedEvent.OutputTuple,
+      RoleGrantedEvent.OutputObject
+    >;
+
+    "RoleRevoked(bytes32,address,address)": TypedContractEvent<
+      RoleRevokedEvent.InputTuple,
+      RoleRevokedEvent.OutputTuple,
+      RoleRevokedEvent.OutputObject
+    >;
+    RoleRevoked: TypedContractEvent<
+      RoleRevokedEvent.InputTuple,
+      RoleRevokedEvent.OutputTuple,
+      RoleRevokedEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,760 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "./common";
+
+export type BuildingFactoryInitStruct = {
+  nft: AddressLike;
+  uniswapRouter: AddressLike;
+  uniswapFactory: AddressLike;
+  identityFactory: AddressLike;
+  trexFactory: AddressLike;
+  usdc: AddressLike;
+  buildingBeacon: AddressLike;
+  treasuryBeacon: AddressLike;
+  governanceBeacon: AddressLike;
+  upkeeper: AddressLike;
+};
+
+export type BuildingFactoryInitStructOutput = [
+  nft: string,
+  uniswapRouter: string,
+  uniswapFactory: string,
+  identityFactory: string,
+  trexFactory: string,
+  usdc: string,
+  buildingBeacon: string,
+  treasuryBeacon: string,
+  governanceBeacon: string,
+  upkeeper: string
+] & {
+  nft: string;
+  uniswapRouter: string;
+  uniswapFactory: string;
+  identityFactory: string;
+  trexFactory: string;
+  usdc: string;
+  buildingBeacon: string;
+  treasuryBeacon: string;
+  governanceBeacon: string;
+  upkeeper: string;
+};
+
+export declare namespace BuildingFactoryStorage {
+  export type BuildingDetailsStruct = {
+    addr: AddressLike;
+    nftId: BigNumberish;
+    tokenURI: string;
+    auditRegistry: AddressLike;
+    erc3643Token: AddressLike;
+    treasury: AddressLike;
+    governance: AddressLike;
+    vault: AddressLike;
+    autoCompounder: AddressLike;
+    initialOwner: AddressLike;
+    tokenMintAmount: BigNumberish;
+    isConfigured: boolean;
+  };
+
+  export type BuildingDetailsStructOutput = [
+    addr: string,
+    nftId: bigint,
+    tokenURI: string,
+    auditRegistry: string,
+    erc3643Token: string,
+    treasury: string,
+    governance: string,
+    vault: string,
+    autoCompounder: string,
+    initialOwner: string,
+    tokenMintAmount: bigint,
+    isConfigured: boolean
+  ] & {
+    addr: string;
+    nftId: bigint;
+    tokenURI: string;
+    auditRegistry: string;
+    erc3643Token: string;
+    treasury: string;
+    governance: string;
+    vault: string;
+    autoCompounder: string;
+    initialOwner: string;
+    tokenMintAmount: bigint;
+    isConfigured: boolean;
+  };
+
+  export type NewBuildingDetailsStruct = {
+    tokenURI: string;
+    tokenName: string;
+    tokenSymbol: string;
+    tokenDecimals: BigNumberish;
+    tokenMintAmount: BigNumberish;
+    treasuryReserveAmount: BigNumberish;
+    treasuryNPercent: BigNumberish;
+    governanceName: string;
+    vaultShareTokenName: string;
+    vaultShareTokenSymbol: string;
+    vaultFeeReceiver: AddressLike;
+    vaultFeeToken: AddressLike;
+    vaultFeePercentage: BigNumberish;
+    vaultCliff: BigNumberish;
+    vaultUnlockDuration: BigNumberish;
+    aTokenName: string;
+    aTokenSymbol: string;
+  };
+
+  export type NewBuildingDetailsStructOutput = [
+    tokenURI: string,
+    tokenName: string,
+    tokenSymbol: string,
+    tokenDecimals: bigint,
+    tokenMintAmount: bigint,
+    treasuryReserveAmount: bigint,
+    treasuryNPercent: bigint,
+    governanceName: string,
+    vaultShareTokenName: string,
+    vaultShareTokenSymbol: string,
+    vaultFeeReceiver: string,
+    vaultFeeToken: string,
+    vaultFeePercentage: bigint,
+    vaultCliff: bigint,
+    vaultUnlockDuration: bigint,
+    aTokenName: string,
+    aTokenSymbol: string
+  ] & {
+    tokenURI: string;
+    tokenName: string;
+    tokenSymbol: string;
+    tokenDecimals: bigint;
+    tokenMintAmount: bigint;
+    treasuryReserveAmount: bigint;
+    treasuryNPercent: bigint;
+    governanceName: string;
+    vaultShareTokenName: string;
+    vaultShareTokenSymbol: string;
+    vaultFeeReceiver: string;
+    vaultFeeToken: string;
+    vaultFeePercentage: bigint;
+    vaultCliff: bigint;
+    vaultUnlockDuration: bigint;
+    aTokenName: string;
+    aTokenSymbol: string;
+  };
+}
+
+export interface BuildingFactoryInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "addRegistryAgents"
+      | "configNewBuilding"
+      | "deployIdentityForWallet"
+      | "getBuildingDetails"
+      | "getBuildingList"
+      | "getIdentity"
+      | "getRegistryAgents"
+      | "initialize"
+      | "newBuilding"
+      | "owner"
+      | "registerIdentity"
+      | "removeRegistryAgent"
+      | "renounceOwnership"
+      | "transferOwnership"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "BuildingConfigured"
+      | "ComplianceModuleAdded"
+      | "IdentityRegistered"
+      | "Initialized"
+      | "NewBuilding"
+      | "OwnershipTransferred"
+      | "RegistryAgentRemoved"
+      | "RegistryAgentsAdded"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "addRegistryAgents",
+    values: [AddressLike[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "configNewBuilding",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "deployIdentityForWallet",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBuildingDetails",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBuildingList",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getIdentity",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRegistryAgents",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "initialize",
+    values: [BuildingFactoryInitStruct]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "newBuilding",
+    values: [BuildingFactoryStorage.NewBuildingDetailsStruct]
+  ): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "registerIdentity",
+    values: [AddressLike, AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "removeRegistryAgent",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "renounceOwnership",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferOwnership",
+    values: [AddressLike]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "addRegistryAgents",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "configNewBuilding",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "deployIdentityForWallet",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getBuildingDetails",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getBuildingList",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getIdentity",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getRegistryAgents",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "initialize", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "newBuilding",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "registerIdentity",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "removeRegistryAgent",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "renounceOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferOwnership",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace BuildingConfiguredEvent {
+  export type InputTuple = [buildingAddress: AddressLike];
+  export type OutputTuple = [buildingAddress: string];
+  export interface OutputObject {
+    buildingAddress: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ComplianceModuleAddedEvent {
+  export type InputTuple = [building: AddressLike, module: AddressLike];
+  export type OutputTuple = [building: string, module: string];
+  export interface OutputObject {
+    building: string;
+    module: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace IdentityRegisteredEvent {
+  export type InputTuple = [
+    building: AddressLike,
+    wallet: AddressLike,
+    identity: AddressLike,
+    country: BigNumberish
+  ];
+  export type OutputTuple = [
+    building: string,
+    wallet: string,
+    identity: string,
+    country: bigint
+  ];
+  export interface OutputObject {
+    building: string;
+    wallet: string;
+    identity: string;
+    country: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace InitializedEvent {
+  export type InputTuple = [version: BigNumberish];
+  export type OutputTuple = [version: bigint];
+  export interface OutputObject {
+    version: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace NewBuildingEvent {
+  export type InputTuple = [
+    buildingAddress: AddressLike,
+    erc3643Token: AddressLike,
+    treasury: AddressLike,
+    vault: AddressLike,
+    governance: AddressLike,
+    initialOwner: AddressLike,
+    autoCompounder: AddressLike
+  ];
+  export type OutputTuple = [
+    buildingAddress: string,
+    erc3643Token: string,
+    treasury: string,
+    vault: string,
+    governance: string,
+    initialOwner: string,
+    autoCompounder: string
+  ];
+  export interface OutputObject {
+    buildingAddress: string;
+    erc3643Token: string;
+    treasury: string;
+    vault: string;
+    governance: string;
+    initialOwner: string;
+    autoCompounder: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferredEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RegistryAgentRemovedEvent {
+  export type InputTuple = [agent: AddressLike];
+  export type OutputTuple = [agent: string];
+  export interface OutputObject {
+    agent: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RegistryAgentsAddedEvent {
+  export type InputTuple = [agents: AddressLike[]];
+  export type OutputTuple = [agents: string[]];
+  export interface OutputObject {
+    agents: string[];
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface BuildingFactory extends BaseContract {
+  connect(runner?: ContractRunner | null): BuildingFactory;
+  waitForDeployment(): Promise<this>;
+
+  interface: BuildingFactoryInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  addRegistryAgents: TypedContractMethod<
+    [agents: AddressLike[]],
+    [void],
+    "nonpayable"
+  >;
+
+  configNewBuilding: TypedContractMethod<
+    [buildingAddress: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  deployIdentityForWallet: TypedContractMethod<
+    [wallet: AddressLike],
+    [string],
+    "nonpayable"
+  >;
+
+  getBuildingDetails: TypedContractMethod<
+    [buildingAddress: AddressLike],
+    [BuildingFactoryStorage.BuildingDetailsStructOutput],
+    "view"
+  >;
+
+  getBuildingList: TypedContractMethod<
+    [],
+    [BuildingFactoryStorage.BuildingDetailsStructOutput[]],
+    "view"
+  >;
+
+  getIdentity: TypedContractMethod<[wallet: AddressLike], [string], "view">;
+
+  getRegistryAgents: TypedContractMethod<[], [string[]], "view">;
+
+  initialize: TypedContractMethod<
+    [init: BuildingFactoryInitStruct],
+    [void],
+    "nonpayable"
+  >;
+
+  newBuilding: TypedContractMethod<
+    [details: BuildingFactoryStorage.NewBuildingDetailsStruct],
+    [BuildingFactoryStorage.BuildingDetailsStructOutput],
+    "nonpayable"
+  >;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  registerIdentity: TypedContractMethod<
+    [buildingAddress: AddressLike, wallet: AddressLike, country: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  removeRegistryAgent: TypedContractMethod<
+    [agent: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  renounceOwnership: TypedContractMethod<[], [void], "nonpayable">;
+
+  transferOwnership: TypedContractMethod<
+    [newOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "addRegistryAgents"
+  ): TypedContractMethod<[agents: AddressLike[]], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "configNewBuilding"
+  ): TypedContractMethod<[buildingAddress: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "deployIdentityForWallet"
+  ): TypedContractMethod<[wallet: AddressLike], [string], "nonpayable">;
+  getFunction(
+    nameOrSignature: "getBuildingDetails"
+  ): TypedContractMethod<
+    [buildingAddress: AddressLike],
+    [BuildingFactoryStorage.BuildingDetailsStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getBuildingList"
+  ): TypedContractMethod<
+    [],
+    [BuildingFactoryStorage.BuildingDetailsStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getIdentity"
+  ): TypedContractMethod<[wallet: AddressLike], [string], "view">;
+  getFunction(
+    nameOrSignature: "getRegistryAgents"
+  ): TypedContractMethod<[], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "initialize"
+  ): TypedContractMethod<
+    [init: BuildingFactoryInitStruct],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "newBuilding"
+  ): TypedContractMethod<
+    [details: BuildingFactoryStorage.NewBuildingDetailsStruct],
+    [BuildingFactoryStorage.BuildingDetailsStructOutput],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "registerIdentity"
+  ): TypedContractMethod<
+    [buildingAddress: AddressLike, wallet: AddressLike, country: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "removeRegistryAgent"
+  ): TypedContractMethod<[agent: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "renounceOwnership"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "transferOwnership"
+  ): TypedContractMethod<[newOwner: AddressLike], [void], "nonpayable">;
+
+  getEvent(
+    key: "BuildingConfigured"
+  ): TypedContractEvent<
+    BuildingConfiguredEvent.InputTuple,
+    BuildingConfiguredEvent.OutputTuple,
+    BuildingConfiguredEvent.OutputObject
+  >;
+  getEvent(
+    key: "ComplianceModuleAdded"
+  ): TypedContractEvent<
+    ComplianceModuleAddedEvent.InputTuple,
+    ComplianceModuleAddedEvent.OutputTuple,
+    ComplianceModuleAddedEvent.OutputObject
+  >;
+  getEvent(
+    key: "IdentityRegistered"
+  ): TypedContractEvent<
+    IdentityRegisteredEvent.InputTuple,
+    IdentityRegisteredEvent.OutputTuple,
+    IdentityRegisteredEvent.OutputObject
+  >;
+  getEvent(
+    key: "Initialized"
+  ): TypedContractEvent<
+    InitializedEvent.InputTuple,
+    InitializedEvent.OutputTuple,
+    InitializedEvent.OutputObject
+  >;
+  getEvent(
+    key: "NewBuilding"
+  ): TypedContractEvent<
+    NewBuildingEvent.InputTuple,
+    NewBuildingEvent.OutputTuple,
+    NewBuildingEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferred"
+  ): TypedContractEvent<
+    OwnershipTransferredEvent.InputTuple,
+    OwnershipTransferredEvent.OutputTuple,
+    OwnershipTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "RegistryAgentRemoved"
+  ): TypedContractEvent<
+    RegistryAgentRemovedEvent.InputTuple,
+    RegistryAgentRemovedEvent.OutputTuple,
+    RegistryAgentRemovedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RegistryAgentsAdded"
+  ): TypedContractEvent<
+    RegistryAgentsAddedEvent.InputTuple,
+    RegistryAgentsAddedEvent.OutputTuple,
+    RegistryAgentsAddedEvent.OutputObject
+  >;
+
+  filters: {
+    "BuildingConfigured(address)": TypedContractEvent<
+      BuildingConfiguredEvent.InputTuple,
+      BuildingConfiguredEvent.OutputTuple,
+      BuildingConfiguredEvent.OutputObject
+    >;
+    BuildingConfigured: TypedContractEvent<
+      BuildingConfiguredEvent.InputTuple,
+      BuildingConfiguredEvent.OutputTuple,
+      BuildingConfiguredEvent.OutputObject
+    >;
+
+    "ComplianceModuleAdded(address,address)": TypedContractEvent<
+      ComplianceModuleAddedEvent.InputTuple,
+      ComplianceModuleAddedEvent.OutputTuple,
+      ComplianceModuleAddedEvent.OutputObject
+    >;
+    ComplianceModuleAdded: TypedContractEvent<
+      ComplianceModuleAddedEvent.InputTuple,
+      ComplianceModuleAddedEvent.OutputTuple,
+      ComplianceModuleAddedEvent.OutputObject
+    >;
+
+    "IdentityRegistered(address,address,address,uint16)": TypedContractEvent<
+      IdentityRegisteredEvent.InputTuple,
+      IdentityRegisteredEvent.OutputTuple,
+      IdentityRegisteredEvent.OutputObject
+    >;
+    IdentityRegistered: TypedContractEvent<
+      IdentityRegisteredEvent.InputTuple,
+      IdentityRegisteredEvent.OutputTuple,
+      IdentityRegisteredEvent.OutputObject
+    >;
+
+    "Initialized(uint64)": TypedContractEvent<
+      InitializedEvent.InputTuple,
+      InitializedEvent.OutputTuple,
+      InitializedEvent.OutputObject
+    >;
+    Initialized: TypedContractEvent<
+      InitializedEvent.InputTuple,
+      InitializedEvent.OutputTuple,
+      InitializedEvent.OutputObject
+    >;
+
+    "NewBuilding(address,address,address,address,address,address,address)": TypedContractEvent<
+      NewBuildingEvent.InputTuple,
+      NewBuildingEvent.OutputTuple,
+      NewBuildingEvent.OutputObject
+    >;
+    NewBuilding: TypedContractEvent<
+      NewBuildingEvent.InputTuple,
+      NewBuildingEvent.OutputTuple,
+      NewBuildingEvent.OutputObject
+    >;
+
+    "OwnershipTransferred(address,address)": TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+    OwnershipTransferred: TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+
+    "RegistryAgentRemoved(address)": TypedContractEvent<
+      RegistryAgentRemovedEvent.InputTuple,
+      RegistryAgentRemovedEvent.OutputTuple,
+      RegistryAgentRemovedEvent.OutputObject
+    >;
+    RegistryAgentRemoved: TypedContractEvent<
+      RegistryAgentRemovedEvent.InputTuple,
+      RegistryAgentRemovedEvent.OutputTuple,
+      RegistryAgentRemovedEvent.OutputObject
+    >;
+
+    "RegistryAgentsAdded(address[])": TypedContractEvent<
+      RegistryAgentsAddedEvent.InputTuple,
+      RegistryAgentsAddedEvent.OutputTuple,
+      RegistryAgentsAddedEvent.OutputObject
+    >;
+    RegistryAgentsAdded: TypedContractEvent<
+      RegistryAgentsAddedEvent.InputTuple,
+      RegistryAgentsAddedEvent.OutputTuple,
+      RegistryAgentsAddedEvent.OutputObject
+    >;
+  };
+}
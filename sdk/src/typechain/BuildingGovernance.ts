@@ -0,0 +1,1939 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "./common";
+
+export interface BuildingGovernanceInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "BALLOT_TYPEHASH"
+      | "CLOCK_MODE"
+      | "COUNTING_MODE"
+      | "EXTENDED_BALLOT_TYPEHASH"
+      | "UPGRADE_INTERFACE_VERSION"
+      | "cancel"
+      | "castVote"
+      | "castVoteBySig"
+      | "castVoteWithReason"
+      | "castVoteWithReasonAndParams"
+      | "castVoteWithReasonAndParamsBySig"
+      | "clock"
+      | "createAddAuditorProposal"
+      | "createChangeReserveProposal"
+      | "createPaymentProposal"
+      | "createRemoveAuditorProposal"
+      | "createTextProposal"
+      | "eip712Domain"
+      | "execute"
+      | "executeAddAuditorProposal"
+      | "executeChangeReserveProposal"
+      | "executeMultisigPaymentProposal"
+      | "executePaymentProposal"
+      | "executeRemoveAuditorProposal"
+      | "executeTextProposal"
+      | "getMultisigThreshold"
+      | "getSafeAddress"
+      | "getVotes"
+      | "getVotesWithParams"
+      | "hasVoted"
+      | "hashProposal"
+      | "initialize"
+      | "name"
+      | "nonces"
+      | "onERC1155BatchReceived"
+      | "onERC1155Received"
+      | "onERC721Received"
+      | "owner"
+      | "proposalDeadline"
+      | "proposalEta"
+      | "proposalNeedsQueuing"
+      | "proposalProposer"
+      | "proposalSnapshot"
+      | "proposalThreshold"
+      | "proposalVotes"
+      | "propose"
+      | "proxiableUUID"
+      | "queue"
+      | "quorum"
+      | "quorumDenominator"
+      | "quorumNumerator(uint256)"
+      | "quorumNumerator()"
+      | "relay"
+      | "renounceOwnership"
+      | "setMultisigThreshold"
+      | "setSafeAddress"
+      | "state"
+      | "supportsInterface"
+      | "token"
+      | "transferOwnership"
+      | "updateQuorumNumerator"
+      | "upgradeToAndCall"
+      | "version"
+      | "votingDelay"
+      | "votingPeriod"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "EIP712DomainChanged"
+      | "Initialized"
+      | "MultisigProposalExecuted"
+      | "MultisigThresholdUpdated"
+      | "OwnershipTransferred"
+      | "ProposalCanceled"
+      | "ProposalCreated"
+      | "ProposalDefined"
+      | "ProposalExecuted"
+      | "ProposalQueued"
+      | "QuorumNumeratorUpdated"
+      | "SafeAddressUpdated"
+      | "Upgraded"
+      | "VoteCast"
+      | "VoteCastWithParams"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "BALLOT_TYPEHASH",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "CLOCK_MODE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "COUNTING_MODE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "EXTENDED_BALLOT_TYPEHASH",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "UPGRADE_INTERFACE_VERSION",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancel",
+    values: [AddressLike[], BigNumberish[], BytesLike[], BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "castVote",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "castVoteBySig",
+    values: [BigNumberish, BigNumberish, AddressLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "castVoteWithReason",
+    values: [BigNumberish, BigNumberish, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "castVoteWithReasonAndParams",
+    values: [BigNumberish, BigNumberish, string, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "castVoteWithReasonAndParamsBySig",
+    values: [
+      BigNumberish,
+      BigNumberish,
+      AddressLike,
+      string,
+      BytesLike,
+      BytesLike
+    ]
+  ): string;
+  encodeFunctionData(functionFragment: "clock", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "createAddAuditorProposal",
+    values: [AddressLike, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createChangeReserveProposal",
+    values: [BigNumberish, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createPaymentProposal",
+    values: [BigNumberish, AddressLike, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createRemoveAuditorProposal",
+    values: [AddressLike, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createTextProposal",
+    values: [BigNumberish, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "eip712Domain",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "execute",
+    values: [AddressLike[], BigNumberish[], BytesLike[], BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "executeAddAuditorProposal",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "executeChangeReserveProposal",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "executeMultisigPaymentProposal",
+    values: [BigNumberish, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "executePaymentProposal",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "executeRemoveAuditorProposal",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "executeTextProposal",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getMultisigThreshold",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSafeAddress",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getVotes",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getVotesWithParams",
+    values: [AddressLike, BigNumberish, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasVoted",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hashProposal",
+    values: [AddressLike[], BigNumberish[], BytesLike[], BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "initialize",
+    values: [AddressLike, string, AddressLike, AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "name", values?: undefined): string;
+  encodeFunctionData(functionFragment: "nonces", values: [AddressLike]): string;
+  encodeFunctionData(
+    functionFragment: "onERC1155BatchReceived",
+    values: [
+      AddressLike,
+      AddressLike,
+      BigNumberish[],
+      BigNumberish[],
+      BytesLike
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "onERC1155Received",
+    values: [AddressLike, AddressLike, BigNumberish, BigNumberish, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "onERC721Received",
+    values: [AddressLike, AddressLike, BigNumberish, BytesLike]
+  ): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "proposalDeadline",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "proposalEta",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "proposalNeedsQueuing",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "proposalProposer",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "proposalSnapshot",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "proposalThreshold",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "proposalVotes",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "propose",
+    values: [AddressLike[], BigNumberish[], BytesLike[], string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "proxiableUUID",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "queue",
+    values: [AddressLike[], BigNumberish[], BytesLike[], BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "quorum",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "quorumDenominator",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "quorumNumerator(uint256)",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "quorumNumerator()",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "relay",
+    values: [AddressLike, BigNumberish, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "renounceOwnership",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setMultisigThreshold",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setSafeAddress",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "state", values: [BigNumberish]): string;
+  encodeFunctionData(
+    functionFragment: "supportsInterface",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(functionFragment: "token", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "transferOwnership",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updateQuorumNumerator",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "upgradeToAndCall",
+    values: [AddressLike, BytesLike]
+  ): string;
+  encodeFunctionData(functionFragment: "version", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "votingDelay",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "votingPeriod",
+    values?: undefined
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "BALLOT_TYPEHASH",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "CLOCK_MODE", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "COUNTING_MODE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "EXTENDED_BALLOT_TYPEHASH",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "UPGRADE_INTERFACE_VERSION",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "cancel", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "castVote", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "castVoteBySig",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "castVoteWithReason",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "castVoteWithReasonAndParams",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "castVoteWithReasonAndParamsBySig",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "clock", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "createAddAuditorProposal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "createChangeReserveProposal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "createPaymentProposal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "createRemoveAuditorProposal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "createTextProposal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "eip712Domain",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "execute", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "executeAddAuditorProposal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "executeChangeReserveProposal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "executeMultisigPaymentProposal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "executePaymentProposal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "executeRemoveAuditorProposal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "executeTextProposal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getMultisigThreshold",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getSafeAddress",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getVotes", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getVotesWithParams",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "hasVoted", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "hashProposal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "initialize", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "name", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "nonces", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "onERC1155BatchReceived",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "onERC1155Received",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "onERC721Received",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "proposalDeadline",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "proposalEta",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "proposalNeedsQueuing",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "proposalProposer",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "proposalSnapshot",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "proposalThreshold",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "proposalVotes",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "propose", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "proxiableUUID",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "queue", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "quorum", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "quorumDenominator",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "quorumNumerator(uint256)",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "quorumNumerator()",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "relay", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "renounceOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setMultisigThreshold",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setSafeAddress",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "state", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "supportsInterface",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "token", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "transferOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "updateQuorumNumerator",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "upgradeToAndCall",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "version", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "votingDelay",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "votingPeriod",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace EIP712DomainChangedEvent {
+  export type InputTuple = [];
+  export type OutputTuple = [];
+  export interface OutputObject {}
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace InitializedEvent {
+  export type InputTuple = [version: BigNumberish];
+  export type OutputTuple = [version: bigint];
+  export interface OutputObject {
+    version: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MultisigProposalExecutedEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    safeAddress: AddressLike,
+    receiver: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [
+    id: bigint,
+    safeAddress: string,
+    receiver: string,
+    amount: bigint
+  ];
+  export interface OutputObject {
+    id: bigint;
+    safeAddress: string;
+    receiver: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MultisigThresholdUpdatedEvent {
+  export type InputTuple = [threshold: BigNumberish];
+  export type OutputTuple = [threshold: bigint];
+  export interface OutputObject {
+    threshold: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferredEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProposalCanceledEvent {
+  export type InputTuple = [proposalId: BigNumberish];
+  export type OutputTuple = [proposalId: bigint];
+  export interface OutputObject {
+    proposalId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProposalCreatedEvent {
+  export type InputTuple = [
+    proposalId: BigNumberish,
+    proposer: AddressLike,
+    targets: AddressLike[],
+    values: BigNumberish[],
+    signatures: string[],
+    calldatas: BytesLike[],
+    voteStart: BigNumberish,
+    voteEnd: BigNumberish,
+    description: string
+  ];
+  export type OutputTuple = [
+    proposalId: bigint,
+    proposer: string,
+    targets: string[],
+    values: bigint[],
+    signatures: string[],
+    calldatas: string[],
+    voteStart: bigint,
+    voteEnd: bigint,
+    description: string
+  ];
+  export interface OutputObject {
+    proposalId: bigint;
+    proposer: string;
+    targets: string[];
+    values: bigint[];
+    signatures: string[];
+    calldatas: string[];
+    voteStart: bigint;
+    voteEnd: bigint;
+    description: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProposalDefinedEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    proposalType: BigNumberish,
+    level: BigNumberish,
+    proposer: AddressLike,
+    receiver: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [
+    id: bigint,
+    proposalType: bigint,
+    level: bigint,
+    proposer: string,
+    receiver: string,
+    amount: bigint
+  ];
+  export interface OutputObject {
+    id: bigint;
+    proposalType: bigint;
+    level: bigint;
+    proposer: string;
+    receiver: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProposalExecutedEvent {
+  export type InputTuple = [proposalId: BigNumberish];
+  export type OutputTuple = [proposalId: bigint];
+  export interface OutputObject {
+    proposalId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProposalQueuedEvent {
+  export type InputTuple = [proposalId: BigNumberish, etaSeconds: BigNumberish];
+  export type OutputTuple = [proposalId: bigint, etaSeconds: bigint];
+  export interface OutputObject {
+    proposalId: bigint;
+    etaSeconds: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace QuorumNumeratorUpdatedEvent {
+  export type InputTuple = [
+    oldQuorumNumerator: BigNumberish,
+    newQuorumNumerator: BigNumberish
+  ];
+  export type OutputTuple = [
+    oldQuorumNumerator: bigint,
+    newQuorumNumerator: bigint
+  ];
+  export interface OutputObject {
+    oldQuorumNumerator: bigint;
+    newQuorumNumerator: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SafeAddressUpdatedEvent {
+  export type InputTuple = [safeAddress: AddressLike];
+  export type OutputTuple = [safeAddress: string];
+  export interface OutputObject {
+    safeAddress: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace UpgradedEvent {
+  export type InputTuple = [implementation: AddressLike];
+  export type OutputTuple = [implementation: string];
+  export interface OutputObject {
+    implementation: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace VoteCastEvent {
+  export type InputTuple = [
+    voter: AddressLike,
+    proposalId: BigNumberish,
+    support: BigNumberish,
+    weight: BigNumberish,
+    reason: string
+  ];
+  export type OutputTuple = [
+    voter: string,
+    proposalId: bigint,
+    support: bigint,
+    weight: bigint,
+    reason: string
+  ];
+  export interface OutputObject {
+    voter: string;
+    proposalId: bigint;
+    support: bigint;
+    weight: bigint;
+    reason: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace VoteCastWithParamsEvent {
+  export type InputTuple = [
+    voter: AddressLike,
+    proposalId: BigNumberish,
+    support: BigNumberish,
+    weight: BigNumberish,
+    reason: string,
+    params: BytesLike
+  ];
+  export type OutputTuple = [
+    voter: string,
+    proposalId: bigint,
+    support: bigint,
+    weight: bigint,
+    reason: string,
+    params: string
+  ];
+  export interface OutputObject {
+    voter: string;
+    proposalId: bigint;
+    support: bigint;
+    weight: bigint;
+    reason: string;
+    params: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface BuildingGovernance extends BaseContract {
+  connect(runner?: ContractRunner | null): BuildingGovernance;
+  waitForDeployment(): Promise<this>;
+
+  interface: BuildingGovernanceInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  BALLOT_TYPEHASH: TypedContractMethod<[], [string], "view">;
+
+  CLOCK_MODE: TypedContractMethod<[], [string], "view">;
+
+  COUNTING_MODE: TypedContractMethod<[], [string], "view">;
+
+  EXTENDED_BALLOT_TYPEHASH: TypedContractMethod<[], [string], "view">;
+
+  UPGRADE_INTERFACE_VERSION: TypedContractMethod<[], [string], "view">;
+
+  cancel: TypedContractMethod<
+    [
+      targets: AddressLike[],
+      values: BigNumberish[],
+      calldatas: BytesLike[],
+      descriptionHash: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  castVote: TypedContractMethod<
+    [proposalId: BigNumberish, support: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+
+  castVoteBySig: TypedContractMethod<
+    [
+      proposalId: BigNumberish,
+      support: BigNumberish,
+      voter: AddressLike,
+      signature: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  castVoteWithReason: TypedContractMethod<
+    [proposalId: BigNumberish, support: BigNumberish, reason: string],
+    [bigint],
+    "nonpayable"
+  >;
+
+  castVoteWithReasonAndParams: TypedContractMethod<
+    [
+      proposalId: BigNumberish,
+      support: BigNumberish,
+      reason: string,
+      params: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  castVoteWithReasonAndParamsBySig: TypedContractMethod<
+    [
+      proposalId: BigNumberish,
+      support: BigNumberish,
+      voter: AddressLike,
+      reason: string,
+      params: BytesLike,
+      signature: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  clock: TypedContractMethod<[], [bigint], "view">;
+
+  createAddAuditorProposal: TypedContractMethod<
+    [auditor: AddressLike, description: string],
+    [bigint],
+    "nonpayable"
+  >;
+
+  createChangeReserveProposal: TypedContractMethod<
+    [amount: BigNumberish, description: string],
+    [bigint],
+    "nonpayable"
+  >;
+
+  createPaymentProposal: TypedContractMethod<
+    [amount: BigNumberish, to: AddressLike, description: string],
+    [bigint],
+    "nonpayable"
+  >;
+
+  createRemoveAuditorProposal: TypedContractMethod<
+    [auditor: AddressLike, description: string],
+    [bigint],
+    "nonpayable"
+  >;
+
+  createTextProposal: TypedContractMethod<
+    [arg0: BigNumberish, description: string],
+    [bigint],
+    "nonpayable"
+  >;
+
+  eip712Domain: TypedContractMethod<
+    [],
+    [
+      [string, string, string, bigint, string, string, bigint[]] & {
+        fields: string;
+        name: string;
+        version: string;
+        chainId: bigint;
+        verifyingContract: string;
+        salt: string;
+        extensions: bigint[];
+      }
+    ],
+    "view"
+  >;
+
+  execute: TypedContractMethod<
+    [
+      targets: AddressLike[],
+      values: BigNumberish[],
+      calldatas: BytesLike[],
+      descriptionHash: BytesLike
+    ],
+    [bigint],
+    "payable"
+  >;
+
+  executeAddAuditorProposal: TypedContractMethod<
+    [proposalId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  executeChangeReserveProposal: TypedContractMethod<
+    [proposalId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  executeMultisigPaymentProposal: TypedContractMethod<
+    [proposalId: BigNumberish, signatures: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  executePaymentProposal: TypedContractMethod<
+    [proposalId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  executeRemoveAuditorProposal: TypedContractMethod<
+    [proposalId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  executeTextProposal: TypedContractMethod<
+    [proposalId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  getMultisigThreshold: TypedContractMethod<[], [bigint], "view">;
+
+  getSafeAddress: TypedContractMethod<[], [string], "view">;
+
+  getVotes: TypedContractMethod<
+    [account: AddressLike, timepoint: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  getVotesWithParams: TypedContractMethod<
+    [account: AddressLike, timepoint: BigNumberish, params: BytesLike],
+    [bigint],
+    "view"
+  >;
+
+  hasVoted: TypedContractMethod<
+    [proposalId: BigNumberish, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  hashProposal: TypedContractMethod<
+    [
+      targets: AddressLike[],
+      values: BigNumberish[],
+      calldatas: BytesLike[],
+      descriptionHash: BytesLike
+    ],
+    [bigint],
+    "view"
+  >;
+
+  initialize: TypedContractMethod<
+    [
+      _token: AddressLike,
+      name: string,
+      initialOwner: AddressLike,
+      treasury: AddressLike,
+      auditRegistry: AddressLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  name: TypedContractMethod<[], [string], "view">;
+
+  nonces: TypedContractMethod<[owner: AddressLike], [bigint], "view">;
+
+  onERC1155BatchReceived: TypedContractMethod<
+    [
+      arg0: AddressLike,
+      arg1: AddressLike,
+      arg2: BigNumberish[],
+      arg3: BigNumberish[],
+      arg4: BytesLike
+    ],
+    [string],
+    "nonpayable"
+  >;
+
+  onERC1155Received: TypedContractMethod<
+    [
+      arg0: AddressLike,
+      arg1: AddressLike,
+      arg2: BigNumberish,
+      arg3: BigNumberish,
+      arg4: BytesLike
+    ],
+    [string],
+    "nonpayable"
+  >;
+
+  onERC721Received: TypedContractMethod<
+    [arg0: AddressLike, arg1: AddressLike, arg2: BigNumberish, arg3: BytesLike],
+    [string],
+    "nonpayable"
+  >;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  proposalDeadline: TypedContractMethod<
+    [proposalId: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  proposalEta: TypedContractMethod<
+    [proposalId: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  proposalNeedsQueuing: TypedContractMethod<
+    [arg0: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  proposalProposer: TypedContractMethod<
+    [proposalId: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  proposalSnapshot: TypedContractMethod<
+    [proposalId: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  proposalThreshold: TypedContractMethod<[], [bigint], "view">;
+
+  proposalVotes: TypedContractMethod<
+    [proposalId: BigNumberish],
+    [
+      [bigint, bigint, bigint] & {
+        againstVotes: bigint;
+        forVotes: bigint;
+        abstainVotes: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  propose: TypedContractMethod<
+    [
+      targets: AddressLike[],
+      values: BigNumberish[],
+      calldatas: BytesLike[],
+      description: string
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  proxiableUUID: TypedContractMethod<[], [string], "view">;
+
+  queue: TypedContractMethod<
+    [
+      targets: AddressLike[],
+      values: BigNumberish[],
+      calldatas: BytesLike[],
+      descriptionHash: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  quorum: TypedContractMethod<[blockNumber: BigNumberish], [bigint], "view">;
+
+  quorumDenominator: TypedContractMethod<[], [bigint], "view">;
+
+  "quorumNumerator(uint256)": TypedContractMethod<
+    [timepoint: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  "quorumNumerator()": TypedContractMethod<[], [bigint], "view">;
+
+  relay: TypedContractMethod<
+    [target: AddressLike, value: BigNumberish, data: BytesLike],
+    [void],
+    "payable"
+  >;
+
+  renounceOwnership: TypedContractMethod<[], [void], "nonpayable">;
+
+  setMultisigThreshold: TypedContractMethod<
+    [threshold: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setSafeAddress: TypedContractMethod<
+    [safeAddress: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  state: TypedContractMethod<[proposalId: BigNumberish], [bigint], "view">;
+
+  supportsInterface: TypedContractMethod<
+    [interfaceId: BytesLike],
+    [boolean],
+    "view"
+  >;
+
+  token: TypedContractMethod<[], [string], "view">;
+
+  transferOwnership: TypedContractMethod<
+    [newOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  updateQuorumNumerator: TypedContractMethod<
+    [newQuorumNumerator: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  upgradeToAndCall: TypedContractMethod<
+    [newImplementation: AddressLike, data: BytesLike],
+    [void],
+    "payable"
+  >;
+
+  version: TypedContractMethod<[], [string], "view">;
+
+  votingDelay: TypedContractMethod<[], [bigint], "view">;
+
+  votingPeriod: TypedContractMethod<[], [bigint], "view">;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "BALLOT_TYPEHASH"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "CLOCK_MODE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "COUNTING_MODE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "EXTENDED_BALLOT_TYPEHASH"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "UPGRADE_INTERFACE_VERSION"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "cancel"
+  ): TypedContractMethod<
+    [
+      targets: AddressLike[],
+      values: BigNumberish[],
+      calldatas: BytesLike[],
+      descriptionHash: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "castVote"
+  ): TypedContractMethod<
+    [proposalId: BigNumberish, support: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "castVoteBySig"
+  ): TypedContractMethod<
+    [
+      proposalId: BigNumberish,
+      support: BigNumberish,
+      voter: AddressLike,
+      signature: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "castVoteWithReason"
+  ): TypedContractMethod<
+    [proposalId: BigNumberish, support: BigNumberish, reason: string],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "castVoteWithReasonAndParams"
+  ): TypedContractMethod<
+    [
+      proposalId: BigNumberish,
+      support: BigNumberish,
+      reason: string,
+      params: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "castVoteWithReasonAndParamsBySig"
+  ): TypedContractMethod<
+    [
+      proposalId: BigNumberish,
+      support: BigNumberish,
+      voter: AddressLike,
+      reason: string,
+      params: BytesLike,
+      signature: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "clock"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "createAddAuditorProposal"
+  ): TypedContractMethod<
+    [auditor: AddressLike, description: string],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "createChangeReserveProposal"
+  ): TypedContractMethod<
+    [amount: BigNumberish, description: string],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "createPaymentProposal"
+  ): TypedContractMethod<
+    [amount: BigNumberish, to: AddressLike, description: string],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "createRemoveAuditorProposal"
+  ): TypedContractMethod<
+    [auditor: AddressLike, description: string],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "createTextProposal"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, description: string],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "eip712Domain"
+  ): TypedContractMethod<
+    [],
+    [
+      [string, string, string, bigint, string, string, bigint[]] & {
+        fields: string;
+        name: string;
+        version: string;
+        chainId: bigint;
+        verifyingContract: string;
+        salt: string;
+        extensions: bigint[];
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "execute"
+  ): TypedContractMethod<
+    [
+      targets: AddressLike[],
+      values: BigNumberish[],
+      calldatas: BytesLike[],
+      descriptionHash: BytesLike
+    ],
+    [bigint],
+    "payable"
+  >;
+  getFunction(
+    nameOrSignature: "executeAddAuditorProposal"
+  ): TypedContractMethod<[proposalId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "executeChangeReserveProposal"
+  ): TypedContractMethod<[proposalId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "executeMultisigPaymentProposal"
+  ): TypedContractMethod<
+    [proposalId: BigNumberish, signatures: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "executePaymentProposal"
+  ): TypedContractMethod<[proposalId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "executeRemoveAuditorProposal"
+  ): TypedContractMethod<[proposalId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "executeTextProposal"
+  ): TypedContractMethod<[proposalId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "getMultisigThreshold"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getSafeAddress"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "getVotes"
+  ): TypedContractMethod<
+    [account: AddressLike, timepoint: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getVotesWithParams"
+  ): TypedContractMethod<
+    [account: AddressLike, timepoint: BigNumberish, params: BytesLike],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "hasVoted"
+  ): TypedContractMethod<
+    [proposalId: BigNumberish, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "hashProposal"
+  ): TypedContractMethod<
+    [
+      targets: AddressLike[],
+      values: BigNumberish[],
+      calldatas: BytesLike[],
+      descriptionHash: BytesLike
+    ],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "initialize"
+  ): TypedContractMethod<
+    [
+      _token: AddressLike,
+      name: string,
+      initialOwner: AddressLike,
+      treasury: AddressLike,
+      auditRegistry: AddressLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "name"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "nonces"
+  ): TypedContractMethod<[owner: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "onERC1155BatchReceived"
+  ): TypedContractMethod<
+    [
+      arg0: AddressLike,
+      arg1: AddressLike,
+      arg2: BigNumberish[],
+      arg3: BigNumberish[],
+      arg4: BytesLike
+    ],
+    [string],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "onERC1155Received"
+  ): TypedContractMethod<
+    [
+      arg0: AddressLike,
+      arg1: AddressLike,
+      arg2: BigNumberish,
+      arg3: BigNumberish,
+      arg4: BytesLike
+    ],
+    [string],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "onERC721Received"
+  ): TypedContractMethod<
+    [arg0: AddressLike, arg1: AddressLike, arg2: BigNumberish, arg3: BytesLike],
+    [string],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "proposalDeadline"
+  ): TypedContractMethod<[proposalId: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "proposalEta"
+  ): TypedContractMethod<[proposalId: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "proposalNeedsQueuing"
+  ): TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "proposalProposer"
+  ): TypedContractMethod<[proposalId: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "proposalSnapshot"
+  ): TypedContractMethod<[proposalId: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "proposalThreshold"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "proposalVotes"
+  ): TypedContractMethod<
+    [proposalId: BigNumberish],
+    [
+      [bigint, bigint, bigint] & {
+        againstVotes: bigint;
+        forVotes: bigint;
+        abstainVotes: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "propose"
+  ): TypedContractMethod<
+    [
+      targets: AddressLike[],
+      values: BigNumberish[],
+      calldatas: BytesLike[],
+      description: string
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "proxiableUUID"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "queue"
+  ): TypedContractMethod<
+    [
+      targets: AddressLike[],
+      values: BigNumberish[],
+      calldatas: BytesLike[],
+      descriptionHash: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "quorum"
+  ): TypedContractMethod<[blockNumber: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "quorumDenominator"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "quorumNumerator(uint256)"
+  ): TypedContractMethod<[timepoint: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "quorumNumerator()"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "relay"
+  ): TypedContractMethod<
+    [target: AddressLike, value: BigNumberish, data: BytesLike],
+    [void],
+    "payable"
+  >;
+  getFunction(
+    nameOrSignature: "renounceOwnership"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setMultisigThreshold"
+  ): TypedContractMethod<[threshold: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setSafeAddress"
+  ): TypedContractMethod<[safeAddress: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "state"
+  ): TypedContractMethod<[proposalId: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "supportsInterface"
+  ): TypedContractMethod<[interfaceId: BytesLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "token"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "transferOwnership"
+  ): TypedContractMethod<[newOwner: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "updateQuorumNumerator"
+  ): TypedContractMethod<
+    [newQuorumNumerator: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "upgradeToAndCall"
+  ): TypedContractMethod<
+    [newImplementation: AddressLike, data: BytesLike],
+    [void],
+    "payable"
+  >;
+  getFunction(
+    nameOrSignature: "version"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "votingDelay"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "votingPeriod"
+  ): TypedContractMethod<[], [bigint], "view">;
+
+  getEvent(
+    key: "EIP712DomainChanged"
+  ): TypedContractEvent<
+    EIP712DomainChangedEvent.InputTuple,
+    EIP712DomainChangedEvent.OutputTuple,
+    EIP712DomainChangedEvent.OutputObject
+  >;
+  getEvent(
+    key: "Initialized"
+  ): TypedContractEvent<
+    InitializedEvent.InputTuple,
+    InitializedEvent.OutputTuple,
+    InitializedEvent.OutputObject
+  >;
+  getEvent(
+    key: "MultisigProposalExecuted"
+  ): TypedContractEvent<
+    MultisigProposalExecutedEvent.InputTuple,
+    MultisigProposalExecutedEvent.OutputTuple,
+    MultisigProposalExecutedEvent.OutputObject
+  >;
+  getEvent(
+    key: "MultisigThresholdUpdated"
+  ): TypedContractEvent<
+    MultisigThresholdUpdatedEvent.InputTuple,
+    MultisigThresholdUpdatedEvent.OutputTuple,
+    MultisigThresholdUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferred"
+  ): TypedContractEvent<
+    OwnershipTransferredEvent.InputTuple,
+    OwnershipTransferredEvent.OutputTuple,
+    OwnershipTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProposalCanceled"
+  ): TypedContractEvent<
+    ProposalCanceledEvent.InputTuple,
+    ProposalCanceledEvent.OutputTuple,
+    ProposalCanceledEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProposalCreated"
+  ): TypedContractEvent<
+    ProposalCreatedEvent.InputTuple,
+    ProposalCreatedEvent.OutputTuple,
+    ProposalCreatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProposalDefined"
+  ): TypedContractEvent<
+    ProposalDefinedEvent.InputTuple,
+    ProposalDefinedEvent.OutputTuple,
+    ProposalDefinedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProposalExecuted"
+  ): TypedContractEvent<
+    ProposalExecutedEvent.InputTuple,
+    ProposalExecutedEvent.OutputTuple,
+    ProposalExecutedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProposalQueued"
+  ): TypedContractEvent<
+    ProposalQueuedEvent.InputTuple,
+    ProposalQueuedEvent.OutputTuple,
+    ProposalQueuedEvent.OutputObject
+  >;
+  getEvent(
+    key: "QuorumNumeratorUpdated"
+  ): TypedContractEvent<
+    QuorumNumeratorUpdatedEvent.InputTuple,
+    QuorumNumeratorUpdatedEvent.OutputTuple,
+    QuorumNumeratorUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SafeAddressUpdated"
+  ): TypedContractEvent<
+    SafeAddressUpdatedEvent.InputTuple,
+    SafeAddressUpdatedEvent.OutputTuple,
+    SafeAddressUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "Upgraded"
+  ): TypedContractEvent<
+    UpgradedEvent.InputTuple,
+    UpgradedEvent.OutputTuple,
+    UpgradedEvent.OutputObject
+  >;
+  getEvent(
+    key: "VoteCast"
+  ): TypedContractEvent<
+    VoteCastEvent.InputTuple,
+    VoteCastEvent.OutputTuple,
+    VoteCastEvent.OutputObject
+  >;
+  getEvent(
+    key: "VoteCastWithParams"
+  ): TypedContractEvent<
+    VoteCastWithParamsEvent.InputTuple,
+    VoteCastWithParamsEvent.OutputTuple,
+    VoteCastWithParamsEvent.OutputObject
+  >;
+
+  filters: {
+    "EIP712DomainChanged()": TypedContractEvent<
+      EIP712DomainChangedEvent.InputTuple,
+      EIP712DomainChangedEvent.OutputTuple,
+      EIP712DomainChangedEvent.OutputObject
+    >;
+    EIP712DomainChanged: TypedContractEvent<
+      EIP712DomainChangedEvent.InputTuple,
+      EIP712DomainChangedEvent.OutputTuple,
+      EIP712DomainChangedEvent.OutputObject
+    >;
+
+    "Initialized(uint64)": TypedContractEvent<
+      InitializedEvent.InputTuple,
+      InitializedEvent.OutputTuple,
+      InitializedEvent.OutputObject
+    >;
+    Initialized: TypedContractEvent<
+      InitializedEvent.InputTuple,
+      InitializedEvent.OutputTuple,
+      InitializedEvent.OutputObject
+    >;
+
+    "MultisigProposalExecuted(uint256,address,address,uint256)": TypedContractEvent<
+      MultisigProposalExecutedEvent.InputTuple,
+      MultisigProposalExecutedEvent.OutputTuple,
+      MultisigProposalExecutedEvent.OutputObject
+    >;
+    MultisigProposalExecuted: TypedContractEvent<
+      MultisigProposalExecutedEvent.InputTuple,
+      MultisigProposalExecutedEvent.OutputTuple,
+      MultisigProposalExecutedEvent.OutputObject
+    >;
+
+    "MultisigThresholdUpdated(uint256)": TypedContractEvent<
+      MultisigThresholdUpdatedEvent.InputTuple,
+      MultisigThresholdUpdatedEvent.OutputTuple,
+      MultisigThresholdUpdatedEvent.OutputObject
+    >;
+    MultisigThresholdUpdated: TypedContractEvent<
+      MultisigThresholdUpdatedEvent.InputTuple,
+      MultisigThresholdUpdatedEvent.OutputTuple,
+      MultisigThresholdUpdatedEvent.OutputObject
+    >;
+
+    "OwnershipTransferred(address,address)": TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+    OwnershipTransferred: TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+
+    "ProposalCanceled(uint256)": TypedContractEvent<
+      ProposalCanceledEvent.InputTuple,
+      ProposalCanceledEvent.OutputTuple,
+      ProposalCanceledEvent.OutputObject
+    >;
+    ProposalCanceled: TypedContractEvent<
+      ProposalCanceledEvent.InputTuple,
+      ProposalCanceledEvent.OutputTuple,
+      ProposalCanceledEvent.OutputObject
+    >;
+
+    "ProposalCreated(uint256,address,address[],uint256[],string[],bytes[],uint256,uint256,string)": TypedContractEvent<
+      ProposalCreatedEvent.InputTuple,
+      ProposalCreatedEvent.OutputTuple,
+      ProposalCreatedEvent.OutputObject
+    >;
+    ProposalCreated: TypedContractEvent<
+      ProposalCreatedEvent.InputTuple,
+      ProposalCreatedEvent.OutputTuple,
+      ProposalCreatedEvent.OutputObject
+    >;
+
+    "ProposalDefined(uint256,uint8,uint8,address,address,uint256)": TypedContractEvent<
+      ProposalDefinedEvent.InputTuple,
+      ProposalDefinedEvent.OutputTuple,
+      ProposalDefinedEvent.OutputObject
+    >;
+    ProposalDefined: TypedContractEvent<
+      ProposalDefinedEvent.InputTuple,
+      ProposalDefinedEvent.OutputTuple,
+      ProposalDefinedEvent.OutputObject
+    >;
+
+    "ProposalExecuted(uint256)": TypedContractEvent<
+      ProposalExecutedEvent.InputTuple,
+      ProposalExecutedEvent.OutputTuple,
+      ProposalExecutedEvent.OutputObject
+    >;
+    ProposalExecuted: TypedContractEvent<
+      ProposalExecutedEvent.InputTuple,
+      ProposalExecutedEvent.OutputTuple,
+      ProposalExecutedEvent.OutputObject
+    >;
+
+    "ProposalQueued(uint256,uint256)": TypedContractEvent<
+      ProposalQueuedEvent.InputTuple,
+      ProposalQueuedEvent.OutputTuple,
+      ProposalQueuedEvent.OutputObject
+    >;
+    ProposalQueued: TypedContractEvent<
+      ProposalQueuedEvent.InputTuple,
+      ProposalQueuedEvent.OutputTuple,
+      ProposalQueuedEvent.OutputObject
+    >;
+
+    "QuorumNumeratorUpdated(uint256,uint256)": TypedContractEvent<
+      QuorumNumeratorUpdatedEvent.InputTuple,
+      QuorumNumeratorUpdatedEvent.OutputTuple,
+      QuorumNumeratorUpdatedEvent.OutputObject
+    >;
+    QuorumNumeratorUpdated: TypedContractEvent<
+      QuorumNumeratorUpdatedEvent.InputTuple,
+      QuorumNumeratorUpdatedEvent.OutputTuple,
+      QuorumNumeratorUpdatedEvent.OutputObject
+    >;
+
+    "SafeAddressUpdated(address)": TypedContractEvent<
+      SafeAddressUpdatedEvent.InputTuple,
+      SafeAddressUpdatedEvent.OutputTuple,
+      SafeAddressUpdatedEvent.OutputObject
+    >;
+    SafeAddressUpdated: TypedContractEvent<
+      SafeAddressUpdatedEvent.InputTuple,
+      SafeAddressUpdatedEvent.OutputTuple,
+      SafeAddressUpdatedEvent.OutputObject
+    >;
+
+    "Upgraded(address)": TypedContractEvent<
+      UpgradedEvent.InputTuple,
+      UpgradedEvent.OutputTuple,
+      UpgradedEvent.OutputObject
+    >;
+    Upgraded: TypedContractEvent<
+      UpgradedEvent.InputTuple,
+      UpgradedEvent.OutputTuple,
+      UpgradedEvent.OutputObject
+    >;
+
+    "VoteCast(address,uint256,uint8,uint256,string)": TypedContractEvent<
+      VoteCastEvent.InputTuple,
+      VoteCastEvent.OutputTuple,
+      VoteCastEvent.OutputObject
+    >;
+    VoteCast: TypedContractEvent<
+      VoteCastEvent.InputTuple,
+      VoteCastEvent.OutputTuple,
+      VoteCastEvent.OutputObject
+    >;
+
+    "VoteCastWithParams(address,uint256,uint8,uint256,string,bytes)": TypedContractEvent<
+      VoteCastWithParamsEvent.InputTuple,
+      VoteCastWithParamsEvent.OutputTuple,
+      VoteCastWithParamsEvent.OutputObject
+    >;
+    VoteCastWithParams: TypedContractEvent<
+      VoteCastWithParamsEvent.InputTuple,
+      VoteCastWithParamsEvent.OutputTuple,
+      VoteCastWithParamsEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,13 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { AuditRegistry__factory } from "./AuditRegistry__factory";
+export { Building__factory } from "./Building__factory";
+export { BuildingFactory__factory } from "./BuildingFactory__factory";
+export { BuildingGovernance__factory } from "./BuildingGovernance__factory";
+export { IdentityRegistry__factory } from "./IdentityRegistry__factory";
+export { ModularCompliance__factory } from "./ModularCompliance__factory";
+export { RewardsVault4626__factory } from "./RewardsVault4626__factory";
+export { RewardsVaultAutoCompounder__factory } from "./RewardsVaultAutoCompounder__factory";
+export { TokenVotes__factory } from "./TokenVotes__factory";
+export { Treasury__factory } from "./Treasury__factory";
@@ -0,0 +1,24 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { AuditRegistry } from "./AuditRegistry";
+export type { Building } from "./Building";
+export type { BuildingFactory } from "./BuildingFactory";
+export type { BuildingGovernance } from "./BuildingGovernance";
+export type { IdentityRegistry } from "./IdentityRegistry";
+export type { ModularCompliance } from "./ModularCompliance";
+export type { RewardsVault4626 } from "./RewardsVault4626";
+export type { RewardsVaultAutoCompounder } from "./RewardsVaultAutoCompounder";
+export type { TokenVotes } from "./TokenVotes";
+export type { Treasury } from "./Treasury";
+export * as factories from "./factories";
+export { AuditRegistry__factory } from "./factories/AuditRegistry__factory";
+export { Building__factory } from "./factories/Building__factory";
+export { BuildingFactory__factory } from "./factories/BuildingFactory__factory";
+export { BuildingGovernance__factory } from "./factories/BuildingGovernance__factory";
+export { IdentityRegistry__factory } from "./factories/IdentityRegistry__factory";
+export { ModularCompliance__factory } from "./factories/ModularCompliance__factory";
+export { RewardsVault4626__factory } from "./factories/RewardsVault4626__factory";
+export { RewardsVaultAutoCompounder__factory } from "./factories/RewardsVaultAutoCompounder__factory";
+export { TokenVotes__factory } from "./factories/TokenVotes__factory";
+export { Treasury__factory } from "./factories/Treasury__factory";
@@ -0,0 +1,99 @@
+import { BigNumberish, isAddress, toBigInt, ZeroAddress } from "ethers";
+import { BuildingFactoryStorage } from "./typechain/BuildingFactory";
+import { BuildingSuiteError } from "./events";
+
+type NewBuildingDetails = BuildingFactoryStorage.NewBuildingDetailsStruct;
+type Field = keyof NewBuildingDetails & string;
+
+// basis points, the treasury accepts up to 100% and the fee configuration strictly less
+const BASIS_POINTS = 10_000n;
+// bounds of the ERC3643 token
+const MAX_TOKEN_DECIMALS = 18n;
+const MAX_UINT32 = 2n ** 32n - 1n;
+
+// ipfs://<CIDv0 or base32 CIDv1>[/path]
+const IPFS_URI = /^ipfs:\/\/(Qm[1-9A-HJ-NP-Za-km-z]{44}|b[a-z2-7]{58,})(\/[^\s]*)?$/;
+
+export class BuildingValidationError extends BuildingSuiteError {
+    constructor(readonly issues: string[]) {
+        super(`Invalid building details:\n${issues.map((issue) => ` - ${issue}`).join("\n")}`);
+    }
+}
+
+/**
+ * Checks the details of a new building against the bounds the factory and the contracts it deploys
+ * enforce, so a mistake is reported before paying for a transaction that reverts or a building
+ * that cannot be configured.
+ *
+ * @returns the issues found, empty when the details are valid
+ */
+export function validateNewBuildingDetails(details: NewBuildingDetails): string[] {
+    const issues: string[] = [];
+
+    const integer = (field: Field, min: bigint, max?: bigint) => {
+        let value: bigint;
+        try {
+            value = toBigInt(details[field] as BigNumberish);
+        } catch {
+            issues.push(`${field} is not an integer`);
+            return;
+        }
+        if (value < min || (max !== undefined && value > max)) {
+            issues.push(`${field} must be ${max === undefined ? `at least ${min}` : `between ${min} and ${max}`}`);
+        }
+    };
+
+    const text = (field: Field) => {
+        const value = details[field];
+        if (typeof value !== "string" || value.trim() === "") {
+            issues.push(`${field} must not be empty`);
+        }
+    };
+
+    // signers and contracts are resolved by ethers when sending
+    const address = (field: Field) => {
+        const value = details[field];
+        if (typeof value === "string" && (!isAddress(value) || value === ZeroAddress)) {
+            issues.push(`${field} must be a non zero address`);
+        }
+    };
+
+    if (typeof details.tokenURI !== "string" || !IPFS_URI.test(details.tokenURI)) {
+        issues.push(`tokenURI must be an ipfs://<CID> URI, got "${details.tokenURI}"`);
+    }
+
+    for (const field of [
+        "tokenName",
+        "tokenSymbol",
+        "governanceName",
+        "vaultShareTokenName",
+        "vaultShareTokenSymbol",
+        "aTokenName",
+        "aTokenSymbol",
+    ] as const) {
+        text(field);
+    }
+
+    integer("tokenDecimals", 0n, MAX_TOKEN_DECIMALS);
+    integer("tokenMintAmount", 0n);
+    integer("treasuryReserveAmount", 1n);
+    integer("treasuryNPercent", 0n, BASIS_POINTS);
+    integer("vaultFeePercentage", 0n, BASIS_POINTS - 1n);
+    integer("vaultCliff", 0n, MAX_UINT32);
+    integer("vaultUnlockDuration", 0n, MAX_UINT32);
+
+    address("vaultFeeReceiver");
+    address("vaultFeeToken");
+
+    return issues;
+}
+
+/**
+ * Throws a BuildingValidationError listing every issue of the details of a new building.
+ */
+export function assertValidNewBuildingDetails(details: NewBuildingDetails): void {
+    const issues = validateNewBuildingDetails(details);
+    if (issues.length > 0) {
+        throw new BuildingValidationError(issues);
+    }
+}
@@ -0,0 +1,191 @@
+import { expect, ethers } from '../setup';
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import { deployFullSuiteFixture } from '../erc3643/fixtures/deploy-full-suite.fixture';
+import { ComplianceProfile, planComplianceProfile } from '../../scripts/building-compliance/compliance-profile';
+
+async function deployProfileFixture() {
+  const context = await loadFixture(deployFullSuiteFixture);
+  const { deployer, tokenAgent } = context.accounts;
+  const { token } = context.suite;
+
+  const compliance = await ethers.deployContract('ModularCompliance', deployer);
+  await compliance.init();
+  await token.connect(deployer).setCompliance(await compliance.getAddress());
+  if (await token.paused()) {
+    await token.connect(tokenAgent).unpause();
+  }
+
+  const countryAllowModule = await ethers.deployContract('CountryAllowModule');
+  const onlyUsaModule = await ethers.deployContract('OnlyUsaModule');
+  const transferRestrictModule = await ethers.deployContract('TransferRestrictModule');
+  const conditionalTransferModule = await ethers.deployContract('ConditionalTransferModule');
+  const maxBalanceModule = await ethers.deployContract('MaxBalanceModule');
+
+  // the compliance starts with the US allowed and the OnlyUsaModule bound
+  await compliance.addModule(await countryAllowModule.getAddress());
+  await compliance.callModuleFunction(
+    countryAllowModule.interface.encodeFunctionData('batchAllowCountries', [[840]]),
+    await countryAllowModule.getAddress(),
+  );
+  await compliance.addModule(await onlyUsaModule.getAddress());
+
+  return {
+    ...context,
+    compliance,
+    modules: {
+      countryAllow: await countryAllowModule.getAddress(),
+      onlyUsa: await onlyUsaModule.getAddress(),
+      transferRestrict: await transferRestrictModule.getAddress(),
+      conditionalTransfer: await conditionalTransferModule.getAddress(),
+      maxBalance: await maxBalanceModule.getAddress(),
+    },
+  };
+}
+
+async function applyPlan(profile: ComplianceProfile, signer: Parameters<typeof planComplianceProfile>[1]) {
+  const plan = await planComplianceProfile(profile, signer);
+  for (const { execute } of plan.actions) {
+    await execute();
+  }
+  return plan;
+}
+
+describe('Compliance profiles', () => {
+  it('should plan nothing when the compliance matches the profile', async () => {
+    const { accounts, suite, modules } = await loadFixture(deployProfileFixture);
+
+    const plan = await planComplianceProfile(
+      {
+        token: await suite.token.getAddress(),
+        fromBlock: 0,
+        modules: [
+          { settings: { module: 'CountryAllowModule', allowedCountries: [840] }, address: modules.countryAllow },
+          { settings: { module: 'OnlyUsaModule' }, address: modules.onlyUsa },
+        ],
+      },
+      accounts.deployer,
+    );
+
+    expect(plan.actions).to.deep.equal([]);
+  });
+
+  it('should add, configure and remove modules to match the profile', async () => {
+    const { accounts, suite, compliance, modules } = await loadFixture(deployProfileFixture);
+    const profile: ComplianceProfile = {
+      token: await suite.token.getAddress(),
+      fromBlock: 0,
+      modules: [
+        { settings: { module: 'CountryAllowModule', allowedCountries: [76] }, address: modules.countryAllow },
+        {
+          settings: { module: 'TransferRestrictModule', allowedUsers: [accounts.aliceWallet.address] },
+          address: modules.transferRestrict,
+        },
+      ],
+    };
+
+    const plan = await applyPlan(profile, accounts.deployer);
+
+    expect(plan.actions.map(({ module, action, description }) => ({ module, action, description }))).to.deep.equal([
+      { module: 'CountryAllowModule', action: 'configure', description: 'allow countries 76' },
+      { module: 'CountryAllowModule', action: 'configure', description: 'disallow countries 840' },
+      { module: 'TransferRestrictModule', action: 'add', description: 'bind the module to the compliance' },
+      {
+        module: 'TransferRestrictModule',
+        action: 'configure',
+        description: `allow users ${accounts.aliceWallet.address}`,
+      },
+      { module: 'OnlyUsaModule', action: 'remove', description: 'unbind the module, it is not in the profile' },
+    ]);
+    expect(await compliance.getModules()).to.deep.equal([modules.countryAllow, modules.transferRestrict]);
+    expect((await planComplianceProfile(profile, accounts.deployer)).actions).to.deep.equal([]);
+  });
+
+  it('should disallow the users allowed outside the profile', async () => {
+    const { accounts, suite, modules } = await loadFixture(deployProfileFixture);
+    const token = await suite.token.getAddress();
+    const profile = (allowedUsers: string[]): ComplianceProfile => ({
+      token,
+      fromBlock: 0,
+      modules: [{ settings: { module: 'TransferRestrictModule', allowedUsers }, address: modules.transferRestrict }],
+    });
+    await applyPlan(profile([accounts.aliceWallet.address, accounts.bobWallet.address]), accounts.deployer);
+
+    const plan = await planComplianceProfile(profile([accounts.aliceWallet.address]), accounts.deployer);
+
+    expect(plan.actions.map(({ description }) => description)).to.deep.equal([
+      `disallow users ${accounts.bobWallet.address}`,
+    ]);
+  });
+
+  it('should not approve again a conditional transfer that was made', async () => {
+    const { accounts, suite, modules } = await loadFixture(deployProfileFixture);
+    const { aliceWallet, bobWallet } = accounts;
+    const profile: ComplianceProfile = {
+      token: await suite.token.getAddress(),
+      fromBlock: 0,
+      modules: [
+        {
+          settings: {
+            module: 'ConditionalTransferModule',
+            approvedTransfers: [{ from: aliceWallet.address, to: bobWallet.address, amount: 100n }],
+          },
+          address: modules.conditionalTransfer,
+        },
+      ],
+    };
+    await applyPlan(profile, accounts.deployer);
+    await suite.token.connect(aliceWallet).transfer(bobWallet.address, 100n);
+
+    const plan = await planComplianceProfile(profile, accounts.deployer);
+
+    expect(plan.actions).to.deep.equal([]);
+    expect(plan.notes).to.deep.equal([
+      `ConditionalTransferModule: the transfer of 100 from ${aliceWallet.address} to ${bobWallet.address} ` +
+        'was approved before, it is not approved again once made or unapproved',
+    ]);
+  });
+
+  it('should not approve a conditional transfer when the module events cannot be read', async () => {
+    const { accounts, suite, modules } = await loadFixture(deployProfileFixture);
+    const { aliceWallet, bobWallet } = accounts;
+
+    const plan = await planComplianceProfile(
+      {
+        token: await suite.token.getAddress(),
+        modules: [
+          {
+            settings: {
+              module: 'ConditionalTransferModule',
+              approvedTransfers: [{ from: aliceWallet.address, to: bobWallet.address, amount: 100n }],
+            },
+            address: modules.conditionalTransfer,
+          },
+        ],
+      },
+      accounts.deployer,
+    );
+
+    expect(plan.actions.map(({ action }) => action)).to.deep.equal(['add', 'remove', 'remove']);
+    expect(plan.notes).to.deep.equal([
+      `ConditionalTransferModule: the transfer of 100 from ${aliceWallet.address} to ${bobWallet.address} ` +
+        'is not approved again in case it was made, its deployment block is unknown, set fromBlock in the profile',
+    ]);
+  });
+
+  it('should fail the plan of a module tracking balances without presetBalances', async () => {
+    const { accounts, suite, compliance, modules } = await loadFixture(deployProfileFixture);
+    const profile: ComplianceProfile = {
+      token: await suite.token.getAddress(),
+      fromBlock: 0,
+      modules: [
+        { settings: { module: 'CountryAllowModule', allowedCountries: [76] }, address: modules.countryAllow },
+        { settings: { module: 'MaxBalanceModule', maxBalance: 5000n }, address: modules.maxBalance },
+      ],
+    };
+
+    await expect(planComplianceProfile(profile, accounts.deployer)).to.be.rejectedWith(
+      `MaxBalanceModule cannot be bound to ${await compliance.getAddress()} until the balances of the token holders ` +
+        'are preset, add its presetBalances to the profile',
+    );
+  });
+});
@@ -3,201 +3,7 @@ import { expect, ethers, upgrades } from '../setup';
 import { loadFixture, mine } from '@nomicfoundation/hardhat-network-helpers';
 import * as ERC721MetadataABI from '../../data/abis/ERC721Metadata.json';
 import { BuildingFactory, BuildingGovernance, FeeConfiguration, IAutoCompounderFactory, IVaultFactory } from '../../typechain-types';
-import { BuildingFactoryInitStruct } from '../../typechain-types/contracts/buildings/BuildingFactory.sol/BuildingFactory';
-
-async function deployFixture() {
-  const [owner, notOwner, voter1, voter2, voter3] = await ethers.getSigners();
-
-  const weth = await ethers.deployContract('WETH9');
-  const wethAddress = await weth.getAddress();
-  const uniswapFactory = await ethers.deployContract('UniswapV2Factory', [notOwner]);
-  await uniswapFactory.waitForDeployment();
-  const uniswapFactoryAddress = await uniswapFactory.getAddress();
-  const uniswapRouter = await ethers.deployContract('UniswapV2Router02', [uniswapFactoryAddress, wethAddress]);
-  await uniswapRouter.waitForDeployment();
-  const uniswapRouterAddress = await uniswapRouter.getAddress();
-
-  const tokenA = await ethers.deployContract('ERC20Mock', ["Token A", "TKA", 18]);
-  const usdc = await ethers.deployContract('ERC20Mock', ["Token B", "TkB", 6]); // USDC
-
-  await tokenA.waitForDeployment();
-  await usdc.waitForDeployment();
-  const tokenAAddress = await tokenA.getAddress();
-  const usdcAddress = await usdc.getAddress();
-
-  // create the NFT separately because ERC721Metadata is too large
-  // must transfer ownership to BuildingFactory
-  const nftCollectionFactory = await ethers.getContractFactory('ERC721Metadata', owner);
-  const nftCollection = await nftCollectionFactory.deploy("Building NFT", "BILDNFT",);
-  await nftCollection.waitForDeployment();
-  const nftCollectionAddress = await nftCollection.getAddress();
-
-  const identityImplementation = await ethers.deployContract('Identity', [owner.address, true], owner);
-  const identityImplementationAuthority = await ethers.deployContract('ImplementationAuthority', [await identityImplementation.getAddress()], owner);
-  const identityFactory = await ethers.deployContract('IdFactory', [await identityImplementationAuthority.getAddress()], owner);
-
-  const buildingIdentityFactory = await ethers.deployContract('BuildingIdentityFactory', [await identityFactory.getAddress()], owner);
-  const buildingIdentityFactoryAddress = await buildingIdentityFactory.getAddress();
-
-  const upkeeper = await ethers.deployContract('UpKeeper');
-  const upkeeperAddress = await upkeeper.getAddress();
-
-  // Beacon Upgradable Patter for Building
-  const buildingImplementation = await ethers.deployContract('Building');
-  const buildingImplementationAddress = await buildingImplementation.getAddress();
-
-  const buildingBeaconFactory = await ethers.getContractFactory('BuildingBeacon');
-  const buildingBeacon = await buildingBeaconFactory.deploy(buildingImplementationAddress)
-  await buildingBeacon.waitForDeployment();
-  const buildingBeaconAddress = await buildingBeacon.getAddress();
-
-  // Beacon Upgradable Pattern for Treasury
-  const treasuryImplementation = await ethers.deployContract('Treasury');
-  const treasuryImplementationAddress = await treasuryImplementation.getAddress();
-  const treasuryBeaconFactory = await ethers.getContractFactory('TreasuryBeacon');
-  const treasuryBeacon = await treasuryBeaconFactory.deploy(treasuryImplementationAddress)
-  await treasuryBeacon.waitForDeployment();
-  const treasuryBeaconAddress = await treasuryBeacon.getAddress();
-
-  // Beacon Upgradable Pattern for Treasury
-  const governanceImplementation = await ethers.deployContract('BuildingGovernance');
-  const governanceImplementationAddress = await governanceImplementation.getAddress();
-  const governanceBeaconFactory = await ethers.getContractFactory('BuildingGovernanceBeacon');
-  const governanceBeacon = await governanceBeaconFactory.deploy(governanceImplementationAddress)
-  await governanceBeacon.waitForDeployment();
-  const governanceBeaconAddress = await governanceBeacon.getAddress();
-
-  const libraries = {
-    "BuildingTokenLib" : await (await (await ethers.deployContract("BuildingTokenLib")).waitForDeployment()).getAddress(),
-    "BuildingGovernanceLib" : await (await (await ethers.deployContract("BuildingGovernanceLib")).waitForDeployment()).getAddress(),
-    "BuildingTreasuryLib" : await (await (await ethers.deployContract("BuildingTreasuryLib")).waitForDeployment()).getAddress(),
-    "BuildingVaultLib" : await (await (await ethers.deployContract("BuildingVaultLib")).waitForDeployment()).getAddress(),
-    "BuildingAutoCompounderLib" : await (await (await ethers.deployContract("BuildingAutoCompounderLib")).waitForDeployment()).getAddress(),
-  }
-
-  // Deploy BuildingFactory
-  const buildingFactoryFactory = await ethers.getContractFactory('BuildingFactory', { libraries } );
-  const buildingFactoryBeacon = await upgrades.deployBeacon(buildingFactoryFactory, { unsafeAllowLinkedLibraries: true });
-
-  // TREX SUITE ------------------------------------
-  const claimTopicsRegistryImplementation = await ethers.deployContract('ClaimTopicsRegistry', owner);
-  const trustedIssuersRegistryImplementation = await ethers.deployContract('TrustedIssuersRegistry', owner);
-  const identityRegistryStorageImplementation = await ethers.deployContract('IdentityRegistryStorage', owner);
-  const identityRegistryImplementation = await ethers.deployContract('IdentityRegistry', owner);
-  const modularComplianceImplementation = await ethers.deployContract('ModularCompliance', owner);
-  const tokenImplementation = await ethers.deployContract('TokenVotes', owner);
-  const trexImplementationAuthority = await ethers.deployContract('TREXImplementationAuthority',[true, ethers.ZeroAddress, ethers.ZeroAddress], owner);
-  
-  const versionStruct = {
-    major: 4,
-    minor: 0,
-    patch: 0,
-  };
-
-  const contractsStruct = {
-    tokenImplementation: await tokenImplementation.getAddress(),
-    ctrImplementation: await claimTopicsRegistryImplementation.getAddress(),
-    irImplementation: await identityRegistryImplementation.getAddress(),
-    irsImplementation: await identityRegistryStorageImplementation.getAddress(),
-    tirImplementation: await trustedIssuersRegistryImplementation.getAddress(),
-    mcImplementation: await modularComplianceImplementation.getAddress(),
-  };
-
-  await trexImplementationAuthority.connect(owner).addAndUseTREXVersion(versionStruct, contractsStruct);
-  
-  const trexlibraries = {
-    "TREXDeployments" : await (await (await ethers.deployContract("TREXDeployments")).waitForDeployment()).getAddress()
-  }
-  const TREXFactory = await ethers.getContractFactory('TREXFactoryAts', { libraries: trexlibraries });
-  const trexFactory = await TREXFactory.deploy(
-    await trexImplementationAuthority.getAddress(),
-    await identityFactory.getAddress(),
-  );
-  
-  await identityFactory.connect(owner).addTokenFactory(await trexFactory.getAddress());
-  await trexFactory.transferOwnership(owner);
-
-  await identityFactory.transferOwnership(buildingIdentityFactoryAddress);
-
-  const trexFactoryAddress = await trexFactory.getAddress();
-
-
-  // vault factory
-  const VaultFactory = await ethers.getContractFactory("VaultFactory");
-  const vaultFactory = await VaultFactory.deploy(buildingIdentityFactoryAddress);
-  await vaultFactory.waitForDeployment();
-  const vaultFactoryAddress = await vaultFactory.getAddress();
-
-  // autocompounder factory
-  const AutoCompounderFactory = await ethers.getContractFactory("AutoCompounderFactory");
-  const autoCompounderFactory = await AutoCompounderFactory.deploy(buildingIdentityFactoryAddress);
-  await autoCompounderFactory.waitForDeployment();
-  const autoCompounderFactoryAddress = await autoCompounderFactory.getAddress();
-
-  // ------------------------------------------------------
-
-  const buildingFactoryInit: BuildingFactoryInitStruct = {
-    nft: nftCollectionAddress, 
-    uniswapRouter: uniswapRouterAddress, 
-    uniswapFactory: uniswapFactoryAddress,
-    identityFactory: buildingIdentityFactoryAddress,
-    trexFactory: trexFactoryAddress,
-    usdc: usdcAddress,
-    buildingBeacon: buildingBeaconAddress,
-    treasuryBeacon: treasuryBeaconAddress,
-    governanceBeacon: governanceBeaconAddress,
-    upkeeper: upkeeperAddress,
-  }
-
-  const bf = await upgrades.deployBeaconProxy(
-    await buildingFactoryBeacon.getAddress(),
-    buildingFactoryFactory,
-    [buildingFactoryInit],
-    { initializer: 'initialize' }, 
-  );
-
-  await bf.waitForDeployment();
-  const buildingFactoryAddress = await bf.getAddress()
-  const buildingFactory = await ethers.getContractAt('BuildingFactory', buildingFactoryAddress);
-
-  await buildingIdentityFactory.grantRole(await buildingIdentityFactory.IDENTITY_DEPLOYER_ROLE(), buildingFactoryAddress);
-  await buildingIdentityFactory.grantRole(await buildingIdentityFactory.IDENTITY_DEPLOYER_ROLE(), vaultFactoryAddress);
-  await buildingIdentityFactory.grantRole(await buildingIdentityFactory.IDENTITY_DEPLOYER_ROLE(), autoCompounderFactoryAddress);
-
-  // add identiriry registry agents when deploy new erc3643 tokens
-  await buildingFactory.addRegistryAgents([
-    await vaultFactory.getAddress(),
-    await autoCompounderFactory.getAddress()
-  ]);
-
-  await nftCollection.transferOwnership(buildingFactoryAddress);
-
-  // grant TRUSTED_REGISTRY_ROLE to building factory
-  await upkeeper.grantRole(await upkeeper.TRUSTED_REGISTRY_ROLE(), buildingFactoryAddress);
-
-  return {
-    owner,
-    notOwner,
-    buildingFactory,
-    buildingFactoryBeacon,
-    tokenA,
-    tokenAAddress,
-    usdc,
-    usdcAddress,
-    nftCollection,
-    nftCollectionAddress,
-    uniswapRouterAddress,
-    uniswapFactoryAddress,
-    identityFactory,
-    trexFactoryAddress,
-    voter1,
-    voter2,
-    voter3,
-    libraries,
-    vaultFactory,
-    autoCompounderFactory,
-  }
-}
+import { deployBuildingFactoryFixture as deployFixture } from './fixtures/deploy-building-factory.fixture';
 
 // get ERC721Metadata NFT collection deployed on contract deployment
 async function getDeployedBuilding(buildingFactory: BuildingFactory, blockNumber: number): Promise<Array<string>> {
@@ -0,0 +1,59 @@
+import { ethers, expect } from '../setup';
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import { getInitCode, predictCreate2Address, toSalt } from '../../scripts/create2';
+
+const salt = toSalt('slice-factory-v1');
+
+async function deployFixture() {
+  const [caller, other] = await ethers.getSigners();
+
+  const create2Deployer = await ethers.deployContract('Create2Deployer');
+  await create2Deployer.waitForDeployment();
+  const create2DeployerAddress = await create2Deployer.getAddress();
+
+  const sliceFactory = await ethers.getContractFactory('SliceFactory');
+  const initCode = await getInitCode('SliceFactory');
+  const handOver = [sliceFactory.interface.encodeFunctionData('transferOwnership', [caller.address])];
+
+  return { caller, other, create2Deployer, create2DeployerAddress, initCode, handOver };
+}
+
+describe('Create2Deployer', () => {
+  it('should deploy at the predicted address and make the calls', async () => {
+    const { caller, create2Deployer, create2DeployerAddress, initCode, handOver } = await loadFixture(deployFixture);
+    const predicted = predictCreate2Address(create2DeployerAddress, caller.address, salt, initCode);
+
+    await expect(create2Deployer.deploy(salt, initCode, handOver))
+      .to.emit(create2Deployer, 'Deployed')
+      .withArgs(caller.address, salt, predicted);
+
+    const sliceFactory = await ethers.getContractAt('SliceFactory', predicted);
+    expect(await sliceFactory.owner()).to.equal(caller.address);
+    expect(await create2Deployer.computeAddress(caller.address, salt, ethers.keccak256(initCode))).to.equal(predicted);
+  });
+
+  it('should scope the salts to the caller', async () => {
+    const { caller, other, create2Deployer, create2DeployerAddress, initCode } = await loadFixture(deployFixture);
+
+    await create2Deployer.deploy(salt, initCode, []);
+    await expect(create2Deployer.connect(other).deploy(salt, initCode, []))
+      .to.emit(create2Deployer, 'Deployed')
+      .withArgs(other.address, salt, predictCreate2Address(create2DeployerAddress, other.address, salt, initCode));
+
+    await expect(create2Deployer.deploy(salt, initCode, [])).to.be.reverted;
+    expect(predictCreate2Address(create2DeployerAddress, other.address, salt, initCode)).to.not.equal(
+      predictCreate2Address(create2DeployerAddress, caller.address, salt, initCode),
+    );
+  });
+
+  it('should revert the deployment when a call fails', async () => {
+    const { other, create2Deployer, create2DeployerAddress, initCode } = await loadFixture(deployFixture);
+    const sliceFactory = await ethers.getContractFactory('SliceFactory');
+    // Ownable rejects the zero address as owner
+    const failing = [sliceFactory.interface.encodeFunctionData('transferOwnership', [ethers.ZeroAddress])];
+    const predicted = predictCreate2Address(create2DeployerAddress, other.address, salt, initCode);
+
+    await expect(create2Deployer.connect(other).deploy(salt, initCode, failing)).to.be.reverted;
+    expect(await ethers.provider.getCode(predicted)).to.equal('0x');
+  });
+});
@@ -0,0 +1,280 @@
+import { expect, ethers } from '../setup';
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import { TransactionReceipt } from 'ethers';
+import { deployBuildingFactoryFixture } from '../buildings/fixtures/deploy-building-factory.fixture';
+import { BuildingSuite, NewBuildingDetails } from '../../sdk/src/building-suite';
+import { BuildingSuiteError, findEvent } from '../../sdk/src/events';
+import { IdentityRegistry__factory } from '../../sdk/src/typechain';
+import { BuildingValidationError } from '../../sdk/src/validation';
+
+// ProposalState.Pending of the governor
+const PENDING = 0n;
+
+function newBuildingDetails(owner: string, usdc: string): NewBuildingDetails {
+  return {
+    tokenURI: 'ipfs://bafkreifuy6zkjpyqu5ygirxhejoryt6i4orzjynn6fawbzsuzofpdgqscq',
+    tokenName: 'Building Token',
+    tokenSymbol: 'BLD',
+    tokenDecimals: 18n,
+    tokenMintAmount: ethers.parseEther('1000'),
+    treasuryReserveAmount: ethers.parseUnits('1000', 6),
+    treasuryNPercent: 2000n,
+    governanceName: 'Building Governance',
+    vaultShareTokenName: 'Building Vault',
+    vaultShareTokenSymbol: 'BLDV',
+    vaultFeeReceiver: owner,
+    vaultFeeToken: usdc,
+    vaultFeePercentage: 2000n,
+    vaultCliff: 0n,
+    vaultUnlockDuration: 0n,
+    aTokenName: 'Building AutoCompounder',
+    aTokenSymbol: 'aBLD',
+  };
+}
+
+async function deploySuiteFixture() {
+  const fixture = await deployBuildingFactoryFixture();
+  const suite = BuildingSuite.connect(await fixture.buildingFactory.getAddress(), fixture.owner);
+
+  return { ...fixture, suite, details: newBuildingDetails(fixture.owner.address, fixture.usdcAddress) };
+}
+
+// a building created and configured through the SDK
+async function deployBuildingFixture() {
+  const fixture = await deploySuiteFixture();
+  const building = await fixture.suite.createBuilding(fixture.details);
+
+  return { ...fixture, building };
+}
+
+describe('Building suite SDK', () => {
+  describe('BuildingSuite', () => {
+    describe('.createBuilding()', () => {
+      it('should create and configure a building owned by the signer', async () => {
+        const { owner, suite, details, nftCollection } = await loadFixture(deploySuiteFixture);
+
+        const building = await suite.createBuilding(details);
+
+        expect(building.details.isConfigured).to.be.true;
+        expect(building.details.initialOwner).to.equal(owner.address);
+        expect(await nftCollection.ownerOf(0)).to.equal(building.address);
+        expect(await building.token.balanceOf(owner.address)).to.equal(details.tokenMintAmount);
+        expect(await building.vault.asset()).to.equal(building.details.erc3643Token);
+
+        const buildings = await suite.getBuildings();
+        expect(buildings.map(({ address }) => address)).to.deep.equal([building.address]);
+        expect((await suite.getBuilding(building.address)).details.treasury).to.equal(building.details.treasury);
+      });
+
+      it('should reject invalid details before sending anything', async () => {
+        const { suite, details, buildingFactory } = await loadFixture(deploySuiteFixture);
+
+        await expect(suite.createBuilding({ ...details, tokenURI: 'https://example.com/building.json' }))
+          .to.be.rejectedWith(BuildingValidationError);
+        expect(await buildingFactory.getBuildingList()).to.have.length(0);
+      });
+
+      it('should require a signer', async () => {
+        const { buildingFactory, details } = await loadFixture(deploySuiteFixture);
+        const suite = BuildingSuite.connect(await buildingFactory.getAddress(), ethers.provider);
+
+        await expect(suite.createBuilding(details)).to.be.rejectedWith(
+          BuildingSuiteError,
+          'A signer is required to send transactions, the runner is a provider',
+        );
+      });
+    });
+
+    describe('.configure()', () => {
+      it('should configure a building created without configuration', async () => {
+        const { suite, details, buildingFactory } = await loadFixture(deploySuiteFixture);
+        const transaction = await buildingFactory.newBuilding(details);
+        const { buildingAddress } = (await findEvent(buildingFactory, await transaction.wait(), 'NewBuilding')).args;
+
+        expect((await suite.getBuilding(buildingAddress)).details.isConfigured).to.be.false;
+
+        const hash = await suite.configure(buildingAddress);
+
+        expect((await ethers.provider.getTransactionReceipt(hash))?.status).to.equal(1);
+        expect((await suite.getBuilding(buildingAddress)).details.isConfigured).to.be.true;
+        await expect(suite.configure(buildingAddress)).to.be.revertedWith('Building already configured');
+      });
+
+      it('should reject an address that is not a building of the factory', async () => {
+        const { suite, notOwner } = await loadFixture(deploySuiteFixture);
+
+        await expect(suite.getBuilding(notOwner.address)).to.be.rejectedWith(
+          BuildingSuiteError,
+          `${notOwner.address} is not a building of the factory`,
+        );
+        await expect(suite.configure(notOwner.address)).to.be.revertedWith('Building not found');
+      });
+    });
+
+    describe('.registerInvestor()', () => {
+      it('should deploy the identity of the wallet and register it', async () => {
+        const { suite, building, buildingFactory, voter1 } = await loadFixture(deployBuildingFixture);
+        const identityRegistry = IdentityRegistry__factory.connect(await building.token.identityRegistry(), ethers.provider);
+
+        const identity = await suite.registerInvestor(building.address, voter1.address, 'US');
+
+        expect(identity).to.equal(await buildingFactory.getIdentity(voter1.address));
+        expect(await identityRegistry.contains(voter1.address)).to.be.true;
+        expect(await identityRegistry.investorCountry(voter1.address)).to.equal(840n);
+      });
+
+      it('should leave a wallet registered with the same country as it is', async () => {
+        const { suite, building, voter1 } = await loadFixture(deployBuildingFixture);
+        const identity = await suite.registerInvestor(building.address, voter1.address, 840);
+        const blockNumber = await ethers.provider.getBlockNumber();
+
+        expect(await suite.registerInvestor(building.address, voter1.address, 'USA')).to.equal(identity);
+        expect(await ethers.provider.getBlockNumber()).to.equal(blockNumber);
+      });
+
+      it('should reject a wallet registered with another country', async () => {
+        const { suite, building, voter1 } = await loadFixture(deployBuildingFixture);
+        await suite.registerInvestor(building.address, voter1.address, 'US');
+
+        await expect(suite.registerInvestor(building.address, voter1.address, 'BR')).to.be.rejectedWith(
+          BuildingSuiteError,
+          `Cannot register ${voter1.address} in ${building.address}: already registered with country 840`,
+        );
+      });
+    });
+  });
+
+  describe('BuildingClient', () => {
+    describe('.deposit()', () => {
+      it('should approve and deposit building tokens in the vault', async () => {
+        const { owner, building } = await loadFixture(deployBuildingFixture);
+        const assets = ethers.parseEther('100');
+
+        await building.deposit(assets);
+
+        expect(await building.vault.assetsOf(owner.address)).to.equal(assets);
+        expect(await building.token.balanceOf(await building.vault.getAddress())).to.equal(assets);
+        // the approval is used up by the deposit
+        expect(await building.token.allowance(owner.address, await building.vault.getAddress())).to.equal(0n);
+      });
+
+      it('should deposit in the auto compounder for a receiver', async () => {
+        const { owner, voter1, suite, building } = await loadFixture(deployBuildingFixture);
+        await suite.registerInvestor(building.address, voter1.address, 'US');
+        const assets = ethers.parseEther('100');
+
+        await building.deposit(assets, { autoCompound: true, receiver: voter1.address });
+
+        expect(await building.autoCompounder.balanceOf(voter1.address)).to.be.greaterThan(0n);
+        expect(await building.autoCompounder.balanceOf(owner.address)).to.equal(0n);
+        expect(await building.vault.assetsOf(await building.autoCompounder.getAddress())).to.equal(assets);
+      });
+
+      it('should not approve again when the allowance covers the deposit', async () => {
+        const { owner, building } = await loadFixture(deployBuildingFixture);
+        const vault = await building.vault.getAddress();
+        await building.token.approve(vault, ethers.parseEther('300'));
+
+        await building.deposit(ethers.parseEther('100'));
+
+        expect(await building.token.allowance(owner.address, vault)).to.equal(ethers.parseEther('200'));
+      });
+    });
+
+    describe('.claim()', () => {
+      // the treasury forwards the USDC above its reserve to the vault as rewards
+      async function fundTreasury(fixture: Awaited<ReturnType<typeof deployBuildingFixture>>, amount: bigint) {
+        const { owner, usdc, building } = fixture;
+        await usdc.mint(owner.address, amount);
+        await usdc.approve(building.details.treasury, amount);
+        await building.treasury.deposit(amount);
+      }
+
+      it('should claim the vault rewards of the signer', async () => {
+        const fixture = await loadFixture(deployBuildingFixture);
+        const { owner, usdc, usdcAddress, building } = fixture;
+        await building.deposit(ethers.parseEther('100'));
+        await fundTreasury(fixture, ethers.parseUnits('10000', 6));
+
+        const reward = await building.vault.getClaimableReward(owner.address, usdcAddress);
+        const balance = await usdc.balanceOf(owner.address);
+        expect(reward).to.be.greaterThan(0n);
+
+        await building.claim();
+
+        expect(await usdc.balanceOf(owner.address)).to.equal(balance + reward);
+        expect(await building.vault.getClaimableReward(owner.address, usdcAddress)).to.equal(0n);
+      });
+
+      it('should claim the rewards of the auto compounder', async () => {
+        const fixture = await loadFixture(deployBuildingFixture);
+        const { usdc, usdcAddress, building } = fixture;
+        const autoCompounder = await building.autoCompounder.getAddress();
+        await building.deposit(ethers.parseEther('100'), { autoCompound: true });
+        await fundTreasury(fixture, ethers.parseUnits('10000', 6));
+
+        const reward = await building.vault.getClaimableReward(autoCompounder, usdcAddress);
+        expect(reward).to.be.greaterThan(0n);
+
+        await building.claim({ autoCompound: true });
+
+        expect(await usdc.balanceOf(autoCompounder)).to.equal(reward);
+      });
+    });
+
+    describe('.propose()', () => {
+      it('should create every kind of proposal and return their ids', async () => {
+        const { owner, voter1, building } = await loadFixture(deployBuildingFixture);
+        await building.token.delegate(owner.address);
+
+        const ids = [
+          await building.propose({ type: 'text', description: 'Repaint the lobby' }),
+          await building.propose({
+            type: 'payment',
+            amount: ethers.parseUnits('1000', 6),
+            to: voter1.address,
+            description: 'Pay the painter',
+          }),
+          await building.propose({ type: 'changeReserve', amount: ethers.parseUnits('2000', 6), description: 'Raise the reserve' }),
+          await building.propose({ type: 'addAuditor', auditor: voter1.address, description: 'Add an auditor' }),
+          await building.propose({ type: 'removeAuditor', auditor: voter1.address, description: 'Remove the auditor' }),
+        ];
+
+        expect(new Set(ids).size).to.equal(5);
+        for (const id of ids) {
+          expect(await building.governance.state(id)).to.equal(PENDING);
+          expect(await building.governance.proposalProposer(id)).to.equal(owner.address);
+        }
+      });
+
+      it('should surface the revert of an invalid proposal', async () => {
+        const { building } = await loadFixture(deployBuildingFixture);
+
+        await expect(
+          building.propose({ type: 'addAuditor', auditor: ethers.ZeroAddress, description: 'Add nobody' }),
+        ).to.be.revertedWith('BuildingGovernance: Invalid auditor address');
+      });
+    });
+  });
+
+  describe('findEvent', () => {
+    it('should skip the events of other contracts with the same signature', async () => {
+      const { buildingFactory, notOwner } = await loadFixture(deploySuiteFixture);
+      const factory = await buildingFactory.getAddress();
+      const configured = (building: string) => buildingFactory.interface.encodeEventLog('BuildingConfigured', [building]);
+      const log = (address: string, building: string) => ({ address, ...configured(building) });
+
+      const receipt = {
+        hash: ethers.id('transaction'),
+        logs: [log(notOwner.address, ethers.ZeroAddress), log(factory, notOwner.address)],
+      } as unknown as TransactionReceipt;
+      const foreign = { hash: receipt.hash, logs: [receipt.logs[0]] } as unknown as TransactionReceipt;
+
+      expect((await findEvent(buildingFactory, receipt, 'BuildingConfigured')).args[0]).to.equal(notOwner.address);
+      await expect(findEvent(buildingFactory, foreign, 'BuildingConfigured')).to.be.rejectedWith(
+        BuildingSuiteError,
+        `No BuildingConfigured event in transaction ${receipt.hash}`,
+      );
+    });
+  });
+});
@@ -0,0 +1,312 @@
+import { expect, ethers } from '../setup';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { network } from 'hardhat';
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import { HandlerContext, HandlerEvent, HandlerResponse } from '@netlify/functions';
+import { deployFullSuiteFixture } from '../erc3643/fixtures/deploy-full-suite.fixture';
+import { explainTransfer, TransferExplanation } from '../../sdk/src/compliance';
+import { handler } from '../../netlify/functions/compliance-explain-transfer';
+
+// alice (840) holds 1000 tokens and bob (76) 500, both verified, charlie is not registered
+async function deployExplainFixture() {
+  const context = await loadFixture(deployFullSuiteFixture);
+  const { deployer, tokenAgent } = context.accounts;
+  const { token } = context.suite;
+
+  const compliance = await ethers.deployContract('ModularCompliance', deployer);
+  await compliance.init();
+  await token.connect(deployer).setCompliance(await compliance.getAddress());
+  if (await token.paused()) {
+    await token.connect(tokenAgent).unpause();
+  }
+
+  return { ...context, compliance, tokenAddress: await token.getAddress() };
+}
+
+async function bindCountryAllowModule(context: Awaited<ReturnType<typeof deployExplainFixture>>, countries: number[]) {
+  const module = await ethers.deployContract('CountryAllowModule');
+  await context.compliance.addModule(await module.getAddress());
+  await context.compliance.callModuleFunction(
+    module.interface.encodeFunctionData('batchAllowCountries', [countries]),
+    await module.getAddress(),
+  );
+  return module.getAddress();
+}
+
+const ruleNames = (explanation: TransferExplanation) => explanation.rules.map(({ rule }) => rule);
+
+describe('Transfer explanation', () => {
+  it('should allow a transfer passing every rule', async () => {
+    const { accounts, tokenAddress } = await loadFixture(deployExplainFixture);
+    const { aliceWallet, bobWallet } = accounts;
+
+    const explanation = await explainTransfer(tokenAddress, aliceWallet.address, bobWallet.address, 100n, ethers.provider);
+
+    expect(explanation).to.deep.include({ allowed: true, blockedBy: null, amount: 100n });
+    expect(ruleNames(explanation)).to.deep.equal([
+      'token-paused',
+      'sender-frozen',
+      'receiver-frozen',
+      'sender-balance',
+      'sender-identity',
+      'receiver-identity',
+      'transfer-simulation',
+    ]);
+    expect(explanation.rules.every(({ passed }) => passed)).to.be.true;
+  });
+
+  it('should report the receiver country the CountryAllowModule rejects', async () => {
+    const context = await loadFixture(deployExplainFixture);
+    const { aliceWallet, bobWallet } = context.accounts;
+    const module = await bindCountryAllowModule(context, [840]);
+
+    const explanation = await explainTransfer(
+      context.tokenAddress,
+      aliceWallet.address,
+      bobWallet.address,
+      100n,
+      ethers.provider,
+    );
+
+    expect(explanation.allowed).to.be.false;
+    expect(explanation.blockedBy).to.deep.equal({
+      rule: 'CountryAllowModule',
+      module,
+      passed: false,
+      reason: 'the receiver country 76 is not allowed, the allowed countries are 840',
+    });
+    // a rule already failing, the transfer is not simulated
+    expect(ruleNames(explanation)).not.to.include('transfer-simulation');
+  });
+
+  it('should report a frozen sender first', async () => {
+    const context = await loadFixture(deployExplainFixture);
+    const { aliceWallet, bobWallet, tokenAgent } = context.accounts;
+    await bindCountryAllowModule(context, [840]);
+    await context.suite.token.connect(tokenAgent).setAddressFrozen(bobWallet.address, true);
+
+    const explanation = await explainTransfer(
+      context.tokenAddress,
+      bobWallet.address,
+      aliceWallet.address,
+      100n,
+      ethers.provider,
+    );
+
+    expect(explanation.blockedBy).to.deep.equal({
+      rule: 'sender-frozen',
+      passed: false,
+      reason: `the sender ${bobWallet.address} is frozen`,
+    });
+    expect(explanation.rules.filter(({ passed }) => !passed)).to.have.length(1);
+  });
+
+  it('should report the tokens frozen on the sender balance', async () => {
+    const { accounts, suite, tokenAddress } = await loadFixture(deployExplainFixture);
+    const { aliceWallet, bobWallet, tokenAgent } = accounts;
+    await suite.token.connect(tokenAgent).freezePartialTokens(aliceWallet.address, 950);
+
+    const explanation = await explainTransfer(tokenAddress, aliceWallet.address, bobWallet.address, 100n, ethers.provider);
+
+    expect(explanation.blockedBy).to.deep.equal({
+      rule: 'sender-balance',
+      passed: false,
+      reason: 'the sender can transfer 50 tokens, its balance less its frozen tokens',
+    });
+  });
+
+  it('should report an unregistered receiver and a receiver without claims', async () => {
+    const { accounts, identities, suite, tokenAddress } = await loadFixture(deployExplainFixture);
+    const { aliceWallet, charlieWallet, tokenAgent } = accounts;
+
+    const unregistered = await explainTransfer(
+      tokenAddress,
+      aliceWallet.address,
+      charlieWallet.address,
+      100n,
+      ethers.provider,
+    );
+
+    expect(unregistered.blockedBy).to.deep.equal({
+      rule: 'receiver-identity',
+      passed: false,
+      reason: `the receiver ${charlieWallet.address} is not registered in the identity registry`,
+    });
+
+    await suite.identityRegistry
+      .connect(tokenAgent)
+      .registerIdentity(charlieWallet.address, await identities.charlieIdentity.getAddress(), 840);
+    const unverified = await explainTransfer(tokenAddress, aliceWallet.address, charlieWallet.address, 100n, ethers.provider);
+
+    expect(unverified.blockedBy).to.deep.equal({
+      rule: 'receiver-identity',
+      passed: false,
+      reason: 'the ONCHAINID of the receiver lacks a claim the identity registry requires',
+    });
+  });
+
+  it('should note an unregistered sender without blocking the transfer', async () => {
+    const { accounts, suite, tokenAddress } = await loadFixture(deployExplainFixture);
+    const { aliceWallet, bobWallet, tokenAgent } = accounts;
+    await suite.identityRegistry.connect(tokenAgent).deleteIdentity(aliceWallet.address);
+
+    const explanation = await explainTransfer(tokenAddress, aliceWallet.address, bobWallet.address, 100n, ethers.provider);
+
+    expect(explanation.allowed).to.be.true;
+    expect(explanation.rules.find(({ rule }) => rule === 'sender-identity')).to.deep.equal({
+      rule: 'sender-identity',
+      passed: true,
+      reason: `the sender ${aliceWallet.address} is not registered in the identity registry, the token only requires a verified receiver`,
+    });
+  });
+
+  it('should only catch the MaxOwnershipModule when simulating the transfer', async () => {
+    const { accounts, identities, compliance, tokenAddress } = await loadFixture(deployExplainFixture);
+    const { aliceWallet, bobWallet } = accounts;
+    const complianceAddress = await compliance.getAddress();
+
+    // the token has holders, their balances are preset before binding the module
+    const module = await ethers.deployContract('MaxOwnershipModule');
+    const moduleAddress = await module.getAddress();
+    await module.batchPreSetModuleState(
+      complianceAddress,
+      [await identities.aliceIdentity.getAddress(), await identities.bobIdentity.getAddress()],
+      [1000, 500],
+    );
+    await compliance.addModule(moduleAddress);
+    // at most 50% of the supply per identity, bob would own 800 out of 1500 tokens
+    await compliance.callModuleFunction(module.interface.encodeFunctionData('setMaxPercentage', [5000]), moduleAddress);
+
+    const explanation = await explainTransfer(tokenAddress, aliceWallet.address, bobWallet.address, 300n, ethers.provider);
+
+    expect(explanation.rules.find(({ rule }) => rule === 'MaxOwnershipModule')).to.deep.equal({
+      rule: 'MaxOwnershipModule',
+      module: moduleAddress,
+      passed: true,
+      reason:
+        'moduleCheck passes, the module enforces its limit when the transfer is recorded (see transfer-simulation)',
+    });
+    expect(explanation.allowed).to.be.false;
+    expect(explanation.blockedBy?.rule).to.equal('transfer-simulation');
+    expect(explanation.blockedBy?.reason).to.match(/^the transfer reverts when simulated from the sender: /);
+  });
+
+  it('should explain a mint from the zero address by the receiver rules only', async () => {
+    const context = await loadFixture(deployExplainFixture);
+    const { bobWallet, charlieWallet, tokenAgent } = context.accounts;
+    await bindCountryAllowModule(context, [840, 76]);
+    // a paused token does not matter to a mint, only an agent mints
+    await context.suite.token.connect(tokenAgent).pause();
+
+    const mint = await explainTransfer(context.tokenAddress, ethers.ZeroAddress, bobWallet.address, 100n, ethers.provider);
+
+    expect(mint.allowed).to.be.true;
+    expect(ruleNames(mint)).to.deep.equal(['receiver-frozen', 'receiver-identity', 'CountryAllowModule']);
+
+    const blocked = await explainTransfer(
+      context.tokenAddress,
+      ethers.ZeroAddress,
+      charlieWallet.address,
+      100n,
+      ethers.provider,
+    );
+
+    expect(blocked.blockedBy?.rule).to.equal('receiver-identity');
+    expect(blocked.rules.filter(({ passed }) => !passed).map(({ rule }) => rule)).to.deep.equal([
+      'receiver-identity',
+      'CountryAllowModule',
+    ]);
+  });
+
+  describe('compliance-explain-transfer function', () => {
+    const apiKey = 'test-api-key';
+    const variables = ['RPC_URL', 'API_KEYS'];
+    let saved: Record<string, string | undefined>;
+    let server: Server;
+
+    // serves the Hardhat network over HTTP for the JsonRpcProvider of the function
+    before(async () => {
+      saved = Object.fromEntries(variables.map((name) => [name, process.env[name]]));
+
+      server = createServer(async (request, response) => {
+        const chunks: Buffer[] = [];
+        for await (const chunk of request) {
+          chunks.push(chunk as Buffer);
+        }
+        const payload = JSON.parse(Buffer.concat(chunks).toString());
+        const answer = async ({ id, method, params }: { id: number; method: string; params?: unknown[] }) => {
+          try {
+            return { jsonrpc: '2.0', id, result: await network.provider.request({ method, params }) };
+          } catch (error) {
+            const { code, message, data } = error as { code?: number; message: string; data?: unknown };
+            return { jsonrpc: '2.0', id, error: { code: code ?? -32603, message, data } };
+          }
+        };
+
+        const result = Array.isArray(payload) ? await Promise.all(payload.map(answer)) : await answer(payload);
+        response.setHeader('Content-Type', 'application/json');
+        response.end(JSON.stringify(result));
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+      process.env.RPC_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      process.env.API_KEYS = JSON.stringify([
+        { name: 'reader', keyHash: ethers.sha256(ethers.toUtf8Bytes(apiKey)).slice(2), scopes: ['read'] },
+      ]);
+    });
+
+    after(async () => {
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+      for (const [name, value] of Object.entries(saved)) {
+        if (value === undefined) {
+          delete process.env[name];
+        } else {
+          process.env[name] = value;
+        }
+      }
+    });
+
+    const post = async (body: unknown, headers: Record<string, string> = { 'x-api-key': apiKey }) => {
+      const event = { httpMethod: 'POST', headers, body: JSON.stringify(body) } as unknown as HandlerEvent;
+      const response = (await handler(event, {} as HandlerContext)) as HandlerResponse;
+      return { statusCode: response.statusCode, body: JSON.parse(response.body as string) };
+    };
+
+    it('should explain the transfer with the amount as a string', async () => {
+      const context = await loadFixture(deployExplainFixture);
+      const { aliceWallet, bobWallet } = context.accounts;
+      const module = await bindCountryAllowModule(context, [840]);
+
+      const { statusCode, body } = await post({
+        token: context.tokenAddress,
+        from: aliceWallet.address,
+        to: bobWallet.address,
+        amount: '100',
+      });
+
+      expect(statusCode).to.equal(200);
+      expect(body.success).to.be.true;
+      expect(body.data).to.deep.include({ token: context.tokenAddress, amount: '100', allowed: false });
+      expect(body.data.blockedBy).to.deep.equal({
+        rule: 'CountryAllowModule',
+        module,
+        passed: false,
+        reason: 'the receiver country 76 is not allowed, the allowed countries are 840',
+      });
+    });
+
+    it('should reject an invalid body or a missing API key', async () => {
+      const { accounts, tokenAddress } = await loadFixture(deployExplainFixture);
+      const transfer = { token: tokenAddress, from: accounts.aliceWallet.address, to: accounts.bobWallet.address };
+
+      const invalid = await post({ ...transfer, amount: '1.5' });
+      const unauthorized = await post({ ...transfer, amount: '100' }, {});
+
+      expect(invalid.statusCode).to.equal(400);
+      expect(invalid.body.error.code).to.equal('INVALID_BODY');
+      expect(unauthorized.statusCode).to.equal(401);
+    });
+  });
+});
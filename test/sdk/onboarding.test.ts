@@ -0,0 +1,123 @@
+import { expect, ethers } from '../setup';
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import { deployFullSuiteFixture } from '../erc3643/fixtures/deploy-full-suite.fixture';
+import type { BuildingSuite } from '../../sdk/src/building-suite';
+import { toCountryCode } from '../../sdk/src/countries';
+import { onboardInvestor } from '../../sdk/src/onboarding';
+
+const buildingAddress = '0x0000000000000000000000000000000000000b01';
+
+// the ERC3643 suite of the fixture stands for the building token, the factory calls are recorded
+async function stubBuildingSuite() {
+  const { accounts, identities, suite } = await loadFixture(deployFullSuiteFixture);
+  const calls: string[] = [];
+  const deployedIdentities = new Map<string, string>([
+    [accounts.aliceWallet.address, await identities.aliceIdentity.getAddress()],
+    [accounts.bobWallet.address, await identities.bobIdentity.getAddress()],
+  ]);
+
+  const factory = {
+    getIdentity: async (wallet: string) => deployedIdentities.get(wallet) ?? ethers.ZeroAddress,
+    deployIdentityForWallet: async (wallet: string) => {
+      calls.push(`deployIdentityForWallet ${wallet}`);
+      deployedIdentities.set(wallet, await identities.charlieIdentity.getAddress());
+      return { hash: ethers.id(`identity ${wallet}`), wait: async () => null };
+    },
+    registerIdentity: async (building: string, wallet: string, country: number) => {
+      calls.push(`registerIdentity ${wallet} ${country}`);
+      return suite.identityRegistry
+        .connect(accounts.tokenAgent)
+        .registerIdentity(wallet, deployedIdentities.get(wallet) as string, country);
+    },
+  };
+
+  const buildingSuite = {
+    runner: accounts.deployer,
+    factory,
+    getBuilding: async () => ({ details: { isConfigured: true }, token: suite.token }),
+  } as unknown as BuildingSuite;
+
+  return { accounts, buildingSuite, calls };
+}
+
+describe('Investor onboarding', () => {
+  describe('country codes', () => {
+    it('should accept numeric, alpha-2 and alpha-3 codes', () => {
+      expect(toCountryCode(840)).to.equal(840);
+      expect(toCountryCode('076')).to.equal(76);
+      expect(toCountryCode('us')).to.equal(840);
+      expect(toCountryCode(' BRA ')).to.equal(76);
+    });
+
+    it('should reject unknown codes', () => {
+      expect(() => toCountryCode('XX')).to.throw('XX is not an ISO 3166-1 country code');
+      expect(() => toCountryCode(999)).to.throw('999 is not an ISO 3166-1 country code');
+      expect(() => toCountryCode('United States')).to.throw('United States is not an ISO 3166-1 country code');
+    });
+  });
+
+  describe('onboardInvestor', () => {
+    it('should only check a wallet already onboarded', async () => {
+      const { accounts, buildingSuite, calls } = await stubBuildingSuite();
+
+      const report = await onboardInvestor(buildingSuite, buildingAddress, {
+        wallet: accounts.aliceWallet.address,
+        country: 'US',
+      });
+
+      expect(report).to.deep.include({
+        country: 840,
+        identityStep: 'skipped',
+        registrationStep: 'skipped',
+        complianceStep: 'done',
+        transactions: [],
+        error: null,
+      });
+      expect(calls).to.deep.equal([]);
+    });
+
+    it('should fail a wallet registered with another country', async () => {
+      const { accounts, buildingSuite, calls } = await stubBuildingSuite();
+
+      const report = await onboardInvestor(buildingSuite, buildingAddress, {
+        wallet: accounts.bobWallet.address,
+        country: 'USA',
+      });
+
+      expect(report).to.deep.include({
+        identityStep: 'skipped',
+        registrationStep: 'failed',
+        complianceStep: 'not run',
+        error: 'already registered with country 76, an agent of the identity registry must update it',
+      });
+      expect(calls).to.deep.equal([]);
+    });
+
+    it('should deploy the identity and register a new wallet', async () => {
+      const { accounts, buildingSuite, calls } = await stubBuildingSuite();
+      const wallet = accounts.charlieWallet.address;
+
+      const report = await onboardInvestor(buildingSuite, buildingAddress, { wallet, country: 250 });
+
+      expect(calls).to.deep.equal([`deployIdentityForWallet ${wallet}`, `registerIdentity ${wallet} 250`]);
+      expect(report.identityStep).to.equal('done');
+      expect(report.registrationStep).to.equal('done');
+      expect(report.transactions).to.have.length(2);
+      // the identity of the fixture holds no claim
+      expect(report.complianceStep).to.equal('failed');
+      expect(report.error).to.equal('the identity lacks the claims the identity registry requires');
+    });
+
+    it('should report an unknown country before sending anything', async () => {
+      const { accounts, buildingSuite, calls } = await stubBuildingSuite();
+
+      const report = await onboardInvestor(buildingSuite, buildingAddress, {
+        wallet: accounts.charlieWallet.address,
+        country: 'XX',
+      });
+
+      expect(report).to.deep.include({ country: null, identityStep: 'failed', error: 'XX is not an ISO 3166-1 country code' });
+      expect(calls).to.deep.equal([]);
+    });
+  });
+});
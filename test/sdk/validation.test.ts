@@ -0,0 +1,97 @@
+import { expect, ethers } from '../setup';
+import {
+  assertValidNewBuildingDetails,
+  BuildingValidationError,
+  validateNewBuildingDetails,
+} from '../../sdk/src/validation';
+
+const details = {
+  tokenURI: 'ipfs://bafybeibnsoufr2renqzsh347nrx54wcubt5lgkeivez63xvivplfwhtpym/m',
+  tokenName: 'Building Token',
+  tokenSymbol: 'BLD',
+  tokenDecimals: 18n,
+  tokenMintAmount: ethers.parseEther('1000'),
+  treasuryReserveAmount: 1_000_000n,
+  treasuryNPercent: 2000n,
+  governanceName: 'Building Governance',
+  vaultShareTokenName: 'Building Vault',
+  vaultShareTokenSymbol: 'BLDV',
+  vaultFeeReceiver: '0x0000000000000000000000000000000000000001',
+  vaultFeeToken: '0x0000000000000000000000000000000000000002',
+  vaultFeePercentage: 100n,
+  vaultCliff: 0n,
+  vaultUnlockDuration: 0n,
+  aTokenName: 'Building AutoCompounder',
+  aTokenSymbol: 'aBLD',
+};
+
+describe('Building details validation', () => {
+  it('should accept valid details', () => {
+    expect(validateNewBuildingDetails(details)).to.deep.equal([]);
+  });
+
+  it('should accept a CIDv0 token URI', () => {
+    const tokenURI = 'ipfs://QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG';
+
+    expect(validateNewBuildingDetails({ ...details, tokenURI })).to.deep.equal([]);
+  });
+
+  it('should reject a token URI outside ipfs', () => {
+    const issues = validateNewBuildingDetails({ ...details, tokenURI: 'https://example.com/building.json' });
+
+    expect(issues).to.deep.equal(['tokenURI must be an ipfs://<CID> URI, got "https://example.com/building.json"']);
+  });
+
+  it('should reject empty names', () => {
+    const issues = validateNewBuildingDetails({ ...details, tokenName: ' ', aTokenSymbol: '' });
+
+    expect(issues).to.deep.equal(['tokenName must not be empty', 'aTokenSymbol must not be empty']);
+  });
+
+  it('should reject integers out of their bounds', () => {
+    const issues = validateNewBuildingDetails({
+      ...details,
+      tokenDecimals: 19n,
+      treasuryReserveAmount: 0n,
+      treasuryNPercent: 10_001n,
+      vaultFeePercentage: 10_000n,
+      vaultCliff: 2n ** 32n,
+    });
+
+    expect(issues).to.deep.equal([
+      'tokenDecimals must be between 0 and 18',
+      'treasuryReserveAmount must be at least 1',
+      'treasuryNPercent must be between 0 and 10000',
+      'vaultFeePercentage must be between 0 and 9999',
+      'vaultCliff must be between 0 and 4294967295',
+    ]);
+  });
+
+  it('should reject a value that is not an integer', () => {
+    const issues = validateNewBuildingDetails({ ...details, tokenMintAmount: '1.5' });
+
+    expect(issues).to.deep.equal(['tokenMintAmount is not an integer']);
+  });
+
+  it('should reject zero and invalid addresses', () => {
+    const issues = validateNewBuildingDetails({
+      ...details,
+      vaultFeeReceiver: ethers.ZeroAddress,
+      vaultFeeToken: '0x1234',
+    });
+
+    expect(issues).to.deep.equal([
+      'vaultFeeReceiver must be a non zero address',
+      'vaultFeeToken must be a non zero address',
+    ]);
+  });
+
+  it('should throw every issue at once', () => {
+    const invalid = { ...details, tokenSymbol: '', tokenDecimals: 19n };
+
+    expect(() => assertValidNewBuildingDetails(invalid))
+      .to.throw(BuildingValidationError)
+      .with.property('issues')
+      .that.deep.equals(['tokenSymbol must not be empty', 'tokenDecimals must be between 0 and 18']);
+  });
+});
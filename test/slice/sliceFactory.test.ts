@@ -2,11 +2,6 @@ import { ethers, expect } from "../setup";
 import { PrivateKey, Client, AccountId } from "@hashgraph/sdk";
 import { ZeroAddress, ZeroHash } from "ethers";
 import { SliceFactory } from "../../typechain-types";
-
-import {
-    usdcAddress,
-    uniswapRouterAddress
-} from "../../constants";
 import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
 
 // constants
@@ -36,8 +31,15 @@ describe("SliceFactory", function () {
         const sliceFactory = await SliceFactory.deploy() as SliceFactory;
         await sliceFactory.waitForDeployment();
 
+        const MockERC20 = await ethers.getContractFactory("MockERC20");
+        const usdc = await MockERC20.deploy("USD Coin", "USDC", 6);
+        const MockUniswapV2Router = await ethers.getContractFactory("MockUniswapV2Router");
+        const uniswapRouter = await MockUniswapV2Router.deploy();
+
         return {
             sliceFactory,
+            usdcAddress: await usdc.getAddress(),
+            uniswapRouterAddress: await uniswapRouter.getAddress(),
             client,
             owner,
         };
@@ -45,7 +47,7 @@ describe("SliceFactory", function () {
 
     describe("deploySlice", function () {
         it("Should deploy Slice and compare slice group", async function () {
-            const { sliceFactory, owner } = await loadFixture(deployFixture);
+            const { sliceFactory, usdcAddress, uniswapRouterAddress } = await loadFixture(deployFixture);
             const sliceDetails = {
                 uniswapRouter: uniswapRouterAddress,
                 usdc: usdcAddress,
@@ -70,7 +72,7 @@ describe("SliceFactory", function () {
         });
 
         it("Should revert if uniswap router zero address", async function () {
-            const { sliceFactory } = await loadFixture(deployFixture);
+            const { sliceFactory, usdcAddress } = await loadFixture(deployFixture);
             const sliceDetails = {
                 uniswapRouter: ZeroAddress,
                 usdc: usdcAddress,
@@ -88,7 +90,7 @@ describe("SliceFactory", function () {
         });
 
         it("Should revert if USDC zero address", async function () {
-            const { sliceFactory } = await loadFixture(deployFixture);
+            const { sliceFactory, uniswapRouterAddress } = await loadFixture(deployFixture);
             const sliceDetails = {
                 uniswapRouter: uniswapRouterAddress,
                 usdc: ZeroAddress,
@@ -106,7 +108,7 @@ describe("SliceFactory", function () {
         });
 
         it("Should revert if metadata URI wasn't provided", async function () {
-            const { sliceFactory } = await loadFixture(deployFixture);
+            const { sliceFactory, usdcAddress, uniswapRouterAddress } = await loadFixture(deployFixture);
             const sliceDetails = {
                 uniswapRouter: uniswapRouterAddress,
                 usdc: usdcAddress,
@@ -0,0 +1,147 @@
+import { expect, ethers } from '../setup';
+import { HandlerEvent } from '@netlify/functions';
+import {
+  ApiKeyAuthenticator,
+  authorize,
+  Eip191Authenticator,
+  MemorySignatureReplayStore,
+} from '../../netlify/functions/shared/auth';
+
+const apiKey = 'test-api-key';
+const apiKeys = JSON.stringify([
+  { name: 'reader', keyHash: ethers.sha256(ethers.toUtf8Bytes(apiKey)).slice(2), scopes: ['read'] },
+]);
+
+function request(overrides: Partial<HandlerEvent> = {}): HandlerEvent {
+  return {
+    rawUrl: '',
+    rawQuery: '',
+    path: '/.netlify/functions/upkeeper-history',
+    httpMethod: 'GET',
+    headers: {},
+    multiValueHeaders: {},
+    queryStringParameters: null,
+    multiValueQueryStringParameters: null,
+    body: null,
+    isBase64Encoded: false,
+    ...overrides,
+  };
+}
+
+interface MessageSigner {
+  address: string;
+  signMessage(message: string): Promise<string>;
+}
+
+async function signedRequest(signer: MessageSigner, overrides: Partial<HandlerEvent> = {}, timestamp = Date.now()) {
+  const event = request(overrides);
+  const signature = await signer.signMessage(Eip191Authenticator.message(event, String(timestamp)));
+  event.headers = { 'x-signer': signer.address, 'x-signature': signature, 'x-timestamp': String(timestamp) };
+  return event;
+}
+
+describe('Upkeeper API authentication', () => {
+  let authDisabled: string | undefined;
+
+  before(() => {
+    authDisabled = process.env.AUTH_DISABLED;
+    delete process.env.AUTH_DISABLED;
+  });
+
+  after(() => {
+    if (authDisabled !== undefined) {
+      process.env.AUTH_DISABLED = authDisabled;
+    }
+  });
+
+  describe('API keys', () => {
+    it('should authorize a key with the scope', async () => {
+      const auth = await authorize(request({ headers: { authorization: `Bearer ${apiKey}` } }), 'read', [
+        new ApiKeyAuthenticator(apiKeys),
+      ]);
+
+      expect(auth).to.deep.equal({
+        authorized: true,
+        principal: { id: 'reader', method: 'api-key', scopes: ['read'] },
+      });
+    });
+
+    it('should forbid a key missing the scope', async () => {
+      const auth = await authorize(request({ headers: { 'x-api-key': apiKey } }), 'execute', [
+        new ApiKeyAuthenticator(apiKeys),
+      ]);
+
+      expect(auth).to.deep.include({ authorized: false, statusCode: 403, message: 'reader is missing the execute scope' });
+    });
+
+    it('should reject an unknown key', async () => {
+      const auth = await authorize(request({ headers: { 'x-api-key': 'other-key' } }), 'read', [
+        new ApiKeyAuthenticator(apiKeys),
+      ]);
+
+      expect(auth).to.deep.include({ authorized: false, statusCode: 401, message: 'Invalid API key' });
+    });
+
+    it('should reject a request without credentials', async () => {
+      const auth = await authorize(request(), 'read', [new ApiKeyAuthenticator(apiKeys)]);
+
+      expect(auth).to.deep.include({ authorized: false, statusCode: 401, message: 'Missing credentials' });
+    });
+  });
+
+  describe('EIP-191 signatures', () => {
+    const signer = ethers.Wallet.createRandom();
+    const signers = JSON.stringify({ [signer.address]: ['read', 'execute'] });
+    const authenticator = () => new Eip191Authenticator(signers, new MemorySignatureReplayStore());
+
+    it('should authenticate a signed request', async () => {
+      const event = await signedRequest(signer, { rawQuery: 'limit=10&taskId=0x01' });
+
+      const principal = await authenticator().authenticate(event);
+
+      expect(principal).to.deep.equal({ id: signer.address, method: 'eip191', scopes: ['read', 'execute'] });
+    });
+
+    it('should accept the query parameters in another order', async () => {
+      const event = await signedRequest(signer, { rawQuery: 'limit=10&taskId=0x01' });
+      event.rawQuery = 'taskId=0x01&limit=10';
+
+      expect(await authenticator().authenticate(event)).to.not.equal(null);
+    });
+
+    it('should reject a request whose query was changed', async () => {
+      const event = await signedRequest(signer, { rawQuery: 'limit=10' });
+      event.rawQuery = 'limit=1000';
+
+      await expect(authenticator().authenticate(event)).to.be.rejectedWith('Invalid signature');
+    });
+
+    it('should reject a request whose body was changed', async () => {
+      const event = await signedRequest(signer, { httpMethod: 'POST', body: '{"dryRun":true}' });
+      event.body = '{"dryRun":false}';
+
+      await expect(authenticator().authenticate(event)).to.be.rejectedWith('Invalid signature');
+    });
+
+    it('should reject a replayed signature', async () => {
+      const event = await signedRequest(signer);
+      const replayed = authenticator();
+
+      await replayed.authenticate(event);
+
+      await expect(replayed.authenticate(event)).to.be.rejectedWith('Signature already used');
+    });
+
+    it('should reject an expired timestamp', async () => {
+      const event = await signedRequest(signer, {}, Date.now() - 10 * 60 * 1000);
+
+      await expect(authenticator().authenticate(event)).to.be.rejectedWith('Signature timestamp is missing or expired');
+    });
+
+    it('should reject a signer that is not configured', async () => {
+      const event = await signedRequest(ethers.Wallet.createRandom());
+
+      await expect(authenticator().authenticate(event)).to.be.rejectedWith('Unknown signer');
+    });
+  });
+});
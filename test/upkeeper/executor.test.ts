@@ -0,0 +1,255 @@
+import { expect } from '../setup';
+import { executeKeeperTransactions, KeeperBackend, RetryPolicy, TaskAttempt } from '../../netlify/functions/upkeeper/executor';
+import { GasEstimationError, GasPolicy } from '../../netlify/functions/upkeeper/gas';
+import { TaskInfo } from '../../netlify/functions/upkeeper/contract';
+
+const taskA = `0x${'a'.repeat(64)}`;
+const taskB = `0x${'b'.repeat(64)}`;
+const taskC = `0x${'c'.repeat(64)}`;
+
+const retryPolicy: RetryPolicy = { maxAttempts: 3, initialDelayMs: 0, backoffMultiplier: 1, maxDelayMs: 0 };
+const gasPolicy: GasPolicy = {
+  multiplier: 1,
+  minGas: 21_000,
+  maxGas: 15_000_000,
+  budgetTinybars: null,
+  gasPriceTinybars: null,
+};
+
+const success: TaskAttempt = {
+  status: 'SUCCESS',
+  transactionHash: 'ab',
+  gasUsed: '100000',
+  feeTinybars: 1_000n,
+  error: null,
+  retryable: false,
+};
+const busy: TaskAttempt = { ...success, status: 'BUSY', gasUsed: null, error: 'BUSY', retryable: true };
+const reverted: TaskAttempt = {
+  ...success,
+  status: 'CONTRACT_REVERT_EXECUTED',
+  error: 'TaskExecutionReturnedFalse()',
+  retryable: false,
+};
+
+interface StubTask {
+  info?: Partial<TaskInfo>;
+  // gas estimate, or the error the estimation throws
+  gas?: bigint | Error;
+  // outcome of each submission, the last one repeats
+  attempts?: TaskAttempt[];
+}
+
+// stands for the Hedera client, the gas estimator and the mirror node gas price
+function stubBackend(tasks: Record<string, StubTask>, gasPrice = 1n) {
+  const submitted: { taskId: string; gasLimit: number }[] = [];
+
+  const backend: KeeperBackend = {
+    getTaskList: async () => Object.keys(tasks),
+    getTaskInfo: async (taskId) => ({
+      executions: '0',
+      target: '0x0000000000000000000000000000000000000001',
+      selector: '0x12345678',
+      exists: true,
+      executing: false,
+      ...tasks[taskId].info,
+    }),
+    gasEstimator: {
+      estimate: async (taskId) => {
+        const gas = tasks[taskId].gas ?? 100_000n;
+        if (gas instanceof Error) {
+          throw gas;
+        }
+        return gas;
+      },
+    },
+    getGasPriceTinybars: async () => gasPrice,
+    executeTask: async (taskId, data, gasLimit) => {
+      const attempts = tasks[taskId].attempts ?? [success];
+      const made = submitted.filter((submission) => submission.taskId === taskId).length;
+      submitted.push({ taskId, gasLimit });
+      return attempts[Math.min(made, attempts.length - 1)];
+    },
+    readContract: async () => {
+      throw new Error('the tasks have no payload');
+    },
+    close: () => {},
+  };
+
+  return { backend, submitted };
+}
+
+describe('Upkeeper executor', () => {
+  let payloads: string | undefined;
+
+  before(() => {
+    payloads = process.env.KEEPER_TASK_PAYLOADS;
+    delete process.env.KEEPER_TASK_PAYLOADS;
+  });
+
+  after(() => {
+    if (payloads !== undefined) {
+      process.env.KEEPER_TASK_PAYLOADS = payloads;
+    }
+  });
+
+  describe('task isolation', () => {
+    it('should execute the other tasks when one fails', async () => {
+      const { backend, submitted } = stubBackend({
+        [taskA]: {},
+        [taskB]: { attempts: [reverted] },
+        [taskC]: {},
+      });
+
+      const { results, summary, status } = await executeKeeperTransactions(retryPolicy, false, undefined, gasPolicy, backend);
+
+      expect(submitted.map((submission) => submission.taskId)).to.deep.equal([taskA, taskB, taskC]);
+      expect(results.map((result) => result.status)).to.deep.equal(['SUCCESS', 'CONTRACT_REVERT_EXECUTED', 'SUCCESS']);
+      expect(results[1].error).to.equal('TaskExecutionReturnedFalse()');
+      expect(summary).to.deep.equal({ total: 3, succeeded: 2, skipped: 0, deferred: 0, failed: 1 });
+      expect(status).to.equal('partial');
+    });
+
+    it('should report a failed estimation without submitting the task', async () => {
+      const { backend, submitted } = stubBackend({
+        [taskA]: { gas: new GasEstimationError('execution reverted') },
+        [taskB]: {},
+      });
+
+      const { results } = await executeKeeperTransactions(retryPolicy, false, undefined, gasPolicy, backend);
+
+      expect(submitted.map((submission) => submission.taskId)).to.deep.equal([taskB]);
+      expect(results[0].status).to.equal('ESTIMATION_FAILED');
+      expect(results[0].error).to.equal('execution reverted');
+      expect(results[1].status).to.equal('SUCCESS');
+    });
+
+    it('should report every task failing as a failed run', async () => {
+      const { backend } = stubBackend({ [taskA]: { attempts: [reverted] } });
+
+      const { status } = await executeKeeperTransactions(retryPolicy, false, undefined, gasPolicy, backend);
+
+      expect(status).to.equal('failed');
+    });
+
+    it('should only execute the tasks the filter accepts', async () => {
+      const { backend, submitted } = stubBackend({ [taskA]: {}, [taskB]: {} });
+
+      const { results } = await executeKeeperTransactions(
+        retryPolicy,
+        false,
+        (taskId) => taskId === taskB,
+        gasPolicy,
+        backend,
+      );
+
+      expect(results.map((result) => result.taskId)).to.deep.equal([taskB]);
+      expect(submitted.map((submission) => submission.taskId)).to.deep.equal([taskB]);
+    });
+  });
+
+  describe('retries', () => {
+    it('should retry a transient failure until it succeeds', async () => {
+      const { backend, submitted } = stubBackend({ [taskA]: { attempts: [busy, success] } });
+
+      const { results } = await executeKeeperTransactions(retryPolicy, false, undefined, gasPolicy, backend);
+
+      expect(submitted.length).to.equal(2);
+      expect(results[0].attempts).to.equal(2);
+      expect(results[0].status).to.equal('SUCCESS');
+      expect(results[0].error).to.equal(null);
+      expect(results[0].actualCostTinybars).to.equal('2000');
+    });
+
+    it('should stop at the retry limit', async () => {
+      const { backend, submitted } = stubBackend({ [taskA]: { attempts: [busy] } });
+
+      const { results } = await executeKeeperTransactions(retryPolicy, false, undefined, gasPolicy, backend);
+
+      expect(submitted.length).to.equal(retryPolicy.maxAttempts);
+      expect(results[0].attempts).to.equal(retryPolicy.maxAttempts);
+      expect(results[0].error).to.equal('BUSY');
+    });
+
+    it('should not retry a revert', async () => {
+      const { backend, submitted } = stubBackend({ [taskA]: { attempts: [reverted, success] } });
+
+      const { results } = await executeKeeperTransactions(retryPolicy, false, undefined, gasPolicy, backend);
+
+      expect(submitted.length).to.equal(1);
+      expect(results[0].attempts).to.equal(1);
+    });
+  });
+
+  describe('skips and dry runs', () => {
+    it('should skip removed and executing tasks', async () => {
+      const { backend, submitted } = stubBackend({
+        [taskA]: { info: { exists: false } },
+        [taskB]: { info: { executing: true } },
+        [taskC]: {},
+      });
+
+      const { results, summary } = await executeKeeperTransactions(retryPolicy, false, undefined, gasPolicy, backend);
+
+      expect(submitted.map((submission) => submission.taskId)).to.deep.equal([taskC]);
+      expect(results[0].status).to.equal('SKIPPED');
+      expect(results[0].skipReason).to.equal('task was removed');
+      expect(results[1].skipReason).to.equal('task is already executing');
+      expect(summary.skipped).to.equal(2);
+      expect(summary.failed).to.equal(0);
+    });
+
+    it('should send nothing in a dry run', async () => {
+      const { backend, submitted } = stubBackend({ [taskA]: {}, [taskB]: {} }, 10n);
+
+      const { results, cost } = await executeKeeperTransactions(retryPolicy, true, undefined, gasPolicy, backend);
+
+      expect(submitted).to.deep.equal([]);
+      expect(results.map((result) => result.status)).to.deep.equal(['WOULD_EXECUTE', 'WOULD_EXECUTE']);
+      expect(results[0].estimatedCostTinybars).to.equal('1000000');
+      expect(cost.estimatedTinybars).to.equal('2000000');
+      expect(cost.actualTinybars).to.equal(null);
+    });
+  });
+
+  describe('run budget', () => {
+    it('should defer a task past the budget and run the following ones', async () => {
+      const { backend, submitted } = stubBackend({
+        [taskA]: {},
+        [taskB]: { gas: 200_000n },
+        [taskC]: {},
+      });
+
+      const { results, summary, cost } = await executeKeeperTransactions(
+        retryPolicy,
+        false,
+        undefined,
+        { ...gasPolicy, budgetTinybars: 150_000n },
+        backend,
+      );
+
+      expect(submitted.map((submission) => submission.taskId)).to.deep.equal([taskA, taskC]);
+      expect(results.map((result) => result.status)).to.deep.equal(['SUCCESS', 'DEFERRED', 'SUCCESS']);
+      expect(results[1].skipReason).to.equal('run budget exceeded');
+      expect(results[1].estimatedCostTinybars).to.equal('200000');
+      expect(summary).to.deep.equal({ total: 3, succeeded: 2, skipped: 1, deferred: 1, failed: 0 });
+      expect(cost.budgetTinybars).to.equal('150000');
+      expect(cost.actualTinybars).to.equal('2000');
+    });
+
+    it('should not retry past the budget', async () => {
+      const { backend, submitted } = stubBackend({ [taskA]: { attempts: [busy, success] } });
+
+      const { results } = await executeKeeperTransactions(
+        retryPolicy,
+        false,
+        undefined,
+        { ...gasPolicy, budgetTinybars: 100_500n },
+        backend,
+      );
+
+      expect(submitted.length).to.equal(1);
+      expect(results[0].error).to.equal('BUSY');
+    });
+  });
+});
@@ -0,0 +1,198 @@
+import { expect } from '../setup';
+import { Client, PrivateKey } from '@hashgraph/sdk';
+import {
+  createClient,
+  createClientFromEnv,
+  getNetworkOptionsFromEnv,
+  parsePrivateKey,
+} from '../../netlify/functions/shared/hedera-client';
+
+const operatorId = '0.0.1234';
+
+describe('Hedera client', () => {
+  const variables = ['HEDERA_NETWORK', 'HEDERA_KEY_TYPE', 'HEDERA_CONSENSUS_NODES', 'HEDERA_MIRROR_NODES'];
+  let saved: Record<string, string | undefined>;
+  let clients: Client[];
+
+  beforeEach(() => {
+    saved = Object.fromEntries(variables.map((name) => [name, process.env[name]]));
+    variables.forEach((name) => delete process.env[name]);
+    clients = [];
+  });
+
+  afterEach(() => {
+    clients.forEach((client) => client.close());
+    for (const [name, value] of Object.entries(saved)) {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    }
+  });
+
+  // the clients are closed after each test
+  const connect = (...args: Parameters<typeof createClient>) => {
+    const created = createClient(...args);
+    clients.push(created.client);
+    return created;
+  };
+
+  describe('parsePrivateKey', () => {
+    it('should read a raw hex key as ECDSA by default', () => {
+      const key = PrivateKey.generateECDSA();
+
+      expect(parsePrivateKey(key.toStringRaw()).toStringDer()).to.equal(key.toStringDer());
+      expect(parsePrivateKey(`0x${key.toStringRaw()}`).toStringDer()).to.equal(key.toStringDer());
+    });
+
+    it('should read a raw hex key as ED25519 when asked to', () => {
+      const key = PrivateKey.generateED25519();
+
+      expect(parsePrivateKey(key.toStringRaw(), 'ED25519').toStringDer()).to.equal(key.toStringDer());
+    });
+
+    it('should read the type of a DER encoded key from its encoding', () => {
+      const ecdsa = PrivateKey.generateECDSA();
+      const ed25519 = PrivateKey.generateED25519();
+
+      expect(parsePrivateKey(ecdsa.toStringDer(), 'ED25519').type).to.equal('secp256k1');
+      expect(parsePrivateKey(ed25519.toStringDer()).type).to.equal('ED25519');
+      expect(parsePrivateKey(ed25519.toStringDer()).toStringRaw()).to.equal(ed25519.toStringRaw());
+    });
+
+    it('should reject a key that is not hex or not 32 bytes long', () => {
+      expect(() => parsePrivateKey('not a key')).to.throw('Invalid private key, expected a DER or raw hex string');
+      expect(() => parsePrivateKey('0x1234')).to.throw(
+        'Invalid private key length 2 bytes, expected 32 bytes or a DER encoded key',
+      );
+    });
+  });
+
+  describe('createClient', () => {
+    it('should connect to a named network with the operator', () => {
+      const key = PrivateKey.generateECDSA();
+
+      const { client, operatorId: accountId, operatorKey } = connect({
+        network: 'previewnet',
+        operatorId,
+        operatorKey: key.toStringRaw(),
+      });
+
+      expect(client.ledgerId?.toString()).to.equal('previewnet');
+      expect(client.operatorAccountId?.toString()).to.equal(operatorId);
+      expect(accountId.toString()).to.equal(operatorId);
+      expect(operatorKey.publicKey.toStringDer()).to.equal(key.publicKey.toStringDer());
+    });
+
+    it('should connect to the local node', () => {
+      const { client } = connect({
+        network: 'local',
+        operatorId,
+        operatorKey: PrivateKey.generateED25519().toStringRaw(),
+        keyType: 'ED25519',
+      });
+
+      expect(client.network).to.have.property('127.0.0.1:50211');
+      expect(client.mirrorNetwork).to.deep.equal(['127.0.0.1:5600']);
+    });
+
+    it('should replace the nodes of the network with custom nodes', () => {
+      const { client } = connect({
+        network: 'testnet',
+        operatorId,
+        operatorKey: PrivateKey.generateECDSA().toStringRaw(),
+        consensusNodes: { 'node.example.com:50211': '0.0.3' },
+        mirrorNodes: ['mirror.example.com:443'],
+      });
+
+      expect(Object.keys(client.network)).to.deep.equal(['node.example.com:50211']);
+      expect(client.network['node.example.com:50211'].toString()).to.equal('0.0.3');
+      expect(client.mirrorNetwork).to.deep.equal(['mirror.example.com:443']);
+    });
+
+    it('should keep the mirror nodes of the network with custom consensus nodes only', () => {
+      const { client } = connect({
+        network: 'testnet',
+        operatorId,
+        operatorKey: PrivateKey.generateECDSA().toStringRaw(),
+        consensusNodes: { 'node.example.com:50211': '0.0.3' },
+      });
+
+      expect(client.mirrorNetwork).to.deep.equal(['testnet.mirrornode.hedera.com:443']);
+    });
+
+    it('should reject an invalid operator', () => {
+      expect(() =>
+        connect({ network: 'testnet', operatorId: 'alice', operatorKey: PrivateKey.generateECDSA().toStringRaw() }),
+      ).to.throw();
+      expect(() => connect({ network: 'testnet', operatorId, operatorKey: '0x1234' })).to.throw(
+        'Invalid private key length',
+      );
+    });
+  });
+
+  describe('getNetworkOptionsFromEnv', () => {
+    it('should default to testnet and ECDSA keys', () => {
+      expect(getNetworkOptionsFromEnv()).to.deep.equal({
+        network: 'testnet',
+        keyType: 'ECDSA',
+        consensusNodes: undefined,
+        mirrorNodes: [],
+      });
+    });
+
+    it('should read the network, key type and nodes', () => {
+      process.env.HEDERA_NETWORK = 'Local-Node';
+      process.env.HEDERA_KEY_TYPE = 'ed25519';
+      process.env.HEDERA_CONSENSUS_NODES = JSON.stringify({ '127.0.0.1:50211': '0.0.3' });
+      process.env.HEDERA_MIRROR_NODES = ' 127.0.0.1:5600, mirror.example.com:443 ,';
+
+      expect(getNetworkOptionsFromEnv()).to.deep.equal({
+        network: 'local',
+        keyType: 'ED25519',
+        consensusNodes: { '127.0.0.1:50211': '0.0.3' },
+        mirrorNodes: ['127.0.0.1:5600', 'mirror.example.com:443'],
+      });
+    });
+
+    it('should create the client of the configured network', () => {
+      process.env.HEDERA_NETWORK = 'mainnet';
+      process.env.HEDERA_KEY_TYPE = 'ED25519';
+      const key = PrivateKey.generateED25519();
+
+      const { client, operatorKey } = createClientFromEnv(operatorId, key.toStringRaw());
+      clients.push(client);
+
+      expect(client.ledgerId?.toString()).to.equal('mainnet');
+      expect(operatorKey.type).to.equal('ED25519');
+    });
+
+    it('should reject an unknown network or key type', () => {
+      process.env.HEDERA_NETWORK = 'devnet';
+      expect(getNetworkOptionsFromEnv).to.throw(
+        'Invalid HEDERA_NETWORK devnet, expected one of mainnet, testnet, previewnet, local',
+      );
+
+      process.env.HEDERA_NETWORK = 'testnet';
+      process.env.HEDERA_KEY_TYPE = 'RSA';
+      expect(getNetworkOptionsFromEnv).to.throw('Invalid HEDERA_KEY_TYPE RSA, expected ECDSA or ED25519');
+    });
+
+    it('should reject invalid consensus nodes', () => {
+      process.env.HEDERA_CONSENSUS_NODES = '{ not json';
+      expect(getNetworkOptionsFromEnv).to.throw('HEDERA_CONSENSUS_NODES is not valid JSON');
+
+      process.env.HEDERA_CONSENSUS_NODES = '{}';
+      expect(getNetworkOptionsFromEnv).to.throw('HEDERA_CONSENSUS_NODES must be a non empty JSON object');
+
+      process.env.HEDERA_CONSENSUS_NODES = JSON.stringify({ 'node.example.com': '0.0.3' });
+      expect(getNetworkOptionsFromEnv).to.throw(
+        'Invalid consensus node node.example.com => 0.0.3, expected "host:port": "0.0.3"',
+      );
+
+      process.env.HEDERA_CONSENSUS_NODES = JSON.stringify({ 'node.example.com:50211': 3 });
+      expect(getNetworkOptionsFromEnv).to.throw('Invalid consensus node node.example.com:50211 => 3');
+    });
+  });
+});
@@ -0,0 +1,180 @@
+import { expect, ethers } from '../setup';
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import {
+  CallResult,
+  computeTaskId,
+  getTaskHistory,
+  HistoryCursorError,
+  JsonRpcLogSource,
+  LogSource,
+} from '../../netlify/functions/upkeeper/history';
+
+async function deployFixture() {
+  const [admin, keeper] = await ethers.getSigners();
+
+  const upkeeper = await ethers.deployContract('UpKeeper', admin);
+  await upkeeper.waitForDeployment();
+  const upkeeperAddress = await upkeeper.getAddress();
+
+  const mockKeeperTarget = await ethers.deployContract('MockKeeperTarget');
+  await mockKeeperTarget.waitForDeployment();
+  const target = await mockKeeperTarget.getAddress();
+
+  await upkeeper.grantRole(await upkeeper.KEEPER_ROLE(), keeper.address);
+
+  const selector = ethers.id('mockFunction()').slice(0, 10);
+  const selector2 = ethers.id('mockFunction2()').slice(0, 10);
+
+  await upkeeper.registerTask(target, selector);
+  await upkeeper.registerTask(target, selector2);
+
+  const taskId = computeTaskId(target, selector);
+  const taskId2 = computeTaskId(target, selector2);
+
+  await upkeeper.connect(keeper).executeTask(taskId, '0x');
+  await upkeeper.connect(keeper).executeTask(taskId, '0x');
+  await upkeeper.connect(keeper).executeTask(taskId2, '0x');
+  await upkeeper.removeTask(target, selector2);
+
+  const source = new JsonRpcLogSource(ethers.provider);
+
+  return { admin, keeper, upkeeper, upkeeperAddress, target, selector, selector2, taskId, taskId2, source };
+}
+
+describe('Upkeeper task history', () => {
+  it('should compute the task id of the contract', async () => {
+    const { upkeeper, taskId, taskId2 } = await loadFixture(deployFixture);
+
+    const taskList = await upkeeper.getTaskList();
+    expect(taskList).to.include(taskId);
+    expect(taskId2).to.not.equal(taskId);
+  });
+
+  it('should rebuild the history newest first', async () => {
+    const { upkeeperAddress, source, taskId2 } = await loadFixture(deployFixture);
+
+    const { entries: history, next } = await getTaskHistory(source, upkeeperAddress);
+
+    expect(history.map((entry) => entry.event)).to.deep.equal([
+      'removed',
+      'executed',
+      'executed',
+      'executed',
+      'registered',
+      'registered',
+    ]);
+    expect(history[0].taskId).to.equal(taskId2);
+    expect(history[0].keeper).to.equal(null);
+    expect(next).to.equal(null);
+  });
+
+  it('should report the keeper and executions of a task', async () => {
+    const { upkeeperAddress, source, taskId, keeper, target, selector } = await loadFixture(deployFixture);
+
+    const { entries: history } = await getTaskHistory(source, upkeeperAddress, { taskId, event: 'executed' });
+
+    expect(history.length).to.equal(2);
+    expect(history[0].keeper).to.equal(keeper.address);
+    expect(history[0].target).to.equal(target);
+    expect(history[0].selector).to.equal(selector);
+    expect(history[0].executions).to.equal('2');
+    expect(history[1].executions).to.equal('1');
+  });
+
+  it('should filter by target', async () => {
+    const { upkeeperAddress, source, target } = await loadFixture(deployFixture);
+
+    expect((await getTaskHistory(source, upkeeperAddress, { target })).entries.length).to.equal(6);
+    expect((await getTaskHistory(source, upkeeperAddress, { target: ethers.ZeroAddress })).entries.length).to.equal(0);
+  });
+
+  it('should filter by time range', async () => {
+    const { upkeeperAddress, source } = await loadFixture(deployFixture);
+
+    const latest = await ethers.provider.getBlock('latest');
+    const after = new Date((latest!.timestamp + 1) * 1000);
+
+    expect((await getTaskHistory(source, upkeeperAddress, { from: after })).entries.length).to.equal(0);
+    expect((await getTaskHistory(source, upkeeperAddress, { to: after })).entries.length).to.equal(6);
+  });
+
+  it('should page the history with a cursor', async () => {
+    const { upkeeperAddress } = await loadFixture(deployFixture);
+    // two blocks per eth_getLogs call, so that pages span several source pages
+    const source = new JsonRpcLogSource(ethers.provider, 0, 2);
+
+    const { entries: all } = await getTaskHistory(source, upkeeperAddress, {}, { limit: 100 });
+
+    const paged = [];
+    let cursor: string | undefined;
+    do {
+      const page = await getTaskHistory(source, upkeeperAddress, {}, { limit: 4, cursor });
+      expect(page.entries.length).to.be.at.most(4);
+      paged.push(...page.entries);
+      cursor = page.next ?? undefined;
+    } while (cursor);
+
+    expect(all.length).to.equal(6);
+    expect(paged).to.deep.equal(all);
+  });
+
+  it('should reject a cursor it did not issue', async () => {
+    const { upkeeperAddress, source } = await loadFixture(deployFixture);
+
+    await expect(getTaskHistory(source, upkeeperAddress, {}, { cursor: 'not-a-cursor' })).to.be.rejectedWith(
+      HistoryCursorError,
+    );
+  });
+
+  it('should report failed executions with their revert reason', async () => {
+    const { upkeeperAddress, keeper, taskId } = await loadFixture(deployFixture);
+
+    const upkeeperInterface = new ethers.Interface([
+      'function executeTask(bytes32 taskId, bytes data)',
+      'function registerTask(address target, bytes4 selector)',
+      'error TaskExecutionFailed(bytes response)',
+    ]);
+    const targetRevert = new ethers.Interface(['error Error(string)']).encodeErrorResult('Error', ['not ready']);
+    const failure: CallResult = {
+      transactionHash: '0xf1',
+      blockNumber: 12,
+      timestamp: 1_700_000_100,
+      from: keeper.address,
+      functionParameters: upkeeperInterface.encodeFunctionData('executeTask', [taskId, '0x']),
+      result: 'CONTRACT_REVERT_EXECUTED',
+      errorMessage: upkeeperInterface.encodeErrorResult('TaskExecutionFailed', [targetRevert]),
+      callResult: '0x1234',
+    };
+    const results: CallResult[] = [
+      failure,
+      { ...failure, transactionHash: '0xf2', result: 'SUCCESS', errorMessage: null },
+      {
+        ...failure,
+        transactionHash: '0xf3',
+        functionParameters: upkeeperInterface.encodeFunctionData('registerTask', [keeper.address, '0x12345678']),
+      },
+    ];
+    const source: LogSource = {
+      getLogs: async () => ({ items: [], next: null }),
+      getCallResults: async () => ({ items: results, next: null }),
+    };
+
+    const { entries } = await getTaskHistory(source, upkeeperAddress, { event: 'failed' });
+
+    expect(entries).to.deep.equal([
+      {
+        event: 'failed',
+        taskId,
+        target: null,
+        selector: null,
+        keeper: keeper.address,
+        executions: null,
+        error: 'TaskExecutionFailed: not ready',
+        returnData: '0x1234',
+        timestamp: new Date(1_700_000_100 * 1000).toISOString(),
+        blockNumber: 12,
+        transactionHash: '0xf1',
+      },
+    ]);
+  });
+});
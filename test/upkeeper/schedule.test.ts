@@ -0,0 +1,263 @@
+import { expect } from '../setup';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { connectLambda } from '@netlify/blobs';
+import type { BlobsServer as Server } from '@netlify/blobs/dist/server';
+import { HandlerContext, HandlerEvent } from '@netlify/functions';
+import { KeeperBackend, TaskAttempt } from '../../netlify/functions/upkeeper/executor';
+import {
+  BlobScheduleStateStore,
+  FileScheduleStateStore,
+  getTaskIntervals,
+  parseInterval,
+  runScheduledTasks,
+  ScheduleStateStore,
+} from '../../netlify/functions/upkeeper/schedule';
+import { handler as scheduledHandler } from '../../netlify/functions/upkeeper-scheduled-execute';
+
+// the server entry point is only reachable through the exports map, which the module resolution of tsc ignores
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const { BlobsServer }: { BlobsServer: typeof Server } = require('@netlify/blobs/server');
+
+const taskA = `0x${'a'.repeat(64)}`;
+const taskB = `0x${'b'.repeat(64)}`;
+const taskC = `0x${'c'.repeat(64)}`;
+
+const now = Date.parse('2026-01-01T12:00:00.000Z');
+const minutes = (count: number) => count * 60_000;
+
+const success: TaskAttempt = {
+  status: 'SUCCESS',
+  transactionHash: 'ab',
+  gasUsed: '100000',
+  feeTinybars: 1_000n,
+  error: null,
+  retryable: false,
+};
+const reverted: TaskAttempt = {
+  ...success,
+  status: 'CONTRACT_REVERT_EXECUTED',
+  error: 'TaskExecutionReturnedFalse()',
+  retryable: false,
+};
+
+class MemoryScheduleStateStore implements ScheduleStateStore {
+  saved = 0;
+
+  constructor(public lastRuns: Record<string, number> = {}) {}
+
+  async getLastRuns() {
+    return { ...this.lastRuns };
+  }
+
+  async setLastRuns(lastRuns: Record<string, number>) {
+    this.saved++;
+    this.lastRuns = { ...lastRuns };
+  }
+}
+
+// every task succeeds unless it is given another outcome, removed tasks are skipped
+function stubBackend(outcomes: Record<string, TaskAttempt | 'removed'>) {
+  const executed: string[] = [];
+
+  const backend: KeeperBackend = {
+    getTaskList: async () => Object.keys(outcomes),
+    getTaskInfo: async (taskId) => ({
+      executions: '0',
+      target: '0x0000000000000000000000000000000000000001',
+      selector: '0x12345678',
+      exists: outcomes[taskId] !== 'removed',
+      executing: false,
+    }),
+    gasEstimator: { estimate: async () => 100_000n },
+    getGasPriceTinybars: async () => 1n,
+    executeTask: async (taskId) => {
+      executed.push(taskId);
+      return outcomes[taskId] as TaskAttempt;
+    },
+    readContract: async () => {
+      throw new Error('the tasks have no payload');
+    },
+    close: () => {},
+  };
+
+  return { backend, executed };
+}
+
+describe('Upkeeper schedule', () => {
+  const variables = [
+    'KEEPER_DEFAULT_INTERVAL',
+    'KEEPER_TASK_SCHEDULE',
+    'KEEPER_TASK_PAYLOADS',
+    'KEEPER_RUN_BUDGET_HBAR',
+    'KEEPER_GAS_PRICE_TINYBARS',
+  ];
+  let saved: Record<string, string | undefined>;
+
+  beforeEach(() => {
+    saved = Object.fromEntries(variables.map((name) => [name, process.env[name]]));
+    variables.forEach((name) => delete process.env[name]);
+  });
+
+  afterEach(() => {
+    for (const [name, value] of Object.entries(saved)) {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    }
+  });
+
+  describe('intervals', () => {
+    it('should parse units and plain seconds', () => {
+      expect(parseInterval('30s')).to.equal(30_000);
+      expect(parseInterval('30m')).to.equal(minutes(30));
+      expect(parseInterval('2h')).to.equal(minutes(120));
+      expect(parseInterval('1d')).to.equal(minutes(1440));
+      expect(parseInterval('90')).to.equal(90_000);
+      expect(parseInterval(90)).to.equal(90_000);
+    });
+
+    it('should reject an invalid interval', () => {
+      expect(() => parseInterval('1w')).to.throw('Invalid interval: 1w (expected eg. 30m, 1h, 1d or seconds)');
+      expect(() => parseInterval('-5m')).to.throw('Invalid interval: -5m');
+    });
+
+    it('should read the default and per-task intervals', () => {
+      process.env.KEEPER_DEFAULT_INTERVAL = '2h';
+      process.env.KEEPER_TASK_SCHEDULE = JSON.stringify({ [taskA.toUpperCase().replace('0X', '0x')]: '15m' });
+
+      expect(getTaskIntervals()).to.deep.equal({ defaultInterval: minutes(120), intervals: { [taskA]: minutes(15) } });
+    });
+
+    it('should default to an hourly interval', () => {
+      expect(getTaskIntervals()).to.deep.equal({ defaultInterval: minutes(60), intervals: {} });
+    });
+
+    it('should reject an invalid schedule', () => {
+      process.env.KEEPER_TASK_SCHEDULE = '{ not json';
+      expect(getTaskIntervals).to.throw('KEEPER_TASK_SCHEDULE is not valid JSON');
+
+      process.env.KEEPER_TASK_SCHEDULE = JSON.stringify({ '0x1234': '1h' });
+      expect(getTaskIntervals).to.throw('Invalid task id in KEEPER_TASK_SCHEDULE: 0x1234');
+    });
+  });
+
+  describe('runScheduledTasks', () => {
+    it('should only execute the tasks whose interval elapsed', async () => {
+      const store = new MemoryScheduleStateStore({ [taskA]: now - minutes(30), [taskB]: now - minutes(90) });
+      const { backend, executed } = stubBackend({ [taskA]: success, [taskB]: success, [taskC]: success });
+
+      const { executed: result, notDue } = await runScheduledTasks(store, now, backend);
+
+      // the task that never ran is due
+      expect(executed).to.deep.equal([taskB, taskC]);
+      expect(result?.summary.total).to.equal(2);
+      expect(notDue).to.deep.equal([{ taskId: taskA, nextRun: new Date(now + minutes(30)).toISOString() }]);
+      expect(store.lastRuns).to.deep.equal({ [taskA]: now - minutes(30), [taskB]: now, [taskC]: now });
+    });
+
+    it('should apply the interval of each task', async () => {
+      process.env.KEEPER_TASK_SCHEDULE = JSON.stringify({ [taskA]: '15m', [taskB]: '2h' });
+      const store = new MemoryScheduleStateStore({ [taskA]: now - minutes(30), [taskB]: now - minutes(90) });
+      const { backend, executed } = stubBackend({ [taskA]: success, [taskB]: success });
+
+      const { notDue } = await runScheduledTasks(store, now, backend);
+
+      expect(executed).to.deep.equal([taskA]);
+      expect(notDue).to.deep.equal([{ taskId: taskB, nextRun: new Date(now + minutes(30)).toISOString() }]);
+    });
+
+    it('should keep failed and skipped tasks due for the next tick', async () => {
+      const lastRun = now - minutes(120);
+      const store = new MemoryScheduleStateStore({ [taskA]: lastRun, [taskB]: lastRun });
+      const { backend } = stubBackend({ [taskA]: reverted, [taskB]: success, [taskC]: 'removed' });
+
+      const { executed: result } = await runScheduledTasks(store, now, backend);
+
+      expect(result?.status).to.equal('partial');
+      expect(store.saved).to.equal(1);
+      expect(store.lastRuns).to.deep.equal({ [taskA]: lastRun, [taskB]: now });
+    });
+
+    it('should neither execute nor save anything when no task is due', async () => {
+      const store = new MemoryScheduleStateStore({ [taskA]: now - minutes(30) });
+      const { backend, executed } = stubBackend({ [taskA]: success });
+
+      const { executed: result } = await runScheduledTasks(store, now, backend);
+
+      expect(result).to.equal(null);
+      expect(executed).to.deep.equal([]);
+      expect(store.saved).to.equal(0);
+    });
+  });
+
+  describe('state stores', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await mkdtemp(join(tmpdir(), 'upkeeper-schedule-'));
+    });
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it('should start from an empty state without a file and read back what it wrote', async () => {
+      const store = new FileScheduleStateStore(join(directory, 'last-runs.json'));
+
+      expect(await store.getLastRuns()).to.deep.equal({});
+
+      await store.setLastRuns({ [taskA]: now });
+      expect(await new FileScheduleStateStore(join(directory, 'last-runs.json')).getLastRuns()).to.deep.equal({
+        [taskA]: now,
+      });
+    });
+
+    describe('Netlify Blobs', () => {
+      const token = 'blobs-token';
+      let server: Server;
+      let event: HandlerEvent;
+
+      beforeEach(async () => {
+        server = new BlobsServer({ directory, token });
+        const { port } = await server.start();
+
+        // the blobs context Netlify injects into the events of Lambda compatible functions
+        const blobs = Buffer.from(JSON.stringify({ url: `http://localhost:${port}`, token })).toString('base64');
+        event = { blobs, headers: { 'x-nf-site-id': 'site' } } as unknown as HandlerEvent;
+      });
+
+      afterEach(async () => {
+        await server.stop();
+      });
+
+      it('should start from an empty state and read back what it wrote', async () => {
+        connectLambda(event as unknown as Parameters<typeof connectLambda>[0]);
+        const store = new BlobScheduleStateStore();
+
+        expect(await store.getLastRuns()).to.deep.equal({});
+
+        await store.setLastRuns({ [taskA]: now });
+        expect(await new BlobScheduleStateStore().getLastRuns()).to.deep.equal({ [taskA]: now });
+      });
+
+      it('should report a scheduled run that cannot reach the UpKeeper as failed', async () => {
+        const contractAddress = process.env.CONTRACT_ADDRESS;
+        delete process.env.CONTRACT_ADDRESS;
+
+        try {
+          const response = await scheduledHandler(event, {} as HandlerContext);
+
+          expect(response).to.deep.equal({ statusCode: 500 });
+        } finally {
+          if (contractAddress !== undefined) {
+            process.env.CONTRACT_ADDRESS = contractAddress;
+          }
+        }
+      });
+    });
+  });
+});
@@ -0,0 +1,211 @@
+import { expect, ethers } from '../setup';
+import { mkdir, mkdtemp, rm, symlink, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join, resolve } from 'path';
+import { HandlerEvent } from '@netlify/functions';
+import { ApiError } from '../../netlify/functions/shared/handler';
+import { TaskChangeResult } from '../../netlify/functions/upkeeper/contract';
+import { resolveTask, TaskReference } from '../../netlify/functions/upkeeper/selectors';
+import { taskBatchChangeRoute } from '../../netlify/functions/upkeeper/task-routes';
+
+const slice = '0x0000000000000000000000000000000000000123';
+const usdc = '0x0000000000000000000000000000000000000456';
+const uniswapRouter = '0x0000000000000000000000000000000000000789';
+
+const rebalance = ethers.id('rebalance()').slice(0, 10);
+
+describe('Upkeeper task selectors', () => {
+  const variables = ['KEEPER_DATA_DIR', 'KEEPER_TARGET_CONTRACTS', 'HEDERA_NETWORK'];
+  let saved: Record<string, string | undefined>;
+  let dataDir: string;
+
+  // the ABIs of the repository with a deployment file holding a slice and external contracts
+  before(async () => {
+    saved = Object.fromEntries(variables.map((name) => [name, process.env[name]]));
+    dataDir = await mkdtemp(join(tmpdir(), 'upkeeper-data-'));
+    await symlink(resolve('data', 'abis'), join(dataDir, 'abis'));
+    await mkdir(join(dataDir, 'deployments'));
+    await writeFile(
+      join(dataDir, 'deployments', 'chain-296.json'),
+      JSON.stringify({
+        implementations: { Slice: slice },
+        external: { usdc, uniswapRouter },
+        manifest: { deployer: '0x0000000000000000000000000000000000000001' },
+      }),
+    );
+  });
+
+  beforeEach(() => {
+    variables.forEach((name) => delete process.env[name]);
+    process.env.KEEPER_DATA_DIR = dataDir;
+  });
+
+  after(async () => {
+    for (const [name, value] of Object.entries(saved)) {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    }
+    await rm(dataDir, { recursive: true, force: true });
+  });
+
+  describe('resolveTask', () => {
+    it('should check a signature against the ABI of a deployed target', () => {
+      expect(resolveTask({ target: slice, signature: 'function rebalance()' })).to.deep.equal({
+        target: slice,
+        selector: rebalance,
+        signature: 'rebalance()',
+        contract: 'Slice',
+      });
+      expect(resolveTask({ target: slice.toLowerCase(), selector: rebalance.slice(2).toUpperCase() })).to.deep.equal({
+        target: slice,
+        selector: rebalance,
+        signature: 'rebalance()',
+        contract: 'Slice',
+      });
+    });
+
+    it('should reject a function the deployed target does not have', () => {
+      expect(() => resolveTask({ target: slice, selector: '0x12345678' })).to.throw(
+        '0x12345678 is not a function of Slice',
+      );
+      expect(() => resolveTask({ target: slice, signature: 'autoCompound()' })).to.throw(
+        'autoCompound() is not a function of Slice',
+      );
+    });
+
+    it('should keep a raw selector on a deployed target without ABI', () => {
+      expect(resolveTask({ target: usdc, selector: '0x12345678' })).to.deep.equal({
+        target: usdc,
+        selector: '0x12345678',
+        signature: null,
+        contract: null,
+      });
+    });
+
+    it('should look a signature up in every ABI for a target without ABI', () => {
+      expect(resolveTask({ target: uniswapRouter, signature: 'rebalance()' })).to.deep.include({
+        selector: rebalance,
+        signature: 'rebalance()',
+        contract: null,
+      });
+      expect(() => resolveTask({ target: uniswapRouter, signature: 'doesNotExist()' })).to.throw(
+        'doesNotExist() is not a function of any known contract',
+      );
+    });
+
+    it('should check the contract given by the caller', () => {
+      expect(() => resolveTask({ target: usdc, selector: '0x12345678', contract: 'USDC' })).to.throw(
+        '0x12345678 is not a function of USDC',
+      );
+      expect(() => resolveTask({ target: usdc, selector: '0x12345678', contract: 'usdc' })).to.throw(
+        'unknown contract usdc, expected the name of an ABI in data/abis',
+      );
+    });
+
+    it('should use the contracts configured for the targets', () => {
+      process.env.KEEPER_TARGET_CONTRACTS = JSON.stringify({ [usdc.toLowerCase()]: 'USDC' });
+
+      expect(resolveTask({ target: usdc, signature: 'mint(address,uint256)' }).contract).to.equal('USDC');
+      expect(() => resolveTask({ target: usdc, selector: rebalance })).to.throw(`${rebalance} is not a function of USDC`);
+    });
+
+    it('should reject a task without exactly one selector or signature', () => {
+      expect(() => resolveTask({ target: slice })).to.throw('expected either a selector or a signature');
+      expect(() => resolveTask({ target: slice, selector: rebalance, signature: 'rebalance()' })).to.throw(
+        'expected either a selector or a signature',
+      );
+      expect(() => resolveTask({ target: slice, signature: 'rebalance(' })).to.throw(
+        'invalid function signature rebalance(',
+      );
+    });
+  });
+
+  describe('batch routes', () => {
+    const succeeded = (task: { target: string; selector: string; signature: string | null }): TaskChangeResult => ({
+      ...task,
+      status: 'SUCCESS',
+      transactionHash: 'ab',
+      error: null,
+    });
+
+    // records the submitted tasks, the tasks on `failing` targets fail
+    function stubSubmit(failing: string[] = []) {
+      const submitted: { action: string; tasks: { target: string; selector: string }[] }[] = [];
+
+      const submit = async (
+        action: 'registerTask' | 'removeTask',
+        tasks: { target: string; selector: string; signature: string | null }[],
+      ) => {
+        submitted.push({ action, tasks: tasks.map(({ target, selector }) => ({ target, selector })) });
+        return tasks.map((task) =>
+          failing.includes(task.target)
+            ? { ...succeeded(task), status: 'FAILED', transactionHash: null, error: 'INSUFFICIENT_PAYER_BALANCE' }
+            : succeeded(task),
+        );
+      };
+
+      return { submit, submitted };
+    }
+
+    const handle = (route: ReturnType<typeof taskBatchChangeRoute>, tasks: TaskReference[]) =>
+      route.handle({ event: {} as HandlerEvent, body: { tasks }, query: undefined, principal: null });
+
+    it('should register every resolved task', async () => {
+      const { submit, submitted } = stubSubmit();
+
+      const result = await handle(taskBatchChangeRoute('registerTask', 'register', submit), [
+        { target: slice, signature: 'rebalance()' },
+        { target: usdc, selector: '0x12345678' },
+      ]);
+
+      expect(submitted).to.deep.equal([
+        {
+          action: 'registerTask',
+          tasks: [
+            { target: slice, selector: rebalance },
+            { target: usdc, selector: '0x12345678' },
+          ],
+        },
+      ]);
+      expect(result.statusCode).to.equal(undefined);
+      expect(result.data).to.deep.include({ summary: { total: 2, succeeded: 2, failed: 0 } });
+    });
+
+    it('should reject the whole batch when a task does not resolve', async () => {
+      const { submit, submitted } = stubSubmit();
+
+      const error = await handle(taskBatchChangeRoute('removeTask', 'remove', submit), [
+        { target: slice, signature: 'rebalance()' },
+        { target: slice, selector: '0x12345678' },
+        { target: usdc, selector: '0x12345678', contract: 'Unknown' },
+      ]).catch((reason) => reason);
+
+      expect(error).to.be.instanceOf(ApiError);
+      expect(error).to.deep.include({ statusCode: 400, code: 'INVALID_BODY' });
+      expect(error.message).to.equal(
+        'body.tasks[1]: 0x12345678 is not a function of Slice; ' +
+          'body.tasks[2]: unknown contract Unknown, expected the name of an ABI in data/abis',
+      );
+      expect(submitted).to.deep.equal([]);
+    });
+
+    it('should report the tasks that failed', async () => {
+      const { submit } = stubSubmit([usdc]);
+      const route = taskBatchChangeRoute('removeTask', 'remove', submit);
+
+      const partial = await handle(route, [
+        { target: slice, selector: rebalance },
+        { target: usdc, selector: '0x12345678' },
+      ]);
+      const failed = await handle(route, [{ target: usdc, selector: '0x12345678' }]);
+
+      expect(partial.statusCode).to.equal(207);
+      expect(partial.error).to.deep.equal({ code: 'PARTIAL_FAILURE', message: '1 of 2 tasks failed' });
+      expect(failed.statusCode).to.equal(500);
+      expect(failed.error).to.deep.equal({ code: 'EXECUTION_FAILED', message: '1 of 1 tasks failed' });
+    });
+  });
+});
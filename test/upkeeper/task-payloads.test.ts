@@ -0,0 +1,190 @@
+import { expect, ethers } from '../setup';
+import {
+  ArgumentSource,
+  ContractReader,
+  encodeTaskPayload,
+  getTaskPayloadDefinitions,
+  resolveArgument,
+  TaskPayloadDefinition,
+} from '../../netlify/functions/upkeeper/task-payloads';
+
+const taskId = `0x${'a'.repeat(64)}`;
+const slice = '0x0000000000000000000000000000000000000051';
+const usdc = '0x0000000000000000000000000000000000000456';
+const treasury = '0x0000000000000000000000000000000000000789';
+
+const performUpkeep = 'function performUpkeep(bytes performData)';
+const performUpkeepSelector = ethers.id('performUpkeep(bytes)').slice(0, 10);
+
+// stands for the ContractCallQuery of the run, answers by function name
+function stubReader(outputs: Record<string, unknown>) {
+  const calls: { address: string; fn: string; args: unknown[] }[] = [];
+
+  const readContract: ContractReader = async (address, fn, args) => {
+    calls.push({ address, fn, args });
+    const name = ethers.FunctionFragment.from(fn.startsWith('function') ? fn : `function ${fn}`).name;
+    return outputs[name];
+  };
+
+  return { readContract, calls };
+}
+
+describe('Upkeeper task payloads', () => {
+  describe('argument sources', () => {
+    it('should resolve a static value', async () => {
+      const { readContract, calls } = stubReader({});
+
+      expect(await resolveArgument({ type: 'static', value: 42 }, readContract)).to.equal(42);
+      expect(calls).to.deep.equal([]);
+    });
+
+    it('should call a view function with resolved arguments', async () => {
+      const { readContract, calls } = stubReader({ getSlice: slice, getSliceAt: usdc });
+      const source: ArgumentSource = {
+        type: 'call',
+        to: { type: 'call', to: treasury, function: 'getSlice() view returns (address)' },
+        function: 'getSliceAt(uint256 index) view returns (address)',
+        args: [{ type: 'static', value: 1 }],
+      };
+
+      expect(await resolveArgument(source, readContract)).to.equal(usdc);
+      expect(calls).to.deep.equal([
+        { address: treasury, fn: 'getSlice() view returns (address)', args: [] },
+        { address: slice, fn: 'getSliceAt(uint256 index) view returns (address)', args: [1] },
+      ]);
+    });
+
+    it('should read the ERC20 balance of an account', async () => {
+      const { readContract, calls } = stubReader({ balanceOf: 1_000n });
+
+      expect(await resolveArgument({ type: 'balance', token: usdc, account: treasury }, readContract)).to.equal(1_000n);
+      expect(calls).to.have.length(1);
+      expect(calls[0].address).to.equal(usdc);
+      expect(calls[0].args).to.deep.equal([treasury]);
+    });
+
+    it('should ABI encode nested arguments', async () => {
+      const { readContract } = stubReader({ balanceOf: 1_000n });
+      const source: ArgumentSource = {
+        type: 'encode',
+        types: ['address', 'uint256'],
+        args: [
+          { type: 'static', value: treasury },
+          { type: 'balance', token: usdc, account: treasury },
+        ],
+      };
+
+      expect(await resolveArgument(source, readContract)).to.equal(
+        ethers.AbiCoder.defaultAbiCoder().encode(['address', 'uint256'], [treasury, 1_000n]),
+      );
+    });
+
+    it('should reject an address source resolving to something else', async () => {
+      const { readContract } = stubReader({ getSlice: 7n });
+      const source: ArgumentSource = {
+        type: 'call',
+        to: { type: 'call', to: treasury, function: 'getSlice() view returns (address)' },
+        function: 'rebalance()',
+      };
+
+      await expect(resolveArgument(source, readContract)).to.be.rejectedWith('Invalid address: 7');
+      await expect(
+        resolveArgument({ type: 'balance', token: 'usdc', account: treasury }, readContract),
+      ).to.be.rejectedWith('Invalid address: usdc');
+    });
+
+    it('should reject an unknown source', async () => {
+      const { readContract } = stubReader({});
+      const source = { type: 'env', name: 'USDC' } as unknown as ArgumentSource;
+
+      await expect(resolveArgument(source, readContract)).to.be.rejectedWith(
+        'Unknown argument source: {"type":"env","name":"USDC"}',
+      );
+    });
+  });
+
+  describe('encodeTaskPayload', () => {
+    it('should encode the calldata and the data passed to executeTask', async () => {
+      const { readContract } = stubReader({ balanceOf: 1_000n });
+      const definition: TaskPayloadDefinition = {
+        function: performUpkeep,
+        args: [{ type: 'encode', types: ['uint256'], args: [{ type: 'balance', token: usdc, account: treasury }] }],
+      };
+
+      const { calldata, data } = await encodeTaskPayload(definition, performUpkeepSelector, readContract);
+
+      const performData = ethers.AbiCoder.defaultAbiCoder().encode(['uint256'], [1_000n]);
+      expect(data).to.equal(performData);
+      expect(calldata).to.equal(new ethers.Interface([performUpkeep]).encodeFunctionData('performUpkeep', [performData]));
+    });
+
+    it('should reject a payload for another selector than the registered one', async () => {
+      const { readContract } = stubReader({});
+      const definition: TaskPayloadDefinition = { function: performUpkeep, args: [{ type: 'static', value: '0x' }] };
+
+      await expect(encodeTaskPayload(definition, '0x12345678', readContract)).to.be.rejectedWith(
+        `Encoded selector ${performUpkeepSelector} (performUpkeep(bytes)) does not match registered selector 0x12345678`,
+      );
+    });
+  });
+
+  describe('getTaskPayloadDefinitions', () => {
+    let payloads: string | undefined;
+
+    const withPayloads = (definitions: unknown) => {
+      process.env.KEEPER_TASK_PAYLOADS = typeof definitions === 'string' ? definitions : JSON.stringify(definitions);
+      return getTaskPayloadDefinitions;
+    };
+
+    before(() => {
+      payloads = process.env.KEEPER_TASK_PAYLOADS;
+    });
+
+    after(() => {
+      if (payloads === undefined) {
+        delete process.env.KEEPER_TASK_PAYLOADS;
+      } else {
+        process.env.KEEPER_TASK_PAYLOADS = payloads;
+      }
+    });
+
+    it('should key the definitions by lowercase task id', () => {
+      const definition = { function: performUpkeep, args: [{ type: 'static', value: '0x' }] };
+
+      expect(withPayloads({ [taskId.toUpperCase().replace('0X', '0x')]: definition })()).to.deep.equal({
+        [taskId]: definition,
+      });
+    });
+
+    it('should reject invalid JSON', () => {
+      expect(withPayloads('{ not json')).to.throw('KEEPER_TASK_PAYLOADS is not valid JSON');
+    });
+
+    it('should reject an invalid task id', () => {
+      expect(withPayloads({ '0x1234': { function: performUpkeep, args: [] } })).to.throw(
+        'Invalid task id in KEEPER_TASK_PAYLOADS: 0x1234',
+      );
+    });
+
+    it('should reject an invalid function fragment', () => {
+      expect(withPayloads({ [taskId]: { function: 'performUpkeep(', args: [] } })).to.throw(
+        `Invalid function fragment for task ${taskId}: performUpkeep(`,
+      );
+    });
+
+    it('should reject a function that does not take a single bytes argument', () => {
+      expect(withPayloads({ [taskId]: { function: 'function rebalance(uint256 amount)', args: [] } })).to.throw(
+        `Task ${taskId}: rebalance(uint256) must take a single bytes argument to be called through the UpKeeper`,
+      );
+    });
+
+    it('should reject a wrong number of argument sources', () => {
+      expect(withPayloads({ [taskId]: { function: performUpkeep, args: [] } })).to.throw(
+        `Task ${taskId}: expected 1 argument source(s)`,
+      );
+      expect(withPayloads({ [taskId]: { function: performUpkeep } })).to.throw(
+        `Task ${taskId}: expected 1 argument source(s)`,
+      );
+    });
+  });
+});